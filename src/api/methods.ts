@@ -3,7 +3,7 @@
  * Type-safe wrappers voor Telegram Bot API methoden
  */
 
-import type { Api } from 'grammy';
+import { InputFile, type Api } from 'grammy';
 import axios from 'axios';
 import type {
   InlineKeyboardMarkup,
@@ -81,6 +81,37 @@ export class ApiMethods {
     );
   }
 
+  /**
+   * Vervang de inline keyboard van een bericht (zonder keyboard: verwijderen)
+   */
+  async editMessageReplyMarkup(
+    chatId: number | string,
+    messageId: number,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<void> {
+    await this.withCount(() => this.api.raw.editMessageReplyMarkup({
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: replyMarkup,
+    } as unknown as Parameters<Api['raw']['editMessageReplyMarkup']>[0]));
+  }
+
+  /**
+   * Verstuur een bestand als document
+   */
+  async sendDocument(
+    chatId: number | string,
+    data: Buffer,
+    fileName: string,
+    caption?: string
+  ): Promise<SendMessageResponse> {
+    return this.withCount(() => this.api.raw.sendDocument({
+      chat_id: chatId,
+      document: new InputFile(data, fileName),
+      caption,
+    } as unknown as Parameters<Api['raw']['sendDocument']>[0]));
+  }
+
   /**
    * Verwijder bericht
    */
@@ -15,6 +15,7 @@ import type { CallbackHandler } from './handlers/callback';
 import type { ZAIService } from '../zai';
 import { routeInlineQuery, type InlineContext } from '../features/inline';
 import { handleFileUpload } from '../features/files';
+import { handleVoiceMessage, type VoiceTranscriber } from '../features/voice';
 import { validateIncomingText } from '../utils/input-validation';
 import { getRateLimitConfig, RateLimiter } from '../utils/rate-limit';
 
@@ -74,6 +75,7 @@ export class TelegramBot {
   private messageHandler?: MessageHandler;
   private commandHandler?: CommandHandler;
   private callbackHandler?: CallbackHandler;
+  private voiceTranscriber?: VoiceTranscriber;
   private rateLimiter = new RateLimiter();
   private rateLimitConfig = getRateLimitConfig();
 
@@ -216,7 +218,7 @@ export class TelegramBot {
 
     const chatId = message.chat.id;
     const userId = message.from?.id ?? 0;
-    const isUpload = !!(message.document || message.photo);
+    const isUpload = !!(message.document || message.photo || message.voice || message.audio);
     const isCommand = !!message.text?.startsWith('/');
     const bucketKind = isUpload ? 'upload' : isCommand ? 'command' : 'message';
 
@@ -242,6 +244,12 @@ export class TelegramBot {
       this.rateLimiter.sweep();
     }
 
+    // Voice notes become a chat message; the transcript never runs as a command
+    if (message.voice || message.audio) {
+      await this.processVoiceMessage(message);
+      return;
+    }
+
     if (message.text) {
       const validated = validateIncomingText(message.text);
       if (!validated.ok) {
@@ -257,8 +265,14 @@ export class TelegramBot {
       }
     }
 
+    // A photo with a question in the caption goes to the LLM (vision) if the handler answers it,
+    // other uploads (and photos it ignores, e.g. unaddressed in a group) are stored
     if (message.document || message.photo) {
-      await handleFileUpload(this.api, message);
+      if (this.messageHandler && await this.isPhotoQuestion(message, this.messageHandler)) {
+        await this.messageHandler.handle(message);
+      } else {
+        await handleFileUpload(this.api, message);
+      }
       return;
     }
 
@@ -276,6 +290,38 @@ export class TelegramBot {
     }
   }
 
+  /**
+   * Of een foto met bijschrift naar de message handler gaat in plaats van opgeslagen te worden
+   */
+  private async isPhotoQuestion(message: Message, handler: MessageHandler): Promise<boolean> {
+    if (!message.photo || !message.caption || message.caption.startsWith('/')) {
+      return false;
+    }
+    return (await handler.accepts?.(message)) ?? true;
+  }
+
+  /**
+   * Verwerk spraakbericht: alleen transcriberen wat de message handler zou beantwoorden
+   */
+  private async processVoiceMessage(message: Message): Promise<void> {
+    const handler = this.messageHandler;
+    if (!this.voiceTranscriber || !handler || !(await handler.accepts?.(message) ?? true)) {
+      return;
+    }
+
+    const transcript = await handleVoiceMessage(this.api, message, this.voiceTranscriber);
+    if (!transcript) {
+      return;
+    }
+
+    const validated = validateIncomingText(transcript);
+    if (!validated.ok) {
+      await this.api.sendText(message.chat.id, `❌ Ongeldig bericht: ${validated.reason || 'onbekende reden'}`);
+      return;
+    }
+    await handler.handle({ ...message, text: validated.value });
+  }
+
   /**
    * Verwerk callback query
    */
@@ -410,6 +456,13 @@ export class TelegramBot {
         { command: 'tool', description: '🔧 Custom tools' },
         { command: 'logs', description: '📋 Bot logs bekijken' },
         { command: 'llm', description: '🧠 LLM provider wisselen' },
+        { command: 'usage', description: '📊 Tokengebruik en kosten' },
+        { command: 'context', description: '📚 Gebruik van het contextbudget' },
+        { command: 'persona', description: '🎭 Persona kiezen' },
+        { command: 'compare', description: '⚖️ Providers vergelijken' },
+        { command: 'cancel', description: '⏹ Antwoord stoppen' },
+        { command: 'export', description: '💾 Gesprek exporteren' },
+        { command: 'voice', description: '🎙 Spraakherkenning' },
         
         // Admin (only visible in command hints)
         { command: 'admin', description: '🔐 Admin commands' },
@@ -543,6 +596,13 @@ export class TelegramBot {
     this.callbackHandler = handler;
   }
 
+  /**
+   * Registreer spraakherkenning (zonder worden spraakberichten genegeerd)
+   */
+  setVoiceTranscriber(transcriber?: VoiceTranscriber): void {
+    this.voiceTranscriber = transcriber;
+  }
+
   // ==========================================================================
   // Getters
   // ==========================================================================
@@ -5,6 +5,8 @@
 
 import type { Message } from '../../types/telegram';
 import type { ApiMethods } from '../../api';
+import type { LLMRouter } from '../../llm';
+import { quotaAdminCommand } from '../../features/usage/quotas';
 import { execSync, exec } from 'child_process';
 import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
 import { join } from 'path';
@@ -299,7 +301,8 @@ function npmBuild(): { success: boolean; output: string } {
 export async function adminCommand(
   api: ApiMethods,
   message: Message,
-  args: string[]
+  args: string[],
+  llmRouter?: LLMRouter
 ): Promise<void> {
   const chatId = message.chat.id;
   const userId = message.from?.id ?? 0;
@@ -377,6 +380,11 @@ export async function adminCommand(
     case 'health':
       await healthCheck(api, chatId);
       break;
+
+    case 'quota':
+    case 'quotas':
+      await quotaAdminCommand(api, chatId, args.slice(1), llmRouter);
+      break;
       
     case 'help':
     default:
@@ -410,6 +418,11 @@ async function showAdminHelp(api: ApiMethods, chatId: number): Promise<void> {
 /admin build - Rebuild TypeScript
 /admin update - Pull + Build + Restart
 
+*LLM:*
+/admin quota - Quota overzicht
+/admin quota set <soort> <scope> <limiet> - Quota instellen
+/admin quota remove <soort> [scope] - Quota verwijderen
+
 *Overig:*
 /admin reload - Herlaad configuratie
 /admin broadcast <bericht> - Broadcast naar admins
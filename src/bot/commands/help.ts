@@ -18,8 +18,17 @@ const COMMANDS = `
 /version - Versie informatie
 
 *AI Providers*
-/llm - Kies LLM provider (zai/minimax/mistral/claude-cli)
+/llm - Kies LLM provider (zai/minimax/mistral/anthropic/claude-cli/openai:<naam>)
 /llm model set [provider] <model> - Model wisselen
+/llm health - Provider storingen en latency
+/usage [dag|week|maand] - Tokengebruik en kosten
+/context - Gebruik van het contextbudget
+/persona - Persona (systeemprompt) kiezen of maken
+/compare <prompt> - Zelfde prompt naar alle providers
+/cancel - Lopend antwoord stoppen
+/export [md|json|html] - Gesprek als bestand
+/import - Reply op een JSON-export: gesprek terugzetten
+/voice [lang <code>] - Spraakherkenning en taal van spraakberichten
 /claude - Claude CLI sessiebeheer (alleen als actief)
 /claude_status - Toon Claude CLI sessie info
 /claude_clear - Start nieuwe Claude CLI sessie
@@ -123,6 +132,14 @@ export const DEFAULT_COMMANDS: Record<string, string> = {
   '/status': 'Bot status',
   '/version': 'Versie info',
   '/llm': 'LLM provider kiezen',
+  '/usage': 'Tokengebruik en kosten',
+  '/context': 'Gebruik van het contextbudget',
+  '/persona': 'Persona kiezen',
+  '/compare': 'Providers vergelijken',
+  '/cancel': 'Antwoord stoppen',
+  '/export': 'Gesprek exporteren',
+  '/import': 'Gesprek importeren',
+  '/voice': 'Spraakherkenning',
   '/claude': 'Claude CLI sessie',
   '/claude_status': 'Session status',
   '/claude_clear': 'Nieuwe sessie',
@@ -17,6 +17,12 @@ export interface MessageHandler {
    * Handle message
    */
   handle(message: Message): Promise<void>;
+
+  /**
+   * Whether the handler would answer the message (e.g. group mode), checked before a
+   * voice note is transcribed; without it every message is accepted
+   */
+  accepts?(message: Message): Promise<boolean>;
 }
 
 // =============================================================================
@@ -0,0 +1,127 @@
+/**
+ * Reply Context
+ * Citaten en beantwoorde berichten als context in de prompt, en de groepsmodus (alleen bij reply of mention)
+ */
+
+import type { Message, MessageEntity, User } from '../../types/telegram';
+
+/** Longest quoted text that goes into a prompt */
+const MAX_QUOTE_LENGTH = 2000;
+
+/** Which group messages the bot answers */
+export type GroupMode = 'all' | 'mention';
+
+/** The bot itself, from getMe */
+export interface BotIdentity {
+  id: number;
+  username?: string;
+}
+
+type ReplyOrigin = NonNullable<Message['forward_origin']>;
+
+function displayName(user: User): string {
+  return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username || 'unknown';
+}
+
+function originName(origin: ReplyOrigin): string {
+  switch (origin.type) {
+    case 'user':
+      return displayName(origin.sender_user);
+    case 'hidden_user':
+      return origin.sender_user_name;
+    case 'chat':
+      return origin.sender_chat.title || 'a chat';
+    case 'channel':
+      return origin.chat.title || 'a channel';
+  }
+}
+
+function quoteLines(text: string): string {
+  const trimmed = text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH)}…` : text;
+  return trimmed.split('\n').map((line) => `> ${line}`).join('\n');
+}
+
+function entityText(text: string, entity: MessageEntity): string {
+  return text.slice(entity.offset, entity.offset + entity.length);
+}
+
+/**
+ * Mark blockquotes in the message itself with "> " so the model sees what is quoted
+ */
+function markBlockquotes(text: string, entities: MessageEntity[] = []): string {
+  const quotes = entities
+    .filter((entity) => entity.type === 'blockquote' || entity.type === 'expandable_blockquote')
+    .sort((a, b) => b.offset - a.offset);
+  let result = text;
+  for (const entity of quotes) {
+    result = result.slice(0, entity.offset) + quoteLines(entityText(result, entity)) + result.slice(entity.offset + entity.length);
+  }
+  return result;
+}
+
+/**
+ * Who wrote the message that is replied to
+ */
+function describeReply(message: Message, bot?: BotIdentity): string {
+  const reply = message.reply_to_message;
+  if (reply?.forward_origin) {
+    return `a forwarded message from ${originName(reply.forward_origin)}`;
+  }
+  if (reply?.from && bot && reply.from.id === bot.id) {
+    return 'your earlier message';
+  }
+  if (reply?.from) {
+    return `a message from ${displayName(reply.from)}`;
+  }
+  if (message.external_reply) {
+    return `a message from ${originName(message.external_reply.origin)} in another chat`;
+  }
+  return 'a message';
+}
+
+/**
+ * Prompt with the replied-to message (or the selected quote) in front of the user's text
+ */
+export function withReplyContext(message: Message, text: string, bot?: BotIdentity): string {
+  const prompt = markBlockquotes(text, message.entities || message.caption_entities);
+  const reply = message.reply_to_message;
+  // Every message in a forum topic "replies" to the topic's first message
+  const repliedText = reply && !reply.forum_topic_created ? reply.text || reply.caption : undefined;
+  const quoted = message.quote?.text || repliedText;
+  if (!quoted) {
+    return prompt;
+  }
+
+  const label = message.quote ? 'Quoted from' : 'Replying to';
+  return `[${label} ${describeReply(message, bot)}]\n${quoteLines(quoted)}\n\n${prompt}`;
+}
+
+/**
+ * Whether a group message is a reply to the bot or mentions it
+ */
+export function isAddressedToBot(message: Message, bot: BotIdentity): boolean {
+  if (message.reply_to_message?.from?.id === bot.id) {
+    return true;
+  }
+  const username = bot.username?.toLowerCase();
+  // Entities belong to their own text: a voice note can carry a transcript next to its caption
+  const mentions = (text = '', entities: MessageEntity[] = []) => entities.some((entity) =>
+    (entity.type === 'mention' && !!username && entityText(text, entity).toLowerCase() === `@${username}`)
+    || (entity.type === 'text_mention' && entity.user?.id === bot.id));
+  return mentions(message.text, message.entities) || mentions(message.caption, message.caption_entities);
+}
+
+/**
+ * Remove "@botname" from the text, it means nothing to the model
+ */
+export function stripBotMention(text: string, bot: BotIdentity): string {
+  if (!bot.username) {
+    return text;
+  }
+  const escaped = bot.username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`@${escaped}\\b`, 'gi'), '').replace(/ {2,}/g, ' ').trim();
+}
+
+export function isGroupChat(message: Message): boolean {
+  return message.chat.type === 'group' || message.chat.type === 'supergroup';
+}
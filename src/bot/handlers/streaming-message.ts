@@ -3,7 +3,7 @@
  * Handler voor streaming berichten met multi-LLM integratie
  */
 
-import type { Message } from '../../types/telegram';
+import type { CallbackQuery, InlineKeyboardMarkup, Message } from '../../types/telegram';
 import type { ApiMethods } from '../../api';
 import { createLogger } from '../../utils/logger';
 import { StreamStatus, type ToolUseEvent, type ToolResultEvent, getErrorSuggestions, splitIntoChunks } from '../../streaming/types';
@@ -12,10 +12,75 @@ import { getStatusManager } from '../../streaming/status';
 import { getToolVisibilityManager } from '../../streaming/tool-visibility';
 import { getConfirmationManager } from '../../streaming/confirmation';
 import type { MessageHandler } from './message';
-import type { LLMRouter } from '../../llm';
+import {
+  withReplyContext,
+  isAddressedToBot,
+  isGroupChat,
+  stripBotMention,
+  type BotIdentity,
+  type GroupMode,
+} from './reply-context';
+import {
+  LLMQuotaExceededError,
+  LLMToolRejectedError,
+  LLMCancelledError,
+  LLMQueueFullError,
+  LLMNoVisionProviderError,
+  createLLMRequestQueue,
+  type LLMImage,
+  type LLMProvider,
+  type LLMRequestQueue,
+  type LLMRouter,
+  type QueueTicket,
+  type RequestQueueOptions,
+} from '../../llm';
 
 const logger = createLogger({ prefix: 'StreamingHandler' });
 
+/** Callback data of the Stop button under the streaming status message */
+export const STOP_CALLBACK_DATA = 'stream_stop';
+
+const STOP_KEYBOARD = {
+  inline_keyboard: [[{ text: '⏹ Stop', callback_data: STOP_CALLBACK_DATA }]],
+};
+
+/** Callback prefix of the buttons under a finished answer */
+export const ANSWER_CALLBACK_PREFIX = 'ans_';
+
+/** Largest photo that is downloaded for a vision model */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Sent as the next user turn by the continue button */
+const CONTINUE_PROMPT = 'Ga verder waar je gebleven was.';
+
+/**
+ * Queue merge key: plain text messages of one sender merge, a photo or reply keeps its own turn
+ * because the merged prompt runs with the first message
+ */
+function mergeKey(message: Message): string | undefined {
+  if (message.photo || message.reply_to_message || message.from === undefined) {
+    return undefined;
+  }
+  return String(message.from.id);
+}
+
+/** The most recent answer of a chat, the only one whose buttons work */
+interface LastAnswer {
+  /** Message that asked the question (chat and user for the follow-up) */
+  message: Message;
+  prompt: string;
+  provider: LLMProvider;
+  /** Message carrying the buttons (last chunk of the answer) */
+  messageId: number;
+}
+
+export interface StreamingMessageHandlerOptions {
+  /** Per-chat queue in front of the router */
+  queue?: RequestQueueOptions;
+  /** 'mention': in groups only answer replies to the bot and messages mentioning it (default: 'all') */
+  groupMode?: GroupMode;
+}
+
 // =============================================================================
 // Streaming Message Handler
 // =============================================================================
@@ -25,26 +90,179 @@ export class StreamingMessageHandler implements MessageHandler {
   private statusManager = getStatusManager();
   private toolVisibility = getToolVisibilityManager();
   private confirmationManager: ReturnType<typeof getConfirmationManager>;
+  /** Abort controllers of the requests that are still generating, per chat */
+  private inFlight = new Map<number, Set<AbortController>>();
+  private queue: LLMRequestQueue;
+  private lastAnswers = new Map<number, LastAnswer>();
+  private groupMode: GroupMode;
+  private botIdentity?: Promise<BotIdentity | undefined>;
 
   constructor(
     private api: ApiMethods,
-    private llmRouter: LLMRouter
+    private llmRouter: LLMRouter,
+    options: StreamingMessageHandlerOptions = {}
   ) {
     this.messageStreamer = new MessageStreamer(api);
     this.confirmationManager = getConfirmationManager(api);
+    this.queue = createLLMRequestQueue(options.queue);
+    this.groupMode = options.groupMode || 'all';
   }
 
+  /**
+   * Queue the message; returns once it is queued, not when the answer is done,
+   * so /cancel and the Stop button keep working during a long answer
+   */
   async handle(message: Message): Promise<void> {
-    const chatId = message.chat.id;
-    const text = message.text || '';
+    // A photo only reaches this handler with a caption, a voice note with its transcript as text
+    const text = message.text || message.caption || '';
+    const isVoice = !!(message.voice || message.audio);
+
+    if (!text || (text.startsWith('/') && !isVoice)) {
+      // Skip commands (handled by command handler); a spoken "/..." is just a prompt
+      return;
+    }
+    if (!(await this.accepts(message))) {
+      return;
+    }
+
+    const bot = await this.getBotIdentity();
+    const inGroup = isGroupChat(message);
+    let prompt = withReplyContext(message, text, bot);
+    if (inGroup && bot) {
+      prompt = stripBotMention(prompt, bot);
+    }
+    if (prompt) {
+      await this.enqueue(message, prompt);
+    }
+  }
 
-    if (!text || text.startsWith('/')) {
-      // Skip commands (handled by command handler)
+  /**
+   * In 'mention' group mode only replies to the bot and messages mentioning it are answered
+   */
+  async accepts(message: Message): Promise<boolean> {
+    if (!isGroupChat(message) || this.groupMode !== 'mention') {
+      return true;
+    }
+    const bot = await this.getBotIdentity();
+    return !!bot && isAddressedToBot(message, bot);
+  }
+
+  /**
+   * Id and username of the bot, fetched once
+   */
+  private getBotIdentity(): Promise<BotIdentity | undefined> {
+    if (!this.botIdentity) {
+      this.botIdentity = this.api.getMe()
+        .then((me): BotIdentity => ({ id: me.id, username: me.username }))
+        .catch((error) => {
+          logger.warn('Failed to fetch bot identity', { error });
+          this.botIdentity = undefined;
+          return undefined;
+        });
+    }
+    return this.botIdentity;
+  }
+
+  /**
+   * Handle the regenerate, continue and other-provider buttons under the last answer
+   */
+  async handleAnswerCallback(callbackQuery: CallbackQuery): Promise<void> {
+    const data = (callbackQuery.data || '').slice(ANSWER_CALLBACK_PREFIX.length);
+    const [action, ...rest] = data.split(':');
+    const target = rest.join(':');
+    const chatId = callbackQuery.message?.chat.id;
+    const last = chatId !== undefined ? this.lastAnswers.get(chatId) : undefined;
+
+    if (chatId === undefined || !last || callbackQuery.message?.message_id !== last.messageId) {
+      await this.api.answerCallbackQuery({
+        callback_query_id: callbackQuery.id,
+        text: 'Alleen het laatste antwoord heeft nog knoppen',
+      });
       return;
     }
 
+    switch (action) {
+      case 'regen': {
+        // Replace the answer: the old turn leaves the history before the prompt is asked again
+        this.llmRouter.removeLastExchange(String(chatId), last.provider);
+        await this.closeAnswer(chatId);
+        await this.api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: '🔄 Nieuw antwoord...' });
+        await this.enqueue(last.message, last.prompt);
+        return;
+      }
+      case 'more': {
+        await this.closeAnswer(chatId);
+        await this.api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: '➡️ Verder...' });
+        // The photo was already seen in the previous turn
+        await this.enqueue({ ...last.message, photo: undefined, reply_to_message: undefined }, CONTINUE_PROMPT);
+        return;
+      }
+      case 'switch':
+      case 'back': {
+        const keyboard = action === 'switch' ? this.providerKeyboard(last.provider) : this.answerKeyboard(last.provider);
+        await this.api.answerCallbackQuery({ callback_query_id: callbackQuery.id });
+        await this.api.editMessageReplyMarkup(chatId, last.messageId, keyboard);
+        return;
+      }
+      case 'use': {
+        const provider = this.llmRouter.normalizeProvider(target);
+        if (!provider || !this.llmRouter.isProviderAvailable(provider)) {
+          await this.api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: '❌ Provider niet beschikbaar' });
+          return;
+        }
+        this.llmRouter.removeLastExchange(String(chatId), last.provider);
+        this.llmRouter.setProvider(String(chatId), provider);
+        await this.closeAnswer(chatId);
+        await this.api.answerCallbackQuery({
+          callback_query_id: callbackQuery.id,
+          text: `🔀 ${this.llmRouter.getProviderLabel(provider)} is nu de provider van deze chat`,
+        });
+        await this.enqueue(last.message, last.prompt);
+        return;
+      }
+      default:
+        await this.api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: 'Onbekende actie' });
+    }
+  }
+
+  /**
+   * Queue a prompt for the chat and report the queue position
+   */
+  private async enqueue(message: Message, text: string): Promise<void> {
+    const chatId = message.chat.id;
+
+    let ticket: QueueTicket;
+    try {
+      ticket = this.queue.enqueue(String(chatId), text, (prompt) => this.process(message, prompt), mergeKey(message));
+    } catch (error) {
+      if (error instanceof LLMQueueFullError) {
+        await this.api.sendMessage({
+          chat_id: chatId,
+          text: `⛔ Er wachten al ${error.maxDepth} berichten. Wacht tot die beantwoord zijn of stop ze met /cancel.`,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    // A new turn follows; the buttons of the previous answer would change the wrong turn
+    await this.closeAnswer(chatId);
+    if (ticket.position > 1) {
+      await this.sendQueueNotice(chatId, ticket);
+    }
+  }
+
+  /**
+   * Stream the answer to a (merged) prompt
+   */
+  private async process(message: Message, text: string): Promise<void> {
+    const chatId = message.chat.id;
+
     logger.debug('Handling streaming message', { chatId, textLength: text.length });
 
+    let sentStatusMessageId: number | undefined;
+    let accumulatedContent = '';
+    const controller = this.startRequest(chatId);
     try {
       const provider = this.llmRouter.getProvider(String(chatId));
       const providerLabel = this.llmRouter.getProviderLabel(provider);
@@ -60,14 +278,16 @@ export class StreamingMessageHandler implements MessageHandler {
         chat_id: chatId,
         text: initialStatus,
         parse_mode: 'Markdown',
+        reply_markup: STOP_KEYBOARD,
       });
 
       const statusMessageId = statusResult.message_id;
       this.statusManager.setMessageId(String(chatId), statusMessageId);
+      sentStatusMessageId = statusMessageId;
 
-      // Process message with streaming callbacks
-      let accumulatedContent = '';
+      const images = await this.downloadImages(message);
 
+      // Process message with streaming callbacks
       await this.llmRouter.processMessageStream(String(chatId), text, {
         onStatusChange: async (status: StreamStatus) => {
           this.statusManager.updateStatus(String(chatId), status);
@@ -77,35 +297,9 @@ export class StreamingMessageHandler implements MessageHandler {
         onToolUse: async (tool: ToolUseEvent) => {
           logger.debug('Tool use detected', { tool: tool.name });
 
-          // Check if confirmation required
-          if (this.confirmationManager.requiresConfirmation(tool)) {
-            logger.debug('Confirmation required for tool', { tool: tool.name });
-
-            // Pause streaming state
-            this.statusManager.updateStatus(String(chatId), StreamStatus.CONFIRMATION);
-            this.statusManager.setCurrentTool(String(chatId), tool.name);
-
-            // Request user confirmation
-            const approved = await this.confirmationManager.requestConfirmation(tool, chatId);
-
-            if (!approved) {
-              // User rejected - terminate the stream
-              logger.debug('User rejected tool use', { tool: tool.name });
-              this.statusManager.updateStatus(String(chatId), StreamStatus.ERROR, 'Operation rejected by user');
-              await this.updateStatusMessage(chatId, statusMessageId);
-
-              // Send cancellation message
-              await this.api.sendMessage({
-                chat_id: chatId,
-                text: '❌ Operation cancelled',
-              });
-
-              this.statusManager.clearState(String(chatId));
-              throw new Error('Operation rejected by user');
-            }
-
-            // User approved - continue
-            logger.debug('User approved tool use', { tool: tool.name });
+          // Check if confirmation required (the Claude CLI asks via onPermissionRequest before the tool runs)
+          if (!tool.gated && this.confirmationManager.requiresConfirmation(tool)) {
+            await this.confirmTool(chatId, statusMessageId, tool);
           }
 
           this.statusManager.setCurrentTool(String(chatId), tool.name);
@@ -120,9 +314,17 @@ export class StreamingMessageHandler implements MessageHandler {
             message_id: statusMessageId,
             text: currentText + '\n\n' + toolDisplay,
             parse_mode: 'Markdown',
+            reply_markup: this.stopKeyboard(chatId),
           });
         },
 
+        onPermissionRequest: async (tool: ToolUseEvent) => {
+          logger.debug('Claude CLI asks permission for tool', { tool: tool.name });
+          await this.confirmTool(chatId, statusMessageId, tool);
+          this.statusManager.updateStatus(String(chatId), StreamStatus.TOOL_USE);
+          await this.updateStatusMessage(chatId, statusMessageId);
+        },
+
         onToolResult: async (result: ToolResultEvent) => {
           logger.debug('Tool result received', { toolId: result.toolUseId, contentLength: result.content.length });
 
@@ -138,6 +340,7 @@ export class StreamingMessageHandler implements MessageHandler {
             message_id: statusMessageId,
             text: currentText + '\n\n' + toolResultDisplay,
             parse_mode: 'Markdown',
+            reply_markup: this.stopKeyboard(chatId),
           });
 
           this.statusManager.setCurrentTool(String(chatId), '');
@@ -155,6 +358,7 @@ export class StreamingMessageHandler implements MessageHandler {
               maxLength: 3800,
               parseMode: 'Markdown',
               throttleMs: 400,
+              replyMarkup: this.stopKeyboard(chatId),
             }
           );
         },
@@ -179,16 +383,63 @@ export class StreamingMessageHandler implements MessageHandler {
 
         onComplete: async (result) => {
           logger.debug('Stream complete', { chatId, textLength: result.text.length });
+          // Nothing left to stop; drop pending edits that would bring the Stop button back
+          this.finishRequest(chatId, controller);
+          this.messageStreamer.cleanup(chatId);
 
           this.statusManager.updateStatus(String(chatId), StreamStatus.COMPLETE);
           await this.updateStatusMessage(chatId, statusMessageId);
 
-          await this.finalizeResponse(chatId, statusMessageId, accumulatedContent);
+          const provider = (result.provider || this.llmRouter.getProvider(String(chatId))) as LLMProvider;
+          const answerMessageId = await this.finalizeResponse(
+            chatId,
+            statusMessageId,
+            accumulatedContent,
+            this.answerKeyboard(provider)
+          );
+          this.lastAnswers.set(chatId, { message, prompt: text, provider, messageId: answerMessageId });
           this.statusManager.clearState(String(chatId));
         },
+      }, {
+        userId: message.from?.id !== undefined ? String(message.from.id) : undefined,
+        onNotice: (notice: string) => {
+          this.api.sendMessage({ chat_id: chatId, text: `ℹ️ ${notice}` }).catch((error) => {
+            logger.warn('Failed to send quota notice', { error, chatId });
+          });
+        },
+        signal: controller.signal,
+        images,
       });
 
     } catch (error) {
+      if (error instanceof LLMQuotaExceededError) {
+        await this.replaceStatus(chatId, sentStatusMessageId, `⛔ Limiet bereikt\n\n${error.message}`);
+        this.statusManager.clearState(String(chatId));
+        this.messageStreamer.cleanup(chatId);
+        return;
+      }
+      if (error instanceof LLMNoVisionProviderError) {
+        await this.replaceStatus(
+          chatId,
+          sentStatusMessageId,
+          '🖼 Geen van de beschikbare providers kan foto\'s bekijken. Stel een vision-model in (bijv. MISTRAL_VISION_MODEL) of stuur de vraag als tekst.'
+        );
+        this.statusManager.clearState(String(chatId));
+        this.messageStreamer.cleanup(chatId);
+        return;
+      }
+      if (error instanceof LLMToolRejectedError) {
+        // Already reported as "Operation cancelled"
+        this.messageStreamer.cleanup(chatId);
+        return;
+      }
+      if (error instanceof LLMCancelledError) {
+        this.messageStreamer.cleanup(chatId);
+        await this.sendCancelled(chatId, sentStatusMessageId, accumulatedContent);
+        this.statusManager.clearState(String(chatId));
+        return;
+      }
+
       logger.error('Error handling streaming message', { error, chatId });
 
       const errorMessage = error instanceof Error ? error.message : 'Onbekende fout';
@@ -211,7 +462,211 @@ export class StreamingMessageHandler implements MessageHandler {
       // Clean up
       this.statusManager.clearState(String(chatId));
       this.messageStreamer.cleanup(chatId);
+    } finally {
+      this.finishRequest(chatId, controller);
+    }
+  }
+
+  /**
+   * Stop the answers that are still being generated in a chat (/cancel and the Stop button)
+   * @param dropQueued Also drop the messages waiting in the queue
+   * @returns false when nothing was running or waiting
+   */
+  cancel(chatId: number, dropQueued = true): boolean {
+    const dropped = dropQueued ? this.queue.clear(String(chatId)) : 0;
+    const controllers = this.inFlight.get(chatId);
+    if (!controllers || controllers.size === 0) {
+      return dropped > 0;
+    }
+    for (const controller of controllers) {
+      controller.abort();
+    }
+    this.inFlight.delete(chatId);
+    return true;
+  }
+
+  /**
+   * Buttons under a finished answer; the Claude CLI keeps its own history, so no regenerate there
+   */
+  private answerKeyboard(provider: LLMProvider): InlineKeyboardMarkup {
+    const buttons = [
+      { text: '➡️ Verder', callback_data: `${ANSWER_CALLBACK_PREFIX}more` },
+      { text: '🔀 Andere provider', callback_data: `${ANSWER_CALLBACK_PREFIX}switch` },
+    ];
+    if (provider !== 'claude-cli') {
+      buttons.unshift({ text: '🔄 Opnieuw', callback_data: `${ANSWER_CALLBACK_PREFIX}regen` });
+    }
+    return { inline_keyboard: [buttons] };
+  }
+
+  /**
+   * Available providers other than the one that answered, two per row
+   */
+  private providerKeyboard(current: LLMProvider): InlineKeyboardMarkup {
+    const buttons = this.llmRouter.getProviderStatus()
+      .filter((status) => status.available && status.provider !== current)
+      .map((status) => ({ text: status.label, callback_data: `${ANSWER_CALLBACK_PREFIX}use:${status.provider}` }));
+    const rows = [];
+    for (let i = 0; i < buttons.length; i += 2) {
+      rows.push(buttons.slice(i, i + 2));
+    }
+    rows.push([{ text: '↩️ Terug', callback_data: `${ANSWER_CALLBACK_PREFIX}back` }]);
+    return { inline_keyboard: rows };
+  }
+
+  /**
+   * Remove the buttons of the chat's last answer
+   */
+  private async closeAnswer(chatId: number): Promise<void> {
+    const last = this.lastAnswers.get(chatId);
+    if (!last) {
+      return;
+    }
+    this.lastAnswers.delete(chatId);
+    try {
+      await this.api.editMessageReplyMarkup(chatId, last.messageId);
+    } catch (error) {
+      logger.warn('Failed to remove answer buttons', { error, chatId });
+    }
+  }
+
+  /**
+   * Resolves once every queued message of the chat is answered
+   */
+  whenIdle(chatId: number): Promise<void> {
+    return this.queue.whenIdle(String(chatId));
+  }
+
+  /**
+   * Show the queue position; removed when the message gets its turn
+   */
+  private async sendQueueNotice(chatId: number, ticket: QueueTicket): Promise<void> {
+    const text = ticket.merged
+      ? `⏳ Samengevoegd met je vorige bericht (#${ticket.position} in de wachtrij)`
+      : `⏳ #${ticket.position} in de wachtrij`;
+    const notice = await this.api.sendMessage({ chat_id: chatId, text });
+
+    ticket.started
+      .then(async (started) => {
+        if (started) {
+          await this.api.deleteMessage(chatId, notice.message_id);
+        } else {
+          await this.api.editMessageText({ chat_id: chatId, message_id: notice.message_id, text: '⏹ Geannuleerd' });
+        }
+      })
+      .catch((error) => {
+        logger.warn('Failed to update queue notice', { error, chatId });
+      });
+  }
+
+  private startRequest(chatId: number): AbortController {
+    const controller = new AbortController();
+    const controllers = this.inFlight.get(chatId) || new Set<AbortController>();
+    controllers.add(controller);
+    this.inFlight.set(chatId, controllers);
+    return controller;
+  }
+
+  private finishRequest(chatId: number, controller: AbortController): void {
+    const controllers = this.inFlight.get(chatId);
+    controllers?.delete(controller);
+    if (controllers?.size === 0) {
+      this.inFlight.delete(chatId);
+    }
+  }
+
+  /**
+   * Stop button while an answer is being generated in the chat
+   */
+  private stopKeyboard(chatId: number): object | undefined {
+    return this.inFlight.has(chatId) ? STOP_KEYBOARD : undefined;
+  }
+
+  /**
+   * Replace the status message with the partial answer and a stop notice
+   */
+  private async sendCancelled(chatId: number, statusMessageId: number | undefined, content: string): Promise<void> {
+    const partial = content.length > 3800 ? `${content.slice(0, 3800)}…` : content;
+    const text = partial ? `${partial}\n\n⏹ Gestopt` : '⏹ Gestopt';
+    if (statusMessageId !== undefined) {
+      try {
+        // Plain text: a cut-off answer may contain unbalanced Markdown
+        await this.api.editMessageText({ chat_id: chatId, message_id: statusMessageId, text });
+        return;
+      } catch (error) {
+        logger.warn('Failed to edit status message after cancel', { error, chatId });
+      }
     }
+    await this.api.sendMessage({ chat_id: chatId, text });
+  }
+
+  /**
+   * Replace the status message with a notice (no error suggestions)
+   */
+  private async replaceStatus(chatId: number, statusMessageId: number | undefined, text: string): Promise<void> {
+    if (statusMessageId !== undefined) {
+      try {
+        await this.api.editMessageText({ chat_id: chatId, message_id: statusMessageId, text });
+        return;
+      } catch (error) {
+        logger.warn('Failed to edit status message for notice', { error, chatId });
+      }
+    }
+    await this.api.sendMessage({ chat_id: chatId, text });
+  }
+
+  /**
+   * Photo of the message, or of the message it replies to, as base64 for a vision model
+   */
+  private async downloadImages(message: Message): Promise<LLMImage[] | undefined> {
+    const sizes = message.photo || message.reply_to_message?.photo;
+    if (!sizes?.length) {
+      return undefined;
+    }
+
+    // Sizes go from small to large; take the largest that is not too big
+    const fitting = sizes.filter((size) => !size.file_size || size.file_size <= MAX_IMAGE_BYTES);
+    const photo = fitting[fitting.length - 1] || sizes[0];
+    const file = await this.api.getFile(photo.file_id);
+    if (!file.file_path) {
+      throw new Error('Foto kon niet worden opgehaald');
+    }
+    const data = await this.api.downloadFile(file.file_path);
+    return [{ mimeType: 'image/jpeg', data: data.toString('base64') }];
+  }
+
+  /**
+   * Ask the user to approve a tool call
+   * @throws LLMToolRejectedError when rejected, which ends the request
+   */
+  private async confirmTool(chatId: number, statusMessageId: number, tool: ToolUseEvent): Promise<void> {
+    logger.debug('Confirmation required for tool', { tool: tool.name });
+
+    // Pause streaming state
+    this.statusManager.updateStatus(String(chatId), StreamStatus.CONFIRMATION);
+    this.statusManager.setCurrentTool(String(chatId), tool.name);
+
+    // Request user confirmation
+    const approved = await this.confirmationManager.requestConfirmation(tool, chatId);
+
+    if (!approved) {
+      // User rejected - terminate the stream
+      logger.debug('User rejected tool use', { tool: tool.name });
+      this.statusManager.updateStatus(String(chatId), StreamStatus.ERROR, 'Operation rejected by user');
+      await this.updateStatusMessage(chatId, statusMessageId);
+
+      // Send cancellation message
+      await this.api.sendMessage({
+        chat_id: chatId,
+        text: '❌ Operation cancelled',
+      });
+
+      this.statusManager.clearState(String(chatId));
+      throw new LLMToolRejectedError(tool.name);
+    }
+
+    // User approved - continue
+    logger.debug('User approved tool use', { tool: tool.name });
   }
 
   /**
@@ -226,6 +681,7 @@ export class StreamingMessageHandler implements MessageHandler {
         message_id: messageId,
         text: statusText,
         parse_mode: 'Markdown',
+        reply_markup: this.stopKeyboard(chatId),
       });
     } catch (error) {
       // Log but don't throw - transient errors are ok
@@ -233,11 +689,16 @@ export class StreamingMessageHandler implements MessageHandler {
     }
   }
 
+  /**
+   * Show the answer in the status message (and follow-up messages when it is long)
+   * @returns id of the message that got the buttons
+   */
   private async finalizeResponse(
     chatId: number,
     statusMessageId: number,
-    content: string
-  ): Promise<void> {
+    content: string,
+    replyMarkup: InlineKeyboardMarkup
+  ): Promise<number> {
     const text = content || this.statusManager.generateStatusDisplay(String(chatId));
     const chunks = splitIntoChunks(text, 3800);
 
@@ -247,8 +708,9 @@ export class StreamingMessageHandler implements MessageHandler {
         message_id: statusMessageId,
         text: text,
         parse_mode: 'Markdown',
+        reply_markup: replyMarkup,
       });
-      return;
+      return statusMessageId;
     }
 
     const firstChunk = chunks[0].content + '\n\n_...continuing..._';
@@ -259,13 +721,18 @@ export class StreamingMessageHandler implements MessageHandler {
       parse_mode: 'Markdown',
     });
 
+    let lastMessageId = statusMessageId;
     for (let i = 1; i < chunks.length; i++) {
-      await this.api.sendMessage({
+      const isLast = i === chunks.length - 1;
+      const sent = await this.api.sendMessage({
         chat_id: chatId,
         text: chunks[i].content,
         parse_mode: 'Markdown',
+        ...(isLast ? { reply_markup: replyMarkup } : {}),
       });
+      lastMessageId = sent.message_id;
     }
+    return lastMessageId;
   }
 
   /**
@@ -282,7 +749,8 @@ export class StreamingMessageHandler implements MessageHandler {
 
 export function createStreamingMessageHandler(
   api: ApiMethods,
-  llmRouter: LLMRouter
+  llmRouter: LLMRouter,
+  options: StreamingMessageHandlerOptions = {}
 ): StreamingMessageHandler {
-  return new StreamingMessageHandler(api, llmRouter);
+  return new StreamingMessageHandler(api, llmRouter, options);
 }
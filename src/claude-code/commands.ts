@@ -6,7 +6,8 @@
 import type { Message } from '../types/telegram';
 import type { ApiMethods } from '../api';
 import type { ClaudeCodeService } from './service';
-import type { ClaudeCodeSession } from './types';
+import type { ClaudeCodeSession, ClaudeCodeTurn, ClaudeToolPolicy, ClaudeToolPolicyScope } from './types';
+import { TOOL_PRESETS, allowTools, createToolPolicy, denyTools, isToolPreset } from './tool-policy';
 
 // =============================================================================
 // Session Commands
@@ -22,10 +23,22 @@ export async function claudeNewSessionCommand(
   service: ClaudeCodeService
 ): Promise<void> {
   const chatId = message.chat.id;
-  const sessionName = args.join(' ') || undefined;
+  const dirIndex = args.indexOf('--dir');
+  const workingDir = dirIndex >= 0 ? args[dirIndex + 1] : undefined;
+  if (dirIndex >= 0 && !workingDir) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `⚠️ Geef een map op: /claude new --dir <pad> [naam]
+
+Toegestaan: ${service.getAllowedRoots().join(', ')}`,
+    });
+    return;
+  }
+  const nameArgs = dirIndex >= 0 ? [...args.slice(0, dirIndex), ...args.slice(dirIndex + 2)] : args;
+  const sessionName = nameArgs.join(' ') || undefined;
 
   try {
-    const session = await service.startNewSession(String(chatId), sessionName);
+    const session = await service.startNewSession(String(chatId), sessionName, workingDir);
     
     await api.sendMessage({
       chat_id: chatId,
@@ -33,6 +46,7 @@ export async function claudeNewSessionCommand(
 
 📝 Naam: ${session.name}
 🔑 ID: \`${session.id}\`
+📁 Map: \`${session.workingDir}\`
 
 Je kunt nu berichten sturen en Claude Code zal reageren.`,
       parse_mode: 'Markdown',
@@ -70,13 +84,20 @@ Stuur een bericht om automatisch een sessie te starten, of gebruik:
     }
 
     let text = '📋 *Jouw Claude Sessies:*\n\n';
+    const names = new Map(sessions.map((session) => [session.id, session.name]));
 
-    for (const session of sessions) {
+    for (const { session, depth } of orderByFork(sessions)) {
       const active = session.isActive ? '🟢' : '⚪';
       const date = session.lastActivityAt.toLocaleDateString('nl-NL');
-      text += `${active} *${session.name}*\n`;
-      text += `   ID: \`${session.id}\`\n`;
-      text += `   Berichten: ${session.messageCount} | Laatst: ${date}\n\n`;
+      const indent = '   '.repeat(depth + 1);
+      const forks = sessions.filter((s) => s.parentId === session.id).length;
+      text += `${'   '.repeat(depth)}${depth > 0 ? '↳ ' : ''}${active} *${session.name}*\n`;
+      text += `${indent}ID: \`${session.id}\`\n`;
+      if (session.parentId) {
+        text += `${indent}Fork van: ${names.get(session.parentId) || `\`${session.parentId}\``}\n`;
+      }
+      text += `${indent}Map: \`${session.workingDir}\`\n`;
+      text += `${indent}Berichten: ${session.messageCount}${forks > 0 ? ` | Forks: ${forks}` : ''} | Laatst: ${date}\n\n`;
     }
 
     text += `\n_Gebruik /claude switch <id> om te wisselen_`;
@@ -94,6 +115,107 @@ Stuur een bericht om automatisch een sessie te starten, of gebruik:
   }
 }
 
+/**
+ * Sessions with each fork right below its parent
+ */
+function orderByFork(sessions: ClaudeCodeSession[]): Array<{ session: ClaudeCodeSession; depth: number }> {
+  const ids = new Set(sessions.map((session) => session.id));
+  const ordered: Array<{ session: ClaudeCodeSession; depth: number }> = [];
+  const add = (session: ClaudeCodeSession, depth: number) => {
+    ordered.push({ session, depth });
+    for (const child of sessions.filter((s) => s.parentId === session.id)) {
+      add(child, depth + 1);
+    }
+  };
+
+  // Forks of a deleted session are shown at the top level
+  for (const session of sessions.filter((s) => !s.parentId || !ids.has(s.parentId))) {
+    add(session, 0);
+  }
+  return ordered;
+}
+
+/**
+ * /claude fork [naam] - Nieuwe sessie vanaf het huidige punt van de actieve sessie
+ */
+export async function claudeForkCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  service: ClaudeCodeService
+): Promise<void> {
+  const chatId = message.chat.id;
+
+  try {
+    const parent = await service.getActiveSession(String(chatId));
+    const session = await service.forkSession(String(chatId), args.join(' ') || undefined);
+
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `🍴 Sessie geforkt!
+
+📝 Naam: ${session.name}
+🔑 ID: \`${session.id}\`
+↩️ Fork van: ${parent?.name || session.parentId}
+
+Je volgende bericht gaat verder vanaf hetzelfde punt. Terug naar het origineel met:
+/claude switch ${session.parentId}`,
+      parse_mode: 'Markdown',
+    });
+  } catch (error) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `❌ Kon sessie niet forken: ${(error as Error).message}`,
+    });
+  }
+}
+
+/**
+ * /claude rename <naam> - Hernoem de actieve sessie
+ */
+export async function claudeRenameCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  service: ClaudeCodeService
+): Promise<void> {
+  const chatId = message.chat.id;
+  const name = args.join(' ').trim();
+
+  if (!name) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `⚠️ Geef een nieuwe naam op.
+
+Gebruik: /claude rename <naam>`,
+    });
+    return;
+  }
+
+  try {
+    const session = await service.renameSession(String(chatId), name);
+
+    if (!session) {
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `⚠️ Je hebt geen actieve sessie.`,
+      });
+      return;
+    }
+
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `✏️ Sessie hernoemd naar: *${session.name}*`,
+      parse_mode: 'Markdown',
+    });
+  } catch (error) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `❌ Kon sessie niet hernoemen: ${(error as Error).message}`,
+    });
+  }
+}
+
 /**
  * /claude switch <id> - Wissel naar andere sessie
  */
@@ -253,6 +375,10 @@ export async function claudeCodeStatusCommand(
       text += `🟢 *Actieve Sessie:*\n`;
       text += `   Naam: ${session.name}\n`;
       text += `   ID: \`${session.id}\`\n`;
+      if (session.parentId) {
+        text += `   Fork van: \`${session.parentId}\`\n`;
+      }
+      text += `   Map: \`${session.workingDir}\`\n`;
       text += `   Berichten: ${session.messageCount}\n`;
       text += `   Gestart: ${session.createdAt.toLocaleDateString('nl-NL')}\n`;
       text += `   Laatst actief: ${session.lastActivityAt.toLocaleString('nl-NL')}\n\n`;
@@ -278,6 +404,206 @@ export async function claudeCodeStatusCommand(
   }
 }
 
+const DEFAULT_HISTORY_TURNS = 5;
+const MAX_HISTORY_TURNS = 50;
+/** Room for one Telegram message (max 4096 characters) */
+const MAX_HISTORY_MESSAGE_LENGTH = 3800;
+
+function shorten(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat;
+}
+
+function formatTurn(turn: ClaudeCodeTurn, number: number): string {
+  const details = [
+    turn.createdAt.toLocaleString('nl-NL'),
+    `${(turn.durationMs / 1000).toFixed(1)}s`,
+  ];
+  if (turn.usage) {
+    details.push(`${turn.usage.inputTokens + turn.usage.outputTokens} tokens`);
+  }
+  if (turn.usage?.costUSD) {
+    details.push(`$${turn.usage.costUSD.toFixed(4)}`);
+  }
+
+  let text = `#${number} · ${details.join(' · ')}\n`;
+  text += `👤 ${shorten(turn.prompt, 300)}\n`;
+  if (turn.tools.length > 0) {
+    text += `🔧 ${turn.tools.map((tool) => tool.name).join(', ')}\n`;
+  }
+  text += `🤖 ${shorten(turn.text, 600)}`;
+  return text;
+}
+
+/**
+ * /claude history [n] [id] - Laatste beurten van de actieve of opgegeven sessie
+ */
+export async function claudeHistoryCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  service: ClaudeCodeService
+): Promise<void> {
+  const chatId = message.chat.id;
+  const countArg = args.find((arg) => /^\d+$/.test(arg));
+  const sessionId = args.find((arg) => arg !== countArg);
+  const count = Math.min(Math.max(countArg ? parseInt(countArg, 10) : DEFAULT_HISTORY_TURNS, 1), MAX_HISTORY_TURNS);
+
+  try {
+    const session = sessionId
+      ? (await service.getSessionsForChat(String(chatId))).find((s) => s.id === sessionId)
+      : await service.getActiveSession(String(chatId));
+
+    if (!session) {
+      await api.sendMessage({
+        chat_id: chatId,
+        text: sessionId
+          ? `❌ Sessie niet gevonden: ${sessionId}`
+          : `⚠️ Je hebt geen actieve sessie.
+
+Gebruik: /claude history [aantal] [sessie-id]`,
+      });
+      return;
+    }
+
+    const turns = await service.getTurns(session.id, count);
+    if (turns.length === 0) {
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `📭 Nog geen berichten opgeslagen in sessie ${session.name}.`,
+      });
+      return;
+    }
+
+    // Plain text: prompts and answers may contain Markdown characters
+    const first = session.messageCount - turns.length + 1;
+    const blocks = turns.map((turn, index) => formatTurn(turn, Math.max(first, 1) + index));
+    const messages: string[] = [];
+    let current = `📜 ${session.name} - laatste ${turns.length} van ${session.messageCount} berichten`;
+    for (const block of blocks) {
+      if (current.length + block.length + 2 > MAX_HISTORY_MESSAGE_LENGTH) {
+        messages.push(current);
+        current = block;
+      } else {
+        current += `\n\n${block}`;
+      }
+    }
+    messages.push(current);
+
+    for (const text of messages) {
+      await api.sendMessage({ chat_id: chatId, text });
+    }
+  } catch (error) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `❌ Kon geschiedenis niet ophalen: ${(error as Error).message}`,
+    });
+  }
+}
+
+const TOOL_SCOPE_LABELS: Record<ClaudeToolPolicyScope, string> = {
+  session: 'deze sessie',
+  chat: 'deze chat',
+  default: 'standaard (alle chats)',
+};
+
+function formatToolPolicy(policy: ClaudeToolPolicy, scope: ClaudeToolPolicyScope, approval: boolean): string {
+  const list = (tools: string[]) => tools.length ? tools.map((tool) => `\`${tool}\``).join(', ') : '—';
+  let text = `🔧 *Claude Tools*\n\n`;
+  text += `Geldt voor: ${TOOL_SCOPE_LABELS[scope]}\n`;
+  if (policy.preset) {
+    text += `Preset: ${policy.preset}\n`;
+  }
+  text += `✅ Toegestaan: ${list(policy.allowedTools)}\n`;
+  text += `🚫 Geweigerd: ${list(policy.deniedTools)}\n`;
+  text += approval
+    ? `ℹ️ Toegestane tools vragen nog steeds om goedkeuring; staat er iets bij Toegestaan, dan worden andere tools geweigerd.\n`
+    : `⚠️ Goedkeuring staat uit: toegestane tools draaien zonder te vragen.\n`;
+  return text;
+}
+
+/**
+ * /claude tools [--session] [preset|allow|deny|reset] - Bekijk of wijzig de toegestane tools
+ */
+export async function claudeToolsCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  service: ClaudeCodeService
+): Promise<void> {
+  const chatId = message.chat.id;
+  const scope = args.includes('--session') ? 'session' : 'chat';
+  const [action, ...tools] = args.filter((arg) => arg !== '--session');
+
+  try {
+    if (!action) {
+      const { policy, scope: source } = await service.getToolPolicy(String(chatId));
+      const presets = Object.entries(TOOL_PRESETS)
+        .map(([name, preset]) => `• ${name} - ${preset.description}`)
+        .join('\n');
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `${formatToolPolicy(policy, source, service.hasToolApproval())}
+*Wijzigen* (voeg --session toe voor alleen de actieve sessie):
+/claude tools <preset>
+/claude tools allow <tool...> - alleen deze tools (met goedkeuring)
+/claude tools deny <tool...>
+/claude tools reset
+
+*Presets:*
+${presets}`,
+        parse_mode: 'Markdown',
+      });
+      return;
+    }
+
+    const name = action.toLowerCase();
+    let policy: ClaudeToolPolicy | null;
+    if (isToolPreset(name)) {
+      policy = createToolPolicy(name);
+    } else if (name === 'reset') {
+      policy = null;
+    } else if (name === 'allow' || name === 'deny') {
+      if (tools.length === 0) {
+        await api.sendMessage({
+          chat_id: chatId,
+          text: `⚠️ Geef een of meer tools op, bijv. /claude tools ${name} Bash WebFetch`,
+        });
+        return;
+      }
+      // Edit the lists that currently apply at this level
+      const { policy: current } = await service.getToolPolicy(
+        String(chatId),
+        scope === 'session' ? undefined : null
+      );
+      policy = name === 'allow' ? allowTools(current, tools) : denyTools(current, tools);
+    } else {
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `⚠️ Onbekende preset of actie: ${action}
+
+Presets: ${Object.keys(TOOL_PRESETS).join(', ')}
+Of: allow, deny, reset`,
+      });
+      return;
+    }
+
+    await service.setToolPolicy(String(chatId), scope, policy);
+
+    const { policy: effective, scope: source } = await service.getToolPolicy(String(chatId));
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `✅ Tools ${policy ? 'aangepast' : 'teruggezet'} voor ${TOOL_SCOPE_LABELS[scope]}.\n\n${formatToolPolicy(effective, source, service.hasToolApproval())}`,
+      parse_mode: 'Markdown',
+    });
+  } catch (error) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `❌ Kon tools niet aanpassen: ${(error as Error).message}`,
+    });
+  }
+}
+
 /**
  * /claude help - Toon Claude Code help
  */
@@ -299,10 +625,23 @@ Je chat gaat door tot je een nieuwe sessie start.
 
 *SESSIE BEHEER*
 /claude new [naam] - Start nieuwe sessie
+/claude new --dir <pad> [naam] - Sessie in een andere map
 /claude sessions - Bekijk al je sessies
 /claude switch <id> - Wissel naar sessie
+/claude fork [naam] - Probeer iets anders vanaf dit punt
+/claude rename <naam> - Hernoem huidige sessie
 /claude end - Beëindig huidige sessie
 /claude delete <id> - Verwijder sessie
+/claude history [n] [id] - Laatste berichten van een sessie
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+*TOOLS*
+/claude tools - Toegestane en geweigerde tools
+/claude tools <read-only|no-bash|full> - Preset voor deze chat
+/claude tools allow|deny <tool...> - Tools toestaan of weigeren
+/claude tools reset - Terug naar de standaard
+Voeg --session toe voor alleen de actieve sessie
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -315,6 +654,7 @@ Je chat gaat door tot je een nieuwe sessie start.
 💡 *Tips:*
 • Sessies worden automatisch bewaard
 • Je kunt later terugkeren naar oude sessies
+• Nieuwe sessies draaien in de map van je /project
 • Claude Code heeft toegang tot je project bestanden
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`;
@@ -352,6 +692,12 @@ export async function routeClaudeCommand(
     case 'switch':
       await claudeSwitchCommand(api, message, args.slice(1), service);
       break;
+    case 'fork':
+      await claudeForkCommand(api, message, args.slice(1), service);
+      break;
+    case 'rename':
+      await claudeRenameCommand(api, message, args.slice(1), service);
+      break;
     case 'end':
     case 'stop':
       await claudeEndCommand(api, message, service);
@@ -363,6 +709,12 @@ export async function routeClaudeCommand(
     case 'status':
       await claudeCodeStatusCommand(api, message, service);
       break;
+    case 'history':
+      await claudeHistoryCommand(api, message, args.slice(1), service);
+      break;
+    case 'tools':
+      await claudeToolsCommand(api, message, args.slice(1), service);
+      break;
     case 'help':
     case undefined:
       await claudeCodeHelpCommand(api, message);
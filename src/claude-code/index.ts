@@ -10,9 +10,30 @@ export {
   resetClaudeCodeService,
 } from './service';
 
+export {
+  createClaudeStreamParser,
+} from './stream-parser';
+
+export {
+  PermissionBridge,
+  createPermissionBridge,
+  PERMISSION_PROMPT_TOOL,
+} from './permissions';
+
+export {
+  TOOL_PRESETS,
+  isToolPreset,
+  createToolPolicy,
+  allowTools,
+  denyTools,
+  isToolAllowed,
+  toolPolicyArgs,
+} from './tool-policy';
+
 export {
   MemorySessionStorage,
   FileSessionStorage,
+  SqliteSessionStorage,
   createSessionStorage,
 } from './sessions';
 
@@ -21,17 +42,35 @@ export {
   claudeNewSessionCommand,
   claudeSessionsCommand,
   claudeSwitchCommand,
+  claudeForkCommand,
+  claudeRenameCommand,
   claudeEndCommand,
   claudeDeleteCommand,
   claudeCodeStatusCommand,
+  claudeHistoryCommand,
+  claudeToolsCommand,
   claudeCodeHelpCommand,
 } from './commands';
 
 export type {
   ClaudeCodeOptions,
   ClaudeCodeSession,
+  ClaudeCodeTurn,
   ClaudeCodeResponse,
   ClaudeCodeError,
   ClaudeCodeCommand,
+  ClaudeProject,
+  ClaudeToolPolicy,
+  ClaudeToolPolicyScope,
+  ClaudeToolPreset,
   SessionStorage,
 } from './types';
+
+export type { ClaudeStreamParser } from './stream-parser';
+export type { SqliteSessionStorageOptions } from './sessions';
+export type {
+  PermissionRequest,
+  PermissionDecision,
+  PermissionHandler,
+  PermissionRegistration,
+} from './permissions';
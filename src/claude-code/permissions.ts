@@ -0,0 +1,233 @@
+/**
+ * Claude CLI Permission Bridge
+ * Lokale MCP-server voor --permission-prompt-tool: elke tool-aanroep van de CLI wacht op goedkeuring via Telegram
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ prefix: 'ClaudePermissions' });
+
+/** MCP server name in the generated --mcp-config */
+export const PERMISSION_SERVER_NAME = 'telegram';
+export const PERMISSION_TOOL_NAME = 'approve';
+/** Value for --permission-prompt-tool */
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_SERVER_NAME}__${PERMISSION_TOOL_NAME}`;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+/** Tool call the CLI wants to make */
+export interface PermissionRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+  /** Id of the tool_use block in the stream, when the CLI sends it */
+  toolUseId?: string;
+}
+
+/** Answer format the CLI expects from a permission prompt tool */
+export type PermissionDecision =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
+export type PermissionHandler = (request: PermissionRequest) => Promise<PermissionDecision>;
+
+/** One CLI run that is connected to the bridge */
+export interface PermissionRegistration {
+  /** Extra CLI arguments (--mcp-config and --permission-prompt-tool) */
+  args: string[];
+  /** Stop accepting requests for this run */
+  dispose(): void;
+}
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Streamable HTTP MCP server on 127.0.0.1 with a single tool that asks the registered handler.
+ * Every run gets its own secret URL, so a request always reaches the chat that started the CLI.
+ */
+export class PermissionBridge {
+  private server?: http.Server;
+  private listening?: Promise<number>;
+  private handlers = new Map<string, PermissionHandler>();
+
+  /**
+   * Start the server if needed and connect a CLI run to the handler
+   */
+  async register(handler: PermissionHandler): Promise<PermissionRegistration> {
+    const port = await this.listen();
+    const token = randomBytes(16).toString('hex');
+    this.handlers.set(token, handler);
+
+    const mcpConfig = {
+      mcpServers: {
+        [PERMISSION_SERVER_NAME]: { type: 'http', url: `http://127.0.0.1:${port}/mcp/${token}` },
+      },
+    };
+    return {
+      args: ['--mcp-config', JSON.stringify(mcpConfig), '--permission-prompt-tool', PERMISSION_PROMPT_TOOL],
+      dispose: () => {
+        this.handlers.delete(token);
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    const server = this.server;
+    this.server = undefined;
+    this.listening = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  private listen(): Promise<number> {
+    if (!this.listening) {
+      const server = http.createServer((req, res) => {
+        this.handleHttp(req, res).catch((error) => {
+          logger.error('Permission request failed', { error });
+          if (!res.headersSent) res.writeHead(500);
+          res.end();
+        });
+      });
+      this.server = server;
+      this.listening = new Promise<number>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+          const { port } = server.address() as AddressInfo;
+          logger.debug('Permission bridge listening', { port });
+          resolve(port);
+        });
+      }).catch((error) => {
+        this.server = undefined;
+        this.listening = undefined;
+        throw error;
+      });
+    }
+    return this.listening;
+  }
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const token = /^\/mcp\/([a-f0-9]+)$/.exec(req.url || '')?.[1];
+    const handler = token ? this.handlers.get(token) : undefined;
+    if (!handler) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      // No server-initiated messages, so no SSE stream either
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    const messages = (Array.isArray(body) ? body : [body]) as JsonRpcMessage[];
+    const responses = (await Promise.all(messages.map((message) => this.handleRpc(message, handler))))
+      .filter((response) => response !== undefined);
+    if (responses.length === 0) {
+      // Only notifications
+      res.writeHead(202).end();
+      return;
+    }
+    sendJson(res, 200, Array.isArray(body) ? responses : responses[0]);
+  }
+
+  private async handleRpc(message: JsonRpcMessage, handler: PermissionHandler): Promise<object | undefined> {
+    if (message.id === undefined || message.id === null) {
+      return undefined;
+    }
+    const reply = (result: object) => ({ jsonrpc: '2.0', id: message.id, result });
+    const fail = (code: number, text: string) => ({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+
+    switch (message.method) {
+      case 'initialize':
+        return reply({
+          protocolVersion: typeof message.params?.protocolVersion === 'string'
+            ? message.params.protocolVersion
+            : DEFAULT_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'telegram-bot-permissions', version: '1.0.0' },
+        });
+      case 'ping':
+        return reply({});
+      case 'tools/list':
+        return reply({
+          tools: [{
+            name: PERMISSION_TOOL_NAME,
+            description: 'Ask the Telegram user to approve or reject a tool call',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                tool_name: { type: 'string' },
+                input: { type: 'object' },
+                tool_use_id: { type: 'string' },
+              },
+              required: ['tool_name', 'input'],
+            },
+          }],
+        });
+      case 'tools/call': {
+        if (message.params?.name !== PERMISSION_TOOL_NAME) {
+          return fail(-32602, `Unknown tool: ${String(message.params?.name)}`);
+        }
+        const args = (message.params.arguments || {}) as Record<string, unknown>;
+        const input = typeof args.input === 'object' && args.input !== null ? args.input as Record<string, unknown> : {};
+        let decision: PermissionDecision;
+        try {
+          decision = await handler({
+            toolName: String(args.tool_name),
+            input,
+            toolUseId: typeof args.tool_use_id === 'string' ? args.tool_use_id : undefined,
+          });
+        } catch (error) {
+          logger.error('Permission handler failed', { tool: args.tool_name, error });
+          decision = { behavior: 'deny', message: 'Goedkeuring via Telegram mislukt' };
+        }
+        return reply({ content: [{ type: 'text', text: JSON.stringify(decision) }] });
+      }
+      default:
+        return fail(-32601, `Method not found: ${message.method}`);
+    }
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(raw));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export function createPermissionBridge(): PermissionBridge {
+  return new PermissionBridge();
+}
@@ -4,30 +4,56 @@
  */
 
 import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import type {
   ClaudeCodeOptions,
   ClaudeCodeSession,
+  ClaudeCodeTurn,
   ClaudeCodeResponse,
   ClaudeCodeError,
   ClaudeCliMessage,
   ClaudeCliResult,
+  ClaudeProject,
+  ClaudeToolPolicy,
+  ClaudeToolPolicyScope,
   SessionStorage,
-  ClaudeCliContentBlock,
 } from './types';
 import { createSessionStorage, FileSessionStorage } from './sessions';
+import { createClaudeStreamParser } from './stream-parser';
+import { isToolAllowed, toolPolicyArgs } from './tool-policy';
+import {
+  createPermissionBridge,
+  type PermissionBridge,
+  type PermissionDecision,
+  type PermissionRegistration,
+} from './permissions';
+import type { DatabaseClient } from '../database';
 import { createLogger } from '../utils/logger';
-import type { ToolUseEvent, ToolResultEvent, ClaudeCodeStreamCallbacks, StreamingResult } from '../streaming/types';
+import type { ToolUseEvent, ClaudeCodeStreamCallbacks, StreamingResult, StreamingUsage } from '../streaming/types';
 
 const logger = createLogger({ prefix: 'ClaudeCode' });
 
+/** Tool approvals of one streaming CLI run */
+interface PermissionState {
+  /** Permission requests waiting for the user */
+  pending: number;
+  /** Error of a rejected tool call; the run stops with it */
+  rejection?: unknown;
+  /** Called when pending or rejection changes */
+  onChange: () => void;
+}
+
 // =============================================================================
 // Claude Code Service
 // =============================================================================
 
 export class ClaudeCodeService {
-  private options: Required<ClaudeCodeOptions>;
+  private options: Required<Omit<ClaudeCodeOptions, 'project' | 'database'>>;
+  private project?: (chatId: string) => ClaudeProject | undefined;
   private storage: SessionStorage;
   private processing: Set<string> = new Set(); // chatIds currently processing
+  private permissionBridge?: PermissionBridge;
 
   constructor(options: ClaudeCodeOptions = {}) {
     this.options = {
@@ -35,15 +61,42 @@ export class ClaudeCodeService {
       cliBinary: options.cliBinary || 'claude',
       model: options.model || '',
       maxTokens: options.maxTokens || 16000,
+      sessionStorage: options.sessionStorage || 'sqlite',
       sessionStoragePath: options.sessionStoragePath || '/tmp/claude-telegram-sessions.json',
       timeout: options.timeout || 120000,
       allowedTools: options.allowedTools || [],
       deniedTools: options.deniedTools || [],
       systemPrompt: options.systemPrompt || '',
+      permissionPrompt: options.permissionPrompt ?? true,
+      allowedRoots: options.allowedRoots?.length ? options.allowedRoots : [options.workingDir || process.cwd()],
     };
+    this.project = options.project;
+    if (this.options.permissionPrompt) {
+      this.permissionBridge = createPermissionBridge();
+    }
 
-    this.storage = createSessionStorage('file', { path: this.options.sessionStoragePath });
-    logger.info('Claude Code service initialized', { workingDir: this.options.workingDir });
+    this.storage = this.createStorage(options.database);
+    logger.info('Claude Code service initialized', {
+      workingDir: this.options.workingDir,
+      sessionStorage: this.options.sessionStorage,
+    });
+  }
+
+  /**
+   * Session storage; without a usable database the sessions go to the JSON file
+   */
+  private createStorage(database?: DatabaseClient): SessionStorage {
+    const storageOptions = { path: this.options.sessionStoragePath, db: database };
+    if (this.options.sessionStorage !== 'sqlite') {
+      return createSessionStorage(this.options.sessionStorage, storageOptions);
+    }
+    try {
+      return createSessionStorage('sqlite', storageOptions);
+    } catch (error) {
+      logger.warn('Claude sessions stored in file (database unavailable)', { error });
+      this.options.sessionStorage = 'file';
+      return createSessionStorage('file', storageOptions);
+    }
   }
 
   // ===========================================================================
@@ -63,21 +116,18 @@ export class ClaudeCodeService {
 
     try {
       // Get or create session
-      let session = await this.storage.getActiveSession(chatId);
-      const isNewSession = !session;
-
-      if (!session) {
-        session = await this.createNewSession(chatId);
-      }
+      const { session, isNewSession } = await this.getSessionForMessage(chatId);
+      const { policy } = await this.getToolPolicy(chatId, session);
 
       // Run Claude CLI
       const startTime = Date.now();
-      const result = await this.runClaudeCli(message, session);
+      const result = await this.runClaudeCli(message, session, policy);
       const durationMs = Date.now() - startTime;
 
       // Update session with token usage
       session.messageCount++;
       session.lastActivityAt = new Date();
+      this.rememberCliSession(session, result.sessionId);
 
       if (result.cost) {
         if (!session.tokenUsage) {
@@ -94,6 +144,16 @@ export class ClaudeCodeService {
       }
 
       await this.storage.saveSession(session);
+      await this.recordTurn({
+        sessionId: session.id,
+        chatId,
+        prompt: message,
+        text: result.text,
+        tools: [],
+        usage: result.cost,
+        durationMs,
+        createdAt: new Date(),
+      });
 
       return {
         text: result.text,
@@ -111,11 +171,15 @@ export class ClaudeCodeService {
   /**
    * Process a message with streaming callbacks
    * This method streams responses and tool usage in real-time
+   * @param systemPrompt Overrides the configured system prompt (chat persona)
+   * @param signal Kills the CLI process when aborted (/cancel)
    */
   async processMessageStream(
     chatId: string,
     message: string,
-    callbacks: ClaudeCodeStreamCallbacks
+    callbacks: ClaudeCodeStreamCallbacks,
+    systemPrompt?: string,
+    signal?: AbortSignal
   ): Promise<StreamingResult> {
     // Prevent concurrent processing for same chat
     if (this.processing.has(chatId)) {
@@ -126,22 +190,46 @@ export class ClaudeCodeService {
 
     try {
       // Get or create session
-      let session = await this.storage.getActiveSession(chatId);
-      const isNewSession = !session;
-
-      if (!session) {
-        session = await this.createNewSession(chatId);
-      }
+      const { session, isNewSession } = await this.getSessionForMessage(chatId);
+      const { policy } = await this.getToolPolicy(chatId, session);
 
       // Run Claude CLI with streaming
       const startTime = Date.now();
-      const result = await this.runClaudeCliStream(message, session, callbacks);
+      const result = await this.runClaudeCliStream(message, session, policy, callbacks, systemPrompt, signal);
       const durationMs = Date.now() - startTime;
 
       // Update session
       session.messageCount++;
       session.lastActivityAt = new Date();
+      this.rememberCliSession(session, result.sessionId);
+
+      if (result.usage) {
+        if (!session.tokenUsage) {
+          session.tokenUsage = {
+            totalInputTokens: 0,
+            totalOutputTokens: 0,
+            totalTokens: 0,
+            totalCostUSD: 0,
+          };
+        }
+        session.tokenUsage.totalInputTokens += result.usage.inputTokens;
+        session.tokenUsage.totalOutputTokens += result.usage.outputTokens;
+        session.tokenUsage.totalTokens += result.usage.inputTokens + result.usage.outputTokens;
+        session.tokenUsage.totalCostUSD += result.usage.costUSD || 0;
+        session.tokenUsage.lastTokenCount = result.usage.inputTokens + result.usage.outputTokens;
+      }
+
       await this.storage.saveSession(session);
+      await this.recordTurn({
+        sessionId: session.id,
+        chatId,
+        prompt: message,
+        text: result.text,
+        tools: (result.toolHistory || []).map((tool) => ({ name: tool.name, input: tool.input })),
+        usage: result.usage,
+        durationMs,
+        createdAt: new Date(),
+      });
 
       return {
         text: result.text,
@@ -150,6 +238,7 @@ export class ClaudeCodeService {
         durationMs,
         exitCode: result.exitCode,
         toolHistory: result.toolHistory || [],
+        usage: result.usage,
       };
     } finally {
       this.processing.delete(chatId);
@@ -162,8 +251,9 @@ export class ClaudeCodeService {
 
   /**
    * Create a new session for a chat
+   * @param workingDir Must be inside one of the allowed roots (default: the chat's project or the global directory)
    */
-  async createNewSession(chatId: string, name?: string): Promise<ClaudeCodeSession> {
+  async createNewSession(chatId: string, name?: string, workingDir?: string): Promise<ClaudeCodeSession> {
     const sessionId = this.generateSessionId();
     const session: ClaudeCodeSession = {
       id: sessionId,
@@ -172,7 +262,7 @@ export class ClaudeCodeService {
       createdAt: new Date(),
       lastActivityAt: new Date(),
       messageCount: 0,
-      workingDir: this.options.workingDir,
+      workingDir: workingDir ? this.resolveAllowedDir(workingDir) : this.getDefaultWorkingDir(chatId),
       isActive: true,
     };
 
@@ -186,8 +276,102 @@ export class ClaudeCodeService {
   /**
    * Start a completely new session (forget previous)
    */
-  async startNewSession(chatId: string, name?: string): Promise<ClaudeCodeSession> {
-    return this.createNewSession(chatId, name);
+  async startNewSession(chatId: string, name?: string, workingDir?: string): Promise<ClaudeCodeSession> {
+    return this.createNewSession(chatId, name, workingDir);
+  }
+
+  /**
+   * Session for the next message. When the chat opened another /project after the
+   * active session was last used, its latest session there is resumed or a new one starts.
+   */
+  private async getSessionForMessage(chatId: string): Promise<{ session: ClaudeCodeSession; isNewSession: boolean }> {
+    const active = await this.storage.getActiveSession(chatId);
+    const project = this.project?.(chatId);
+    const projectDir = project ? this.toAllowedDir(project.rootPath) : undefined;
+    const projectChanged = !!active && !!project && !!projectDir
+      && active.workingDir !== projectDir
+      && project.openedAt > active.lastActivityAt.getTime();
+
+    if (active && !projectChanged) {
+      return { session: active, isNewSession: false };
+    }
+
+    if (projectDir) {
+      const previous = (await this.storage.getSessionsForChat(chatId))
+        .filter((session) => session.workingDir === projectDir)
+        .sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime())[0];
+      if (previous) {
+        logger.info(`Chat ${chatId} opened another project, resuming session ${previous.id}`);
+        return { session: (await this.switchSession(chatId, previous.id)) || previous, isNewSession: false };
+      }
+    }
+
+    return { session: await this.createNewSession(chatId), isNewSession: true };
+  }
+
+  /**
+   * Directory of the chat's open project, or the global working directory
+   */
+  private getDefaultWorkingDir(chatId: string): string {
+    const project = this.project?.(chatId);
+    return (project && this.toAllowedDir(project.rootPath)) || this.options.workingDir;
+  }
+
+  /**
+   * Resolved project directory, or undefined (with a warning) when it is outside the allowed roots
+   */
+  private toAllowedDir(dir: string): string | undefined {
+    try {
+      return this.resolveAllowedDir(dir);
+    } catch (error) {
+      logger.warn('Project directory not used for Claude sessions', { dir, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Real path of an existing directory inside one of the allowed roots
+   * @throws ClaudeCodeError (SESSION_ERROR) otherwise
+   */
+  resolveAllowedDir(dir: string): string {
+    let resolved: string;
+    try {
+      resolved = fs.realpathSync(path.resolve(this.options.workingDir, dir));
+    } catch {
+      throw this.createError('SESSION_ERROR', `Map bestaat niet: ${dir}`);
+    }
+    if (!fs.statSync(resolved).isDirectory()) {
+      throw this.createError('SESSION_ERROR', `Geen map: ${dir}`);
+    }
+
+    const allowed = this.options.allowedRoots.some((root) => {
+      let realRoot: string;
+      try {
+        realRoot = fs.realpathSync(root);
+      } catch {
+        return false;
+      }
+      const relative = path.relative(realRoot, resolved);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    });
+    if (!allowed) {
+      throw this.createError('SESSION_ERROR', `Map valt buiten de toegestane mappen: ${dir}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Roots that /claude new --dir accepts
+   */
+  getAllowedRoots(): string[] {
+    return [...this.options.allowedRoots];
+  }
+
+  /**
+   * Whether tool calls are approved in Telegram (the permission bridge is on)
+   */
+  hasToolApproval(): boolean {
+    return !!this.permissionBridge;
   }
 
   /**
@@ -208,6 +392,65 @@ export class ClaudeCodeService {
     return session;
   }
 
+  /**
+   * Fork a session (default: the active one) into a new active session. Its next message
+   * continues the same CLI conversation under a new CLI session id, the original stays as it was.
+   * @throws ClaudeCodeError (SESSION_ERROR) when there is nothing to fork
+   */
+  async forkSession(chatId: string, name?: string, sessionId?: string): Promise<ClaudeCodeSession> {
+    const parent = sessionId
+      ? await this.storage.getSession(sessionId)
+      : await this.storage.getActiveSession(chatId);
+    if (!parent || parent.chatId !== chatId) {
+      throw this.createError('SESSION_ERROR', sessionId ? `Sessie niet gevonden: ${sessionId}` : 'Geen actieve sessie om te forken');
+    }
+    // A fork of an untouched fork starts from the same point as its parent
+    const forkFrom = parent.forkFrom || parent.cliSessionId;
+    if (!forkFrom) {
+      // Sessions from before forks only know the CLI id after their next message
+      throw this.createError('SESSION_ERROR', parent.messageCount > 0
+        ? `Sessie ${parent.name} heeft nog geen sessie-id van de Claude CLI. Stuur eerst een bericht in deze sessie en fork dan opnieuw.`
+        : `Sessie ${parent.name} heeft nog geen berichten om te forken`);
+    }
+
+    const session: ClaudeCodeSession = {
+      id: this.generateSessionId(),
+      chatId,
+      name: name || `${parent.name} (fork)`,
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+      messageCount: 0,
+      // The CLI keeps its sessions per directory
+      workingDir: parent.workingDir,
+      isActive: true,
+      parentId: parent.id,
+      forkFrom,
+      ...(parent.toolPolicy ? { toolPolicy: parent.toolPolicy } : {}),
+    };
+
+    await this.storage.saveSession(session);
+    await this.storage.setActiveSession(chatId, session.id);
+
+    logger.info(`Forked session ${parent.id} for chat ${chatId}`, { sessionId: session.id });
+    return session;
+  }
+
+  /**
+   * Rename a session (default: the active one)
+   */
+  async renameSession(chatId: string, name: string, sessionId?: string): Promise<ClaudeCodeSession | null> {
+    const session = sessionId
+      ? await this.storage.getSession(sessionId)
+      : await this.storage.getActiveSession(chatId);
+    if (!session || session.chatId !== chatId) {
+      return null;
+    }
+
+    session.name = name;
+    await this.storage.saveSession(session);
+    return session;
+  }
+
   /**
    * Get current active session for a chat
    */
@@ -222,6 +465,13 @@ export class ClaudeCodeService {
     return this.storage.getSessionsForChat(chatId);
   }
 
+  /**
+   * The last `limit` answered messages of a session, oldest first
+   */
+  async getTurns(sessionId: string, limit: number): Promise<ClaudeCodeTurn[]> {
+    return this.storage.getTurns(sessionId, limit);
+  }
+
   /**
    * Delete a session
    */
@@ -241,6 +491,56 @@ export class ClaudeCodeService {
     return true;
   }
 
+  // ===========================================================================
+  // Tool Policy
+  // ===========================================================================
+
+  /**
+   * Tool policy for the chat's messages: the session's own, else the chat's, else the global options
+   * @param session Defaults to the active session
+   */
+  async getToolPolicy(
+    chatId: string,
+    session?: ClaudeCodeSession | null
+  ): Promise<{ policy: ClaudeToolPolicy; scope: ClaudeToolPolicyScope }> {
+    const current = session === undefined ? await this.storage.getActiveSession(chatId) : session;
+    if (current?.toolPolicy) {
+      return { policy: current.toolPolicy, scope: 'session' };
+    }
+
+    const chatPolicy = await this.storage.getChatToolPolicy(chatId);
+    if (chatPolicy) {
+      return { policy: chatPolicy, scope: 'chat' };
+    }
+
+    return {
+      policy: { allowedTools: [...this.options.allowedTools], deniedTools: [...this.options.deniedTools] },
+      scope: 'default',
+    };
+  }
+
+  /**
+   * Set or (null) remove the tool policy of the chat or of its active session
+   * @throws ClaudeCodeError (SESSION_ERROR) for the session scope without an active session
+   */
+  async setToolPolicy(chatId: string, scope: 'chat' | 'session', policy: ClaudeToolPolicy | null): Promise<void> {
+    if (scope === 'chat') {
+      await this.storage.setChatToolPolicy(chatId, policy);
+      return;
+    }
+
+    const session = await this.storage.getActiveSession(chatId);
+    if (!session) {
+      throw this.createError('SESSION_ERROR', 'Geen actieve sessie. Start er een met /claude new');
+    }
+    if (policy) {
+      session.toolPolicy = policy;
+    } else {
+      delete session.toolPolicy;
+    }
+    await this.storage.saveSession(session);
+  }
+
   /**
    * Get session stats
    */
@@ -266,10 +566,11 @@ export class ClaudeCodeService {
    */
   private async runClaudeCli(
     message: string,
-    session: ClaudeCodeSession
-  ): Promise<{ text: string; cost?: { inputTokens: number; outputTokens: number }; exitCode: number }> {
+    session: ClaudeCodeSession,
+    toolPolicy: ClaudeToolPolicy
+  ): Promise<{ text: string; cost?: { inputTokens: number; outputTokens: number }; exitCode: number; sessionId?: string }> {
     return new Promise((resolve, reject) => {
-      const args = this.buildCliArgs(message, session);
+      const args = this.buildCliArgs(message, session, toolPolicy);
 
       logger.debug('Running Claude CLI', { args: args.filter(a => !a.includes(message)) });
 
@@ -331,6 +632,7 @@ export class ClaudeCodeService {
             text: result.text,
             cost: result.cost,
             exitCode: code || 0,
+            sessionId: result.sessionId,
           });
         } catch (error) {
           logger.error('Failed to parse CLI output', { error, stdout });
@@ -366,10 +668,37 @@ export class ClaudeCodeService {
   private async runClaudeCliStream(
     message: string,
     session: ClaudeCodeSession,
-    callbacks: ClaudeCodeStreamCallbacks
-  ): Promise<{ text: string; exitCode: number; toolHistory?: ToolUseEvent[] }> {
+    toolPolicy: ClaudeToolPolicy,
+    callbacks: ClaudeCodeStreamCallbacks,
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<{ text: string; exitCode: number; toolHistory?: ToolUseEvent[]; usage?: StreamingUsage; sessionId?: string }> {
+    const approvals: PermissionState = { pending: 0, onChange: () => {} };
+    const registration = await this.connectPermissionBridge(callbacks, approvals, toolPolicy);
+    // Approval already happened before the tool ran; onToolUse only shows it
+    const streamCallbacks: ClaudeCodeStreamCallbacks = registration
+      ? { ...callbacks, onToolUse: (tool) => callbacks.onToolUse?.({ ...tool, gated: true }) }
+      : callbacks;
+
+    try {
+      return await this.spawnClaudeCliStream(message, session, toolPolicy, streamCallbacks, approvals, registration?.args, systemPrompt, signal);
+    } finally {
+      registration?.dispose();
+    }
+  }
+
+  private spawnClaudeCliStream(
+    message: string,
+    session: ClaudeCodeSession,
+    toolPolicy: ClaudeToolPolicy,
+    callbacks: ClaudeCodeStreamCallbacks,
+    approvals: PermissionState,
+    permissionArgs: string[] = [],
+    systemPrompt?: string,
+    signal?: AbortSignal
+  ): Promise<{ text: string; exitCode: number; toolHistory?: ToolUseEvent[]; usage?: StreamingUsage; sessionId?: string }> {
     return new Promise((resolve, reject) => {
-      const args = this.buildStreamCliArgs(message, session);
+      const args = this.buildStreamCliArgs(message, session, toolPolicy, systemPrompt, permissionArgs);
 
       logger.debug('Running Claude CLI (streaming)', { args: args.filter(a => !a.includes(message)) });
 
@@ -380,11 +709,21 @@ export class ClaudeCodeService {
       });
 
       let stderr = '';
-      let accumulatedText = '';
-      const toolHistory: ToolUseEvent[] = [];
-      let currentToolUse: ToolUseEvent | null = null;
+      const parser = createClaudeStreamParser(callbacks);
       let hasOutput = false;
 
+      // /cancel: stop the CLI instead of waiting for the timeout
+      let cancelled = false;
+      const onAbort = () => {
+        cancelled = true;
+        proc.kill('SIGTERM');
+      };
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
       // Parse stdout line by line
       proc.stdout.on('data', (data) => {
         hasOutput = true;
@@ -393,21 +732,11 @@ export class ClaudeCodeService {
         for (const line of lines) {
           if (!line.trim()) continue;
 
+          callbacks.onRawLine?.(line);
           try {
-            const msg: ClaudeCliMessage = JSON.parse(line);
-            this.handleStreamMessage(msg, callbacks, {
-              accumulatedText,
-              toolHistory,
-              currentToolUse,
-              onTextUpdate: (text: string) => { accumulatedText = text; },
-              setCurrentTool: (tool: ToolUseEvent | null) => { currentToolUse = tool; },
-            });
-          } catch (parseError) {
-            // Not JSON, treat as plain text
-            if (line.trim()) {
-              accumulatedText += line + '\n';
-              callbacks.onContent?.(line + '\n');
-            }
+            parser.push(line);
+          } catch (error) {
+            logger.warn('Failed to handle CLI stream line', { error });
           }
         }
       });
@@ -418,7 +747,7 @@ export class ClaudeCodeService {
       });
 
       // Timeout
-      const timeout = setTimeout(() => {
+      const onTimeout = () => {
         proc.kill('SIGTERM');
         
         // Provide better error message if CLI is not authenticated
@@ -430,11 +759,35 @@ export class ClaudeCodeService {
         const error = new Error(errorMsg);
         callbacks.onError?.(error);
         reject(this.createError('TIMEOUT', errorMsg));
-      }, this.options.timeout);
+      };
+      let timeout: NodeJS.Timeout | undefined = setTimeout(onTimeout, this.options.timeout);
+
+      // Waiting for the user's approval does not count towards the timeout; a rejection stops the CLI
+      let closed = false;
+      approvals.onChange = () => {
+        if (closed) return;
+        if (approvals.rejection !== undefined) {
+          proc.kill('SIGTERM');
+        }
+        clearTimeout(timeout);
+        timeout = approvals.pending > 0 ? undefined : setTimeout(onTimeout, this.options.timeout);
+      };
 
       proc.on('close', (code) => {
+        closed = true;
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
 
+        if (cancelled) {
+          reject(this.createError('CANCELLED', 'Claude CLI gestopt'));
+          return;
+        }
+        if (approvals.rejection !== undefined) {
+          reject(approvals.rejection);
+          return;
+        }
+
+        const accumulatedText = parser.text;
         if (code !== 0 && !accumulatedText) {
           logger.error('Claude CLI error', { code, stderr });
           
@@ -460,18 +813,23 @@ export class ClaudeCodeService {
           isNewSession: false,
           durationMs: 0,
           exitCode: code || 0,
-          toolHistory,
+          toolHistory: parser.toolHistory,
+          usage: parser.usage,
         });
 
         resolve({
           text: accumulatedText.trim() || stderr.trim() || 'Geen output van Claude.',
           exitCode: code || 0,
-          toolHistory,
+          toolHistory: parser.toolHistory,
+          usage: parser.usage,
+          sessionId: parser.sessionId,
         });
       });
 
       proc.on('error', (error) => {
+        closed = true;
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         logger.error('Failed to spawn Claude CLI', { error });
         
         // Check if binary exists
@@ -493,15 +851,13 @@ export class ClaudeCodeService {
   /**
    * Build CLI arguments
    */
-  private buildCliArgs(message: string, session: ClaudeCodeSession): string[] {
+  private buildCliArgs(message: string, session: ClaudeCodeSession, toolPolicy: ClaudeToolPolicy): string[] {
     const args: string[] = [
       '--print',           // Print response only (no interactive)
     ];
 
-    // Resume session if we have one with messages
-    if (session.messageCount > 0) {
-      args.push('--resume', session.id);
-    }
+    // Continue (or fork) the CLI conversation
+    args.push(...this.resumeArgs(session));
 
     // Model override
     if (this.options.model) {
@@ -513,6 +869,9 @@ export class ClaudeCodeService {
       args.push('--max-turns', '1'); // Single turn for Telegram
     }
 
+    // Allowed and denied tools
+    args.push(...toolPolicyArgs(toolPolicy));
+
     // System prompt
     if (this.options.systemPrompt) {
       args.push('--system-prompt', this.options.systemPrompt);
@@ -527,15 +886,19 @@ export class ClaudeCodeService {
   /**
    * Build CLI arguments for streaming (without --print flag)
    */
-  private buildStreamCliArgs(message: string, session: ClaudeCodeSession): string[] {
+  private buildStreamCliArgs(
+    message: string,
+    session: ClaudeCodeSession,
+    toolPolicy: ClaudeToolPolicy,
+    systemPrompt: string = this.options.systemPrompt,
+    permissionArgs: string[] = []
+  ): string[] {
     const args: string[] = [
       '--output-format', 'json',  // JSON output for parsing
     ];
 
-    // Resume session if we have one with messages
-    if (session.messageCount > 0) {
-      args.push('--resume', session.id);
-    }
+    // Continue (or fork) the CLI conversation
+    args.push(...this.resumeArgs(session));
 
     // Model override
     if (this.options.model) {
@@ -547,40 +910,113 @@ export class ClaudeCodeService {
       args.push('--max-turns', '1'); // Single turn for Telegram
     }
 
-    // Allowed tools
-    for (const tool of this.options.allowedTools) {
-      args.push('--allowedTools', tool);
-    }
-
-    // Denied tools
-    for (const tool of this.options.deniedTools) {
-      args.push('--disallowedTools', tool);
-    }
+    // Allowed and denied tools
+    args.push(...toolPolicyArgs(toolPolicy, permissionArgs.length > 0));
 
     // System prompt
-    if (this.options.systemPrompt) {
-      args.push('--system-prompt', this.options.systemPrompt);
+    if (systemPrompt) {
+      args.push('--system-prompt', systemPrompt);
     }
 
+    // Tool approval via the permission bridge
+    args.push(...permissionArgs);
+
     // The message itself
     args.push('--', message);
 
     return args;
   }
 
+  /**
+   * --resume for a session with messages; a fresh fork resumes its parent with --fork-session
+   */
+  private resumeArgs(session: ClaudeCodeSession): string[] {
+    if (session.forkFrom) {
+      return ['--resume', session.forkFrom, '--fork-session'];
+    }
+    if (session.messageCount > 0) {
+      return ['--resume', session.cliSessionId || session.id];
+    }
+    return [];
+  }
+
+  /**
+   * Keep the CLI's session id for the next --resume; a fork is on its own from then on
+   */
+  private rememberCliSession(session: ClaudeCodeSession, cliSessionId?: string): void {
+    if (!cliSessionId) return;
+    session.cliSessionId = cliSessionId;
+    delete session.forkFrom;
+  }
+
+  /**
+   * Ask the user (onPermissionRequest) before the CLI runs a tool; tools outside the
+   * policy's allow list are denied without asking.
+   * Undefined when the bridge is off, can't start or nobody can answer.
+   */
+  private async connectPermissionBridge(
+    callbacks: ClaudeCodeStreamCallbacks,
+    approvals: PermissionState,
+    toolPolicy: ClaudeToolPolicy
+  ): Promise<PermissionRegistration | undefined> {
+    const ask = callbacks.onPermissionRequest;
+    if (!this.permissionBridge || !ask) {
+      return undefined;
+    }
+
+    try {
+      return await this.permissionBridge.register(async (request): Promise<PermissionDecision> => {
+        if (!isToolAllowed(toolPolicy, request.toolName)) {
+          return { behavior: 'deny', message: `${request.toolName} staat niet in de toegestane tools (/claude tools)` };
+        }
+        const tool: ToolUseEvent = {
+          type: 'tool_use',
+          id: request.toolUseId || `tool_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          name: request.toolName,
+          input: request.input,
+          timestamp: new Date(),
+          gated: true,
+        };
+        approvals.pending++;
+        approvals.onChange();
+        try {
+          await ask(tool);
+          return { behavior: 'allow', updatedInput: request.input };
+        } catch (error) {
+          approvals.rejection ??= error;
+          return { behavior: 'deny', message: 'Afgewezen door de gebruiker' };
+        } finally {
+          approvals.pending--;
+          approvals.onChange();
+        }
+      });
+    } catch (error) {
+      logger.warn('Permission bridge unavailable, tools run without prior approval', { error });
+      return undefined;
+    }
+  }
+
   /**
    * Parse JSON output from Claude CLI
    */
-  private parseCliOutput(output: string): { text: string; cost?: { inputTokens: number; outputTokens: number } } {
+  private parseCliOutput(output: string): {
+    text: string;
+    cost?: { inputTokens: number; outputTokens: number };
+    sessionId?: string;
+  } {
     const lines = output.trim().split('\n');
     let text = '';
     let cost: { inputTokens: number; outputTokens: number } | undefined;
+    let sessionId: string | undefined;
 
     for (const line of lines) {
       if (!line.trim()) continue;
 
       try {
         const msg: ClaudeCliMessage = JSON.parse(line);
+        if (msg.session_id) {
+          sessionId = msg.session_id;
+        }
 
         if (msg.type === 'assistant' && msg.message?.content) {
           // Extract text from content
@@ -609,102 +1045,24 @@ export class ClaudeCodeService {
       }
     }
 
-    return { text: text.trim(), cost };
+    return { text: text.trim(), cost, sessionId };
   }
 
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
   /**
-   * Handle streaming JSON message from Claude CLI
-   * Parse message types and emit appropriate callbacks
+   * Add a turn to the transcript; a failure doesn't cost the user the answer
    */
-  private handleStreamMessage(
-    msg: ClaudeCliMessage,
-    callbacks: ClaudeCodeStreamCallbacks,
-    context: {
-      accumulatedText: string;
-      toolHistory: ToolUseEvent[];
-      currentToolUse: ToolUseEvent | null;
-      onTextUpdate: (text: string) => void;
-      setCurrentTool: (tool: ToolUseEvent | null) => void;
-    }
-  ): void {
-    const { accumulatedText, toolHistory, currentToolUse, onTextUpdate, setCurrentTool } = context;
-
-    switch (msg.type) {
-      case 'assistant':
-        // Assistant message with content blocks
-        if (msg.message?.content) {
-          let extractedText = '';
-
-          if (typeof msg.message.content === 'string') {
-            extractedText = msg.message.content;
-          } else if (Array.isArray(msg.message.content)) {
-            for (const block of msg.message.content) {
-              if (block.type === 'text' && block.text) {
-                extractedText += block.text;
-              } else if (block.type === 'tool_use' && block.name && block.input) {
-                // Tool use detected
-                const toolUse: ToolUseEvent = {
-                  type: 'tool_use',
-                  id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                  name: block.name,
-                  input: block.input,
-                  timestamp: new Date(),
-                };
-
-                toolHistory.push(toolUse);
-                setCurrentTool(toolUse);
-                callbacks.onToolUse?.(toolUse);
-              } else if (block.type === 'tool_result' && block.content) {
-                // Tool result detected
-                if (currentToolUse) {
-                  const toolResult: ToolResultEvent = {
-                    type: 'tool_result',
-                    toolUseId: currentToolUse.id,
-                    content: block.content,
-                    isError: false,
-                    timestamp: new Date(),
-                  };
-
-                  callbacks.onToolResult?.(toolResult);
-                  setCurrentTool(null);
-                }
-              }
-            }
-          }
-
-          if (extractedText) {
-            onTextUpdate(accumulatedText + extractedText);
-            callbacks.onContent?.(extractedText);
-          }
-        }
-        break;
-
-      case 'result':
-        // Final result message
-        const result = msg as unknown as ClaudeCliResult;
-        if (result.result) {
-          onTextUpdate(result.result);
-          callbacks.onContent?.(result.result);
-        }
-        break;
-
-      case 'system':
-        // System messages (ignore for now)
-        break;
-
-      default:
-        // Unknown message type, try to extract content
-        if (msg.content) {
-          onTextUpdate(accumulatedText + msg.content);
-          callbacks.onContent?.(msg.content);
-        }
+  private async recordTurn(turn: ClaudeCodeTurn): Promise<void> {
+    try {
+      await this.storage.addTurn(turn);
+    } catch (error) {
+      logger.warn('Failed to record Claude turn', { sessionId: turn.sessionId, error });
     }
   }
 
-  // ===========================================================================
-  // Helpers
-  // ===========================================================================
-
   private generateSessionId(): string {
     const timestamp = Date.now().toString(36);
     const random = Math.random().toString(36).substring(2, 8);
@@ -725,6 +1083,9 @@ export class ClaudeCodeService {
     if (this.storage instanceof FileSessionStorage) {
       this.storage.destroy();
     }
+    this.permissionBridge?.close().catch((error) => {
+      logger.warn('Failed to close permission bridge', { error });
+    });
     logger.info('Claude Code service destroyed');
   }
 }
@@ -5,7 +5,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { ClaudeCodeSession, SessionStorage } from './types';
+import type { ClaudeCodeSession, ClaudeCodeTurn, ClaudeToolPolicy, SessionStorage } from './types';
+import { getDatabase, type ClaudeSessionRow, type ClaudeTurnRow, type DatabaseClient } from '../database';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger({ prefix: 'ClaudeSessions' });
@@ -17,6 +18,8 @@ const logger = createLogger({ prefix: 'ClaudeSessions' });
 export class MemorySessionStorage implements SessionStorage {
   private sessions: Map<string, ClaudeCodeSession> = new Map();
   private activeSessions: Map<string, string> = new Map(); // chatId -> sessionId
+  private toolPolicies: Map<string, ClaudeToolPolicy> = new Map(); // chatId -> policy
+  private turns: Map<string, ClaudeCodeTurn[]> = new Map(); // sessionId -> turns
 
   async getActiveSession(chatId: string): Promise<ClaudeCodeSession | null> {
     const sessionId = this.activeSessions.get(chatId);
@@ -65,12 +68,35 @@ export class MemorySessionStorage implements SessionStorage {
       this.activeSessions.delete(session.chatId);
     }
 
+    this.turns.delete(sessionId);
     return this.sessions.delete(sessionId);
   }
 
   async getAllSessions(): Promise<ClaudeCodeSession[]> {
     return Array.from(this.sessions.values());
   }
+
+  async getChatToolPolicy(chatId: string): Promise<ClaudeToolPolicy | null> {
+    return this.toolPolicies.get(chatId) || null;
+  }
+
+  async setChatToolPolicy(chatId: string, policy: ClaudeToolPolicy | null): Promise<void> {
+    if (policy) {
+      this.toolPolicies.set(chatId, policy);
+    } else {
+      this.toolPolicies.delete(chatId);
+    }
+  }
+
+  async addTurn(turn: ClaudeCodeTurn): Promise<void> {
+    const turns = this.turns.get(turn.sessionId) || [];
+    turns.push(turn);
+    this.turns.set(turn.sessionId, turns);
+  }
+
+  async getTurns(sessionId: string, limit: number): Promise<ClaudeCodeTurn[]> {
+    return limit > 0 ? (this.turns.get(sessionId) || []).slice(-limit) : [];
+  }
 }
 
 // =============================================================================
@@ -80,6 +106,9 @@ export class MemorySessionStorage implements SessionStorage {
 export class FileSessionStorage implements SessionStorage {
   private sessions: Map<string, ClaudeCodeSession> = new Map();
   private activeSessions: Map<string, string> = new Map();
+  private toolPolicies: Map<string, ClaudeToolPolicy> = new Map();
+  /** Transcripts stay in memory; the JSON file only holds the sessions */
+  private turns: Map<string, ClaudeCodeTurn[]> = new Map();
   private filePath: string;
   private dirty = false;
   private saveTimer?: NodeJS.Timeout;
@@ -110,6 +139,13 @@ export class FileSessionStorage implements SessionStorage {
           }
         }
 
+        // Load chat tool policies
+        if (data.toolPolicies) {
+          for (const [chatId, policy] of Object.entries(data.toolPolicies)) {
+            this.toolPolicies.set(chatId, policy as ClaudeToolPolicy);
+          }
+        }
+
         logger.info(`Loaded ${this.sessions.size} sessions from storage`);
       }
     } catch (error) {
@@ -135,6 +171,7 @@ export class FileSessionStorage implements SessionStorage {
       const data = {
         sessions: Array.from(this.sessions.values()),
         activeSessions: Object.fromEntries(this.activeSessions),
+        toolPolicies: Object.fromEntries(this.toolPolicies),
       };
       
       // Ensure directory exists
@@ -198,6 +235,7 @@ export class FileSessionStorage implements SessionStorage {
       this.activeSessions.delete(session.chatId);
     }
 
+    this.turns.delete(sessionId);
     const result = this.sessions.delete(sessionId);
     this.scheduleSave();
     return result;
@@ -207,6 +245,29 @@ export class FileSessionStorage implements SessionStorage {
     return Array.from(this.sessions.values());
   }
 
+  async getChatToolPolicy(chatId: string): Promise<ClaudeToolPolicy | null> {
+    return this.toolPolicies.get(chatId) || null;
+  }
+
+  async setChatToolPolicy(chatId: string, policy: ClaudeToolPolicy | null): Promise<void> {
+    if (policy) {
+      this.toolPolicies.set(chatId, policy);
+    } else {
+      this.toolPolicies.delete(chatId);
+    }
+    this.scheduleSave();
+  }
+
+  async addTurn(turn: ClaudeCodeTurn): Promise<void> {
+    const turns = this.turns.get(turn.sessionId) || [];
+    turns.push(turn);
+    this.turns.set(turn.sessionId, turns);
+  }
+
+  async getTurns(sessionId: string, limit: number): Promise<ClaudeCodeTurn[]> {
+    return limit > 0 ? (this.turns.get(sessionId) || []).slice(-limit) : [];
+  }
+
   destroy(): void {
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
@@ -217,14 +278,192 @@ export class FileSessionStorage implements SessionStorage {
   }
 }
 
+// =============================================================================
+// SQLite Session Storage (bot database, with transcripts)
+// =============================================================================
+
+export interface SqliteSessionStorageOptions {
+  /** Turns older than this are deleted at startup and then hourly (default: 90 days) */
+  turnTtlMs?: number;
+  /**
+   * JSON file of the file storage; its sessions are imported once into an empty database,
+   * after which the file is renamed to <file>.imported
+   */
+  importFrom?: string;
+}
+
+/** Minimum time between two deletions of expired turns */
+const TURN_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+function toSession(row: ClaudeSessionRow): ClaudeCodeSession {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    lastActivityAt: new Date(row.last_activity_at),
+    messageCount: row.message_count,
+    workingDir: row.working_dir,
+    isActive: row.is_active === 1,
+    ...(row.token_usage ? { tokenUsage: JSON.parse(row.token_usage) } : {}),
+    ...(row.tool_policy ? { toolPolicy: JSON.parse(row.tool_policy) } : {}),
+    ...(row.cli_session_id ? { cliSessionId: row.cli_session_id } : {}),
+    ...(row.parent_id ? { parentId: row.parent_id } : {}),
+    ...(row.fork_from ? { forkFrom: row.fork_from } : {}),
+  };
+}
+
+function toTurn(row: ClaudeTurnRow): ClaudeCodeTurn {
+  return {
+    sessionId: row.session_id,
+    chatId: row.chat_id,
+    prompt: row.prompt,
+    text: row.answer,
+    tools: row.tools ? JSON.parse(row.tools) : [],
+    ...(row.usage ? { usage: JSON.parse(row.usage) } : {}),
+    durationMs: row.duration_ms,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export class SqliteSessionStorage implements SessionStorage {
+  private turnTtlMs: number;
+  private prunedAt = 0;
+
+  constructor(private db: DatabaseClient = getDatabase(), options: SqliteSessionStorageOptions = {}) {
+    this.turnTtlMs = options.turnTtlMs || 90 * 24 * 60 * 60 * 1000;
+    if (options.importFrom) {
+      this.importFile(options.importFrom);
+    }
+    this.pruneTurns();
+  }
+
+  /**
+   * Move the sessions, active sessions and chat tool policies of the JSON file storage
+   * into the database, unless it already has sessions
+   */
+  private importFile(filePath: string): void {
+    if (!fs.existsSync(filePath) || this.db.getClaudeSessions().length > 0) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const sessions: ClaudeCodeSession[] = data.sessions || [];
+      for (const session of sessions) {
+        this.saveRow({ ...session, createdAt: new Date(session.createdAt), lastActivityAt: new Date(session.lastActivityAt) });
+      }
+      for (const [chatId, sessionId] of Object.entries(data.activeSessions || {})) {
+        this.db.setClaudeActiveSession(chatId, sessionId as string);
+      }
+      for (const [chatId, policy] of Object.entries(data.toolPolicies || {})) {
+        this.db.setClaudeToolPolicy(chatId, JSON.stringify(policy));
+      }
+      fs.renameSync(filePath, `${filePath}.imported`);
+      logger.info(`Imported ${sessions.length} sessions from ${filePath}`);
+    } catch (error) {
+      logger.error('Failed to import sessions', { error, filePath });
+    }
+  }
+
+  private pruneTurns(): void {
+    this.prunedAt = Date.now();
+    this.db.deleteClaudeTurnsBefore(this.prunedAt - this.turnTtlMs);
+  }
+
+  async getActiveSession(chatId: string): Promise<ClaudeCodeSession | null> {
+    const sessionId = this.db.getClaudeActiveSessionId(chatId);
+    return sessionId ? this.getSession(sessionId) : null;
+  }
+
+  async getSessionsForChat(chatId: string): Promise<ClaudeCodeSession[]> {
+    return this.db.getClaudeSessions(chatId).map(toSession);
+  }
+
+  async getSession(sessionId: string): Promise<ClaudeCodeSession | null> {
+    const row = this.db.getClaudeSession(sessionId);
+    return row ? toSession(row) : null;
+  }
+
+  async saveSession(session: ClaudeCodeSession): Promise<void> {
+    this.saveRow(session);
+  }
+
+  private saveRow(session: ClaudeCodeSession): void {
+    this.db.saveClaudeSession({
+      id: session.id,
+      chat_id: session.chatId,
+      name: session.name,
+      working_dir: session.workingDir,
+      created_at: session.createdAt.getTime(),
+      last_activity_at: session.lastActivityAt.getTime(),
+      message_count: session.messageCount,
+      is_active: session.isActive ? 1 : 0,
+      token_usage: session.tokenUsage ? JSON.stringify(session.tokenUsage) : null,
+      tool_policy: session.toolPolicy ? JSON.stringify(session.toolPolicy) : null,
+      cli_session_id: session.cliSessionId || null,
+      parent_id: session.parentId || null,
+      fork_from: session.forkFrom || null,
+    });
+  }
+
+  async setActiveSession(chatId: string, sessionId: string): Promise<void> {
+    this.db.setClaudeActiveSession(chatId, sessionId);
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.db.deleteClaudeSession(sessionId);
+  }
+
+  async getAllSessions(): Promise<ClaudeCodeSession[]> {
+    return this.db.getClaudeSessions().map(toSession);
+  }
+
+  async getChatToolPolicy(chatId: string): Promise<ClaudeToolPolicy | null> {
+    const policy = this.db.getClaudeToolPolicy(chatId);
+    return policy ? JSON.parse(policy) : null;
+  }
+
+  async setChatToolPolicy(chatId: string, policy: ClaudeToolPolicy | null): Promise<void> {
+    if (policy) {
+      this.db.setClaudeToolPolicy(chatId, JSON.stringify(policy));
+    } else {
+      this.db.deleteClaudeToolPolicy(chatId);
+    }
+  }
+
+  async addTurn(turn: ClaudeCodeTurn): Promise<void> {
+    this.db.addClaudeTurn({
+      session_id: turn.sessionId,
+      chat_id: turn.chatId,
+      prompt: turn.prompt,
+      answer: turn.text,
+      tools: turn.tools.length > 0 ? JSON.stringify(turn.tools) : null,
+      usage: turn.usage ? JSON.stringify(turn.usage) : null,
+      duration_ms: turn.durationMs,
+      created_at: turn.createdAt.getTime(),
+    });
+    if (Date.now() - this.prunedAt >= TURN_PRUNE_INTERVAL_MS) {
+      this.pruneTurns();
+    }
+  }
+
+  async getTurns(sessionId: string, limit: number): Promise<ClaudeCodeTurn[]> {
+    return limit > 0 ? this.db.getClaudeTurns(sessionId, limit).map(toTurn) : [];
+  }
+}
+
 // =============================================================================
 // Factory
 // =============================================================================
 
 export function createSessionStorage(
-  type: 'memory' | 'file' = 'file',
-  options?: { path?: string }
+  type: 'sqlite' | 'file' | 'memory' = 'sqlite',
+  options?: { path?: string; db?: DatabaseClient }
 ): SessionStorage {
+  if (type === 'sqlite') {
+    return new SqliteSessionStorage(options?.db, { importFrom: options?.path });
+  }
   if (type === 'file') {
     return new FileSessionStorage(options?.path);
   }
@@ -0,0 +1,147 @@
+/**
+ * Claude CLI Stream Parser
+ * Zet stream-json regels van de Claude CLI om in streaming callbacks (ook gebruikt bij replay)
+ */
+
+import type { ClaudeCliMessage, ClaudeCliResult } from './types';
+import type { ToolUseEvent, ToolResultEvent, ClaudeCodeStreamCallbacks, StreamingUsage } from '../streaming/types';
+
+export interface ClaudeStreamParser {
+  /** Parse one stdout line */
+  push(line: string): void;
+  /** Text so far */
+  readonly text: string;
+  readonly toolHistory: ToolUseEvent[];
+  readonly usage?: StreamingUsage;
+  /** Session id the CLI reported (init and result messages) */
+  readonly sessionId?: string;
+}
+
+/**
+ * Create a parser for `--output-format stream-json` output
+ */
+export function createClaudeStreamParser(callbacks: ClaudeCodeStreamCallbacks): ClaudeStreamParser {
+  let text = '';
+  const toolHistory: ToolUseEvent[] = [];
+  let currentToolUse: ToolUseEvent | null = null;
+  let usage: StreamingUsage | undefined;
+  let sessionId: string | undefined;
+
+  const appendText = (chunk: string) => {
+    text += chunk;
+    callbacks.onContent?.(chunk);
+  };
+
+  const handleMessage = (msg: ClaudeCliMessage) => {
+    if (msg.session_id) {
+      sessionId = msg.session_id;
+    }
+
+    switch (msg.type) {
+      case 'assistant':
+        // Assistant message with content blocks
+        if (msg.message?.content) {
+          let extractedText = '';
+
+          if (typeof msg.message.content === 'string') {
+            extractedText = msg.message.content;
+          } else if (Array.isArray(msg.message.content)) {
+            for (const block of msg.message.content) {
+              if (block.type === 'text' && block.text) {
+                extractedText += block.text;
+              } else if (block.type === 'tool_use' && block.name && block.input) {
+                // Tool use detected
+                const toolUse: ToolUseEvent = {
+                  type: 'tool_use',
+                  id: block.id || `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                  name: block.name,
+                  input: block.input,
+                  timestamp: new Date(),
+                };
+
+                toolHistory.push(toolUse);
+                currentToolUse = toolUse;
+                callbacks.onToolUse?.(toolUse);
+              } else if (block.type === 'tool_result' && block.content) {
+                // Tool result detected
+                if (currentToolUse) {
+                  const toolResult: ToolResultEvent = {
+                    type: 'tool_result',
+                    toolUseId: currentToolUse.id,
+                    content: block.content,
+                    isError: false,
+                    timestamp: new Date(),
+                  };
+
+                  callbacks.onToolResult?.(toolResult);
+                  currentToolUse = null;
+                }
+              }
+            }
+          }
+
+          if (extractedText) {
+            appendText(extractedText);
+          }
+        }
+        break;
+
+      case 'result': {
+        // Final result message
+        const result = msg as unknown as ClaudeCliResult;
+        if (result.result) {
+          text = result.result;
+          callbacks.onContent?.(result.result);
+        }
+        if (result.usage || result.total_cost_usd !== undefined || result.cost_usd !== undefined) {
+          usage = {
+            inputTokens: (result.usage?.input_tokens || 0)
+              + (result.usage?.cache_creation_input_tokens || 0)
+              + (result.usage?.cache_read_input_tokens || 0),
+            outputTokens: result.usage?.output_tokens || 0,
+            costUSD: result.total_cost_usd ?? result.cost_usd,
+          };
+        }
+        break;
+      }
+
+      case 'system':
+        // System messages (ignore for now)
+        break;
+
+      default:
+        // Unknown message type, try to extract content
+        if (msg.content) {
+          appendText(msg.content);
+        }
+    }
+  };
+
+  return {
+    push(line: string): void {
+      if (!line.trim()) return;
+
+      let msg: ClaudeCliMessage | null = null;
+      try {
+        msg = JSON.parse(line);
+      } catch {
+        // Not JSON, handled as plain text below
+      }
+      if (!msg || typeof msg !== 'object') {
+        appendText(line + '\n');
+        return;
+      }
+      handleMessage(msg);
+    },
+    get text() {
+      return text;
+    },
+    toolHistory,
+    get usage() {
+      return usage;
+    },
+    get sessionId() {
+      return sessionId;
+    },
+  };
+}
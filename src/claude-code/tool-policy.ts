@@ -0,0 +1,85 @@
+/**
+ * Claude CLI Tool Policy
+ * Presets en bewerkingen voor de allow/deny-lijsten per chat of sessie
+ */
+
+import type { ClaudeToolPolicy, ClaudeToolPreset } from './types';
+
+/** Tools that change files or run commands */
+const WRITE_TOOLS = ['Bash', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+export const TOOL_PRESETS: Record<ClaudeToolPreset, { description: string; allowedTools: string[]; deniedTools: string[] }> = {
+  'read-only': {
+    description: 'Alleen lezen en zoeken, niets wijzigen of uitvoeren',
+    allowedTools: ['Read', 'Glob', 'Grep', 'LS', 'WebFetch', 'WebSearch'],
+    deniedTools: WRITE_TOOLS,
+  },
+  'no-bash': {
+    description: 'Alles behalve shell-commando\'s',
+    allowedTools: [],
+    deniedTools: ['Bash'],
+  },
+  full: {
+    description: 'Geen beperkingen (tools vragen nog steeds om goedkeuring)',
+    allowedTools: [],
+    deniedTools: [],
+  },
+};
+
+export function isToolPreset(name: string): name is ClaudeToolPreset {
+  return Object.prototype.hasOwnProperty.call(TOOL_PRESETS, name);
+}
+
+export function createToolPolicy(preset: ClaudeToolPreset): ClaudeToolPolicy {
+  const { allowedTools, deniedTools } = TOOL_PRESETS[preset];
+  return { allowedTools: [...allowedTools], deniedTools: [...deniedTools], preset };
+}
+
+/**
+ * Allow the tools; they are removed from the deny list
+ */
+export function allowTools(policy: ClaudeToolPolicy, tools: string[]): ClaudeToolPolicy {
+  return {
+    allowedTools: unique([...policy.allowedTools, ...tools]),
+    deniedTools: policy.deniedTools.filter((tool) => !tools.includes(tool)),
+  };
+}
+
+/**
+ * Deny the tools; they are removed from the allow list
+ */
+export function denyTools(policy: ClaudeToolPolicy, tools: string[]): ClaudeToolPolicy {
+  return {
+    allowedTools: policy.allowedTools.filter((tool) => !tools.includes(tool)),
+    deniedTools: unique([...policy.deniedTools, ...tools]),
+  };
+}
+
+/**
+ * Whether the allow list lets the tool through; an empty list allows every tool.
+ * A pattern like "Bash(git:*)" counts for the whole tool, the user still approves the call.
+ */
+export function isToolAllowed(policy: ClaudeToolPolicy, toolName: string): boolean {
+  return policy.allowedTools.length === 0
+    || policy.allowedTools.some((tool) => tool === toolName || tool.startsWith(`${toolName}(`));
+}
+
+/**
+ * CLI arguments for the policy
+ * @param gated The permission bridge approves tool calls; the CLI would skip it for
+ *   --allowedTools, so the allow list is then enforced by the bridge (isToolAllowed)
+ */
+export function toolPolicyArgs(policy: ClaudeToolPolicy, gated = false): string[] {
+  const args: string[] = [];
+  for (const tool of gated ? [] : policy.allowedTools) {
+    args.push('--allowedTools', tool);
+  }
+  for (const tool of policy.deniedTools) {
+    args.push('--disallowedTools', tool);
+  }
+  return args;
+}
+
+function unique(tools: string[]): string[] {
+  return Array.from(new Set(tools));
+}
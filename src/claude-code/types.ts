@@ -3,6 +3,8 @@
  * Types voor integratie met Claude Code via CLI
  */
 
+import type { DatabaseClient } from '../database';
+
 // =============================================================================
 // Service Options
 // =============================================================================
@@ -16,8 +18,12 @@ export interface ClaudeCodeOptions {
   model?: string;
   /** Max output tokens */
   maxTokens?: number;
-  /** Session storage path */
+  /** Where sessions are stored (default: 'sqlite', the bot database) */
+  sessionStorage?: 'sqlite' | 'file' | 'memory';
+  /** JSON file for the 'file' session storage */
   sessionStoragePath?: string;
+  /** Database for the 'sqlite' session storage (default: the bot database) */
+  database?: DatabaseClient;
   /** Timeout for CLI calls in ms (default: 120000 = 2 min) */
   timeout?: number;
   /** Allowed tools for Claude Code */
@@ -26,8 +32,39 @@ export interface ClaudeCodeOptions {
   deniedTools?: string[];
   /** System prompt override */
   systemPrompt?: string;
+  /** Ask the Telegram user before the CLI runs a tool, via the permission bridge (default: true) */
+  permissionPrompt?: boolean;
+  /** Directories sessions may run in, including subdirectories (default: [workingDir]) */
+  allowedRoots?: string[];
+  /** The chat's open /project; new sessions run in its directory */
+  project?: (chatId: string) => ClaudeProject | undefined;
+}
+
+/** Project a chat opened with /project */
+export interface ClaudeProject {
+  rootPath: string;
+  /** When the project was opened (ms) */
+  openedAt: number;
 }
 
+// =============================================================================
+// Tool Policy
+// =============================================================================
+
+/** Built-in allow/deny lists for /claude tools */
+export type ClaudeToolPreset = 'read-only' | 'no-bash' | 'full';
+
+/** Tools passed to the CLI as --allowedTools / --disallowedTools */
+export interface ClaudeToolPolicy {
+  allowedTools: string[];
+  deniedTools: string[];
+  /** Preset the lists came from, cleared after manual edits */
+  preset?: ClaudeToolPreset;
+}
+
+/** Where the tool policy for a message comes from */
+export type ClaudeToolPolicyScope = 'session' | 'chat' | 'default';
+
 // =============================================================================
 // Session Types
 // =============================================================================
@@ -49,6 +86,14 @@ export interface ClaudeCodeSession {
   workingDir: string;
   /** Whether session is currently active for this chat */
   isActive: boolean;
+  /** Tool policy of this session; overrides the chat's policy */
+  toolPolicy?: ClaudeToolPolicy;
+  /** Session id the CLI reported; resumed on the next message */
+  cliSessionId?: string;
+  /** Session this one was forked from */
+  parentId?: string;
+  /** CLI session to fork from on the next message (--resume with --fork-session) */
+  forkFrom?: string;
   /** Token usage tracking */
   tokenUsage?: {
     totalInputTokens: number;
@@ -59,6 +104,25 @@ export interface ClaudeCodeSession {
   };
 }
 
+/** One answered message in a session's transcript */
+export interface ClaudeCodeTurn {
+  sessionId: string;
+  chatId: string;
+  /** User message */
+  prompt: string;
+  /** Final answer text */
+  text: string;
+  /** Tools the CLI used for the answer */
+  tools: Array<{ name: string; input: Record<string, unknown> }>;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    costUSD?: number;
+  };
+  durationMs: number;
+  createdAt: Date;
+}
+
 export interface SessionStorage {
   /** Get session by chat ID (active session) */
   getActiveSession(chatId: string): Promise<ClaudeCodeSession | null>;
@@ -74,6 +138,14 @@ export interface SessionStorage {
   deleteSession(sessionId: string): Promise<boolean>;
   /** Get all sessions */
   getAllSessions(): Promise<ClaudeCodeSession[]>;
+  /** Get the tool policy for all sessions of a chat */
+  getChatToolPolicy(chatId: string): Promise<ClaudeToolPolicy | null>;
+  /** Set or (null) remove the chat's tool policy */
+  setChatToolPolicy(chatId: string, policy: ClaudeToolPolicy | null): Promise<void>;
+  /** Append a turn to its session's transcript */
+  addTurn(turn: ClaudeCodeTurn): Promise<void>;
+  /** The last `limit` turns of a session, oldest first */
+  getTurns(sessionId: string, limit: number): Promise<ClaudeCodeTurn[]>;
 }
 
 // =============================================================================
@@ -99,7 +171,7 @@ export interface ClaudeCodeResponse {
 }
 
 export interface ClaudeCodeError extends Error {
-  code: 'TIMEOUT' | 'CLI_ERROR' | 'SESSION_ERROR' | 'PARSE_ERROR' | 'UNKNOWN';
+  code: 'TIMEOUT' | 'CANCELLED' | 'CLI_ERROR' | 'SESSION_ERROR' | 'PARSE_ERROR' | 'UNKNOWN';
   exitCode?: number;
   stderr?: string;
 }
@@ -124,6 +196,8 @@ export interface ClaudeCliMessage {
 
 export interface ClaudeCliContentBlock {
   type: 'text' | 'tool_use' | 'tool_result';
+  /** tool_use id, e.g. toolu_01... */
+  id?: string;
   text?: string;
   name?: string;
   input?: Record<string, unknown>;
@@ -134,6 +208,14 @@ export interface ClaudeCliResult {
   type: 'result';
   session_id: string;
   cost_usd: number;
+  /** Newer CLI versions report cost as total_cost_usd */
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
   is_error: boolean;
   duration_ms: number;
   duration_api_ms: number;
@@ -9,20 +9,25 @@ import {
   Conversation,
   ConversationMessage,
   ClaudeResponse,
+  ClaudeRequestOptions,
   ClaudeServiceError,
   ClaudeRateLimitError,
   ClaudeContentFilterError,
 } from './types';
 import { ConversationStore } from './store';
-import { DEFAULT_SYSTEM_PROMPT } from './prompts';
+import { DEFAULT_SYSTEM_PROMPT, DEVELOPER_SYSTEM_PROMPT } from './prompts';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger({ prefix: 'ClaudeService' });
 
 // Types for Anthropic API (defined locally to avoid import issues)
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+type ContentBlockParam =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: ImageMediaType; data: string } };
 type MessageParam = {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | ContentBlockParam[];
 };
 
 export class ClaudeService {
@@ -63,9 +68,45 @@ export class ClaudeService {
    * Process a message from Telegram
    * @param chatId Telegram chat ID
    * @param userMessage Message text from user
+   * @param options Model override and streaming callback
    * @returns Claude's response
    */
-  async processMessage(chatId: string, userMessage: string): Promise<ClaudeResponse> {
+  async processMessage(
+    chatId: string,
+    userMessage: string,
+    options?: ClaudeRequestOptions
+  ): Promise<ClaudeResponse> {
+    return this.processMessageInternal(chatId, userMessage, options?.systemPrompt || this.options.systemPrompt, options);
+  }
+
+  /**
+   * Process a developer-focused message (used by /code)
+   * Uses a separate `dev:` conversation so coding context doesn't mix with chat
+   */
+  async processDeveloperMessage(
+    chatId: string,
+    userMessage: string,
+    options?: ClaudeRequestOptions
+  ): Promise<ClaudeResponse> {
+    return this.processMessageInternal(`dev:${chatId}`, userMessage, DEVELOPER_SYSTEM_PROMPT, options);
+  }
+
+  /**
+   * Default model for this service
+   */
+  getModel(): string {
+    return this.options.model;
+  }
+
+  /**
+   * Shared message processor with custom system prompt
+   */
+  private async processMessageInternal(
+    chatId: string,
+    userMessage: string,
+    systemPrompt: string,
+    options?: ClaudeRequestOptions
+  ): Promise<ClaudeResponse> {
     // Get or create conversation
     let conversation = this.store.get(chatId);
     if (!conversation) {
@@ -80,7 +121,7 @@ export class ClaudeService {
 
     try {
       // Call Anthropic API
-      const response = await this.callAnthropic(conversation);
+      const response = await this.callAnthropic(conversation, systemPrompt, options);
 
       // Add assistant response to conversation
       this.store.addMessage(conversation, 'assistant', response.text);
@@ -95,6 +136,52 @@ export class ClaudeService {
     }
   }
 
+  /**
+   * Append a user/assistant turn without calling the API (e.g. an answer kept from /compare)
+   */
+  addExchange(chatId: string, userMessage: string, assistantMessage: string): void {
+    const conversation = this.store.get(chatId) || this.store.create(chatId);
+    this.store.addMessage(conversation, 'user', userMessage);
+    this.store.addMessage(conversation, 'assistant', assistantMessage);
+    this.trimHistory(conversation);
+    this.store.save(chatId, conversation);
+  }
+
+  /**
+   * Drop the last user/assistant turn, e.g. to regenerate that answer
+   * @returns false when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string): boolean {
+    const conversation = this.store.get(chatId);
+    const [user, assistant] = conversation?.messages.slice(-2) || [];
+    if (!conversation || user?.role !== 'user' || assistant?.role !== 'assistant') {
+      return false;
+    }
+    conversation.messages.splice(-2, 2);
+    this.store.save(chatId, conversation);
+    return true;
+  }
+
+  /**
+   * Copy of the stored history without timestamps
+   */
+  getHistory(chatId: string): Array<{ role: 'user' | 'assistant'; content: string }> {
+    return (this.store.get(chatId)?.messages || []).map(({ role, content }) => ({ role, content }));
+  }
+
+  /**
+   * Replace the history, e.g. with an imported conversation
+   */
+  replaceHistory(chatId: string, messages: Array<{ role: 'user' | 'assistant'; content: string }>): void {
+    const conversation = this.store.get(chatId) || this.store.create(chatId);
+    this.store.clearMessages(conversation);
+    for (const message of messages) {
+      this.store.addMessage(conversation, message.role, message.content);
+    }
+    this.trimHistory(conversation);
+    this.store.save(chatId, conversation);
+  }
+
   /**
    * Clear conversation history for a chat
    */
@@ -149,17 +236,29 @@ export class ClaudeService {
   /**
    * Call Anthropic Messages API
    */
-  private async callAnthropic(conversation: Conversation): Promise<ClaudeResponse> {
-    const messages = this.formatMessages(conversation.messages);
-
-    const startTime = Date.now();
-    const response = await this.anthropic.messages.create({
-      model: this.options.model,
+  private async callAnthropic(
+    conversation: Conversation,
+    systemPrompt: string,
+    options?: ClaudeRequestOptions
+  ): Promise<ClaudeResponse> {
+    const params = {
+      model: options?.model || this.options.model,
       max_tokens: this.options.maxTokens,
       temperature: this.options.temperature,
-      system: this.options.systemPrompt,
-      messages,
-    });
+      system: systemPrompt,
+      messages: this.formatMessages(conversation.messages, options?.images),
+    };
+
+    const startTime = Date.now();
+    let response: Anthropic.Message;
+    if (options?.onContent) {
+      const onContent = options.onContent;
+      const stream = this.anthropic.messages.stream(params, { signal: options.signal });
+      stream.on('text', (delta) => onContent(delta));
+      response = await stream.finalMessage();
+    } else {
+      response = await this.anthropic.messages.create(params, { signal: options?.signal });
+    }
     const duration = Date.now() - startTime;
 
     // Extract response text
@@ -179,11 +278,24 @@ export class ClaudeService {
   /**
    * Format conversation messages for Anthropic API
    */
-  private formatMessages(messages: ConversationMessage[]): MessageParam[] {
-    return messages.map((msg) => ({
+  private formatMessages(messages: ConversationMessage[], images?: ClaudeRequestOptions['images']): MessageParam[] {
+    const formatted: MessageParam[] = messages.map((msg) => ({
       role: msg.role,
       content: msg.content,
     }));
+
+    // Images go with the newest user message
+    const last = formatted[formatted.length - 1];
+    if (images?.length && last?.role === 'user') {
+      last.content = [
+        ...images.map((image): ContentBlockParam => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mimeType as ImageMediaType, data: image.data },
+        })),
+        { type: 'text', text: last.content as string },
+      ];
+    }
+    return formatted;
   }
 
   /**
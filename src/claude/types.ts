@@ -4,6 +4,7 @@
  */
 
 import type Anthropic from '@anthropic-ai/sdk';
+import type { LLMImage } from '../llm/vision';
 
 /** Claude service configuration options */
 export interface ClaudeServiceOptions {
@@ -56,6 +57,20 @@ export interface ClaudeResponse {
   };
 }
 
+/** Per-request options */
+export interface ClaudeRequestOptions {
+  /** Model override for this request */
+  model?: string;
+  /** System prompt for this request (chat persona); replaces the default */
+  systemPrompt?: string;
+  /** Called with each streamed text delta (enables streaming) */
+  onContent?: (chunk: string) => void;
+  /** Aborts the request (/cancel) */
+  signal?: AbortSignal;
+  /** Images with the user message (not stored in the history) */
+  images?: LLMImage[];
+}
+
 /** Error types for Claude service */
 export class ClaudeServiceError extends Error {
   constructor(message: string, public readonly code?: string) {
@@ -109,6 +109,103 @@ export interface UserSkillRecord {
   updated_at: number;
 }
 
+export interface LLMProviderOverride {
+  chat_id: string;
+  provider: string;
+  updated_at: number;
+}
+
+export interface LLMModelOverride {
+  chat_id: string;
+  provider: string;
+  model: string;
+  updated_at: number;
+}
+
+export interface LLMUsageRecord {
+  chat_id: string;
+  user_id: string;
+  provider: string;
+  model: string;
+  day: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  updated_at: number;
+}
+
+export interface LLMUsageSummaryRow {
+  chat_id?: string;
+  provider: string;
+  model: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface LLMQuotaRecord {
+  kind: string;
+  scope: string;
+  limit_value: number;
+  action: string;
+  downgrade_provider: string | null;
+  downgrade_model: string | null;
+  updated_at: number;
+}
+
+export interface LLMTurnRow {
+  id: number;
+  chat_id: string;
+  provider: string;
+  model: string | null;
+  prompt: string;
+  answer: string;
+  tools: string | null;
+  created_at: number;
+}
+
+export interface ClaudeSessionRow {
+  id: string;
+  chat_id: string;
+  name: string;
+  working_dir: string;
+  created_at: number;
+  last_activity_at: number;
+  message_count: number;
+  is_active: number;
+  /** JSON */
+  token_usage: string | null;
+  /** JSON */
+  tool_policy: string | null;
+  cli_session_id: string | null;
+  parent_id: string | null;
+  fork_from: string | null;
+}
+
+export interface ClaudeTurnRow {
+  id: number;
+  session_id: string;
+  chat_id: string;
+  prompt: string;
+  answer: string;
+  /** JSON */
+  tools: string | null;
+  /** JSON */
+  usage: string | null;
+  duration_ms: number;
+  created_at: number;
+}
+
+export interface LLMPersonaRecord {
+  name: string;
+  prompt: string;
+  created_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
 export interface P2000Subscription {
   chat_id: string;
   enabled: number;
@@ -243,6 +340,162 @@ export class DatabaseClient {
       )
     `);
 
+    // LLM provider/model choices per chat
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_provider_overrides (
+        chat_id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_model_overrides (
+        chat_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (chat_id, provider)
+      )
+    `);
+
+    // LLM token usage, aggregated per chat/user/provider/model/day (UTC)
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        chat_id TEXT NOT NULL,
+        user_id TEXT NOT NULL DEFAULT '',
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL DEFAULT '',
+        day TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (chat_id, user_id, provider, model, day)
+      )
+    `);
+    this.database.exec(`CREATE INDEX IF NOT EXISTS idx_llm_usage_day ON llm_usage(day)`);
+
+    // LLM quota rules (scope '*' = default for every user/chat/provider)
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_quotas (
+        kind TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        limit_value REAL NOT NULL,
+        action TEXT NOT NULL DEFAULT 'block',
+        downgrade_provider TEXT,
+        downgrade_model TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, scope)
+      )
+    `);
+
+    // Answered LLM requests per chat, for the hourly request limit
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_chat_requests (
+        chat_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.database.exec(`CREATE INDEX IF NOT EXISTS idx_llm_chat_requests ON llm_chat_requests(chat_id, created_at)`);
+
+    // Named system prompts, shared between chats
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_personas (
+        name TEXT PRIMARY KEY,
+        prompt TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_chat_personas (
+        chat_id TEXT PRIMARY KEY,
+        persona TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Answered prompts with provider, model and tool calls, for /export
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS llm_turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT,
+        prompt TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        tools TEXT,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.database.exec(`CREATE INDEX IF NOT EXISTS idx_llm_turns_chat ON llm_turns(chat_id, created_at)`);
+
+    // Claude CLI sessions, the active session and tool policy per chat, and the turns of each session
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS claude_sessions (
+        id TEXT PRIMARY KEY,
+        chat_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        working_dir TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_activity_at INTEGER NOT NULL,
+        message_count INTEGER NOT NULL DEFAULT 0,
+        is_active INTEGER NOT NULL DEFAULT 0,
+        token_usage TEXT,
+        tool_policy TEXT,
+        cli_session_id TEXT,
+        parent_id TEXT,
+        fork_from TEXT
+      )
+    `);
+    this.database.exec(`CREATE INDEX IF NOT EXISTS idx_claude_sessions_chat ON claude_sessions(chat_id)`);
+    this.ensureColumn('claude_sessions', 'cli_session_id', 'TEXT');
+    this.ensureColumn('claude_sessions', 'parent_id', 'TEXT');
+    this.ensureColumn('claude_sessions', 'fork_from', 'TEXT');
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS claude_active_sessions (
+        chat_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL
+      )
+    `);
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS claude_tool_policies (
+        chat_id TEXT PRIMARY KEY,
+        policy TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS claude_turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        chat_id TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        tools TEXT,
+        usage TEXT,
+        duration_ms INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.database.exec(`CREATE INDEX IF NOT EXISTS idx_claude_turns_session ON claude_turns(session_id, id)`);
+
+    // Speech-to-text language hint per chat
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS voice_languages (
+        chat_id TEXT PRIMARY KEY,
+        language TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
     logger.info('Database schema initialized');
   }
 
@@ -405,6 +658,18 @@ export class DatabaseClient {
     this.database.prepare(`DELETE FROM conversations WHERE chat_id = ?`).run(chatId);
   }
 
+  /**
+   * Delete conversations last accessed before `before` (optionally only ids with a prefix)
+   */
+  deleteConversationsBefore(before: number, chatIdPrefix?: string): number {
+    if (chatIdPrefix) {
+      return this.database.prepare(`
+        DELETE FROM conversations WHERE last_access_at < ? AND substr(chat_id, 1, ?) = ?
+      `).run(before, chatIdPrefix.length, chatIdPrefix).changes;
+    }
+    return this.database.prepare(`DELETE FROM conversations WHERE last_access_at < ?`).run(before).changes;
+  }
+
   // ==========================================================================
   // Files Operations
   // ==========================================================================
@@ -513,6 +778,405 @@ export class DatabaseClient {
     `).all(limit) as UserSkillRecord[];
   }
 
+  // ==========================================================================
+  // LLM Preferences Operations
+  // ==========================================================================
+
+  setLLMProviderOverride(chatId: string, provider: string): void {
+    this.database.prepare(`
+      INSERT INTO llm_provider_overrides (chat_id, provider, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET provider = excluded.provider, updated_at = excluded.updated_at
+    `).run(chatId, provider, Date.now());
+  }
+
+  getLLMProviderOverrides(): LLMProviderOverride[] {
+    return this.database.prepare(`SELECT * FROM llm_provider_overrides`).all() as LLMProviderOverride[];
+  }
+
+  deleteLLMProviderOverride(chatId: string): boolean {
+    const result = this.database.prepare(`DELETE FROM llm_provider_overrides WHERE chat_id = ?`).run(chatId);
+    return result.changes > 0;
+  }
+
+  setLLMModelOverride(chatId: string, provider: string, model: string): void {
+    this.database.prepare(`
+      INSERT INTO llm_model_overrides (chat_id, provider, model, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(chat_id, provider) DO UPDATE SET model = excluded.model, updated_at = excluded.updated_at
+    `).run(chatId, provider, model, Date.now());
+  }
+
+  getLLMModelOverrides(): LLMModelOverride[] {
+    return this.database.prepare(`SELECT * FROM llm_model_overrides`).all() as LLMModelOverride[];
+  }
+
+  deleteLLMModelOverrides(chatId: string, provider?: string): number {
+    if (provider) {
+      return this.database.prepare(`
+        DELETE FROM llm_model_overrides WHERE chat_id = ? AND provider = ?
+      `).run(chatId, provider).changes;
+    }
+    return this.database.prepare(`DELETE FROM llm_model_overrides WHERE chat_id = ?`).run(chatId).changes;
+  }
+
+  // ==========================================================================
+  // LLM Usage Operations
+  // ==========================================================================
+
+  addLLMUsage(usage: Omit<LLMUsageRecord, 'requests' | 'updated_at'>): void {
+    this.database.prepare(`
+      INSERT INTO llm_usage (chat_id, user_id, provider, model, day, requests, input_tokens, output_tokens, cost_usd, updated_at)
+      VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?, ?)
+      ON CONFLICT(chat_id, user_id, provider, model, day) DO UPDATE SET
+        requests = requests + 1,
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cost_usd = cost_usd + excluded.cost_usd,
+        updated_at = excluded.updated_at
+    `).run(
+      usage.chat_id,
+      usage.user_id,
+      usage.provider,
+      usage.model,
+      usage.day,
+      usage.input_tokens,
+      usage.output_tokens,
+      usage.cost_usd,
+      Date.now()
+    );
+  }
+
+  /**
+   * Usage totals per provider/model since `sinceDay` (YYYY-MM-DD), optionally for one chat.
+   * With `byChat` the rows are also split per chat.
+   */
+  getLLMUsageSummary(sinceDay: string, options: { chatId?: string; byChat?: boolean } = {}): LLMUsageSummaryRow[] {
+    const groupBy = options.byChat ? 'chat_id, provider, model' : 'provider, model';
+    const select = options.byChat ? 'chat_id, provider, model' : 'provider, model';
+    const where = options.chatId ? 'day >= ? AND chat_id = ?' : 'day >= ?';
+    const params = options.chatId ? [sinceDay, options.chatId] : [sinceDay];
+
+    return this.database.prepare(`
+      SELECT ${select},
+        SUM(requests) AS requests,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM llm_usage
+      WHERE ${where}
+      GROUP BY ${groupBy}
+      ORDER BY cost_usd DESC, requests DESC
+    `).all(...params) as LLMUsageSummaryRow[];
+  }
+
+  /**
+   * Total tokens (in + out) of a user since `sinceDay`
+   */
+  getLLMUserTokens(userId: string, sinceDay: string): number {
+    const row = this.database.prepare(`
+      SELECT COALESCE(SUM(input_tokens + output_tokens), 0) AS total
+      FROM llm_usage
+      WHERE user_id = ? AND day >= ?
+    `).get(userId, sinceDay) as { total: number };
+    return row.total;
+  }
+
+  /**
+   * Total cost of a provider since `sinceDay`
+   */
+  getLLMProviderCost(provider: string, sinceDay: string): number {
+    const row = this.database.prepare(`
+      SELECT COALESCE(SUM(cost_usd), 0) AS total
+      FROM llm_usage
+      WHERE provider = ? AND day >= ?
+    `).get(provider, sinceDay) as { total: number };
+    return row.total;
+  }
+
+  // ==========================================================================
+  // LLM Quota Operations
+  // ==========================================================================
+
+  setLLMQuota(quota: Omit<LLMQuotaRecord, 'updated_at'>): void {
+    this.database.prepare(`
+      INSERT INTO llm_quotas (kind, scope, limit_value, action, downgrade_provider, downgrade_model, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(kind, scope) DO UPDATE SET
+        limit_value = excluded.limit_value,
+        action = excluded.action,
+        downgrade_provider = excluded.downgrade_provider,
+        downgrade_model = excluded.downgrade_model,
+        updated_at = excluded.updated_at
+    `).run(
+      quota.kind,
+      quota.scope,
+      quota.limit_value,
+      quota.action,
+      quota.downgrade_provider,
+      quota.downgrade_model,
+      Date.now()
+    );
+  }
+
+  getLLMQuotas(): LLMQuotaRecord[] {
+    return this.database.prepare(`SELECT * FROM llm_quotas ORDER BY kind, scope`).all() as LLMQuotaRecord[];
+  }
+
+  deleteLLMQuota(kind: string, scope: string): boolean {
+    const result = this.database.prepare(`DELETE FROM llm_quotas WHERE kind = ? AND scope = ?`).run(kind, scope);
+    return result.changes > 0;
+  }
+
+  addLLMChatRequest(chatId: string, createdAt: number): void {
+    this.database.prepare(`INSERT INTO llm_chat_requests (chat_id, created_at) VALUES (?, ?)`).run(chatId, createdAt);
+  }
+
+  countLLMChatRequests(chatId: string, since: number): number {
+    const row = this.database.prepare(`
+      SELECT COUNT(*) AS total FROM llm_chat_requests WHERE chat_id = ? AND created_at > ?
+    `).get(chatId, since) as { total: number };
+    return row.total;
+  }
+
+  deleteLLMChatRequestsBefore(chatId: string, before: number): number {
+    return this.database.prepare(`
+      DELETE FROM llm_chat_requests WHERE chat_id = ? AND created_at <= ?
+    `).run(chatId, before).changes;
+  }
+
+  // ==========================================================================
+  // LLM Persona Operations
+  // ==========================================================================
+
+  saveLLMPersona(name: string, prompt: string, createdBy: string): void {
+    const now = Date.now();
+    this.database.prepare(`
+      INSERT INTO llm_personas (name, prompt, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET prompt = excluded.prompt, updated_at = excluded.updated_at
+    `).run(name, prompt, createdBy, now, now);
+  }
+
+  getLLMPersona(name: string): LLMPersonaRecord | undefined {
+    return this.database.prepare(`SELECT * FROM llm_personas WHERE name = ?`).get(name) as LLMPersonaRecord | undefined;
+  }
+
+  getLLMPersonas(): LLMPersonaRecord[] {
+    return this.database.prepare(`SELECT * FROM llm_personas ORDER BY name`).all() as LLMPersonaRecord[];
+  }
+
+  /**
+   * Delete a persona and unselect it in every chat
+   */
+  deleteLLMPersona(name: string): boolean {
+    const remove = this.database.transaction(() => {
+      this.database.prepare(`DELETE FROM llm_chat_personas WHERE persona = ?`).run(name);
+      return this.database.prepare(`DELETE FROM llm_personas WHERE name = ?`).run(name).changes > 0;
+    });
+    return remove();
+  }
+
+  setLLMChatPersona(chatId: string, persona: string): void {
+    this.database.prepare(`
+      INSERT INTO llm_chat_personas (chat_id, persona, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET persona = excluded.persona, updated_at = excluded.updated_at
+    `).run(chatId, persona, Date.now());
+  }
+
+  getLLMChatPersona(chatId: string): string | undefined {
+    const row = this.database.prepare(`SELECT persona FROM llm_chat_personas WHERE chat_id = ?`).get(chatId) as
+      { persona: string } | undefined;
+    return row?.persona;
+  }
+
+  deleteLLMChatPersona(chatId: string): void {
+    this.database.prepare(`DELETE FROM llm_chat_personas WHERE chat_id = ?`).run(chatId);
+  }
+
+  // ==========================================================================
+  // LLM Turn Operations
+  // ==========================================================================
+
+  addLLMTurn(turn: Omit<LLMTurnRow, 'id'>): void {
+    this.database.prepare(`
+      INSERT INTO llm_turns (chat_id, provider, model, prompt, answer, tools, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(turn.chat_id, turn.provider, turn.model, turn.prompt, turn.answer, turn.tools, turn.created_at);
+  }
+
+  getLLMTurns(chatId: string, since = 0): LLMTurnRow[] {
+    return this.database.prepare(`
+      SELECT * FROM llm_turns WHERE chat_id = ? AND created_at >= ? ORDER BY created_at, id
+    `).all(chatId, since) as LLMTurnRow[];
+  }
+
+  deleteLLMTurnsBefore(before: number): number {
+    return this.database.prepare(`DELETE FROM llm_turns WHERE created_at < ?`).run(before).changes;
+  }
+
+  // ==========================================================================
+  // Claude Session Operations
+  // ==========================================================================
+
+  saveClaudeSession(row: ClaudeSessionRow): void {
+    this.database.prepare(`
+      INSERT INTO claude_sessions
+        (id, chat_id, name, working_dir, created_at, last_activity_at, message_count, is_active, token_usage, tool_policy,
+         cli_session_id, parent_id, fork_from)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        working_dir = excluded.working_dir,
+        last_activity_at = excluded.last_activity_at,
+        message_count = excluded.message_count,
+        is_active = excluded.is_active,
+        token_usage = excluded.token_usage,
+        tool_policy = excluded.tool_policy,
+        cli_session_id = excluded.cli_session_id,
+        parent_id = excluded.parent_id,
+        fork_from = excluded.fork_from
+    `).run(
+      row.id,
+      row.chat_id,
+      row.name,
+      row.working_dir,
+      row.created_at,
+      row.last_activity_at,
+      row.message_count,
+      row.is_active,
+      row.token_usage,
+      row.tool_policy,
+      row.cli_session_id,
+      row.parent_id,
+      row.fork_from
+    );
+  }
+
+  getClaudeSession(id: string): ClaudeSessionRow | undefined {
+    return this.database.prepare(`SELECT * FROM claude_sessions WHERE id = ?`).get(id) as ClaudeSessionRow | undefined;
+  }
+
+  /**
+   * Sessions of a chat (or all), most recently used first
+   */
+  getClaudeSessions(chatId?: string): ClaudeSessionRow[] {
+    if (chatId === undefined) {
+      return this.database.prepare(`SELECT * FROM claude_sessions ORDER BY last_activity_at DESC`).all() as ClaudeSessionRow[];
+    }
+    return this.database.prepare(`
+      SELECT * FROM claude_sessions WHERE chat_id = ? ORDER BY last_activity_at DESC
+    `).all(chatId) as ClaudeSessionRow[];
+  }
+
+  /**
+   * Delete a session with its turns; a chat that had it active has none afterwards
+   */
+  deleteClaudeSession(id: string): boolean {
+    const remove = this.database.transaction(() => {
+      this.database.prepare(`DELETE FROM claude_turns WHERE session_id = ?`).run(id);
+      this.database.prepare(`DELETE FROM claude_active_sessions WHERE session_id = ?`).run(id);
+      return this.database.prepare(`DELETE FROM claude_sessions WHERE id = ?`).run(id).changes > 0;
+    });
+    return remove();
+  }
+
+  /**
+   * Make the session the chat's active one and mark the previous one inactive
+   */
+  setClaudeActiveSession(chatId: string, sessionId: string): void {
+    const activate = this.database.transaction(() => {
+      this.database.prepare(`
+        UPDATE claude_sessions SET is_active = 0
+        WHERE id = (SELECT session_id FROM claude_active_sessions WHERE chat_id = ?)
+      `).run(chatId);
+      this.database.prepare(`
+        INSERT INTO claude_active_sessions (chat_id, session_id)
+        VALUES (?, ?)
+        ON CONFLICT(chat_id) DO UPDATE SET session_id = excluded.session_id
+      `).run(chatId, sessionId);
+      this.database.prepare(`UPDATE claude_sessions SET is_active = 1 WHERE id = ?`).run(sessionId);
+    });
+    activate();
+  }
+
+  getClaudeActiveSessionId(chatId: string): string | undefined {
+    const row = this.database.prepare(`SELECT session_id FROM claude_active_sessions WHERE chat_id = ?`).get(chatId) as
+      { session_id: string } | undefined;
+    return row?.session_id;
+  }
+
+  setClaudeToolPolicy(chatId: string, policy: string): void {
+    this.database.prepare(`
+      INSERT INTO claude_tool_policies (chat_id, policy, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET policy = excluded.policy, updated_at = excluded.updated_at
+    `).run(chatId, policy, Date.now());
+  }
+
+  getClaudeToolPolicy(chatId: string): string | undefined {
+    const row = this.database.prepare(`SELECT policy FROM claude_tool_policies WHERE chat_id = ?`).get(chatId) as
+      { policy: string } | undefined;
+    return row?.policy;
+  }
+
+  deleteClaudeToolPolicy(chatId: string): void {
+    this.database.prepare(`DELETE FROM claude_tool_policies WHERE chat_id = ?`).run(chatId);
+  }
+
+  addClaudeTurn(turn: Omit<ClaudeTurnRow, 'id'>): void {
+    this.database.prepare(`
+      INSERT INTO claude_turns (session_id, chat_id, prompt, answer, tools, usage, duration_ms, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      turn.session_id,
+      turn.chat_id,
+      turn.prompt,
+      turn.answer,
+      turn.tools,
+      turn.usage,
+      turn.duration_ms,
+      turn.created_at
+    );
+  }
+
+  /**
+   * The last `limit` turns of a session, oldest first
+   */
+  getClaudeTurns(sessionId: string, limit: number): ClaudeTurnRow[] {
+    const rows = this.database.prepare(`
+      SELECT * FROM claude_turns WHERE session_id = ? ORDER BY id DESC LIMIT ?
+    `).all(sessionId, limit) as ClaudeTurnRow[];
+    return rows.reverse();
+  }
+
+  deleteClaudeTurnsBefore(before: number): number {
+    return this.database.prepare(`DELETE FROM claude_turns WHERE created_at < ?`).run(before).changes;
+  }
+
+  // ==========================================================================
+  // Voice Operations
+  // ==========================================================================
+
+  setVoiceLanguage(chatId: string, language: string): void {
+    this.database.prepare(`
+      INSERT INTO voice_languages (chat_id, language, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET language = excluded.language, updated_at = excluded.updated_at
+    `).run(chatId, language, Date.now());
+  }
+
+  getVoiceLanguage(chatId: string): string | undefined {
+    const row = this.database.prepare(`SELECT language FROM voice_languages WHERE chat_id = ?`).get(chatId) as
+      { language: string } | undefined;
+    return row?.language;
+  }
+
+  deleteVoiceLanguage(chatId: string): void {
+    this.database.prepare(`DELETE FROM voice_languages WHERE chat_id = ?`).run(chatId);
+  }
+
   // ==========================================================================
   // P2000 Operations
   // ==========================================================================
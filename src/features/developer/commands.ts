@@ -5,7 +5,7 @@
 
 import type { Message } from '../../types/telegram';
 import type { ApiMethods } from '../../api';
-import type { LLMRouter } from '../../llm';
+import { LLMQuotaExceededError, type LLMRouter } from '../../llm';
 import {
   getDevSession,
   clearDevSession,
@@ -697,7 +697,15 @@ Tips:
       String(chatId),
       instruction,
       contextInfo,
-      llmRouter
+      llmRouter,
+      {
+        userId: message.from?.id !== undefined ? String(message.from.id) : undefined,
+        onNotice: (notice) => {
+          api.sendMessage({ chat_id: chatId, text: `ℹ️ ${notice}` }).catch((error) => {
+            logger.warn('Failed to send quota notice', { error, chatId });
+          });
+        },
+      }
     );
 
     // Send result (may be long, split if needed)
@@ -710,6 +718,11 @@ Tips:
       });
     }
   } catch (error: unknown) {
+    if (error instanceof LLMQuotaExceededError) {
+      await api.sendMessage({ chat_id: chatId, text: `⛔ Limiet bereikt\n\n${error.message}` });
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error('Code command error', { error: errorMessage, chatId });
     await api.sendMessage({
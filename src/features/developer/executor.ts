@@ -3,7 +3,7 @@
  * Executes code tasks using AI and manages patches
  */
 
-import type { LLMRouter } from '../../llm';
+import type { LLMRouter, LLMRequestContext } from '../../llm';
 import { createPatch, getProjectContext, readFile } from './context';
 import { createLogger } from '../../utils/logger';
 
@@ -44,14 +44,15 @@ export async function executeCodeTask(
   chatId: string,
   instruction: string,
   contextInfo: string,
-  llmRouter: LLMRouter
+  llmRouter: LLMRouter,
+  context: LLMRequestContext = {}
 ): Promise<string> {
   // Build the prompt
   const prompt = buildPrompt(instruction, contextInfo);
 
   try {
     // Call AI service with dev mode
-    const response = await llmRouter.processDeveloperMessage(chatId, prompt);
+    const response = await llmRouter.processDeveloperMessage(chatId, prompt, context);
 
     // Parse response for patches
     const patches = parsePatches(response.text);
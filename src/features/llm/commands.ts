@@ -46,8 +46,9 @@ Gebruik:
 /llm set <provider>
 /llm model set [provider] <model>
 /llm model reset [provider]
-/llm reset
+/llm reset — wis opgeslagen provider + modellen
 /llm list
+/llm health — storingen, foutpercentage en latency
 
 Voorbeelden:
 /llm set mistral
@@ -77,11 +78,42 @@ Voorbeelden:
     return;
   }
 
+  if (subcommand === 'health') {
+    const providers = router.getProviderStatus().filter((provider) => provider.configured);
+    const lines = providers.map((provider) => {
+      const { health } = provider;
+      const icon = health.state === 'closed' ? '🟢' : health.state === 'half-open' ? '🟡' : '🔴';
+      const total = health.successes + health.failures;
+      const stats = total > 0
+        ? `${health.successes} ok / ${health.failures} fout (${Math.round(health.errorRate * 100)}%)`
+        : 'nog geen verzoeken';
+      const latency = health.avgLatencyMs !== undefined ? `, gem. ${health.avgLatencyMs} ms` : '';
+      const details: string[] = [`${icon} *${provider.label}* — ${stats}${latency}`];
+      if (health.state === 'open' && health.retryAt) {
+        details.push(`   Circuit open, nieuwe poging vanaf ${new Date(health.retryAt).toLocaleTimeString('nl-NL')}`);
+      }
+      if (health.state === 'half-open') {
+        details.push('   Proefverzoek toegestaan');
+      }
+      if (health.lastError && health.failures > 0) {
+        details.push(`   Laatste fout: ${health.lastError.replace(/[*_`[\]]/g, '').slice(0, 120)}`);
+      }
+      return details.join('\n');
+    });
+
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `🩺 *LLM Provider Health*\n\n${lines.join('\n') || 'Geen providers geconfigureerd.'}`,
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+
   if (subcommand === 'reset' || subcommand === 'default') {
-    router.clearProvider(String(chatId));
+    router.resetChat(String(chatId));
     await api.sendMessage({
       chat_id: chatId,
-      text: `✅ Provider teruggezet naar default: ${router.getProviderLabel(router.getDefaultProvider())}`,
+      text: `✅ Provider en modellen teruggezet naar default: ${router.getProviderLabel(router.getDefaultProvider())}`,
     });
     return;
   }
@@ -177,10 +209,11 @@ Voorbeelden:
   }
 
   const providerInput = subcommand === 'set' ? args[1] : subcommand;
+  const providerIds = router.getProviderStatus().map((status) => status.provider);
   if (!providerInput) {
     await api.sendMessage({
       chat_id: chatId,
-      text: '❌ Gebruik: /llm set <zai|minimax|mistral|claude-cli>',
+      text: `❌ Gebruik: /llm set <${providerIds.join('|')}>`,
     });
     return;
   }
@@ -189,7 +222,7 @@ Voorbeelden:
   if (!provider) {
     await api.sendMessage({
       chat_id: chatId,
-      text: '❌ Onbekende provider. Gebruik: zai, minimax, mistral, claude-cli',
+      text: `❌ Onbekende provider. Gebruik: ${providerIds.join(', ')}`,
     });
     return;
   }
@@ -212,3 +245,46 @@ Voorbeelden:
     text: `✅ Provider ingesteld op ${router.getProviderLabel(provider)}.${note}`,
   });
 }
+
+function formatTokenCount(count: number): string {
+  return count >= 1_000 ? `${(count / 1_000).toFixed(1)}k` : String(count);
+}
+
+/**
+ * /context — how much of the history token budget the active provider uses
+ */
+export async function contextCommand(
+  api: ApiMethods,
+  message: Message,
+  router: LLMRouter
+): Promise<void> {
+  const chatId = message.chat.id;
+  const context = router.getContextUsage(String(chatId));
+
+  if (!context) {
+    const provider = router.getProvider(String(chatId));
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `ℹ️ ${router.getProviderLabel(provider)} beheert de gespreksgeschiedenis zelf; er is geen tokenbudget om te tonen.`,
+    });
+    return;
+  }
+
+  const { usage } = context;
+  const ratio = usage.budgetTokens > 0 ? usage.usedTokens / usage.budgetTokens : 0;
+  const filled = Math.min(10, Math.round(ratio * 10));
+  const bar = '█'.repeat(filled) + '░'.repeat(10 - filled);
+
+  const lines = [
+    '📚 Context',
+    '',
+    `Provider: ${router.getProviderLabel(context.provider)}${context.model ? ` (${context.model})` : ''}`,
+    `Gebruik: ~${formatTokenCount(usage.usedTokens)} / ${formatTokenCount(usage.budgetTokens)} tokens (${Math.round(ratio * 100)}%)`,
+    bar,
+    `Berichten: ${usage.messages}${usage.summarized ? ' + samenvatting van eerdere beurten' : ''}`,
+    '',
+    'Bij een vol budget worden oudere beurten samengevat; de laatste beurten blijven letterlijk bewaard.',
+  ];
+
+  await api.sendMessage({ chat_id: chatId, text: lines.join('\n') });
+}
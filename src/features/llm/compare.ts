@@ -0,0 +1,195 @@
+/**
+ * Compare Command
+ * Eén prompt naar meerdere providers tegelijk, met latency, tokens en knoppen om te kiezen
+ */
+
+import type { CallbackQuery, Message } from '../../types/telegram';
+import type { ApiMethods } from '../../api';
+import type { LLMCompareAnswer, LLMProvider, LLMRouter } from '../../llm';
+
+const USAGE = `Gebruik:
+/compare <prompt> — alle beschikbare providers behalve de Claude CLI
+/compare <provider,provider>: <prompt> — alleen deze providers
+
+Voorbeeld:
+/compare zai,mistral: Leg recursie uit in twee zinnen.`;
+
+/** Callback prefix of the compare buttons */
+export const COMPARE_CALLBACK_PREFIX = 'cmp_';
+
+/** Longest answer text per message (Telegram allows 4096 characters) */
+const MAX_ANSWER_LENGTH = 3500;
+/** Comparisons whose buttons still work */
+const MAX_PENDING = 50;
+const PENDING_TTL_MS = 60 * 60 * 1000;
+
+interface PendingComparison {
+  chatId: string;
+  prompt: string;
+  answers: LLMCompareAnswer[];
+  createdAt: number;
+}
+
+const pending = new Map<string, PendingComparison>();
+let counter = 0;
+
+function remember(comparison: PendingComparison): string {
+  const now = Date.now();
+  for (const [id, entry] of pending) {
+    if (pending.size >= MAX_PENDING || now - entry.createdAt > PENDING_TTL_MS) {
+      pending.delete(id);
+    }
+  }
+  const id = `${now.toString(36)}${(counter++ % 1296).toString(36)}`;
+  pending.set(id, comparison);
+  return id;
+}
+
+/**
+ * Split "zai,mistral: prompt" into the providers and the prompt
+ */
+function parseArgs(
+  text: string,
+  router: LLMRouter
+): { providers?: LLMProvider[]; prompt: string; unknown: string[] } {
+  const match = text.match(/^([\w:.,-]+):\s+([\s\S]+)$/);
+  if (!match || (!match[1].includes(',') && !router.normalizeProvider(match[1]))) {
+    return { prompt: text, unknown: [] };
+  }
+
+  const names = match[1].split(',').map((name) => name.trim()).filter(Boolean);
+  const providers: LLMProvider[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const provider = router.normalizeProvider(name);
+    if (!provider) {
+      unknown.push(name);
+    } else if (!providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+  return { providers, prompt: match[2].trim(), unknown };
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatHeader(answer: LLMCompareAnswer): string {
+  const model = answer.model ? ` (${answer.model})` : '';
+  const parts = [`🤖 ${answer.label}${model}`];
+  if (answer.durationMs > 0) parts.push(formatSeconds(answer.durationMs));
+  if (answer.usage) {
+    parts.push(`${answer.usage.inputTokens} → ${answer.usage.outputTokens} tokens`);
+    if (answer.usage.costUSD) parts.push(`$${answer.usage.costUSD.toFixed(4)}`);
+  }
+  return parts.join(' · ');
+}
+
+function formatAnswer(answer: LLMCompareAnswer): string {
+  if (answer.error) {
+    return `${formatHeader(answer)}\n\n❌ ${answer.error}`;
+  }
+  const text = answer.text || '(leeg antwoord)';
+  const body = text.length > MAX_ANSWER_LENGTH ? `${text.slice(0, MAX_ANSWER_LENGTH)}\n… (afgekapt)` : text;
+  return `${formatHeader(answer)}\n\n${body}`;
+}
+
+function formatSummary(answers: LLMCompareAnswer[]): string {
+  const ranked = answers
+    .filter((answer) => !answer.error)
+    .sort((a, b) => a.durationMs - b.durationMs)
+    .map((answer, index) => `${index + 1}. ${answer.label} — ${formatSeconds(answer.durationMs)}`);
+  const failed = answers.filter((answer) => answer.error).map((answer) => `❌ ${answer.label}`);
+  return ['⚖️ Vergelijking klaar (snelste eerst)', '', ...ranked, ...failed].join('\n');
+}
+
+export async function compareCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  router: LLMRouter
+): Promise<void> {
+  const chatId = message.chat.id;
+  // Keep line breaks of the prompt
+  const text = (message.text || '').replace(/^\S+\s*/, '').trim() || args.join(' ').trim();
+  if (!text) {
+    await api.sendMessage({ chat_id: chatId, text: USAGE });
+    return;
+  }
+
+  const { providers, prompt, unknown } = parseArgs(text, router);
+  if (unknown.length > 0) {
+    await api.sendMessage({ chat_id: chatId, text: `❌ Onbekende provider: ${unknown.join(', ')}\n\n${USAGE}` });
+    return;
+  }
+
+  const count = (providers || router.getCompareProviders()).length;
+  if (count === 0) {
+    await api.sendMessage({ chat_id: chatId, text: '❌ Geen providers beschikbaar om te vergelijken.' });
+    return;
+  }
+
+  const status = await api.sendMessage({ chat_id: chatId, text: `⏳ Vergelijken met ${count} providers...` });
+  const answers = await router.compare(String(chatId), prompt, providers, {
+    userId: message.from?.id !== undefined ? String(message.from.id) : undefined,
+  });
+  const id = remember({ chatId: String(chatId), prompt, answers, createdAt: Date.now() });
+
+  for (const [index, answer] of answers.entries()) {
+    const buttons = answer.error ? [] : [[
+      { text: `✅ Gebruik ${answer.label}`, callback_data: `${COMPARE_CALLBACK_PREFIX}${id}:use:${index}` },
+      { text: '💾 Bewaar antwoord', callback_data: `${COMPARE_CALLBACK_PREFIX}${id}:keep:${index}` },
+    ]];
+    await api.sendMessage({
+      chat_id: chatId,
+      text: formatAnswer(answer),
+      ...(buttons.length > 0 ? { reply_markup: { inline_keyboard: buttons } } : {}),
+    });
+  }
+
+  await api.editMessageText({ chat_id: chatId, message_id: status.message_id, text: formatSummary(answers) });
+}
+
+/**
+ * Handle the "use provider" and "keep answer" buttons under a compared answer
+ */
+export async function handleCompareCallback(
+  api: ApiMethods,
+  callbackQuery: CallbackQuery,
+  router: LLMRouter
+): Promise<void> {
+  const [id, action, index] = (callbackQuery.data || '').slice(COMPARE_CALLBACK_PREFIX.length).split(':');
+  const comparison = pending.get(id);
+  const answer = comparison?.answers[Number(index)];
+  const chatId = callbackQuery.message?.chat.id;
+
+  if (!comparison || !answer || String(chatId) !== comparison.chatId) {
+    await api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: '❌ Vergelijking verlopen' });
+    return;
+  }
+
+  if (action === 'use') {
+    router.setProvider(comparison.chatId, answer.provider);
+    await api.answerCallbackQuery({
+      callback_query_id: callbackQuery.id,
+      text: `✅ ${answer.label} is nu de provider van deze chat`,
+    });
+    return;
+  }
+
+  if (action === 'keep' && answer.text) {
+    const kept = router.keepAnswer(comparison.chatId, comparison.prompt, answer.text);
+    const provider = router.getProviderLabel(router.getProvider(comparison.chatId));
+    await api.answerCallbackQuery({
+      callback_query_id: callbackQuery.id,
+      text: kept
+        ? `💾 Antwoord van ${answer.label} bewaard in de geschiedenis (${provider})`
+        : `⚠️ ${provider} houdt zijn eigen geschiedenis bij; kies eerst een API-provider`,
+      show_alert: !kept,
+    });
+    return;
+  }
+
+  await api.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: 'Onbekende actie' });
+}
@@ -0,0 +1,251 @@
+/**
+ * Export / Import Commands
+ * Gesprek met de actieve provider als Markdown, JSON of HTML downloaden, en een JSON-export terugzetten
+ */
+
+import type { Message } from '../../types/telegram';
+import type { ApiMethods } from '../../api';
+import { LLMTranscriptError, type LLMRouter, type LLMTranscript, type LLMTranscriptTurn } from '../../llm';
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+
+/** Marks our JSON exports, so /import can tell them apart from other JSON files */
+const JSON_FORMAT = 'telegram-bot-conversation';
+const JSON_VERSION = 1;
+
+/** Largest JSON file /import downloads */
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+const USAGE = `Gebruik:
+/export — gesprek als Markdown
+/export json — als JSON (terug te zetten met /import)
+/export html — als webpagina
+/import — als reply op een geëxporteerd JSON-bestand: zet dat gesprek terug
+
+Het gesprek is dat van de actieve provider (/llm); bij de Claude CLI de actieve sessie.`;
+
+interface TranscriptFile {
+  format: typeof JSON_FORMAT;
+  version: number;
+  chatId: string;
+  provider: string;
+  label: string;
+  model?: string;
+  exportedAt: string;
+  summary?: string;
+  turns: Array<Omit<LLMTranscriptTurn, 'at'> & { at?: string }>;
+}
+
+function formatTime(at: number): string {
+  return `${new Date(at).toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+}
+
+function answerLabel(turn: LLMTranscriptTurn, transcript: LLMTranscript): string {
+  const provider = turn.provider || transcript.label;
+  return turn.model ? `${provider} · ${turn.model}` : provider;
+}
+
+function toolLine(tool: { name: string; input: Record<string, unknown> }): string {
+  return `${tool.name} ${JSON.stringify(tool.input)}`;
+}
+
+export function formatTranscriptMarkdown(transcript: LLMTranscript): string {
+  const lines = [
+    `# Gesprek met ${transcript.label}${transcript.model ? ` (${transcript.model})` : ''}`,
+    '',
+    `Geëxporteerd: ${formatTime(transcript.exportedAt)}`,
+  ];
+  if (transcript.summary) {
+    lines.push('', '## Samenvatting van eerdere beurten', '', transcript.summary);
+  }
+
+  for (const turn of transcript.turns) {
+    lines.push('', '---', '', `### 👤 Vraag${turn.at ? ` · ${formatTime(turn.at)}` : ''}`, '', turn.prompt, '');
+    lines.push(`### 🤖 ${answerLabel(turn, transcript)}`, '');
+    for (const tool of turn.tools || []) {
+      lines.push(`> 🔧 \`${toolLine(tool)}\``);
+    }
+    if (turn.tools?.length) {
+      lines.push('');
+    }
+    lines.push(turn.answer);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatTranscriptJson(transcript: LLMTranscript): string {
+  const file: TranscriptFile = {
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    chatId: transcript.chatId,
+    provider: transcript.provider,
+    label: transcript.label,
+    model: transcript.model,
+    exportedAt: new Date(transcript.exportedAt).toISOString(),
+    summary: transcript.summary,
+    turns: transcript.turns.map((turn) => ({ ...turn, at: turn.at ? new Date(turn.at).toISOString() : undefined })),
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function formatTranscriptHtml(transcript: LLMTranscript): string {
+  const title = `Gesprek met ${transcript.label}${transcript.model ? ` (${transcript.model})` : ''}`;
+  const parts = [
+    '<!DOCTYPE html>',
+    '<html lang="nl">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>',
+    'body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2em auto; padding: 0 1em; color: #222; }',
+    '.turn { margin: 1.5em 0; }',
+    '.meta { color: #777; font-size: 0.85em; margin-bottom: 0.3em; }',
+    '.text { white-space: pre-wrap; padding: 0.7em 1em; border-radius: 10px; }',
+    '.prompt { background: #e3f2fd; }',
+    '.answer { background: #f3f3f3; }',
+    '.tool { font-family: monospace; font-size: 0.85em; color: #555; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">Geëxporteerd: ${formatTime(transcript.exportedAt)}</p>`,
+  ];
+  if (transcript.summary) {
+    parts.push('<h2>Samenvatting van eerdere beurten</h2>', `<div class="text answer">${escapeHtml(transcript.summary)}</div>`);
+  }
+
+  for (const turn of transcript.turns) {
+    parts.push(
+      '<div class="turn">',
+      `<div class="meta">👤 Vraag${turn.at ? ` · ${formatTime(turn.at)}` : ''}</div>`,
+      `<div class="text prompt">${escapeHtml(turn.prompt)}</div>`,
+      '</div>',
+      '<div class="turn">',
+      `<div class="meta">🤖 ${escapeHtml(answerLabel(turn, transcript))}</div>`,
+      ...(turn.tools || []).map((tool) => `<div class="tool">🔧 ${escapeHtml(toolLine(tool))}</div>`),
+      `<div class="text answer">${escapeHtml(turn.answer)}</div>`,
+      '</div>'
+    );
+  }
+  parts.push('</body>', '</html>');
+  return `${parts.join('\n')}\n`;
+}
+
+export function formatTranscript(transcript: LLMTranscript, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatTranscriptJson(transcript);
+    case 'html':
+      return formatTranscriptHtml(transcript);
+    default:
+      return formatTranscriptMarkdown(transcript);
+  }
+}
+
+/**
+ * Read a JSON export back into turns
+ * @throws LLMTranscriptError when the file is not a conversation export
+ */
+export function parseTranscriptJson(data: string): { summary?: string; turns: LLMTranscriptTurn[] } {
+  let file: Partial<TranscriptFile>;
+  try {
+    file = JSON.parse(data);
+  } catch {
+    throw new LLMTranscriptError('Dit is geen geldig JSON-bestand');
+  }
+
+  if (file?.format !== JSON_FORMAT || !Array.isArray(file.turns)) {
+    throw new LLMTranscriptError('Dit is geen gesprek dat met /export json is gemaakt');
+  }
+  if ((file.version ?? 0) > JSON_VERSION) {
+    throw new LLMTranscriptError(`Exportversie ${file.version} wordt nog niet ondersteund`);
+  }
+
+  const turns = file.turns.map((turn, index): LLMTranscriptTurn => {
+    if (typeof turn?.prompt !== 'string' || typeof turn?.answer !== 'string') {
+      throw new LLMTranscriptError(`Beurt ${index + 1} mist een vraag of antwoord`);
+    }
+    return { prompt: turn.prompt, answer: turn.answer };
+  });
+  return { summary: typeof file.summary === 'string' ? file.summary : undefined, turns };
+}
+
+export async function exportCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  router: LLMRouter
+): Promise<void> {
+  const chatId = message.chat.id;
+  const format = (args[0]?.toLowerCase() || 'md') as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    await api.sendMessage({ chat_id: chatId, text: USAGE });
+    return;
+  }
+
+  const transcript = await router.getTranscript(String(chatId));
+  if (transcript.turns.length === 0 && !transcript.summary) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `ℹ️ Er is nog geen gesprek met ${transcript.label} om te exporteren.`,
+    });
+    return;
+  }
+
+  const day = new Date(transcript.exportedAt).toISOString().slice(0, 10);
+  const fileName = `gesprek-${transcript.provider.replace(/[^a-z0-9-]/gi, '-')}-${day}.${format}`;
+  await api.sendDocument(
+    chatId,
+    Buffer.from(formatTranscript(transcript, format), 'utf-8'),
+    fileName,
+    `💾 ${transcript.turns.length} beurten met ${transcript.label}`
+  );
+}
+
+export async function importCommand(
+  api: ApiMethods,
+  message: Message,
+  router: LLMRouter
+): Promise<void> {
+  const chatId = message.chat.id;
+  const document = message.reply_to_message?.document;
+
+  if (!document) {
+    await api.sendMessage({ chat_id: chatId, text: `ℹ️ Stuur /import als reply op een bestand van /export json.\n\n${USAGE}` });
+    return;
+  }
+  if (document.file_size && document.file_size > MAX_IMPORT_BYTES) {
+    await api.sendMessage({ chat_id: chatId, text: '❌ Bestand te groot om te importeren (max 2 MB).' });
+    return;
+  }
+
+  try {
+    const file = await api.getFile(document.file_id);
+    if (!file.file_path) {
+      throw new LLMTranscriptError('Bestand kon niet worden gedownload');
+    }
+    const data = await api.downloadFile(file.file_path);
+    const imported = parseTranscriptJson(data.toString('utf-8'));
+    const count = router.importTranscript(String(chatId), imported);
+    const provider = router.getProviderLabel(router.getProvider(String(chatId)));
+
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `✅ ${count} beurten teruggezet in het gesprek met ${provider}. De vorige geschiedenis is vervangen.`,
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    await api.sendMessage({ chat_id: chatId, text: `❌ Importeren mislukt: ${reason}` });
+  }
+}
@@ -1 +1,14 @@
-export { llmCommand } from './commands';
+export { llmCommand, contextCommand } from './commands';
+export { personaCommand } from './personas';
+export { compareCommand, handleCompareCallback, COMPARE_CALLBACK_PREFIX } from './compare';
+export {
+  exportCommand,
+  importCommand,
+  formatTranscript,
+  formatTranscriptMarkdown,
+  formatTranscriptJson,
+  formatTranscriptHtml,
+  parseTranscriptJson,
+  type ExportFormat,
+} from './export';
+export { createBotTools, type BotToolDependencies } from './tools';
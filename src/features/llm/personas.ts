@@ -0,0 +1,135 @@
+/**
+ * Persona Commands
+ * Systeemprompts per chat kiezen, maken en bewerken via /persona
+ */
+
+import type { Message } from '../../types/telegram';
+import type { ApiMethods } from '../../api';
+import { LLMPersonaError, type LLMRouter, type Persona } from '../../llm';
+
+const USAGE = `Gebruik:
+/persona — actieve persona en overzicht
+/persona use <naam> — persona kiezen voor deze chat
+/persona off — terug naar de standaard prompt
+/persona show <naam> — systeemprompt bekijken
+/persona new <naam> <prompt> — eigen persona maken
+/persona edit <naam> <prompt> — eigen persona bewerken
+/persona delete <naam> — eigen persona verwijderen
+
+Personas zijn te gebruiken in alle chats en gelden voor elke provider (niet voor /code).
+
+Voorbeeld:
+/persona new piraat Je bent een piraat. Antwoord altijd als een piraat.`;
+
+const PREVIEW_LENGTH = 60;
+
+/**
+ * Prompt text after "/persona <sub> <naam>", keeping line breaks
+ */
+function extractPrompt(message: Message, args: string[]): string {
+  const match = (message.text || '').match(/^\S+\s+\S+\s+\S+[ \t]*\n?([\s\S]*)$/);
+  return match ? match[1].trim() : args.slice(2).join(' ').trim();
+}
+
+function preview(prompt: string): string {
+  const line = prompt.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}…` : line;
+}
+
+function formatPersona(persona: Persona, chatId: string, active?: string): string {
+  const marker = persona.name === active ? '▶️' : '•';
+  const owner = persona.builtIn ? ' (ingebouwd)' : persona.createdBy === chatId ? ' (eigen)' : '';
+  return `${marker} ${persona.name}${owner} — ${preview(persona.prompt)}`;
+}
+
+export async function personaCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  router: LLMRouter
+): Promise<void> {
+  const chatId = message.chat.id;
+  const personas = router.getPersonaManager();
+
+  if (!personas) {
+    await api.sendMessage({ chat_id: chatId, text: '❌ Personas zijn niet beschikbaar (geen database).' });
+    return;
+  }
+
+  const subcommand = args[0]?.toLowerCase();
+  const name = args[1]?.toLowerCase();
+
+  try {
+    if (!subcommand || subcommand === 'list' || subcommand === 'status') {
+      const active = personas.getActive(String(chatId));
+      const lines = personas.list().map((persona) => formatPersona(persona, String(chatId), active?.name));
+      const text = [
+        '🎭 Personas',
+        '',
+        `Actief: ${active ? active.name : 'geen (standaard prompt)'}`,
+        '',
+        ...lines,
+        '',
+        USAGE,
+      ].join('\n');
+      await api.sendMessage({ chat_id: chatId, text });
+      return;
+    }
+
+    if ((subcommand === 'use' || subcommand === 'set') && name) {
+      const persona = personas.select(String(chatId), name);
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `✅ Persona "${persona.name}" actief voor deze chat, bij elke provider.`,
+      });
+      return;
+    }
+
+    if (subcommand === 'off' || subcommand === 'reset') {
+      personas.clear(String(chatId));
+      await api.sendMessage({ chat_id: chatId, text: '✅ Persona uitgezet, de standaard prompt wordt weer gebruikt.' });
+      return;
+    }
+
+    if (subcommand === 'show' && name) {
+      const persona = personas.get(name);
+      if (!persona) {
+        throw new LLMPersonaError(`Persona "${name}" bestaat niet.`);
+      }
+      await api.sendMessage({ chat_id: chatId, text: `🎭 ${persona.name}\n\n${persona.prompt}` });
+      return;
+    }
+
+    if ((subcommand === 'new' || subcommand === 'create' || subcommand === 'edit') && name) {
+      if (subcommand !== 'edit' && personas.get(name)) {
+        throw new LLMPersonaError(`Persona "${name}" bestaat al; gebruik /persona edit ${name} <prompt>.`);
+      }
+      if (subcommand === 'edit' && !personas.get(name)) {
+        throw new LLMPersonaError(`Persona "${name}" bestaat niet; gebruik /persona new ${name} <prompt>.`);
+      }
+
+      const created = personas.save(name, extractPrompt(message, args), String(chatId));
+      await api.sendMessage({
+        chat_id: chatId,
+        text: created
+          ? `✅ Persona "${name}" gemaakt. Kies hem met /persona use ${name}.`
+          : `✅ Persona "${name}" bijgewerkt.`,
+      });
+      return;
+    }
+
+    if ((subcommand === 'delete' || subcommand === 'remove') && name) {
+      personas.remove(name, String(chatId));
+      await api.sendMessage({ chat_id: chatId, text: `🗑️ Persona "${name}" verwijderd.` });
+      return;
+    }
+
+    await api.sendMessage({ chat_id: chatId, text: USAGE });
+  } catch (error) {
+    if (error instanceof LLMPersonaError) {
+      await api.sendMessage({ chat_id: chatId, text: `❌ ${error.message}` });
+      return;
+    }
+    throw error;
+  }
+}
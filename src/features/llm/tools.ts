@@ -0,0 +1,238 @@
+/**
+ * Bot Tools
+ * Botfuncties (notities, herinneringen, zoeken, bestanden, P2000, nieuws) als LLM tools
+ */
+
+import type { LLMTool } from '../../llm';
+import type { NotesStore } from '../notes/types';
+import type { ReminderService } from '../reminders/service';
+import type { NewsService } from '../news/news';
+import type { P2000Scraper } from '../p2000/scraper';
+import type { P2000Message } from '../p2000/types';
+import { searchAll } from '../search/search';
+import { getUserFiles, formatFileSize } from '../files/files';
+
+export interface BotToolDependencies {
+  notes: NotesStore;
+  /** Reminders are only offered when the service is running */
+  reminders?: () => ReminderService | undefined;
+  news: NewsService;
+  p2000: () => P2000Scraper;
+}
+
+const MAX_RESULTS = 20;
+const P2000_SERVICES: P2000Message['service'][] = ['brandweer', 'ambulance', 'politie', 'knm', 'ghor'];
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function toISO(date: Date | number): string | undefined {
+  const value = new Date(date);
+  return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+}
+
+function asLimit(value: unknown, fallback: number): number {
+  const limit = typeof value === 'number' ? Math.floor(value) : fallback;
+  return Math.min(Math.max(limit, 1), MAX_RESULTS);
+}
+
+function createNoteTool(notes: NotesStore): LLMTool {
+  return {
+    name: 'create_note',
+    description: 'Save a note for the user in this chat (same store as /note).',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Note text' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Optional tags without #' },
+      },
+      required: ['content'],
+    },
+    requiresConfirmation: true,
+    async execute(args, context) {
+      const content = asString(args.content);
+      if (!content) return 'Error: content is required';
+
+      const tags = Array.isArray(args.tags) ? args.tags.map(asString).filter(Boolean) : [];
+      const note = notes.add(context.chatId, content, tags);
+      return `Note saved (id ${note.id})`;
+    },
+  };
+}
+
+function setReminderTool(getService: () => ReminderService | undefined): LLMTool {
+  return {
+    name: 'set_reminder',
+    description: 'Remind the user in this chat with a message at a later time (same as /remind). '
+      + 'Give either in_minutes or at (ISO 8601 date-time).',
+    parameters: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'Reminder text' },
+        in_minutes: { type: 'integer', minimum: 1, description: 'Minutes from now' },
+        at: { type: 'string', description: 'ISO 8601 date-time, e.g. 2026-01-31T14:30:00+01:00' },
+      },
+      required: ['message'],
+    },
+    requiresConfirmation: true,
+    async execute(args, context) {
+      const service = getService();
+      if (!service) return 'Error: reminders are not available';
+
+      const message = asString(args.message);
+      if (!message) return 'Error: message is required';
+
+      let remindAt: number;
+      if (typeof args.in_minutes === 'number' && args.in_minutes > 0) {
+        remindAt = Date.now() + Math.round(args.in_minutes) * 60_000;
+      } else {
+        remindAt = Date.parse(asString(args.at));
+      }
+      if (Number.isNaN(remindAt) || remindAt <= Date.now()) {
+        return 'Error: give in_minutes or a future ISO 8601 "at" time';
+      }
+
+      service.getStore().add(context.chatId, message, remindAt);
+      return `Reminder set for ${toISO(remindAt)}`;
+    },
+  };
+}
+
+function searchTool(notes: NotesStore): LLMTool {
+  return {
+    name: 'search',
+    description: 'Search the notes and conversations of this chat (same as /search).',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search term' },
+      },
+      required: ['query'],
+    },
+    async execute(args, context) {
+      const query = asString(args.query);
+      if (!query) return 'Error: query is required';
+
+      const results = [
+        ...notes.search(context.chatId, query).map((note) => ({
+          type: 'note',
+          content: note.content,
+          date: toISO(note.createdAt),
+        })),
+        ...(await searchAll(query, context.chatId)).map((result) => ({
+          type: result.type,
+          content: result.content,
+          date: toISO(result.timestamp),
+        })),
+      ];
+      return results.length > 0 ? JSON.stringify(results.slice(0, MAX_RESULTS)) : 'No results';
+    },
+  };
+}
+
+function listFilesTool(): LLMTool {
+  return {
+    name: 'list_files',
+    description: 'List the files the user uploaded in this chat (same as /file list).',
+    parameters: {
+      type: 'object',
+      properties: {
+        folder: { type: 'string', description: 'Only files in this folder' },
+      },
+    },
+    async execute(args, context) {
+      const files = getUserFiles(context.chatId, asString(args.folder) || undefined);
+      if (files.length === 0) return 'No files';
+
+      return JSON.stringify(files.slice(0, MAX_RESULTS).map((file) => ({
+        name: file.fileName,
+        folder: file.folder,
+        size: formatFileSize(file.fileSize),
+        uploaded: toISO(file.uploadedAt),
+      })));
+    },
+  };
+}
+
+function p2000Tool(getScraper: () => P2000Scraper): LLMTool {
+  return {
+    name: 'get_p2000',
+    description: 'Recent Dutch P2000 emergency service alerts (same feed as /p2000).',
+    parameters: {
+      type: 'object',
+      properties: {
+        service: { type: 'string', enum: P2000_SERVICES, description: 'Only this emergency service' },
+        region: { type: 'string', description: 'Only alerts from this region or city' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_RESULTS },
+      },
+    },
+    async execute(args) {
+      const service = asString(args.service) as P2000Message['service'];
+      const region = asString(args.region).toLowerCase();
+      const messages = (await getScraper().fetchMessages({
+        services: P2000_SERVICES.includes(service) ? [service] : undefined,
+      })).filter((message) => !region
+        || message.region.toLowerCase().includes(region)
+        || message.location?.city?.toLowerCase().includes(region));
+
+      if (messages.length === 0) return 'No alerts';
+      return JSON.stringify(messages.slice(0, asLimit(args.limit, 10)).map((message) => ({
+        time: toISO(message.timestamp),
+        service: message.service,
+        priority: message.priority,
+        region: message.region,
+        location: message.location?.address || message.location?.city,
+        description: message.description,
+      })));
+    },
+  };
+}
+
+function newsTool(news: NewsService): LLMTool {
+  return {
+    name: 'get_news',
+    description: `Latest news headlines from Dutch RSS feeds (same as /news). Categories: ${news.getCategories().join(', ')}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: news.getCategories() },
+        query: { type: 'string', description: 'Only articles mentioning this term' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_RESULTS },
+      },
+    },
+    async execute(args) {
+      const options = { category: asString(args.category) || undefined, limit: asLimit(args.limit, 5) };
+      const query = asString(args.query);
+      const articles = query
+        ? (await news.searchNews(query, options)).slice(0, options.limit)
+        : await news.fetchNews(options);
+
+      if (articles.length === 0) return 'No articles';
+      return JSON.stringify(articles.map((article) => ({
+        title: article.title,
+        description: article.description,
+        source: article.source,
+        published: toISO(article.publishedAt),
+        url: article.url,
+      })));
+    },
+  };
+}
+
+/**
+ * Bot capabilities as functions for the API providers
+ */
+export function createBotTools(deps: BotToolDependencies): LLMTool[] {
+  const tools = [
+    createNoteTool(deps.notes),
+    searchTool(deps.notes),
+    listFilesTool(),
+    p2000Tool(deps.p2000),
+    newsTool(deps.news),
+  ];
+  if (deps.reminders) {
+    tools.splice(1, 0, setReminderTool(deps.reminders));
+  }
+  return tools;
+}
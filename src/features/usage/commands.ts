@@ -0,0 +1,127 @@
+/**
+ * Usage Commands
+ * Tokengebruik en kosten per chat en model
+ */
+
+import type { Message } from '../../types/telegram';
+import type { ApiMethods } from '../../api';
+import type { LLMUsageTracker, UsagePeriod } from '../../llm';
+import type { LLMUsageSummaryRow } from '../../database';
+import { isAdmin } from '../../bot/commands/admin';
+
+const PERIOD_ALIASES: Record<string, UsagePeriod> = {
+  dag: 'day',
+  day: 'day',
+  vandaag: 'day',
+  week: 'week',
+  maand: 'month',
+  month: 'month',
+};
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  day: 'vandaag',
+  week: 'laatste 7 dagen',
+  month: 'laatste 30 dagen',
+};
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+function formatRow(label: string, row: Pick<LLMUsageSummaryRow, 'requests' | 'input_tokens' | 'output_tokens' | 'cost_usd'>): string {
+  return `• ${label}: ${row.requests} req, ${formatTokens(row.input_tokens)} in / ${formatTokens(row.output_tokens)} uit, ${formatCost(row.cost_usd)}`;
+}
+
+function sumRows(rows: LLMUsageSummaryRow[]): Pick<LLMUsageSummaryRow, 'requests' | 'input_tokens' | 'output_tokens' | 'cost_usd'> {
+  return rows.reduce(
+    (total, row) => ({
+      requests: total.requests + row.requests,
+      input_tokens: total.input_tokens + row.input_tokens,
+      output_tokens: total.output_tokens + row.output_tokens,
+      cost_usd: total.cost_usd + row.cost_usd,
+    }),
+    { requests: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+  );
+}
+
+/**
+ * /usage [dag|week|maand] [alle]
+ */
+export async function usageCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  tracker?: LLMUsageTracker
+): Promise<void> {
+  const chatId = message.chat.id;
+
+  if (!tracker) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: '⚠️ Usage tracking is niet beschikbaar (database niet geladen).',
+    });
+    return;
+  }
+
+  const normalized = args.map((arg) => arg.toLowerCase());
+  const periodArg = normalized.find((arg) => PERIOD_ALIASES[arg]);
+  const period: UsagePeriod = periodArg ? PERIOD_ALIASES[periodArg] : 'day';
+  const allChats = normalized.includes('alle') || normalized.includes('all');
+
+  if (allChats && !isAdmin(message.from?.id || 0)) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: '⛔ Alleen admins kunnen het gebruik van alle chats bekijken.',
+    });
+    return;
+  }
+
+  const rows = tracker.getSummary(period, allChats ? {} : { chatId: String(chatId) });
+  const scope = allChats ? 'alle chats' : 'deze chat';
+
+  if (rows.length === 0) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `📊 Geen LLM gebruik voor ${scope} (${PERIOD_LABELS[period]}).`,
+    });
+    return;
+  }
+
+  const lines = [
+    `📊 LLM gebruik — ${scope}, ${PERIOD_LABELS[period]}`,
+    '',
+    formatRow('Totaal', sumRows(rows)),
+    '',
+    'Per model:',
+    ...rows.map((row) => formatRow(`${row.provider} · ${row.model || 'default'}`, row)),
+  ];
+
+  if (allChats) {
+    const perChat = new Map<string, LLMUsageSummaryRow[]>();
+    for (const row of tracker.getSummary(period, { byChat: true })) {
+      const chatRows = perChat.get(row.chat_id || '') || [];
+      chatRows.push(row);
+      perChat.set(row.chat_id || '', chatRows);
+    }
+
+    const chatTotals = Array.from(perChat.entries())
+      .map(([id, chatRows]) => ({ id, total: sumRows(chatRows) }))
+      .sort((a, b) => b.total.cost_usd - a.total.cost_usd || b.total.requests - a.total.requests)
+      .slice(0, 10);
+
+    lines.push('', 'Per chat (top 10):', ...chatTotals.map(({ id, total }) => formatRow(id, total)));
+  }
+
+  lines.push('', 'Gebruik: /usage [dag|week|maand]' + (isAdmin(message.from?.id || 0) ? ' [alle]' : ''));
+
+  await api.sendMessage({
+    chat_id: chatId,
+    text: lines.join('\n'),
+  });
+}
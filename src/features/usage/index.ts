@@ -0,0 +1,2 @@
+export { usageCommand } from './commands';
+export { quotaAdminCommand } from './quotas';
@@ -0,0 +1,171 @@
+/**
+ * Quota Admin Commands
+ * Limieten instellen en bekijken via /admin quota
+ */
+
+import type { ApiMethods } from '../../api';
+import {
+  DEFAULT_QUOTA_SCOPE,
+  type LLMRouter,
+  type QuotaKind,
+  type QuotaRule,
+} from '../../llm';
+
+const KIND_ALIASES: Record<string, QuotaKind> = {
+  'user-tokens-day': 'user-tokens-day',
+  tokens: 'user-tokens-day',
+  'chat-requests-hour': 'chat-requests-hour',
+  requests: 'chat-requests-hour',
+  verzoeken: 'chat-requests-hour',
+  'provider-cost-month': 'provider-cost-month',
+  cost: 'provider-cost-month',
+  kosten: 'provider-cost-month',
+};
+
+const KIND_LABELS: Record<QuotaKind, string> = {
+  'user-tokens-day': 'tokens per gebruiker per dag',
+  'chat-requests-hour': 'verzoeken per chat per uur',
+  'provider-cost-month': 'kosten per provider per maand (USD)',
+};
+
+const USAGE = `Gebruik:
+/admin quota — overzicht
+/admin quota set <soort> <scope> <limiet> [block | downgrade [provider] [model]]
+/admin quota remove <soort> [scope]
+
+Soorten: tokens (per gebruiker/dag), requests (per chat/uur), cost (per provider/maand)
+Scope: user id, chat id, provider of * voor iedereen
+
+Voorbeelden:
+/admin quota set tokens * 50000
+/admin quota set requests -1001234 30 downgrade mistral mistral-small-latest
+/admin quota set cost anthropic 25 downgrade zai`;
+
+function formatLimit(kind: QuotaKind, value: number): string {
+  return kind === 'provider-cost-month' ? `$${value.toFixed(2)}` : value.toLocaleString('nl-NL');
+}
+
+function formatRule(rule: QuotaRule, used?: number): string {
+  const scope = rule.scope === DEFAULT_QUOTA_SCOPE ? 'iedereen (*)' : rule.scope;
+  let line = `• ${scope}: ${used !== undefined ? `${formatLimit(rule.kind, used)} / ` : ''}${formatLimit(rule.kind, rule.limit)}`;
+  if (rule.action === 'downgrade') {
+    const target = [rule.downgradeProvider, rule.downgradeModel].filter(Boolean).join(' ');
+    line += ` → downgrade${target ? ` naar ${target}` : ''}`;
+  } else {
+    line += ' → weigeren';
+  }
+  return line;
+}
+
+/**
+ * /admin quota [set|remove] ...
+ */
+export async function quotaAdminCommand(
+  api: ApiMethods,
+  chatId: number,
+  args: string[],
+  llmRouter?: LLMRouter
+): Promise<void> {
+  const quotas = llmRouter?.getQuotaManager();
+  if (!llmRouter || !quotas) {
+    await api.sendText(chatId, '⚠️ Quota zijn niet beschikbaar (database niet geladen).');
+    return;
+  }
+
+  const action = args[0]?.toLowerCase();
+
+  if (!action || action === 'list' || action === 'lijst') {
+    const usage = quotas.getUsage();
+    if (usage.length === 0) {
+      await api.sendText(chatId, `📏 Geen quota ingesteld.\n\n${USAGE}`);
+      return;
+    }
+
+    const lines = ['📏 LLM quota', ''];
+    for (const kind of Object.keys(KIND_LABELS) as QuotaKind[]) {
+      const rules = usage.filter((entry) => entry.rule.kind === kind);
+      if (rules.length === 0) continue;
+      lines.push(`${KIND_LABELS[kind]}:`);
+      lines.push(...rules.map((entry) => formatRule(entry.rule, entry.used)));
+      lines.push('');
+    }
+    await api.sendText(chatId, lines.join('\n').trim());
+    return;
+  }
+
+  const kind = args[1] ? KIND_ALIASES[args[1].toLowerCase()] : undefined;
+
+  if (action === 'remove' || action === 'delete' || action === 'verwijder') {
+    if (!kind) {
+      await api.sendText(chatId, USAGE);
+      return;
+    }
+    const scope = normalizeScope(llmRouter, kind, args[2] || DEFAULT_QUOTA_SCOPE);
+    const removed = scope ? quotas.removeRule(kind, scope) : false;
+    await api.sendText(
+      chatId,
+      removed ? `✅ Quota verwijderd: ${KIND_LABELS[kind]} (${scope})` : '❌ Geen quota gevonden voor deze soort en scope.'
+    );
+    return;
+  }
+
+  if (action !== 'set') {
+    await api.sendText(chatId, USAGE);
+    return;
+  }
+
+  const limit = Number(args[3]);
+  if (!kind || !args[2] || !Number.isFinite(limit) || limit < 0) {
+    await api.sendText(chatId, USAGE);
+    return;
+  }
+
+  const scope = normalizeScope(llmRouter, kind, args[2]);
+  if (!scope) {
+    await api.sendText(chatId, `❌ Onbekende provider: ${args[2]}`);
+    return;
+  }
+
+  const rule: QuotaRule = { kind, scope, limit, action: 'block' };
+  const mode = args[4]?.toLowerCase();
+  if (mode === 'downgrade') {
+    rule.action = 'downgrade';
+    const provider = args[5] ? llmRouter.normalizeProvider(args[5]) : undefined;
+    if (provider) {
+      rule.downgradeProvider = provider;
+      rule.downgradeModel = args[6];
+    } else {
+      // No provider given: cheaper model on the same provider
+      rule.downgradeModel = args[5];
+    }
+    if (!rule.downgradeProvider && !rule.downgradeModel) {
+      await api.sendText(chatId, '❌ Geef een provider en/of model op om naar te downgraden.');
+      return;
+    }
+    if (kind === 'provider-cost-month' && (!rule.downgradeProvider || rule.downgradeProvider === scope)) {
+      // A cheaper model on the same provider still counts towards the same budget
+      await api.sendText(chatId, '❌ Een kostenlimiet kan alleen downgraden naar een andere provider.');
+      return;
+    }
+    if (rule.downgradeProvider && !llmRouter.isProviderAvailable(rule.downgradeProvider)) {
+      await api.sendText(chatId, `❌ Provider ${rule.downgradeProvider} is niet geconfigureerd.`);
+      return;
+    }
+  } else if (mode && mode !== 'block') {
+    await api.sendText(chatId, USAGE);
+    return;
+  }
+
+  quotas.setRule(rule);
+  await api.sendText(chatId, `✅ Quota ingesteld: ${KIND_LABELS[kind]}\n${formatRule(rule)}`);
+}
+
+/**
+ * Provider scopes are normalized to provider ids; undefined for an unknown provider
+ */
+function normalizeScope(llmRouter: LLMRouter, kind: QuotaKind, scope: string): string | undefined {
+  if (kind !== 'provider-cost-month' || scope === DEFAULT_QUOTA_SCOPE) {
+    return scope;
+  }
+  return llmRouter.normalizeProvider(scope);
+}
@@ -0,0 +1,74 @@
+/**
+ * Cloud Speech-to-Text
+ * OpenAI-compatible /audio/transcriptions endpoint (OpenAI, Groq, een eigen faster-whisper server, ...)
+ */
+
+import axios from 'axios';
+import { createLogger } from '../../utils/logger';
+import {
+  VoiceTranscriptionError,
+  type SpeechToTextProvider,
+  type TranscribeOptions,
+  type Transcription,
+} from './types';
+
+const logger = createLogger({ prefix: 'CloudSTT' });
+
+export interface CloudSpeechToTextOptions {
+  /** e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Default: whisper-1 */
+  model?: string;
+  timeoutMs?: number;
+}
+
+/** File extension the API uses to detect the format */
+function extensionFor(mimeType?: string): string {
+  if (mimeType?.includes('mpeg')) return 'mp3';
+  if (mimeType?.includes('mp4') || mimeType?.includes('m4a')) return 'm4a';
+  if (mimeType?.includes('wav')) return 'wav';
+  return 'ogg';
+}
+
+export class CloudSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name: string;
+  private model: string;
+
+  constructor(private options: CloudSpeechToTextOptions) {
+    this.model = options.model || 'whisper-1';
+    this.name = `${new URL(options.baseUrl).host} (${this.model})`;
+  }
+
+  async transcribe(audio: Buffer, options: TranscribeOptions = {}): Promise<Transcription> {
+    const mimeType = options.mimeType || 'audio/ogg';
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), `voice.${extensionFor(mimeType)}`);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    if (options.language) {
+      form.append('language', options.language);
+    }
+
+    try {
+      const response = await axios.post<{ text: string; language?: string }>(
+        `${this.options.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`,
+        form,
+        {
+          headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+          timeout: this.options.timeoutMs ?? 60000,
+          signal: options.signal,
+        }
+      );
+      return { text: (response.data.text || '').trim(), language: response.data.language || options.language };
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      logger.error('Transcription request failed', { status, error });
+      throw new VoiceTranscriptionError(status ? `Spraakherkenning gaf HTTP ${status}` : 'Spraakherkenning niet bereikbaar');
+    }
+  }
+}
+
+export function createCloudSpeechToTextProvider(options: CloudSpeechToTextOptions): CloudSpeechToTextProvider {
+  return new CloudSpeechToTextProvider(options);
+}
@@ -0,0 +1,116 @@
+/**
+ * Voice Commands
+ * Spraakberichten omzetten naar tekst en de taalhint instellen via /voice
+ */
+
+import type { Message } from '../../types/telegram';
+import type { ApiMethods } from '../../api';
+import { createLogger } from '../../utils/logger';
+import { VoiceTooLongError } from './types';
+import { AUTO_LANGUAGE, normalizeLanguage, type VoiceTranscriber } from './transcriber';
+
+const logger = createLogger({ prefix: 'Voice' });
+
+const USAGE = `Gebruik:
+/voice — instellingen van spraakherkenning
+/voice lang <code> — taal van spraakberichten in deze chat (nl, en, de, ...)
+/voice lang auto — taal automatisch herkennen
+/voice lang default — terug naar de standaard taal`;
+
+/**
+ * Transcribe a voice note or audio file and echo the transcript
+ * @returns the transcript, or undefined when it failed (the user has been told)
+ */
+export async function handleVoiceMessage(
+  api: ApiMethods,
+  message: Message,
+  transcriber: VoiceTranscriber
+): Promise<string | undefined> {
+  const chatId = message.chat.id;
+
+  try {
+    await api.sendChatAction({ chat_id: chatId, action: 'typing' });
+    const result = await transcriber.transcribe(api, message);
+
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `🎙 ${result.text}`,
+      reply_to_message_id: message.message_id,
+    });
+    return result.text;
+  } catch (error) {
+    if (error instanceof VoiceTooLongError) {
+      await api.sendMessage({
+        chat_id: chatId,
+        text: `⏱ Spraakbericht te lang (${error.duration}s). Max: ${error.maxDuration}s.`,
+      });
+      return undefined;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Voice transcription failed', { error: errorMessage, chatId });
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `❌ Spraakherkenning mislukt: ${errorMessage}`,
+    });
+    return undefined;
+  }
+}
+
+export async function voiceCommand(
+  api: ApiMethods,
+  message: Message,
+  args: string[],
+  transcriber?: VoiceTranscriber
+): Promise<void> {
+  const chatId = message.chat.id;
+
+  if (!transcriber) {
+    await api.sendMessage({
+      chat_id: chatId,
+      text: '🎙 Spraakherkenning staat uit. Stel STT_PROVIDER in (whisper-cpp of openai).',
+    });
+    return;
+  }
+
+  const subcommand = args[0]?.toLowerCase();
+
+  if (!subcommand) {
+    const language = transcriber.getLanguage(String(chatId));
+    const languageLabel = language === AUTO_LANGUAGE ? 'automatisch' : language;
+    const source = transcriber.isDefaultLanguage(String(chatId)) ? ' (standaard)' : '';
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `🎙 Spraakherkenning\n\nBackend: ${transcriber.providerName}\nTaal: ${languageLabel}${source}\nMax duur: ${transcriber.maxDurationSec}s\n\n${USAGE}`,
+    });
+    return;
+  }
+
+  if (subcommand !== 'lang' || !args[1]) {
+    await api.sendMessage({ chat_id: chatId, text: USAGE });
+    return;
+  }
+
+  if (args[1].toLowerCase() === 'default') {
+    transcriber.setLanguage(String(chatId), undefined);
+    await api.sendMessage({
+      chat_id: chatId,
+      text: `✅ Spraakberichten gebruiken weer de standaard taal (${transcriber.getLanguage(String(chatId))}).`,
+    });
+    return;
+  }
+
+  const language = normalizeLanguage(args[1]);
+  if (!language) {
+    await api.sendMessage({ chat_id: chatId, text: `❌ Onbekende taalcode: ${args[1]}\n\n${USAGE}` });
+    return;
+  }
+
+  transcriber.setLanguage(String(chatId), language);
+  await api.sendMessage({
+    chat_id: chatId,
+    text: language === AUTO_LANGUAGE
+      ? '✅ De taal van spraakberichten wordt nu automatisch herkend.'
+      : `✅ Spraakberichten in deze chat worden als "${language}" herkend.`,
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Voice Feature - Barrel exports
+ */
+
+export * from './types';
+export * from './whisper';
+export * from './cloud';
+export * from './transcriber';
+export * from './commands';
@@ -0,0 +1,139 @@
+/**
+ * Voice Transcriber
+ * Spraakberichten downloaden en transcriberen, met een taalhint per chat en een maximale duur
+ */
+
+import type { ApiMethods } from '../../api';
+import type { Message } from '../../types/telegram';
+import { getDatabase, type DatabaseClient } from '../../database';
+import { VoiceTooLongError, VoiceTranscriptionError, type SpeechToTextProvider, type Transcription } from './types';
+
+/** Language hint that lets the backend detect the language */
+export const AUTO_LANGUAGE = 'auto';
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}$/;
+
+/** Language hint per chat */
+export interface VoiceLanguageStore {
+  get(chatId: string): string | undefined;
+  set(chatId: string, language: string): void;
+  delete(chatId: string): void;
+}
+
+export class DatabaseVoiceLanguageStore implements VoiceLanguageStore {
+  constructor(private db: DatabaseClient = getDatabase()) {}
+
+  get(chatId: string): string | undefined {
+    return this.db.getVoiceLanguage(chatId);
+  }
+
+  set(chatId: string, language: string): void {
+    this.db.setVoiceLanguage(chatId, language);
+  }
+
+  delete(chatId: string): void {
+    this.db.deleteVoiceLanguage(chatId);
+  }
+}
+
+/** Keeps the hints until a restart, for when there is no database */
+export class MemoryVoiceLanguageStore implements VoiceLanguageStore {
+  private languages = new Map<string, string>();
+
+  get(chatId: string): string | undefined {
+    return this.languages.get(chatId);
+  }
+
+  set(chatId: string, language: string): void {
+    this.languages.set(chatId, language);
+  }
+
+  delete(chatId: string): void {
+    this.languages.delete(chatId);
+  }
+}
+
+export interface VoiceTranscriberOptions {
+  provider: SpeechToTextProvider;
+  languages?: VoiceLanguageStore;
+  /** Hint for chats without their own (default: auto) */
+  defaultLanguage?: string;
+  /** Longest voice or audio message in seconds (default: 300) */
+  maxDurationSec?: number;
+}
+
+/**
+ * Lower-case ISO 639 code or "auto"; undefined when the value is not a language code
+ */
+export function normalizeLanguage(value: string): string | undefined {
+  const language = value.trim().toLowerCase();
+  return language === AUTO_LANGUAGE || LANGUAGE_PATTERN.test(language) ? language : undefined;
+}
+
+export class VoiceTranscriber {
+  private languages: VoiceLanguageStore;
+  private defaultLanguage: string;
+  readonly maxDurationSec: number;
+
+  constructor(private options: VoiceTranscriberOptions) {
+    this.languages = options.languages || new MemoryVoiceLanguageStore();
+    this.defaultLanguage = normalizeLanguage(options.defaultLanguage || '') || AUTO_LANGUAGE;
+    this.maxDurationSec = options.maxDurationSec ?? 300;
+  }
+
+  get providerName(): string {
+    return this.options.provider.name;
+  }
+
+  /** Hint for the chat: its own, or the default */
+  getLanguage(chatId: string): string {
+    return this.languages.get(chatId) || this.defaultLanguage;
+  }
+
+  isDefaultLanguage(chatId: string): boolean {
+    return !this.languages.get(chatId);
+  }
+
+  /** Undefined goes back to the default */
+  setLanguage(chatId: string, language?: string): void {
+    if (language) {
+      this.languages.set(chatId, language);
+    } else {
+      this.languages.delete(chatId);
+    }
+  }
+
+  /**
+   * Download the voice note or audio file of the message and turn it into text
+   */
+  async transcribe(api: ApiMethods, message: Message, signal?: AbortSignal): Promise<Transcription> {
+    const audio = message.voice || message.audio;
+    if (!audio) {
+      throw new VoiceTranscriptionError('Geen spraakbericht');
+    }
+    if (audio.duration > this.maxDurationSec) {
+      throw new VoiceTooLongError(audio.duration, this.maxDurationSec);
+    }
+
+    const file = await api.getFile(audio.file_id);
+    if (!file.file_path) {
+      throw new VoiceTranscriptionError('Spraakbericht kon niet worden gedownload');
+    }
+    const data = await api.downloadFile(file.file_path);
+
+    const language = this.getLanguage(String(message.chat.id));
+    const result = await this.options.provider.transcribe(data, {
+      language: language === AUTO_LANGUAGE ? undefined : language,
+      mimeType: audio.mime_type || 'audio/ogg',
+      signal,
+    });
+    if (!result.text) {
+      throw new VoiceTranscriptionError('Geen spraak herkend');
+    }
+    return result;
+  }
+}
+
+export function createVoiceTranscriber(options: VoiceTranscriberOptions): VoiceTranscriber {
+  return new VoiceTranscriber(options);
+}
@@ -0,0 +1,40 @@
+/**
+ * Voice Feature Types
+ */
+
+export interface TranscribeOptions {
+  /** ISO 639-1 code (nl, en, ...); undefined lets the backend detect the language */
+  language?: string;
+  /** e.g. audio/ogg for voice notes */
+  mimeType?: string;
+  signal?: AbortSignal;
+}
+
+export interface Transcription {
+  text: string;
+  /** Language the backend detected or was told */
+  language?: string;
+}
+
+/**
+ * Speech-to-text backend (local whisper.cpp, a cloud API, ...)
+ */
+export interface SpeechToTextProvider {
+  /** Shown in /voice */
+  readonly name: string;
+  transcribe(audio: Buffer, options?: TranscribeOptions): Promise<Transcription>;
+}
+
+export class VoiceTranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceTranscriptionError';
+  }
+}
+
+export class VoiceTooLongError extends Error {
+  constructor(public readonly duration: number, public readonly maxDuration: number) {
+    super(`Spraakbericht te lang (${duration}s, max ${maxDuration}s)`);
+    this.name = 'VoiceTooLongError';
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * whisper.cpp Speech-to-Text
+ * Transcribeert lokaal: ffmpeg zet het bericht om naar 16 kHz wav, whisper.cpp maakt er tekst van
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createLogger } from '../../utils/logger';
+import {
+  VoiceTranscriptionError,
+  type SpeechToTextProvider,
+  type TranscribeOptions,
+  type Transcription,
+} from './types';
+
+const logger = createLogger({ prefix: 'WhisperCpp' });
+const execAsync = promisify(execFile);
+
+export interface WhisperCppOptions {
+  /** whisper.cpp binary (whisper-cli, or main in older builds) */
+  binary?: string;
+  /** Path to a ggml model, e.g. ggml-base.bin */
+  model: string;
+  ffmpegBinary?: string;
+  threads?: number;
+  timeoutMs?: number;
+}
+
+export class WhisperCppProvider implements SpeechToTextProvider {
+  readonly name = 'whisper.cpp';
+  private binary: string;
+  private ffmpegBinary: string;
+  private timeoutMs: number;
+
+  constructor(private options: WhisperCppOptions) {
+    this.binary = options.binary || 'whisper-cli';
+    this.ffmpegBinary = options.ffmpegBinary || 'ffmpeg';
+    this.timeoutMs = options.timeoutMs ?? 120000;
+  }
+
+  async transcribe(audio: Buffer, options: TranscribeOptions = {}): Promise<Transcription> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'voice-'));
+    try {
+      const input = path.join(dir, 'input');
+      const wav = path.join(dir, 'audio.wav');
+      await fs.writeFile(input, audio);
+
+      await this.run(this.ffmpegBinary, ['-nostdin', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav], options.signal);
+
+      const args = ['-m', this.options.model, '-f', wav, '-l', options.language || 'auto', '-nt', '-np'];
+      if (this.options.threads) {
+        args.push('-t', String(this.options.threads));
+      }
+      const stdout = await this.run(this.binary, args, options.signal);
+      const text = stdout.split('\n').map((line) => line.trim()).filter(Boolean).join(' ');
+      return { text, language: options.language };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch((error) => {
+        logger.warn('Failed to remove temp dir', { error, dir });
+      });
+    }
+  }
+
+  private async run(binary: string, args: string[], signal?: AbortSignal): Promise<string> {
+    try {
+      const { stdout } = await execAsync(binary, args, {
+        timeout: this.timeoutMs,
+        maxBuffer: 4 * 1024 * 1024,
+        signal,
+      });
+      return stdout;
+    } catch (error) {
+      logger.error('Speech-to-text command failed', { binary, error });
+      const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? `${binary} niet gevonden` : `${path.basename(binary)} mislukt`;
+      throw new VoiceTranscriptionError(reason);
+    }
+  }
+}
+
+export function createWhisperCppProvider(options: WhisperCppOptions): WhisperCppProvider {
+  return new WhisperCppProvider(options);
+}
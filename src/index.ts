@@ -12,7 +12,7 @@ import { registerDefaultHandlers } from './events';
 import { createCommandHandler } from './bot/handlers/command';
 import { createCallbackHandler } from './bot/handlers/callback';
 import { SimpleMessageHandler } from './bot/handlers/message';
-import { createStreamingMessageHandler } from './bot/handlers/streaming-message';
+import { createStreamingMessageHandler, STOP_CALLBACK_DATA, ANSWER_CALLBACK_PREFIX } from './bot/handlers/streaming-message';
 import { getConfirmationManager } from './streaming/confirmation';
 import { helpCommand, DEFAULT_COMMANDS, startCommand } from './bot/commands';
 import { statusCommand } from './bot/commands/status';
@@ -20,8 +20,31 @@ import { telegramLogger, LogLevel } from './utils/telegram-logger';
 import { ZAIService } from './zai';
 import { MiniMaxService } from './minimax';
 import { MistralService } from './mistral';
+import { ClaudeService } from './claude';
+import { OpenAICompatibleService } from './openai-compatible';
 import { closeDatabase } from './database';
-import { LLMRouter, type LLMProvider } from './llm';
+import {
+  LLMRouter,
+  createLLMPreferenceStore,
+  createLLMUsageTracker,
+  createLLMQuotaManager,
+  createLLMPersonaManager,
+  createLLMToolRegistry,
+  createLLMTranscriptStore,
+  createConversationStore,
+  createContextManager,
+  createLLMReplayProvider,
+  toOpenAICompatibleProvider,
+  type LLMProvider,
+  type LLMPreferenceStore,
+  type LLMUsageTracker,
+  type LLMQuotaManager,
+  type LLMPersonaManager,
+  type LLMToolRegistry,
+  type LLMTranscriptStore,
+  type LLMReplayProvider,
+  type ConversationCacheOptions,
+} from './llm';
 
 // Claude Code CLI integration
 import {
@@ -101,7 +124,31 @@ import {
 
 // Custom Tools
 import { customToolCommand } from './features/custom-tools';
-import { llmCommand } from './features/llm';
+import {
+  llmCommand,
+  contextCommand,
+  personaCommand,
+  compareCommand,
+  exportCommand,
+  importCommand,
+  handleCompareCallback,
+  createBotTools,
+  COMPARE_CALLBACK_PREFIX,
+} from './features/llm';
+import { FileNotesStore } from './features/notes';
+import { createNewsService } from './features/news';
+import { getP2000Scraper } from './features/p2000';
+import { usageCommand } from './features/usage';
+import {
+  createVoiceTranscriber,
+  createWhisperCppProvider,
+  createCloudSpeechToTextProvider,
+  DatabaseVoiceLanguageStore,
+  voiceCommand,
+  type SpeechToTextProvider,
+  type VoiceLanguageStore,
+  type VoiceTranscriber,
+} from './features/voice';
 
 // CLI Commands
 import { claudeCliCommand, omoCommand } from './bot/commands/cli';
@@ -126,6 +173,7 @@ import {
   writeCommand,
   codeCommand,
   devHelpCommand,
+  getProjectContext,
 } from './features/developer';
 
 // =============================================================================
@@ -161,9 +209,13 @@ class Plugin implements ITelegramBotPlugin {
   private zaiService?: ZAIService;
   private miniMaxService?: MiniMaxService;
   private mistralService?: MistralService;
+  private anthropicService?: ClaudeService;
+  private openAICompatibleServices: OpenAICompatibleService[] = [];
   private claudeCodeService: ClaudeCodeService;
   private reminderService?: ReminderService;
   private llmRouter: LLMRouter;
+  private usageTracker?: LLMUsageTracker;
+  private voiceTranscriber?: VoiceTranscriber;
 
   constructor(config: PluginConfig) {
     this.config = config;
@@ -179,10 +231,30 @@ class Plugin implements ITelegramBotPlugin {
       cliBinary: process.env.CLAUDE_CLI_BINARY || 'claude',
       model: process.env.CLAUDE_MODEL,
       timeout: parseInt(process.env.CLAUDE_TIMEOUT || '300000', 10), // 5 minuten
+      sessionStorage: this.getClaudeSessionStorage(),
+      sessionStoragePath: process.env.CLAUDE_SESSION_FILE,
       systemPrompt: process.env.CLAUDE_SYSTEM_PROMPT,
+      permissionPrompt: process.env.CLAUDE_PERMISSION_PROMPT !== 'false',
+      allowedRoots: (process.env.CLAUDE_ALLOWED_ROOTS || '').split(',').map((root) => root.trim()).filter(Boolean),
+      allowedTools: (process.env.CLAUDE_ALLOWED_TOOLS || '').split(',').map((tool) => tool.trim()).filter(Boolean),
+      deniedTools: (process.env.CLAUDE_DENIED_TOOLS || '').split(',').map((tool) => tool.trim()).filter(Boolean),
+      // Sessions follow the chat's /project
+      project: (chatId) => {
+        const context = getProjectContext(chatId);
+        return context ? { rootPath: context.rootPath, openedAt: context.createdAt } : undefined;
+      },
     });
     this.logger.info('Claude Code service initialized');
 
+    // Durable history for the API providers (zai, minimax, mistral, openai:*)
+    const conversations = this.getConversationOptions();
+    // Token budget of that history, older turns are summarised by the provider itself
+    const context = createContextManager({
+      defaultBudget: parseInt(process.env.LLM_CONTEXT_BUDGET || '24000', 10),
+      budgets: config.llmContextBudgets,
+      keepTurns: parseInt(process.env.LLM_CONTEXT_KEEP_TURNS || '4', 10),
+    });
+
     // Create Z.ai service as fallback if API key is available
     if (config.zaiApiKey) {
       this.zaiService = new ZAIService({
@@ -190,6 +262,8 @@ class Plugin implements ITelegramBotPlugin {
         model: process.env.ZAI_MODEL || 'glm-4.7',
         maxTokens: config.options?.claude?.maxTokens,
         temperature: config.options?.claude?.temperature,
+        conversations,
+        context,
       });
       this.logger.info('Z.ai service initialized');
     }
@@ -201,6 +275,8 @@ class Plugin implements ITelegramBotPlugin {
         model: process.env.MINIMAX_MODEL || 'MiniMax-v2.1',
         maxTokens: config.options?.claude?.maxTokens,
         temperature: config.options?.claude?.temperature,
+        conversations,
+        context,
       });
       this.logger.info('MiniMax service initialized (v2.1 + Lite fallback)');
     }
@@ -212,17 +288,51 @@ class Plugin implements ITelegramBotPlugin {
         model: process.env.MISTRAL_MODEL || 'mistral-small-latest',
         maxTokens: config.options?.claude?.maxTokens,
         temperature: config.options?.claude?.temperature,
+        conversations,
+        context,
       });
       this.logger.info('Mistral service initialized');
     }
 
+    // Create Anthropic API service if API key is available (Claude without the CLI)
+    if (config.anthropicApiKey) {
+      this.anthropicService = new ClaudeService({
+        apiKey: config.anthropicApiKey,
+        model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+        maxTokens: config.options?.claude?.maxTokens,
+        temperature: config.options?.claude?.temperature,
+        maxHistoryMessages: config.options?.claude?.maxHistoryMessages,
+      });
+      setSearchClaudeService(this.anthropicService);
+      this.logger.info('Anthropic service initialized');
+    }
+
+    // Create a service per configured OpenAI-compatible endpoint
+    for (const provider of config.openAICompatibleProviders || []) {
+      this.openAICompatibleServices.push(new OpenAICompatibleService({
+        name: provider.name,
+        baseUrl: provider.baseUrl,
+        model: provider.model,
+        apiKey: provider.apiKey,
+        label: provider.label,
+        maxTokens: config.options?.claude?.maxTokens,
+        temperature: config.options?.claude?.temperature,
+        conversations,
+        context,
+      }));
+      this.logger.info(`OpenAI-compatible service initialized: ${provider.name} (${provider.baseUrl})`);
+    }
+
     const defaultProvider = this.resolveDefaultProvider();
+    this.usageTracker = this.createUsageTracker();
     this.llmRouter = new LLMRouter(
       {
         claude: this.claudeCodeService,
         zai: this.zaiService,
         minimax: this.miniMaxService,
         mistral: this.mistralService,
+        anthropic: this.anthropicService,
+        openAICompatible: this.openAICompatibleServices,
       },
       {
         defaultProvider,
@@ -230,6 +340,28 @@ class Plugin implements ITelegramBotPlugin {
           zai: process.env.ZAI_DEV_MODEL,
           minimax: process.env.MINIMAX_DEV_MODEL,
           mistral: process.env.MISTRAL_DEV_MODEL || 'codestral-latest',
+          anthropic: process.env.ANTHROPIC_DEV_MODEL,
+          ...this.getOpenAICompatibleDevModels(),
+        },
+        aliases: this.getOpenAICompatibleAliases(),
+        health: {
+          failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURES || '3', 10),
+          cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000', 10),
+          probeTimeoutMs: parseInt(process.env.LLM_CIRCUIT_PROBE_TIMEOUT_MS || '120000', 10),
+        },
+        store: this.createPreferenceStore(),
+        usage: this.usageTracker,
+        quotas: this.createQuotaManager(),
+        personas: this.createPersonaManager(),
+        transcripts: this.createTranscriptStore(),
+        replay: this.createReplayProvider(),
+        tools: this.createToolRegistry(),
+        toolProviders: this.getToolProviders(),
+        visionModels: {
+          zai: process.env.ZAI_VISION_MODEL || 'glm-4.5v',
+          mistral: process.env.MISTRAL_VISION_MODEL || 'pixtral-large-latest',
+          anthropic: process.env.ANTHROPIC_VISION_MODEL,
+          ...this.getOpenAICompatibleVisionModels(),
         },
       }
     );
@@ -241,6 +373,9 @@ class Plugin implements ITelegramBotPlugin {
       zaiService: this.zaiService,
     });
 
+    // Speech-to-text for voice notes (STT_PROVIDER)
+    this.voiceTranscriber = this.createVoiceTranscriber();
+
     // Create reminder service
     this.reminderService = new ReminderService(this.bot.apiMethods);
     setReminderService(this.reminderService);
@@ -318,6 +453,16 @@ class Plugin implements ITelegramBotPlugin {
       this.mistralService.destroy();
     }
 
+    // Destroy Anthropic service
+    if (this.anthropicService) {
+      this.anthropicService.destroy();
+    }
+
+    // Destroy OpenAI-compatible services
+    for (const service of this.openAICompatibleServices) {
+      service.destroy();
+    }
+
     // Clear event handlers
     this.eventDispatcher.clear();
 
@@ -349,6 +494,15 @@ class Plugin implements ITelegramBotPlugin {
     // Setup command handler
     const commandHandler = createCommandHandler(api);
 
+    // Setup message handler - use StreamingMessageHandler for interactive responses
+    const messageHandler = createStreamingMessageHandler(api, this.llmRouter, {
+      queue: {
+        maxDepth: parseInt(process.env.LLM_QUEUE_MAX_DEPTH || '5', 10),
+        mergeWindowMs: parseInt(process.env.LLM_QUEUE_MERGE_MS || '0', 10),
+      },
+      groupMode: process.env.LLM_GROUP_MODE === 'mention' ? 'mention' : 'all',
+    });
+
     // ==========================================================================
     // Core Commands
     // ==========================================================================
@@ -425,6 +579,50 @@ class Plugin implements ITelegramBotPlugin {
       await llmCommand(api, message, args, this.llmRouter);
     });
 
+    commandHandler.registerCommand('/context', async (message) => {
+      trackCommand('/context', String(message.chat.id));
+      await contextCommand(api, message, this.llmRouter);
+    });
+
+    commandHandler.registerCommand('/persona', async (message, args) => {
+      trackCommand('/persona', String(message.chat.id));
+      await personaCommand(api, message, args, this.llmRouter);
+    });
+
+    commandHandler.registerCommand('/cancel', async (message) => {
+      trackCommand('/cancel', String(message.chat.id));
+      const stopped = messageHandler.cancel(message.chat.id);
+      await api.sendMessage({
+        chat_id: message.chat.id,
+        text: stopped ? '⏹ Antwoord gestopt.' : 'ℹ️ Er wordt op dit moment geen antwoord gegenereerd.',
+      });
+    });
+
+    commandHandler.registerCommand('/export', async (message, args) => {
+      trackCommand('/export', String(message.chat.id));
+      await exportCommand(api, message, args, this.llmRouter);
+    });
+
+    commandHandler.registerCommand('/import', async (message) => {
+      trackCommand('/import', String(message.chat.id));
+      await importCommand(api, message, this.llmRouter);
+    });
+
+    commandHandler.registerCommand('/voice', async (message, args) => {
+      trackCommand('/voice', String(message.chat.id));
+      await voiceCommand(api, message, args, this.voiceTranscriber);
+    });
+
+    commandHandler.registerCommand('/compare', async (message, args) => {
+      trackCommand('/compare', String(message.chat.id));
+      await compareCommand(api, message, args, this.llmRouter);
+    });
+
+    commandHandler.registerCommand('/usage', async (message, args) => {
+      trackCommand('/usage', String(message.chat.id));
+      await usageCommand(api, message, args, this.usageTracker);
+    });
+
     // ==========================================================================
     // Developer Mode Commands
     // ==========================================================================
@@ -719,7 +917,7 @@ class Plugin implements ITelegramBotPlugin {
 
     commandHandler.registerCommand('/admin', async (message, args) => {
       trackCommand('/admin', String(message.chat.id));
-      await adminCommand(api, message, args);
+      await adminCommand(api, message, args, this.llmRouter);
     });
 
     // ==========================================================================
@@ -748,13 +946,31 @@ class Plugin implements ITelegramBotPlugin {
       }
     });
 
-    // Setup message handler - use StreamingMessageHandler for interactive responses
-    const messageHandler = createStreamingMessageHandler(api, this.llmRouter);
+    // Buttons under /compare answers
+    callbackHandler.registerPrefixCallback(COMPARE_CALLBACK_PREFIX, async (callbackQuery) => {
+      await handleCompareCallback(api, callbackQuery, this.llmRouter);
+    });
+
+    // Stop button under the streaming status message
+    callbackHandler.registerCallback(STOP_CALLBACK_DATA, async (callbackQuery) => {
+      // Only this answer; waiting messages get their turn
+      const stopped = callbackQuery.message ? messageHandler.cancel(callbackQuery.message.chat.id, false) : false;
+      await api.answerCallbackQuery({
+        callback_query_id: callbackQuery.id,
+        text: stopped ? '⏹ Gestopt' : 'Dit antwoord is al klaar',
+      });
+    });
+
+    // Regenerate / continue / other provider under the last answer
+    callbackHandler.registerPrefixCallback(ANSWER_CALLBACK_PREFIX, async (callbackQuery) => {
+      await messageHandler.handleAnswerCallback(callbackQuery);
+    });
 
     // Set handlers on bot
     this.bot.setCommandHandler(commandHandler);
     this.bot.setCallbackHandler(callbackHandler);
     this.bot.setMessageHandler(messageHandler);
+    this.bot.setVoiceTranscriber(this.voiceTranscriber);
   }
 
   private resolveDefaultProvider(): LLMProvider {
@@ -768,12 +984,201 @@ class Plugin implements ITelegramBotPlugin {
     if (this.zaiService) return 'zai';
     if (this.miniMaxService) return 'minimax';
     if (this.mistralService) return 'mistral';
+    if (this.anthropicService) return 'anthropic';
+    if (this.openAICompatibleServices.length > 0) {
+      return toOpenAICompatibleProvider(this.openAICompatibleServices[0].getName());
+    }
     return 'claude-cli';
   }
 
+  private getOpenAICompatibleDevModels(): Partial<Record<LLMProvider, string>> {
+    const devModels: Partial<Record<LLMProvider, string>> = {};
+    for (const provider of this.config.openAICompatibleProviders || []) {
+      if (provider.devModel) {
+        devModels[toOpenAICompatibleProvider(provider.name)] = provider.devModel;
+      }
+    }
+    return devModels;
+  }
+
+  private getOpenAICompatibleVisionModels(): Partial<Record<LLMProvider, string>> {
+    const visionModels: Partial<Record<LLMProvider, string>> = {};
+    for (const provider of this.config.openAICompatibleProviders || []) {
+      if (provider.visionModel) {
+        visionModels[toOpenAICompatibleProvider(provider.name)] = provider.visionModel;
+      }
+    }
+    return visionModels;
+  }
+
+  private getOpenAICompatibleAliases(): Record<string, LLMProvider> {
+    const aliases: Record<string, LLMProvider> = {};
+    for (const provider of this.config.openAICompatibleProviders || []) {
+      for (const alias of provider.aliases || []) {
+        aliases[alias.toLowerCase()] = toOpenAICompatibleProvider(provider.name);
+      }
+    }
+    return aliases;
+  }
+
+  private createPreferenceStore(): LLMPreferenceStore | undefined {
+    try {
+      return createLLMPreferenceStore();
+    } catch (error) {
+      this.logger.warn('LLM preferences not persisted (database unavailable)', { error });
+      return undefined;
+    }
+  }
+
+  private createUsageTracker(): LLMUsageTracker | undefined {
+    try {
+      return createLLMUsageTracker({ prices: this.config.llmPrices });
+    } catch (error) {
+      this.logger.warn('LLM usage not recorded (database unavailable)', { error });
+      return undefined;
+    }
+  }
+
+  private getConversationOptions(): ConversationCacheOptions {
+    const ttlSeconds = parseInt(process.env.CONVERSATION_TTL || '86400', 10);
+    try {
+      return { store: createConversationStore(), ttlMs: ttlSeconds * 1000 };
+    } catch (error) {
+      this.logger.warn('Conversation history not persisted (database unavailable)', { error });
+      return { ttlMs: ttlSeconds * 1000 };
+    }
+  }
+
+  private createQuotaManager(): LLMQuotaManager | undefined {
+    try {
+      return createLLMQuotaManager();
+    } catch (error) {
+      this.logger.warn('LLM quotas disabled (database unavailable)', { error });
+      return undefined;
+    }
+  }
+
+  private createPersonaManager(): LLMPersonaManager | undefined {
+    try {
+      return createLLMPersonaManager();
+    } catch (error) {
+      this.logger.warn('Personas disabled (database unavailable)', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * whisper.cpp (local) or an OpenAI-compatible transcription API; undefined when STT_PROVIDER is not set
+   */
+  private createVoiceTranscriber(): VoiceTranscriber | undefined {
+    const name = process.env.STT_PROVIDER?.trim().toLowerCase();
+    let provider: SpeechToTextProvider;
+    if (name === 'whisper-cpp') {
+      if (!process.env.WHISPER_CPP_MODEL) {
+        this.logger.warn('Voice transcription disabled (WHISPER_CPP_MODEL not set)');
+        return undefined;
+      }
+      provider = createWhisperCppProvider({
+        binary: process.env.WHISPER_CPP_BINARY,
+        model: process.env.WHISPER_CPP_MODEL,
+        ffmpegBinary: process.env.FFMPEG_BINARY,
+        threads: process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS, 10) : undefined,
+      });
+    } else if (name === 'openai') {
+      provider = createCloudSpeechToTextProvider({
+        baseUrl: process.env.STT_API_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.STT_API_KEY,
+        model: process.env.STT_MODEL,
+      });
+    } else {
+      if (name) {
+        this.logger.warn('Unknown STT_PROVIDER, voice transcription disabled', { provider: name });
+      }
+      return undefined;
+    }
+
+    let languages: VoiceLanguageStore | undefined;
+    try {
+      languages = new DatabaseVoiceLanguageStore();
+    } catch (error) {
+      this.logger.warn('Voice language hints not persisted (database unavailable)', { error });
+    }
+
+    this.logger.info('Voice transcription initialized', { provider: provider.name });
+    return createVoiceTranscriber({
+      provider,
+      languages,
+      defaultLanguage: process.env.STT_LANGUAGE,
+      maxDurationSec: parseInt(process.env.STT_MAX_DURATION || '300', 10),
+    });
+  }
+
+  private createTranscriptStore(): LLMTranscriptStore | undefined {
+    try {
+      return createLLMTranscriptStore();
+    } catch (error) {
+      this.logger.warn('Conversation export without metadata (database unavailable)', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Where Claude CLI sessions are kept (CLAUDE_SESSION_STORAGE=sqlite|file|memory, default sqlite)
+   */
+  private getClaudeSessionStorage(): 'sqlite' | 'file' | 'memory' {
+    const type = process.env.CLAUDE_SESSION_STORAGE?.trim().toLowerCase();
+    if (type === 'file' || type === 'memory') {
+      return type;
+    }
+    if (type && type !== 'sqlite') {
+      this.logger.warn(`Unknown CLAUDE_SESSION_STORAGE "${type}", using sqlite`);
+    }
+    return 'sqlite';
+  }
+
+  /**
+   * Record provider exchanges as test fixtures, or answer from them (LLM_REPLAY_MODE=record|replay)
+   */
+  private createReplayProvider(): LLMReplayProvider | undefined {
+    const mode = process.env.LLM_REPLAY_MODE?.trim().toLowerCase();
+    if (mode !== 'record' && mode !== 'replay') {
+      return undefined;
+    }
+
+    const dir = process.env.LLM_REPLAY_DIR || './tests/fixtures/llm';
+    this.logger.warn(`LLM ${mode} mode: fixtures in ${dir}`);
+    return createLLMReplayProvider({
+      mode,
+      dir,
+      speed: parseFloat(process.env.LLM_REPLAY_SPEED || '1'),
+    });
+  }
+
+  private createToolRegistry(): LLMToolRegistry {
+    return createLLMToolRegistry(createBotTools({
+      notes: new FileNotesStore(),
+      reminders: () => this.reminderService,
+      news: createNewsService(),
+      p2000: getP2000Scraper,
+    }));
+  }
+
+  /**
+   * Providers that get the bot tools (LLM_TOOL_PROVIDERS, comma-separated; empty disables tools)
+   */
+  private getToolProviders(): LLMProvider[] {
+    const value = process.env.LLM_TOOL_PROVIDERS ?? 'zai,mistral';
+    return value
+      .split(',')
+      .filter((name) => name.trim())
+      .map((name) => this.normalizeProviderName(name))
+      .filter((provider): provider is LLMProvider => provider !== undefined);
+  }
+
   private normalizeProviderName(value: string): LLMProvider | undefined {
     const key = value.trim().toLowerCase();
     const aliases: Record<string, LLMProvider> = {
+      ...this.getOpenAICompatibleAliases(),
       'zai': 'zai',
       'glm': 'zai',
       'glm-4.7': 'zai',
@@ -781,10 +1186,17 @@ class Plugin implements ITelegramBotPlugin {
       'minimax-v2.1': 'minimax',
       'mistral': 'mistral',
       'mixtral': 'mistral',
+      'anthropic': 'anthropic',
+      'claude-api': 'anthropic',
       'claude': 'claude-cli',
       'claude-cli': 'claude-cli',
       'cli': 'claude-cli',
     };
+    for (const provider of this.config.openAICompatibleProviders || []) {
+      const id = toOpenAICompatibleProvider(provider.name);
+      aliases[provider.name.toLowerCase()] ??= id;
+      aliases[id] = id;
+    }
     return aliases[key];
   }
 
@@ -796,10 +1208,14 @@ class Plugin implements ITelegramBotPlugin {
         return !!this.miniMaxService;
       case 'mistral':
         return !!this.mistralService;
+      case 'anthropic':
+        return !!this.anthropicService;
       case 'claude-cli':
         return true;
       default:
-        return false;
+        return this.openAICompatibleServices.some(
+          (service) => toOpenAICompatibleProvider(service.getName()) === provider
+        );
     }
   }
 }
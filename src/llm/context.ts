@@ -0,0 +1,176 @@
+/**
+ * Context Budget Management
+ * Houdt de gespreksgeschiedenis binnen een tokenbudget per model door oudere beurten samen te vatten
+ */
+
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ prefix: 'ContextManager' });
+
+/** Message shape shared by the API providers */
+export interface ContextMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface ContextBudgetOptions {
+  /** Token budget for models without their own budget (default: 24000) */
+  defaultBudget?: number;
+  /** Budget per model; exact match first, then the longest prefix */
+  budgets?: Record<string, number>;
+  /** Most recent user turns that are always kept verbatim (default: 4) */
+  keepTurns?: number;
+}
+
+export interface ContextUsage {
+  /** Estimated tokens of system prompt, summary and messages */
+  usedTokens: number;
+  budgetTokens: number;
+  /** Messages kept verbatim */
+  messages: number;
+  /** Whether older turns were folded into a summary */
+  summarized: boolean;
+}
+
+/** Asks the active provider for a completion of a single prompt */
+export type Summarizer = (systemPrompt: string, prompt: string) => Promise<string>;
+
+const SUMMARY_HEADER = 'Samenvatting van het eerdere gesprek:';
+
+const SUMMARY_SYSTEM_PROMPT = `You summarise chat history for an assistant that continues the conversation.
+- Keep facts, decisions, names, code identifiers, open questions and user preferences.
+- Drop greetings and small talk.
+- Write compact bullet points in the language of the conversation.
+- Maximum ~300 words.`;
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split stored messages into the running summary (a leading system message) and the verbatim turns
+ */
+export function splitSummary<M extends ContextMessage>(messages: M[]): { summary?: string; turns: M[] } {
+  if (messages[0]?.role === 'system') {
+    return { summary: messages[0].content, turns: messages.slice(1) };
+  }
+  return { turns: messages };
+}
+
+/**
+ * System prompt with the running summary appended, plus the turns to send verbatim
+ */
+export function withSummary<M extends ContextMessage>(
+  systemPrompt: string,
+  messages: M[]
+): { systemPrompt: string; messages: M[] } {
+  const { summary, turns } = splitSummary(messages);
+  return {
+    systemPrompt: summary ? `${systemPrompt}\n\n${SUMMARY_HEADER}\n${summary}` : systemPrompt,
+    messages: turns,
+  };
+}
+
+export class ContextManager {
+  private defaultBudget: number;
+  private budgets: Record<string, number>;
+  private keepTurns: number;
+
+  constructor(options: ContextBudgetOptions = {}) {
+    this.defaultBudget = options.defaultBudget || 24_000;
+    this.budgets = options.budgets || {};
+    this.keepTurns = Math.max(1, options.keepTurns || 4);
+  }
+
+  getBudget(model?: string): number {
+    if (!model) return this.defaultBudget;
+    if (this.budgets[model]) return this.budgets[model];
+
+    const prefix = Object.keys(this.budgets)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.budgets[prefix] : this.defaultBudget;
+  }
+
+  getUsage(systemPrompt: string, messages: ContextMessage[], model?: string): ContextUsage {
+    const prepared = withSummary(systemPrompt, messages);
+    const usedTokens = estimateTokens(prepared.systemPrompt)
+      + prepared.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+    return {
+      usedTokens,
+      budgetTokens: this.getBudget(model),
+      messages: prepared.messages.length,
+      summarized: prepared.messages.length !== messages.length,
+    };
+  }
+
+  /**
+   * Fold older turns into the running summary when the history exceeds the budget.
+   * Updates `messages` in place and returns whether it compacted. The last `keepTurns`
+   * user turns (with their answers) always stay verbatim; a failed summary keeps the history as is.
+   * @param signal When it aborts during the summary call, compact throws instead of carrying on
+   */
+  async compact<M extends ContextMessage>(
+    messages: M[],
+    systemPrompt: string,
+    model: string | undefined,
+    summarize: Summarizer,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const usage = this.getUsage(systemPrompt, messages, model);
+    if (usage.usedTokens <= usage.budgetTokens) return false;
+
+    const { summary, turns } = splitSummary(messages);
+    const keepFrom = this.findKeepIndex(turns);
+    if (keepFrom <= 0) return false;
+
+    const older = turns.slice(0, keepFrom);
+    const transcript = older
+      .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n\n');
+    const prompt = summary
+      ? `Existing summary:\n${summary}\n\nNew messages:\n${transcript}\n\nUpdate the summary with the new messages.`
+      : `Conversation:\n${transcript}\n\nSummarise this conversation.`;
+
+    let newSummary: string;
+    try {
+      newSummary = (await summarize(SUMMARY_SYSTEM_PROMPT, prompt)).trim();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn('Summarising history failed, sending full history', { error });
+      return false;
+    }
+    if (!newSummary) return false;
+
+    const summaryMessage = { role: 'system', content: newSummary } as M;
+    messages.splice(0, messages.length, summaryMessage, ...turns.slice(keepFrom));
+    logger.info('Compacted conversation history', {
+      model,
+      summarizedMessages: older.length,
+      before: usage.usedTokens,
+      after: this.getUsage(systemPrompt, messages, model).usedTokens,
+    });
+    return true;
+  }
+
+  /**
+   * Index of the first message of the last `keepTurns` user turns
+   */
+  private findKeepIndex(turns: ContextMessage[]): number {
+    let userTurns = 0;
+    for (let index = turns.length - 1; index >= 0; index--) {
+      if (turns[index].role === 'user' && ++userTurns === this.keepTurns) {
+        return index;
+      }
+    }
+    return 0;
+  }
+}
+
+export function createContextManager(options: ContextBudgetOptions = {}): ContextManager {
+  return new ContextManager(options);
+}
@@ -0,0 +1,227 @@
+/**
+ * Conversation History Storage
+ * Gesprekken van de API providers in SQLite, met lazy loading en TTL
+ */
+
+import { getDatabase, type DatabaseClient } from '../database';
+import type { LLMConversationStore, StoredConversation } from './types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ prefix: 'ConversationCache' });
+
+/** Shape shared by the provider conversation types (ZAIConversation, MistralConversation, ...) */
+export interface CachedConversation<M> {
+  chatId: string;
+  messages: M[];
+  createdAt: number;
+  lastAccessAt: number;
+}
+
+export interface ConversationCacheOptions {
+  /** Durable storage; without a store conversations only live in memory */
+  store?: LLMConversationStore;
+  /** Conversations idle longer than this are deleted, also from the store (default: 24 hours) */
+  ttlMs?: number;
+  /** Conversations idle longer than this are dropped from memory and reloaded on demand (default: 1 hour) */
+  idleMs?: number;
+  /** Interval of the eviction timer (default: 10 minutes, 0 disables it) */
+  cleanupIntervalMs?: number;
+  /** Clock, overridable for tests */
+  now?: () => number;
+}
+
+export class DatabaseConversationStore implements LLMConversationStore {
+  constructor(private db: DatabaseClient = getDatabase()) {}
+
+  load(key: string): StoredConversation | undefined {
+    const row = this.db.getConversation(key);
+    if (!row) return undefined;
+
+    const messages: unknown = row.messages ? JSON.parse(row.messages) : [];
+    return {
+      messages: Array.isArray(messages) ? messages : [],
+      createdAt: row.created_at,
+      lastAccessAt: row.last_access_at,
+    };
+  }
+
+  save(key: string, messages: unknown[]): void {
+    this.db.saveConversation(key, JSON.stringify(messages));
+  }
+
+  delete(key: string): void {
+    this.db.deleteConversation(key);
+  }
+
+  deleteExpired(before: number, keyPrefix?: string): number {
+    return this.db.deleteConversationsBefore(before, keyPrefix);
+  }
+}
+
+export function createConversationStore(db?: DatabaseClient): LLMConversationStore {
+  return new DatabaseConversationStore(db);
+}
+
+/**
+ * In-memory conversations per chat, written through to a store under "<namespace>:<chatId>".
+ * Store errors are logged; the conversation keeps working in memory.
+ */
+export class ConversationCache<M> {
+  private conversations = new Map<string, CachedConversation<M>>();
+  private store?: LLMConversationStore;
+  private ttlMs: number;
+  private idleMs: number;
+  private now: () => number;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(private namespace: string, options: ConversationCacheOptions = {}) {
+    this.store = options.store;
+    this.ttlMs = options.ttlMs || 24 * 60 * 60 * 1000;
+    this.idleMs = Math.min(options.idleMs || 60 * 60 * 1000, this.ttlMs);
+    this.now = options.now || Date.now;
+
+    const interval = options.cleanupIntervalMs ?? 10 * 60 * 1000;
+    if (interval > 0) {
+      this.cleanupTimer = setInterval(() => this.evict(), interval);
+      this.cleanupTimer.unref();
+    }
+  }
+
+  /**
+   * Get or create the conversation, loading it from the store on first access
+   */
+  get(chatId: string): CachedConversation<M> {
+    let conversation = this.conversations.get(chatId);
+    if (!conversation) {
+      conversation = this.load(chatId) || {
+        chatId,
+        messages: [],
+        createdAt: this.now(),
+        lastAccessAt: this.now(),
+      };
+      this.conversations.set(chatId, conversation);
+    }
+    return conversation;
+  }
+
+  /** Conversation if it is in memory or stored, without creating one */
+  peek(chatId: string): CachedConversation<M> | undefined {
+    const conversation = this.conversations.get(chatId) || this.load(chatId);
+    if (conversation) {
+      this.conversations.set(chatId, conversation);
+    }
+    return conversation;
+  }
+
+  /**
+   * Persist the current messages of a conversation
+   */
+  save(chatId: string): void {
+    const conversation = this.conversations.get(chatId);
+    if (!conversation) return;
+
+    conversation.lastAccessAt = this.now();
+    if (!this.store) return;
+    try {
+      this.store.save(this.key(chatId), conversation.messages);
+    } catch (error) {
+      logger.error('Failed to persist conversation', { namespace: this.namespace, chatId, error });
+    }
+  }
+
+  delete(chatId: string): void {
+    this.conversations.delete(chatId);
+    if (!this.store) return;
+    try {
+      this.store.delete(this.key(chatId));
+    } catch (error) {
+      logger.error('Failed to delete conversation', { namespace: this.namespace, chatId, error });
+    }
+  }
+
+  /** Conversations currently held in memory */
+  entries(): IterableIterator<[string, CachedConversation<M>]> {
+    return this.conversations.entries();
+  }
+
+  values(): IterableIterator<CachedConversation<M>> {
+    return this.conversations.values();
+  }
+
+  /**
+   * Delete conversations idle longer than `maxAgeMs` from memory and store
+   */
+  cleanup(maxAgeMs: number = this.ttlMs): number {
+    const cutoff = this.now() - maxAgeMs;
+    let removed = 0;
+
+    for (const [chatId, conversation] of this.conversations.entries()) {
+      if (conversation.lastAccessAt < cutoff) {
+        this.conversations.delete(chatId);
+        removed++;
+      }
+    }
+
+    if (!this.store) return removed;
+    try {
+      return this.store.deleteExpired(cutoff, `${this.namespace}:`);
+    } catch (error) {
+      logger.error('Failed to delete expired conversations', { namespace: this.namespace, error });
+      return removed;
+    }
+  }
+
+  /**
+   * Drop idle conversations from memory (they stay stored) and delete expired ones
+   */
+  evict(): void {
+    const idleCutoff = this.now() - this.idleMs;
+    for (const [chatId, conversation] of this.conversations.entries()) {
+      if (conversation.lastAccessAt < idleCutoff && this.store) {
+        this.conversations.delete(chatId);
+      }
+    }
+
+    const removed = this.cleanup();
+    if (removed > 0) {
+      logger.debug('Evicted expired conversations', { namespace: this.namespace, removed });
+    }
+  }
+
+  /** Stop the eviction timer and forget the in-memory copies */
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    this.conversations.clear();
+  }
+
+  private load(chatId: string): CachedConversation<M> | undefined {
+    if (!this.store) return undefined;
+
+    try {
+      const stored = this.store.load(this.key(chatId));
+      if (!stored) return undefined;
+
+      if (this.now() - stored.lastAccessAt > this.ttlMs) {
+        this.store.delete(this.key(chatId));
+        return undefined;
+      }
+
+      return {
+        chatId,
+        messages: stored.messages as M[],
+        createdAt: stored.createdAt,
+        lastAccessAt: stored.lastAccessAt,
+      };
+    } catch (error) {
+      logger.error('Failed to load conversation', { namespace: this.namespace, chatId, error });
+      return undefined;
+    }
+  }
+
+  private key(chatId: string): string {
+    return `${this.namespace}:${chatId}`;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Provider Health Tracking
+ * Rolling success/error/latency stats per provider with a circuit breaker.
+ */
+
+import type { LLMProvider } from './types';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealthOptions {
+  /** Consecutive failures before the circuit opens (default: 3) */
+  failureThreshold?: number;
+  /** Time an open circuit waits before allowing a probe in ms (default: 60000) */
+  cooldownMs?: number;
+  /** A probe without an outcome after this long no longer blocks the next one in ms (default: 120000) */
+  probeTimeoutMs?: number;
+  /** Rolling window for stats in ms (default: 10 minutes) */
+  windowMs?: number;
+  /** Maximum samples kept per provider (default: 50) */
+  maxSamples?: number;
+  /** Clock, overridable for tests */
+  now?: () => number;
+}
+
+export interface ProviderHealth {
+  state: CircuitState;
+  /** Successful calls in the window */
+  successes: number;
+  /** Failed calls in the window */
+  failures: number;
+  /** Failures / total in the window (0-1) */
+  errorRate: number;
+  /** Average latency of calls in the window in ms */
+  avgLatencyMs?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  /** When an open circuit accepts a probe again */
+  retryAt?: number;
+}
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface ProviderState {
+  samples: Sample[];
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+  probeStartedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+export class ProviderHealthTracker {
+  private providers = new Map<LLMProvider, ProviderState>();
+  private options: Required<ProviderHealthOptions>;
+
+  constructor(options: ProviderHealthOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold || 3,
+      cooldownMs: options.cooldownMs || 60_000,
+      probeTimeoutMs: options.probeTimeoutMs || 120_000,
+      windowMs: options.windowMs || 10 * 60_000,
+      maxSamples: options.maxSamples || 50,
+      now: options.now || Date.now,
+    };
+  }
+
+  /**
+   * Whether a call may be attempted right now (no side effects).
+   * An open circuit becomes eligible once the cooldown passed and no probe is running.
+   * A probe that hangs past probeTimeoutMs no longer counts as running.
+   */
+  isCallable(provider: LLMProvider): boolean {
+    const entry = this.providers.get(provider);
+    if (!entry || entry.state === 'closed') return true;
+    if (entry.probeInFlight && this.options.now() - (entry.probeStartedAt || 0) < this.options.probeTimeoutMs) {
+      return false;
+    }
+    if (entry.state === 'half-open') return true;
+    return this.options.now() - (entry.openedAt || 0) >= this.options.cooldownMs;
+  }
+
+  /**
+   * Mark the start of a call. Calls on a cooled-down open circuit become the half-open probe.
+   */
+  beginAttempt(provider: LLMProvider): void {
+    const entry = this.providers.get(provider);
+    if (!entry || entry.state === 'closed') return;
+    if (this.isCallable(provider)) {
+      entry.state = 'half-open';
+      entry.probeInFlight = true;
+      entry.probeStartedAt = this.options.now();
+    }
+  }
+
+  /**
+   * Attempt ended without an outcome (cancelled by the user); a probe may be sent again
+   */
+  cancelAttempt(provider: LLMProvider): void {
+    const entry = this.providers.get(provider);
+    if (entry) entry.probeInFlight = false;
+  }
+
+  recordSuccess(provider: LLMProvider, latencyMs: number): void {
+    const entry = this.getEntry(provider);
+    this.addSample(entry, true, latencyMs);
+    entry.consecutiveFailures = 0;
+    entry.probeInFlight = false;
+    entry.state = 'closed';
+    entry.openedAt = undefined;
+  }
+
+  recordFailure(provider: LLMProvider, latencyMs: number, error?: Error): void {
+    const entry = this.getEntry(provider);
+    const now = this.options.now();
+    this.addSample(entry, false, latencyMs);
+    entry.consecutiveFailures++;
+    entry.lastError = error?.message;
+    entry.lastErrorAt = now;
+
+    // A failed probe re-opens immediately, otherwise open after repeated failures
+    if (entry.state === 'half-open' || entry.consecutiveFailures >= this.options.failureThreshold) {
+      entry.state = 'open';
+      entry.openedAt = now;
+    }
+    entry.probeInFlight = false;
+  }
+
+  getHealth(provider: LLMProvider): ProviderHealth {
+    const entry = this.providers.get(provider);
+    if (!entry) {
+      return { state: 'closed', successes: 0, failures: 0, errorRate: 0, consecutiveFailures: 0 };
+    }
+
+    this.prune(entry);
+    const successes = entry.samples.filter((sample) => sample.ok).length;
+    const failures = entry.samples.length - successes;
+    const totalLatency = entry.samples.reduce((sum, sample) => sum + sample.latencyMs, 0);
+
+    return {
+      state: entry.state,
+      successes,
+      failures,
+      errorRate: entry.samples.length > 0 ? failures / entry.samples.length : 0,
+      avgLatencyMs: entry.samples.length > 0 ? Math.round(totalLatency / entry.samples.length) : undefined,
+      consecutiveFailures: entry.consecutiveFailures,
+      lastError: entry.lastError,
+      lastErrorAt: entry.lastErrorAt,
+      retryAt: entry.state === 'open' && entry.openedAt !== undefined
+        ? entry.openedAt + this.options.cooldownMs
+        : undefined,
+    };
+  }
+
+  private getEntry(provider: LLMProvider): ProviderState {
+    let entry = this.providers.get(provider);
+    if (!entry) {
+      entry = { samples: [], state: 'closed', consecutiveFailures: 0, probeInFlight: false };
+      this.providers.set(provider, entry);
+    }
+    return entry;
+  }
+
+  private addSample(entry: ProviderState, ok: boolean, latencyMs: number): void {
+    entry.samples.push({ at: this.options.now(), ok, latencyMs });
+    this.prune(entry);
+  }
+
+  private prune(entry: ProviderState): void {
+    const cutoff = this.options.now() - this.options.windowMs;
+    entry.samples = entry.samples.filter((sample) => sample.at >= cutoff).slice(-this.options.maxSamples);
+  }
+}
@@ -1,2 +1,67 @@
-export { LLMRouter } from './router';
-export type { LLMProvider, LLMProviderStatus, LLMMessageResult } from './types';
+export { LLMRouter, toOpenAICompatibleProvider } from './router';
+export { ProviderHealthTracker } from './health';
+export type { ProviderHealth, ProviderHealthOptions, CircuitState } from './health';
+export { DatabaseLLMPreferenceStore, createLLMPreferenceStore } from './preferences';
+export { LLMUsageTracker, createLLMUsageTracker, toUsageDay, DEFAULT_MODEL_PRICES } from './usage';
+export type { ModelPrice, UsagePeriod } from './usage';
+export { LLMQuotaManager, createLLMQuotaManager, QUOTA_KINDS, DEFAULT_QUOTA_SCOPE } from './quotas';
+export type { QuotaKind, QuotaAction, QuotaRule, QuotaDecision, QuotaUsage } from './quotas';
+export { LLMPersonaManager, createLLMPersonaManager, BUILTIN_PERSONAS, MAX_PERSONA_PROMPT_LENGTH } from './personas';
+export type { Persona } from './personas';
+export { LLMToolRegistry, createLLMToolRegistry, ToolCallAccumulator, runToolLoop, DEFAULT_MAX_TOOL_ROUNDS } from './tools';
+export type {
+  LLMTool,
+  LLMToolContext,
+  LLMToolSession,
+  ChatTool,
+  ChatToolCall,
+  ChatToolCallDelta,
+  ToolLoopMessage,
+  ToolLoopResponse,
+} from './tools';
+export {
+  LLMQuotaExceededError,
+  LLMPersonaError,
+  LLMToolRejectedError,
+  LLMCancelledError,
+  LLMQueueFullError,
+  LLMNoVisionProviderError,
+  LLMTranscriptError,
+  LLMReplayFixtureError,
+} from './types';
+export { isVisionModel, withImages } from './vision';
+export type { LLMImage, ChatImageMessage, ChatContentPart } from './vision';
+export { LLMReplayProvider, createLLMReplayProvider, fixtureKey, REPLAY_FIXTURE_VERSION } from './replay';
+export type { ReplayMode, ReplayOptions, ReplayEvent, ReplayFixture, ReplayRecording } from './replay';
+export { LLMRequestQueue, createLLMRequestQueue } from './queue';
+export type { RequestQueueOptions, QueueTicket, QueuedRun } from './queue';
+export {
+  DatabaseTranscriptStore,
+  createLLMTranscriptStore,
+  buildTranscriptTurns,
+  recordsToTranscriptTurns,
+} from './transcripts';
+export type { TranscriptStoreOptions } from './transcripts';
+export { ConversationCache, DatabaseConversationStore, createConversationStore } from './conversations';
+export type { CachedConversation, ConversationCacheOptions } from './conversations';
+export { ContextManager, createContextManager, estimateTokens, withSummary } from './context';
+export type { ContextBudgetOptions, ContextUsage, ContextMessage } from './context';
+export type {
+  LLMProvider,
+  OpenAICompatibleProvider,
+  LLMProviderStatus,
+  LLMMessageResult,
+  LLMCompareAnswer,
+  LLMPreferenceStore,
+  LLMRequestContext,
+  LLMUsageEntry,
+  LLMUsageRecorder,
+  LLMConversationStore,
+  StoredConversation,
+  LLMHistoryMessage,
+  LLMTranscript,
+  LLMTranscriptStore,
+  LLMTranscriptToolCall,
+  LLMTranscriptTurn,
+  LLMTurnRecord,
+} from './types';
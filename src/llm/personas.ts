@@ -0,0 +1,148 @@
+/**
+ * LLM Personas
+ * Benoemde systeemprompts in SQLite, per chat te kiezen en te delen tussen chats
+ */
+
+import { getDatabase, type DatabaseClient, type LLMPersonaRecord } from '../database';
+import { LLMPersonaError } from './types';
+
+export interface Persona {
+  name: string;
+  prompt: string;
+  /** Shipped with the bot; cannot be edited or deleted */
+  builtIn: boolean;
+  /** Chat that created the persona; only that chat may edit or delete it */
+  createdBy?: string;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/** Longest accepted system prompt, in characters */
+export const MAX_PERSONA_PROMPT_LENGTH = 4000;
+
+export const BUILTIN_PERSONAS: Persona[] = [
+  {
+    name: 'reviewer',
+    builtIn: true,
+    prompt: `You are a strict senior code reviewer in Telegram.
+- Point out bugs, security issues, race conditions and missing error handling first, then style.
+- Be direct; do not praise code that has problems.
+- Quote the offending lines and suggest a concrete fix for each finding.
+- Default to Dutch if the user writes Dutch, otherwise mirror the user language.`,
+  },
+  {
+    name: 'tutor',
+    builtIn: true,
+    prompt: `You are a patient Dutch language tutor in Telegram.
+- Answer in simple Dutch, with an English translation of difficult words in brackets.
+- Correct mistakes in the user's Dutch: show the corrected sentence and briefly explain the rule.
+- End with a short follow-up question or exercise to keep the user practising.`,
+  },
+  {
+    name: 'concise',
+    builtIn: true,
+    prompt: `You are a helpful AI assistant in Telegram.
+- Answer in as few words as possible: one to three sentences or a short list.
+- No introductions, disclaimers or summaries of the question.
+- Default to Dutch if the user writes Dutch, otherwise mirror the user language.`,
+  },
+];
+
+function toPersona(row: LLMPersonaRecord): Persona {
+  return { name: row.name, prompt: row.prompt, builtIn: false, createdBy: row.created_by };
+}
+
+export class LLMPersonaManager {
+  private builtIns = new Map(BUILTIN_PERSONAS.map((persona) => [persona.name, persona]));
+
+  constructor(private db: DatabaseClient = getDatabase()) {}
+
+  /** Built-in personas first, then the stored ones by name */
+  list(): Persona[] {
+    return [...this.builtIns.values(), ...this.db.getLLMPersonas().map(toPersona)];
+  }
+
+  get(name: string): Persona | undefined {
+    const key = name.trim().toLowerCase();
+    const builtIn = this.builtIns.get(key);
+    if (builtIn) return builtIn;
+
+    const row = this.db.getLLMPersona(key);
+    return row ? toPersona(row) : undefined;
+  }
+
+  /**
+   * Create a persona, or update the prompt of one this chat created
+   * @returns true when the persona is new
+   */
+  save(name: string, prompt: string, chatId: string): boolean {
+    const key = name.trim().toLowerCase();
+    if (!NAME_PATTERN.test(key)) {
+      throw new LLMPersonaError('Naam mag alleen kleine letters, cijfers, - en _ bevatten (max 32 tekens).');
+    }
+    const text = prompt.trim();
+    if (!text) {
+      throw new LLMPersonaError('Geef een systeemprompt op.');
+    }
+    if (text.length > MAX_PERSONA_PROMPT_LENGTH) {
+      throw new LLMPersonaError(`Systeemprompt is te lang (max ${MAX_PERSONA_PROMPT_LENGTH} tekens).`);
+    }
+
+    const existing = this.get(key);
+    if (existing) {
+      this.assertEditable(existing, chatId);
+    }
+    this.db.saveLLMPersona(key, text, chatId);
+    return !existing;
+  }
+
+  /**
+   * Delete a persona this chat created; chats that selected it go back to the default prompt
+   */
+  remove(name: string, chatId: string): void {
+    const persona = this.require(name);
+    this.assertEditable(persona, chatId);
+    this.db.deleteLLMPersona(persona.name);
+  }
+
+  select(chatId: string, name: string): Persona {
+    const persona = this.require(name);
+    this.db.setLLMChatPersona(chatId, persona.name);
+    return persona;
+  }
+
+  clear(chatId: string): void {
+    this.db.deleteLLMChatPersona(chatId);
+  }
+
+  /** Selected persona of a chat; undefined when none is selected or it no longer exists */
+  getActive(chatId: string): Persona | undefined {
+    const name = this.db.getLLMChatPersona(chatId);
+    return name ? this.get(name) : undefined;
+  }
+
+  getSystemPrompt(chatId: string): string | undefined {
+    return this.getActive(chatId)?.prompt;
+  }
+
+  private require(name: string): Persona {
+    const persona = this.get(name);
+    if (!persona) {
+      throw new LLMPersonaError(`Persona "${name}" bestaat niet.`);
+    }
+    return persona;
+  }
+
+  private assertEditable(persona: Persona, chatId: string): void {
+    if (persona.builtIn) {
+      throw new LLMPersonaError(`"${persona.name}" is ingebouwd en kan niet worden gewijzigd; maak een eigen persona met een andere naam.`);
+    }
+    if (persona.createdBy !== chatId) {
+      throw new LLMPersonaError(`"${persona.name}" is door een andere chat gemaakt en kan hier alleen worden gebruikt.`);
+    }
+  }
+}
+
+export function createLLMPersonaManager(db?: DatabaseClient): LLMPersonaManager {
+  return new LLMPersonaManager(db);
+}
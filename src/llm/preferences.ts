@@ -0,0 +1,46 @@
+/**
+ * LLM Preference Storage
+ * Bewaart provider- en modelkeuzes per chat in SQLite
+ */
+
+import { getDatabase, type DatabaseClient } from '../database';
+import type { LLMPreferenceStore } from './types';
+
+export class DatabaseLLMPreferenceStore implements LLMPreferenceStore {
+  constructor(private db: DatabaseClient = getDatabase()) {}
+
+  getProviderOverrides(): Array<{ chatId: string; provider: string }> {
+    return this.db.getLLMProviderOverrides().map((row) => ({
+      chatId: row.chat_id,
+      provider: row.provider,
+    }));
+  }
+
+  getModelOverrides(): Array<{ chatId: string; provider: string; model: string }> {
+    return this.db.getLLMModelOverrides().map((row) => ({
+      chatId: row.chat_id,
+      provider: row.provider,
+      model: row.model,
+    }));
+  }
+
+  setProviderOverride(chatId: string, provider: string): void {
+    this.db.setLLMProviderOverride(chatId, provider);
+  }
+
+  clearProviderOverride(chatId: string): void {
+    this.db.deleteLLMProviderOverride(chatId);
+  }
+
+  setModelOverride(chatId: string, provider: string, model: string): void {
+    this.db.setLLMModelOverride(chatId, provider, model);
+  }
+
+  clearModelOverrides(chatId: string, provider?: string): void {
+    this.db.deleteLLMModelOverrides(chatId, provider);
+  }
+}
+
+export function createLLMPreferenceStore(db?: DatabaseClient): LLMPreferenceStore {
+  return new DatabaseLLMPreferenceStore(db);
+}
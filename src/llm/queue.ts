@@ -0,0 +1,191 @@
+/**
+ * Request Queue
+ * FIFO-wachtrij per chat voor de LLMRouter, zodat berichten na elkaar verwerkt worden
+ */
+
+import { createLogger } from '../utils/logger';
+import { LLMQueueFullError } from './types';
+
+const logger = createLogger({ prefix: 'LLMQueue' });
+
+export interface RequestQueueOptions {
+  /** Messages that may wait per chat behind the running one (default: 5) */
+  maxDepth?: number;
+  /** Merge messages sent within this window into one prompt, 0 disables (default: 0) */
+  mergeWindowMs?: number;
+}
+
+export interface QueueTicket {
+  /** 1 = next to run, 2 = first in line behind the running message, ... */
+  position: number;
+  /** Appended to a message that was still waiting */
+  merged: boolean;
+  /** Resolves true when the prompt starts, false when it was dropped (/cancel) */
+  started: Promise<boolean>;
+  /** Resolves once the prompt ran or was dropped */
+  done: Promise<void>;
+}
+
+/** Runs the (merged) prompt; errors should be handled by the caller */
+export type QueuedRun = (prompt: string) => Promise<void>;
+
+interface QueuedJob {
+  texts: string[];
+  run: QueuedRun;
+  mergeKey?: string;
+  /** Last time a message was added, the merge window starts here */
+  updatedAt: number;
+  onStart: Array<(started: boolean) => void>;
+  onDone: Array<() => void>;
+}
+
+interface ChatQueue {
+  running: boolean;
+  /** Waiting jobs, the running one is no longer in here */
+  jobs: QueuedJob[];
+  timer?: NodeJS.Timeout;
+  /** Waiting for the chat to have nothing running or queued */
+  onIdle: Array<() => void>;
+}
+
+export class LLMRequestQueue {
+  private chats = new Map<string, ChatQueue>();
+  private maxDepth: number;
+  private mergeWindowMs: number;
+
+  constructor(options: RequestQueueOptions = {}) {
+    this.maxDepth = Math.max(0, options.maxDepth ?? 5);
+    this.mergeWindowMs = Math.max(0, options.mergeWindowMs ?? 0);
+  }
+
+  /**
+   * Queue a prompt for a chat
+   * @param mergeKey Only a waiting message with the same key (e.g. the sender) takes this one in;
+   *   leave it out for a message that must run with its own closure, such as one with a photo
+   * @throws LLMQueueFullError when maxDepth messages are already waiting
+   */
+  enqueue(chatId: string, text: string, run: QueuedRun, mergeKey?: string): QueueTicket {
+    const queue = this.chats.get(chatId) || { running: false, jobs: [], onIdle: [] };
+    this.chats.set(chatId, queue);
+    const now = Date.now();
+
+    const tail = queue.jobs[queue.jobs.length - 1];
+    const merge = this.mergeWindowMs > 0
+      && mergeKey !== undefined
+      && tail !== undefined
+      && tail.mergeKey === mergeKey
+      && now - tail.updatedAt <= this.mergeWindowMs;
+    // Until it starts, the first batch takes the place of the running message
+    const waiting = queue.running ? queue.jobs.length : queue.jobs.length - 1;
+    if (!merge && waiting >= this.maxDepth) {
+      throw new LLMQueueFullError(this.maxDepth);
+    }
+
+    const job = merge ? tail : { texts: [], run, mergeKey, updatedAt: now, onStart: [], onDone: [] };
+    job.texts.push(text);
+    job.updatedAt = now;
+    if (!merge) {
+      queue.jobs.push(job);
+    }
+
+    const started = new Promise<boolean>((resolve) => job.onStart.push(resolve));
+    const done = new Promise<void>((resolve) => job.onDone.push(resolve));
+    const position = queue.jobs.indexOf(job) + (queue.running ? 2 : 1);
+
+    if (merge && !queue.running) {
+      // Restart the merge window of the first job
+      clearTimeout(queue.timer);
+      queue.timer = undefined;
+    }
+    this.schedule(chatId, queue);
+
+    return { position, merged: merge, started, done };
+  }
+
+  /**
+   * Drop the waiting messages of a chat; the running one is not affected
+   * @returns number of dropped messages
+   */
+  clear(chatId: string): number {
+    const queue = this.chats.get(chatId);
+    if (!queue) {
+      return 0;
+    }
+
+    clearTimeout(queue.timer);
+    queue.timer = undefined;
+    const dropped = queue.jobs.splice(0);
+    for (const job of dropped) {
+      job.onStart.forEach((resolve) => resolve(false));
+      job.onDone.forEach((resolve) => resolve());
+    }
+    if (!queue.running) {
+      this.release(chatId, queue);
+    }
+    return dropped.reduce((count, job) => count + job.texts.length, 0);
+  }
+
+  /**
+   * Messages waiting in a chat, not counting the running one
+   */
+  getWaiting(chatId: string): number {
+    return this.chats.get(chatId)?.jobs.reduce((count, job) => count + job.texts.length, 0) ?? 0;
+  }
+
+  /**
+   * Resolves once the chat has nothing running or waiting
+   */
+  whenIdle(chatId: string): Promise<void> {
+    const queue = this.chats.get(chatId);
+    if (!queue) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => queue.onIdle.push(resolve));
+  }
+
+  private release(chatId: string, queue: ChatQueue): void {
+    this.chats.delete(chatId);
+    queue.onIdle.splice(0).forEach((resolve) => resolve());
+  }
+
+  private schedule(chatId: string, queue: ChatQueue): void {
+    if (queue.running || queue.timer) {
+      return;
+    }
+    const next = queue.jobs[0];
+    if (!next) {
+      this.release(chatId, queue);
+      return;
+    }
+
+    const delay = next.updatedAt + this.mergeWindowMs - Date.now();
+    if (delay > 0) {
+      queue.timer = setTimeout(() => {
+        queue.timer = undefined;
+        this.schedule(chatId, queue);
+      }, delay);
+      return;
+    }
+
+    queue.running = true;
+    queue.jobs.shift();
+    next.onStart.forEach((resolve) => resolve(true));
+
+    next.run(next.texts.join('\n\n'))
+      .catch((error) => {
+        logger.error('Queued request failed', { error, chatId });
+      })
+      .finally(() => {
+        queue.running = false;
+        next.onDone.forEach((resolve) => resolve());
+        this.schedule(chatId, queue);
+      });
+  }
+}
+
+/**
+ * Create a request queue
+ */
+export function createLLMRequestQueue(options: RequestQueueOptions = {}): LLMRequestQueue {
+  return new LLMRequestQueue(options);
+}
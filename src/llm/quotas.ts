@@ -0,0 +1,223 @@
+/**
+ * LLM Spending Quotas
+ * Limieten per gebruiker (tokens/dag), per chat (verzoeken/uur) en per provider (kosten/maand)
+ */
+
+import { getDatabase, type DatabaseClient, type LLMQuotaRecord } from '../database';
+import type { LLMProvider } from './types';
+import { toUsageDay } from './usage';
+
+export type QuotaKind = 'user-tokens-day' | 'chat-requests-hour' | 'provider-cost-month';
+
+export type QuotaAction = 'block' | 'downgrade';
+
+export const QUOTA_KINDS: QuotaKind[] = ['user-tokens-day', 'chat-requests-hour', 'provider-cost-month'];
+
+/** Scope that applies to every user, chat or provider without its own rule */
+export const DEFAULT_QUOTA_SCOPE = '*';
+
+export interface QuotaRule {
+  kind: QuotaKind;
+  /** User id, chat id or provider id; '*' for the default */
+  scope: string;
+  limit: number;
+  action: QuotaAction;
+  /** Provider to switch to when action is 'downgrade' (default: same provider) */
+  downgradeProvider?: LLMProvider;
+  /** Cheaper model to use when action is 'downgrade' */
+  downgradeModel?: string;
+}
+
+export interface QuotaRequest {
+  chatId: string;
+  userId?: string;
+  provider: LLMProvider;
+}
+
+export type QuotaDecision =
+  | { type: 'allow' }
+  | { type: 'block'; rule: QuotaRule; reason: string }
+  | { type: 'downgrade'; rule: QuotaRule; reason: string; provider: LLMProvider; model?: string };
+
+export interface QuotaUsage {
+  rule: QuotaRule;
+  /** Current usage for the rule scope; undefined for '*' rules */
+  used?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class LLMQuotaManager {
+  constructor(
+    private db: DatabaseClient = getDatabase(),
+    private now: () => number = Date.now
+  ) {}
+
+  getRules(): QuotaRule[] {
+    return this.db.getLLMQuotas().map(toRule);
+  }
+
+  setRule(rule: QuotaRule): void {
+    this.db.setLLMQuota({
+      kind: rule.kind,
+      scope: rule.scope,
+      limit_value: rule.limit,
+      action: rule.action,
+      downgrade_provider: rule.action === 'downgrade' ? rule.downgradeProvider || null : null,
+      downgrade_model: rule.action === 'downgrade' ? rule.downgradeModel || null : null,
+    });
+  }
+
+  removeRule(kind: QuotaKind, scope: string = DEFAULT_QUOTA_SCOPE): boolean {
+    return this.db.deleteLLMQuota(kind, scope);
+  }
+
+  /**
+   * Decide whether a request may run, must be refused or must use a cheaper provider/model.
+   * Chat and user limits are checked first, then the monthly cap of the (downgraded) provider.
+   */
+  check(request: QuotaRequest): QuotaDecision {
+    const rules = this.getRules();
+
+    const chatRule = findRule(rules, 'chat-requests-hour', request.chatId);
+    if (chatRule && this.getChatRequests(request.chatId) >= chatRule.limit) {
+      return this.withProviderCap(rules, this.decide(
+        chatRule,
+        request.provider,
+        `Deze chat heeft de limiet van ${chatRule.limit} verzoeken per uur bereikt.`
+      ));
+    }
+
+    const userRule = request.userId ? findRule(rules, 'user-tokens-day', request.userId) : undefined;
+    if (userRule && request.userId) {
+      const used = this.getUserTokens(request.userId);
+      if (used >= userRule.limit) {
+        return this.withProviderCap(rules, this.decide(
+          userRule,
+          request.provider,
+          `Je daglimiet van ${formatNumber(userRule.limit)} tokens is bereikt (${formatNumber(used)} gebruikt).`
+        ));
+      }
+    }
+
+    return this.withProviderCap(rules, { type: 'allow' }, request.provider);
+  }
+
+  /**
+   * Whether the monthly cost cap of a provider is reached (used to skip it as fallback)
+   */
+  isProviderCapped(provider: LLMProvider): boolean {
+    const rule = findRule(this.getRules(), 'provider-cost-month', provider);
+    return !!rule && this.getProviderCost(provider) >= rule.limit;
+  }
+
+  /**
+   * Count an answered request for the hourly chat limit (kept in the database, so it survives a restart)
+   */
+  recordRequest(chatId: string): void {
+    const now = this.now();
+    this.db.addLLMChatRequest(chatId, now);
+    this.db.deleteLLMChatRequestsBefore(chatId, now - HOUR_MS);
+  }
+
+  /** Answered requests of a chat in the last hour */
+  getChatRequests(chatId: string): number {
+    return this.db.countLLMChatRequests(chatId, this.now() - HOUR_MS);
+  }
+
+  /** Tokens used by a user today (UTC) */
+  getUserTokens(userId: string): number {
+    return this.db.getLLMUserTokens(userId, toUsageDay(new Date(this.now())));
+  }
+
+  /** Cost of a provider in the current calendar month (UTC) */
+  getProviderCost(provider: LLMProvider): number {
+    return this.db.getLLMProviderCost(provider, `${toUsageDay(new Date(this.now())).slice(0, 7)}-01`);
+  }
+
+  /**
+   * All rules with the current usage of their scope
+   */
+  getUsage(): QuotaUsage[] {
+    return this.getRules().map((rule) => {
+      if (rule.scope === DEFAULT_QUOTA_SCOPE) return { rule };
+      switch (rule.kind) {
+        case 'chat-requests-hour':
+          return { rule, used: this.getChatRequests(rule.scope) };
+        case 'user-tokens-day':
+          return { rule, used: this.getUserTokens(rule.scope) };
+        case 'provider-cost-month':
+          return { rule, used: this.getProviderCost(rule.scope as LLMProvider) };
+      }
+    });
+  }
+
+  private decide(rule: QuotaRule, provider: LLMProvider, reason: string): QuotaDecision {
+    if (rule.action === 'downgrade') {
+      return {
+        type: 'downgrade',
+        rule,
+        reason,
+        provider: rule.downgradeProvider || provider,
+        model: rule.downgradeModel,
+      };
+    }
+    return { type: 'block', rule, reason };
+  }
+
+  /**
+   * Apply the monthly cap of the provider the decision ends up using.
+   * A capped downgrade target is never downgraded again, it is refused.
+   */
+  private withProviderCap(rules: QuotaRule[], decision: QuotaDecision, provider?: LLMProvider): QuotaDecision {
+    if (decision.type === 'block') return decision;
+
+    const target = decision.type === 'downgrade' ? decision.provider : provider;
+    if (!target) return decision;
+
+    const capRule = findRule(rules, 'provider-cost-month', target);
+    if (!capRule) return decision;
+
+    const cost = this.getProviderCost(target);
+    if (cost < capRule.limit) return decision;
+
+    const reason = `Het maandbudget van $${capRule.limit.toFixed(2)} voor ${target} is op ($${cost.toFixed(2)} gebruikt).`;
+    if (decision.type === 'downgrade') {
+      return { type: 'block', rule: capRule, reason: `${decision.reason} ${reason}` };
+    }
+
+    const capped = this.decide(capRule, target, reason);
+    if (capped.type === 'downgrade' && capped.provider === target && !capped.model) {
+      // Downgrade without a target would hit the same cap
+      return { type: 'block', rule: capRule, reason };
+    }
+    return capped.type === 'downgrade' ? this.withProviderCap(rules, capped) : capped;
+  }
+}
+
+/**
+ * Rule for a scope, falling back to the '*' default
+ */
+function findRule(rules: QuotaRule[], kind: QuotaKind, scope: string): QuotaRule | undefined {
+  return rules.find((rule) => rule.kind === kind && rule.scope === scope)
+    || rules.find((rule) => rule.kind === kind && rule.scope === DEFAULT_QUOTA_SCOPE);
+}
+
+function toRule(record: LLMQuotaRecord): QuotaRule {
+  return {
+    kind: record.kind as QuotaKind,
+    scope: record.scope,
+    limit: record.limit_value,
+    action: record.action === 'downgrade' ? 'downgrade' : 'block',
+    downgradeProvider: (record.downgrade_provider || undefined) as LLMProvider | undefined,
+    downgradeModel: record.downgrade_model || undefined,
+  };
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('nl-NL');
+}
+
+export function createLLMQuotaManager(options: { db?: DatabaseClient; now?: () => number } = {}): LLMQuotaManager {
+  return new LLMQuotaManager(options.db, options.now);
+}
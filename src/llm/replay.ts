@@ -0,0 +1,354 @@
+/**
+ * Record/Replay
+ * Echte provider-antwoorden opnemen als fixtures en ze offline (zonder API-keys) met dezelfde timing afspelen
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createClaudeStreamParser } from '../claude-code/stream-parser';
+import type {
+  ClaudeCodeStreamCallbacks,
+  StreamingResult,
+  StreamingUsage,
+  StreamStatus,
+  ToolUseEvent,
+} from '../streaming/types';
+import type { LLMProvider } from './types';
+import { LLMCancelledError, LLMReplayFixtureError, LLMToolRejectedError } from './types';
+import type { LLMImage } from './vision';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ prefix: 'LLMReplay' });
+
+export const REPLAY_FIXTURE_VERSION = 1;
+
+export type ReplayMode = 'record' | 'replay';
+
+export interface ReplayOptions {
+  mode: ReplayMode;
+  /** Directory with the fixture files */
+  dir: string;
+  /** Playback speed: 1 = as recorded, 2 = twice as fast, 0 = no delays */
+  speed?: number;
+}
+
+/** One callback as it happened, `at` in ms since the request started */
+export type ReplayEvent =
+  | { at: number; type: 'status'; status: StreamStatus }
+  | { at: number; type: 'content'; chunk: string }
+  | { at: number; type: 'tool_use'; id: string; name: string; input: Record<string, unknown>; requiresConfirmation?: boolean }
+  | { at: number; type: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+  /** Raw stdout line of the Claude CLI (stream-json) */
+  | { at: number; type: 'cli_line'; line: string };
+
+/** Fixture file contents */
+export interface ReplayFixture {
+  version: number;
+  provider: LLMProvider;
+  model?: string;
+  prompt: string;
+  recordedAt: string;
+  events: ReplayEvent[];
+  result?: {
+    text: string;
+    durationMs: number;
+    exitCode: number;
+    usage?: StreamingUsage;
+  };
+  /** The provider failed; replay throws this message */
+  error?: { name: string; message: string };
+}
+
+/** Request that is being recorded */
+export interface ReplayRecording {
+  /** Pass these to the provider instead of the original callbacks */
+  callbacks: ClaudeCodeStreamCallbacks;
+  finish(result: StreamingResult): void;
+  fail(error: unknown): void;
+}
+
+/**
+ * Records provider exchanges to fixture files, or serves them back in replay mode
+ */
+export class LLMReplayProvider {
+  readonly mode: ReplayMode;
+  private dir: string;
+  private speed: number;
+  /** Requests per fixture key, so a repeated prompt gets the next recording */
+  private counters = new Map<string, number>();
+
+  constructor(options: ReplayOptions) {
+    this.mode = options.mode;
+    this.dir = options.dir;
+    this.speed = options.speed ?? 1;
+  }
+
+  /**
+   * Replay mode: whether anything was recorded for the provider
+   */
+  isAvailable(provider: LLMProvider): boolean {
+    const prefix = `${fileSafe(provider)}-`;
+    try {
+      return fs.readdirSync(this.dir).some((name) => name.startsWith(prefix) && name.endsWith('.json'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Wrap the callbacks of a request; finish() or fail() writes the fixture
+   */
+  startRecording(
+    provider: LLMProvider,
+    model: string | undefined,
+    prompt: string,
+    callbacks: ClaudeCodeStreamCallbacks,
+    images?: LLMImage[]
+  ): ReplayRecording {
+    const file = this.nextFile(provider, prompt, images);
+    const startTime = Date.now();
+    const events: ReplayEvent[] = [];
+    // Time spent waiting for a tool confirmation is not part of the provider's timing
+    let pausedMs = 0;
+    const now = () => Date.now() - startTime - pausedMs;
+    // The raw CLI lines are enough to rebuild its content and tool events
+    const isCli = provider === 'claude-cli';
+
+    const save = (fixture: Pick<ReplayFixture, 'result' | 'error'>) => {
+      const data: ReplayFixture = {
+        version: REPLAY_FIXTURE_VERSION,
+        provider,
+        model,
+        prompt,
+        recordedAt: new Date(startTime).toISOString(),
+        events,
+        ...fixture,
+      };
+      try {
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(path.join(this.dir, file), JSON.stringify(data, null, 2));
+        logger.debug('Recorded exchange', { provider, file });
+      } catch (error) {
+        logger.error('Failed to write replay fixture', { file, error });
+      }
+    };
+
+    return {
+      callbacks: {
+        ...callbacks,
+        onStatusChange: (status) => {
+          events.push({ at: now(), type: 'status', status });
+          callbacks.onStatusChange?.(status);
+        },
+        onContent: (chunk) => {
+          if (!isCli) events.push({ at: now(), type: 'content', chunk });
+          callbacks.onContent?.(chunk);
+        },
+        onToolUse: (tool) => {
+          if (!isCli) {
+            events.push({
+              at: now(),
+              type: 'tool_use',
+              id: tool.id,
+              name: tool.name,
+              input: tool.input,
+              requiresConfirmation: tool.requiresConfirmation,
+            });
+          }
+          const pending: unknown = callbacks.onToolUse?.(tool);
+          if (pending instanceof Promise) {
+            const waitStart = Date.now();
+            return pending.finally(() => {
+              pausedMs += Date.now() - waitStart;
+            });
+          }
+          return pending as void;
+        },
+        onToolResult: (result) => {
+          if (!isCli) {
+            events.push({
+              at: now(),
+              type: 'tool_result',
+              toolUseId: result.toolUseId,
+              content: result.content,
+              isError: result.isError ?? false,
+            });
+          }
+          return callbacks.onToolResult?.(result);
+        },
+        onRawLine: (line) => {
+          events.push({ at: now(), type: 'cli_line', line });
+          callbacks.onRawLine?.(line);
+        },
+      },
+      finish: (result) => {
+        save({
+          result: {
+            text: result.text,
+            durationMs: result.durationMs,
+            exitCode: result.exitCode,
+            usage: result.usage,
+          },
+        });
+      },
+      fail: (error) => {
+        // A rejected tool or /cancel is the user's doing, not something to replay
+        if (error instanceof LLMToolRejectedError || error instanceof LLMCancelledError) return;
+        const err = error instanceof Error ? error : new Error(String(error));
+        save({ error: { name: err.name, message: err.message } });
+      },
+    };
+  }
+
+  /**
+   * Serve a recorded exchange with its original timing (scaled by speed)
+   * @throws LLMReplayFixtureError when nothing was recorded for the prompt
+   */
+  async replay(
+    provider: LLMProvider,
+    prompt: string,
+    callbacks: ClaudeCodeStreamCallbacks,
+    signal?: AbortSignal,
+    images?: LLMImage[]
+  ): Promise<StreamingResult> {
+    const fixture = this.loadFixture(provider, prompt, images);
+    const startTime = Date.now();
+    const parser = createClaudeStreamParser(callbacks);
+    const toolHistory: ToolUseEvent[] = [];
+    let elapsed = 0;
+
+    for (const event of fixture.events) {
+      await this.wait(event.at - elapsed, signal);
+      elapsed = Math.max(elapsed, event.at);
+
+      switch (event.type) {
+        case 'status':
+          callbacks.onStatusChange?.(event.status);
+          break;
+        case 'content':
+          callbacks.onContent?.(event.chunk);
+          break;
+        case 'tool_use': {
+          const tool: ToolUseEvent = {
+            type: 'tool_use',
+            id: event.id,
+            name: event.name,
+            input: event.input,
+            timestamp: new Date(),
+            requiresConfirmation: event.requiresConfirmation,
+          };
+          try {
+            await callbacks.onToolUse?.(tool);
+          } catch (error) {
+            if (error instanceof LLMToolRejectedError) throw error;
+            logger.warn('Tool display failed', { tool: tool.name, error });
+          }
+          toolHistory.push(tool);
+          break;
+        }
+        case 'tool_result':
+          try {
+            await callbacks.onToolResult?.({
+              type: 'tool_result',
+              toolUseId: event.toolUseId,
+              content: event.content,
+              isError: event.isError,
+              timestamp: new Date(),
+            });
+          } catch (error) {
+            logger.warn('Tool result display failed', { error });
+          }
+          break;
+        case 'cli_line':
+          parser.push(event.line);
+          break;
+      }
+    }
+
+    if (fixture.error || !fixture.result) {
+      const error = new Error(fixture.error?.message || 'Recorded exchange has no result');
+      error.name = fixture.error?.name || 'Error';
+      throw error;
+    }
+
+    const result: StreamingResult = {
+      text: fixture.result.text,
+      sessionId: `replay:${provider}`,
+      isNewSession: false,
+      durationMs: Date.now() - startTime,
+      exitCode: fixture.result.exitCode,
+      toolHistory: [...toolHistory, ...parser.toolHistory],
+      usage: fixture.result.usage,
+    };
+    callbacks.onComplete?.(result);
+    return result;
+  }
+
+  private loadFixture(provider: LLMProvider, prompt: string, images?: LLMImage[]): ReplayFixture {
+    const key = fixtureKey(provider, prompt, images);
+    const count = (this.counters.get(key) || 0) + 1;
+    this.counters.set(key, count);
+
+    // Asked more often than recorded: keep serving the last recording
+    for (let n = count; n >= 1; n--) {
+      const file = path.join(this.dir, `${key}-${n}.json`);
+      if (!fs.existsSync(file)) continue;
+
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as ReplayFixture;
+      if (fixture.version !== REPLAY_FIXTURE_VERSION) {
+        throw new LLMReplayFixtureError(`Unsupported fixture version ${fixture.version} in ${file}`);
+      }
+      return fixture;
+    }
+    throw new LLMReplayFixtureError(`No recording for ${provider} in ${this.dir} (${key}-1.json)`);
+  }
+
+  private nextFile(provider: LLMProvider, prompt: string, images?: LLMImage[]): string {
+    const key = fixtureKey(provider, prompt, images);
+    const count = (this.counters.get(key) || 0) + 1;
+    this.counters.set(key, count);
+    return `${key}-${count}.json`;
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new LLMCancelledError());
+    }
+    const delay = this.speed > 0 ? ms / this.speed : 0;
+    if (delay <= 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new LLMCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+function fileSafe(value: string): string {
+  return value.replace(/[^a-z0-9_-]+/gi, '_');
+}
+
+/**
+ * File name prefix of a request: provider plus a hash of the prompt and its images
+ */
+export function fixtureKey(provider: LLMProvider, prompt: string, images?: LLMImage[]): string {
+  const hash = createHash('sha1').update(prompt);
+  for (const image of images || []) {
+    hash.update(image.data);
+  }
+  return `${fileSafe(provider)}-${hash.digest('hex').slice(0, 12)}`;
+}
+
+export function createLLMReplayProvider(options: ReplayOptions): LLMReplayProvider {
+  return new LLMReplayProvider(options);
+}
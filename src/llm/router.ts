@@ -4,20 +4,52 @@
  */
 
 import type { ClaudeCodeService } from '../claude-code';
+import type { ClaudeService } from '../claude';
 import type { ZAIService } from '../zai';
 import type { MiniMaxService } from '../minimax';
 import type { MistralService } from '../mistral';
-import type { ClaudeCodeStreamCallbacks, StreamingResult } from '../streaming/types';
+import type { OpenAICompatibleService } from '../openai-compatible';
+import type { ClaudeCodeStreamCallbacks, StreamingResult, StreamingUsage, ToolUseEvent } from '../streaming/types';
 import { StreamStatus } from '../streaming/types';
-import type { LLMProvider, LLMProviderStatus, LLMMessageResult } from './types';
+import type {
+  LLMProvider,
+  OpenAICompatibleProvider,
+  LLMProviderStatus,
+  LLMMessageResult,
+  LLMPreferenceStore,
+  LLMRequestContext,
+  LLMUsageRecorder,
+  LLMCompareAnswer,
+  LLMHistoryMessage,
+  LLMTranscript,
+  LLMTranscriptStore,
+  LLMTranscriptTurn,
+  LLMTurnRecord,
+} from './types';
+import {
+  LLMQuotaExceededError,
+  LLMToolRejectedError,
+  LLMCancelledError,
+  LLMNoVisionProviderError,
+  LLMTranscriptError,
+} from './types';
+import type { LLMReplayProvider } from './replay';
+import { buildTranscriptTurns, recordsToTranscriptTurns } from './transcripts';
+import { isVisionModel, type LLMImage } from './vision';
+import type { LLMQuotaManager } from './quotas';
+import type { LLMPersonaManager } from './personas';
+import { DEFAULT_MAX_TOOL_ROUNDS, type ChatToolCall, type LLMToolRegistry, type LLMToolSession } from './tools';
+import type { ContextUsage } from './context';
+import { ProviderHealthTracker, type ProviderHealth, type ProviderHealthOptions } from './health';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger({ prefix: 'LLMRouter' });
 
-const PROVIDER_LABELS: Record<LLMProvider, string> = {
+const PROVIDER_LABELS: Record<string, string> = {
   'zai': 'Z.ai GLM-4.7',
   'minimax': 'MiniMax v2.1',
   'mistral': 'Mistral',
+  'anthropic': 'Anthropic Claude',
   'claude-cli': 'Claude CLI',
 };
 
@@ -29,12 +61,63 @@ const PROVIDER_ALIASES: Record<string, LLMProvider> = {
   'minimax-v2.1': 'minimax',
   'mistral': 'mistral',
   'mixtral': 'mistral',
+  'anthropic': 'anthropic',
+  'claude-api': 'anthropic',
   'claude': 'claude-cli',
   'claude-cli': 'claude-cli',
   'cli': 'claude-cli',
 };
 
-const DEFAULT_FALLBACK_ORDER: LLMProvider[] = ['zai', 'minimax', 'mistral'];
+const DEFAULT_FALLBACK_ORDER: LLMProvider[] = ['zai', 'minimax', 'mistral', 'anthropic'];
+
+const BUILTIN_PROVIDERS: LLMProvider[] = ['zai', 'minimax', 'mistral', 'anthropic', 'claude-cli'];
+
+/** Providers with OpenAI-style function calling that get the bot tools by default */
+const DEFAULT_TOOL_PROVIDERS: LLMProvider[] = ['zai', 'mistral'];
+
+/** /compare has nobody to ask, so a Claude CLI tool that needs approval is refused */
+const COMPARE_CALLBACKS: ClaudeCodeStreamCallbacks = {
+  onPermissionRequest: async (tool) => {
+    throw new LLMToolRejectedError(tool.name);
+  },
+};
+
+/** Per-call options of a single provider request */
+interface ProviderRequest {
+  model?: string;
+  systemPrompt?: string;
+  tools?: LLMToolSession;
+  /** Filled with the tool calls made during the request */
+  toolHistory?: ToolUseEvent[];
+  signal?: AbortSignal;
+  images?: LLMImage[];
+}
+
+/** Common response shape of the API services */
+interface ProviderResponse {
+  text: string;
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
+
+function toStreamingUsage(usage: ProviderResponse['usage']): StreamingUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.inputTokens ?? usage.promptTokens ?? 0,
+    outputTokens: usage.outputTokens ?? usage.completionTokens ?? 0,
+  };
+}
+
+/**
+ * Provider id for an OpenAI-compatible instance name
+ */
+export function toOpenAICompatibleProvider(name: string): OpenAICompatibleProvider {
+  return `openai:${name.trim().toLowerCase()}`;
+}
 
 export class LLMRouter {
   private providerOverrides = new Map<string, LLMProvider>();
@@ -42,6 +125,18 @@ export class LLMRouter {
   private defaultProvider: LLMProvider;
   private fallbackOrder: LLMProvider[];
   private devDefaultModels: Partial<Record<LLMProvider, string>>;
+  private store?: LLMPreferenceStore;
+  private openAICompatible = new Map<LLMProvider, OpenAICompatibleService>();
+  private aliases: Record<string, LLMProvider> = { ...PROVIDER_ALIASES };
+  private health: ProviderHealthTracker;
+  private usage?: LLMUsageRecorder;
+  private quotas?: LLMQuotaManager;
+  private personas?: LLMPersonaManager;
+  private tools?: LLMToolRegistry;
+  private toolProviders: LLMProvider[];
+  private visionModels: Partial<Record<LLMProvider, string>>;
+  private transcripts?: LLMTranscriptStore;
+  private replay?: LLMReplayProvider;
 
   constructor(
     private services: {
@@ -49,25 +144,73 @@ export class LLMRouter {
       zai?: ZAIService;
       minimax?: MiniMaxService;
       mistral?: MistralService;
+      /** Anthropic Messages API (no CLI needed) */
+      anthropic?: ClaudeService;
+      /** Named OpenAI-compatible endpoints (provider id "openai:<name>") */
+      openAICompatible?: OpenAICompatibleService[];
     },
     options: {
       defaultProvider: LLMProvider;
       fallbackOrder?: LLMProvider[];
       devModels?: Partial<Record<LLMProvider, string>>;
+      /** Extra aliases, e.g. { ollama: 'openai:local' } */
+      aliases?: Record<string, LLMProvider>;
+      /** Persist per-chat provider/model choices across restarts */
+      store?: LLMPreferenceStore;
+      /** Circuit breaker tuning */
+      health?: ProviderHealthOptions;
+      /** Token/cost accounting of every successful call */
+      usage?: LLMUsageRecorder;
+      /** Spending limits per user, chat and provider */
+      quotas?: LLMQuotaManager;
+      /** Per-chat system prompts, applied to every provider */
+      personas?: LLMPersonaManager;
+      /** Bot functions the API providers may call */
+      tools?: LLMToolRegistry;
+      /** Providers that get the tools (zai, mistral and openai:* speak the OpenAI format) */
+      toolProviders?: LLMProvider[];
+      /** Model per provider for photos, used when the chat's model is text-only */
+      visionModels?: Partial<Record<LLMProvider, string>>;
+      /** Journal of answered prompts (provider, model, tool calls) for /export */
+      transcripts?: LLMTranscriptStore;
+      /** Record provider exchanges to fixtures, or answer from them without any API */
+      replay?: LLMReplayProvider;
     }
   ) {
+    this.health = new ProviderHealthTracker(options.health);
+    this.usage = options.usage;
+    this.quotas = options.quotas;
+    this.personas = options.personas;
+    this.tools = options.tools;
+    this.toolProviders = options.toolProviders || DEFAULT_TOOL_PROVIDERS;
+    this.visionModels = options.visionModels || {};
+    this.transcripts = options.transcripts;
+    this.replay = options.replay;
+
+    for (const service of services.openAICompatible || []) {
+      const provider = toOpenAICompatibleProvider(service.getName());
+      this.openAICompatible.set(provider, service);
+      this.registerAlias(provider, provider);
+      this.registerAlias(service.getName(), provider);
+    }
+    for (const [alias, provider] of Object.entries(options.aliases || {})) {
+      this.registerAlias(alias, provider);
+    }
+
     this.defaultProvider = options.defaultProvider;
-    this.fallbackOrder = options.fallbackOrder || DEFAULT_FALLBACK_ORDER;
+    this.fallbackOrder = options.fallbackOrder || [...DEFAULT_FALLBACK_ORDER, ...this.openAICompatible.keys()];
     this.devDefaultModels = options.devModels || {};
+    this.store = options.store;
+    this.loadPreferences();
   }
 
   normalizeProvider(input: string): LLMProvider | undefined {
     const key = input.trim().toLowerCase();
-    return PROVIDER_ALIASES[key];
+    return this.aliases[key];
   }
 
   getProviderLabel(provider: LLMProvider): string {
-    return PROVIDER_LABELS[provider] || provider;
+    return this.openAICompatible.get(provider)?.getLabel() || PROVIDER_LABELS[provider] || provider;
   }
 
   getDefaultProvider(): LLMProvider {
@@ -82,10 +225,12 @@ export class LLMRouter {
         return this.services.minimax?.getModel();
       case 'mistral':
         return this.services.mistral?.getModel();
+      case 'anthropic':
+        return this.services.anthropic?.getModel();
       case 'claude-cli':
         return undefined;
       default:
-        return undefined;
+        return this.openAICompatible.get(provider)?.getModel();
     }
   }
 
@@ -94,6 +239,17 @@ export class LLMRouter {
     return override || this.getDefaultModel(provider);
   }
 
+  /**
+   * Model that answers photo prompts for this provider: the chat's model when it is multimodal,
+   * otherwise the configured vision model. Undefined for text-only providers (MiniMax, Claude CLI).
+   */
+  getVisionModel(chatId: string, provider: LLMProvider, model = this.getModel(chatId, provider)): string | undefined {
+    if (provider === 'minimax' || provider === 'claude-cli' || !this.isProviderAvailable(provider)) {
+      return undefined;
+    }
+    return isVisionModel(model) ? model : this.visionModels[provider];
+  }
+
   getModelOverride(chatId: string, provider: LLMProvider): string | undefined {
     return this.modelOverrides.get(chatId)?.[provider];
   }
@@ -118,19 +274,23 @@ export class LLMRouter {
 
   setProvider(chatId: string, provider: LLMProvider): void {
     this.providerOverrides.set(chatId, provider);
+    this.persist('set provider', (store) => store.setProviderOverride(chatId, provider));
   }
 
   clearProvider(chatId: string): void {
     this.providerOverrides.delete(chatId);
+    this.persist('clear provider', (store) => store.clearProviderOverride(chatId));
   }
 
   setModel(chatId: string, provider: LLMProvider, model: string): void {
     const existing = this.modelOverrides.get(chatId) || {};
     existing[provider] = model;
     this.modelOverrides.set(chatId, existing);
+    this.persist('set model', (store) => store.setModelOverride(chatId, provider, model));
   }
 
   clearModel(chatId: string, provider?: LLMProvider): void {
+    this.persist('clear model', (store) => store.clearModelOverrides(chatId, provider));
     if (!provider) {
       this.modelOverrides.delete(chatId);
       return;
@@ -145,17 +305,83 @@ export class LLMRouter {
     }
   }
 
+  /**
+   * Forget all provider and model choices for a chat (back to defaults)
+   */
+  resetChat(chatId: string): void {
+    this.clearProvider(chatId);
+    this.clearModel(chatId);
+  }
+
   getProviderStatus(): LLMProviderStatus[] {
-    const providers: LLMProvider[] = ['zai', 'minimax', 'mistral', 'claude-cli'];
-    return providers.map((provider) => ({
-      provider,
-      label: this.getProviderLabel(provider),
-      available: this.isProviderAvailable(provider),
-      reason: provider === 'claude-cli' ? 'Vereist lokaal geïnstalleerde Claude CLI' : undefined,
-    }));
+    const providers: LLMProvider[] = [...BUILTIN_PROVIDERS, ...this.openAICompatible.keys()];
+    return providers.map((provider) => {
+      const configured = this.isProviderAvailable(provider);
+      const health = this.health.getHealth(provider);
+      const circuitOpen = health.state === 'open' && !this.health.isCallable(provider);
+      let reason: string | undefined;
+      if (configured && circuitOpen) {
+        reason = `storing, ${health.consecutiveFailures}x mislukt`;
+      } else if (provider === 'claude-cli') {
+        reason = 'Vereist lokaal geïnstalleerde Claude CLI';
+      }
+
+      return {
+        provider,
+        label: this.getProviderLabel(provider),
+        available: configured && !circuitOpen,
+        configured,
+        health,
+        reason,
+      };
+    });
+  }
+
+  getProviderHealth(provider: LLMProvider): ProviderHealth {
+    return this.health.getHealth(provider);
+  }
+
+  getQuotaManager(): LLMQuotaManager | undefined {
+    return this.quotas;
+  }
+
+  getPersonaManager(): LLMPersonaManager | undefined {
+    return this.personas;
+  }
+
+  /**
+   * Token budget usage of the chat history with the active provider.
+   * Undefined for providers without budgeted history (claude-cli, anthropic).
+   */
+  getContextUsage(chatId: string): { provider: LLMProvider; model?: string; usage: ContextUsage } | undefined {
+    const provider = this.getProvider(chatId);
+    const model = this.getModel(chatId, provider);
+    // The persona replaces the service's system prompt, so it counts towards the budget
+    const systemPrompt = this.getSystemPrompt(chatId);
+    let usage: ContextUsage | undefined;
+    switch (provider) {
+      case 'zai':
+        usage = this.services.zai?.getContextUsage(chatId, model, systemPrompt);
+        break;
+      case 'minimax':
+        usage = this.services.minimax?.getContextUsage(chatId, model, systemPrompt);
+        break;
+      case 'mistral':
+        usage = this.services.mistral?.getContextUsage(chatId, model, systemPrompt);
+        break;
+      case 'anthropic':
+      case 'claude-cli':
+        break;
+      default:
+        usage = this.openAICompatible.get(provider)?.getContextUsage(chatId, model, systemPrompt);
+    }
+    return usage ? { provider, model, usage } : undefined;
   }
 
   isProviderAvailable(provider: LLMProvider): boolean {
+    if (this.replay?.mode === 'replay') {
+      return this.replay.isAvailable(provider);
+    }
     switch (provider) {
       case 'zai':
         return !!this.services.zai;
@@ -163,10 +389,12 @@ export class LLMRouter {
         return !!this.services.minimax;
       case 'mistral':
         return !!this.services.mistral;
+      case 'anthropic':
+        return !!this.services.anthropic;
       case 'claude-cli':
         return !!this.services.claude;
       default:
-        return false;
+        return this.openAICompatible.has(provider);
     }
   }
 
@@ -176,17 +404,82 @@ export class LLMRouter {
   async processMessageStream(
     chatId: string,
     message: string,
-    callbacks: ClaudeCodeStreamCallbacks
+    callbacks: ClaudeCodeStreamCallbacks,
+    context: LLMRequestContext = {}
   ): Promise<StreamingResult> {
-    const provider = this.getProvider(chatId);
-    const sequence = this.getFallbackSequence(provider);
+    if (context.signal?.aborted) {
+      throw new LLMCancelledError();
+    }
+    const { provider, model } = this.applyQuota(chatId, this.getProvider(chatId), context);
+    const images = context.images?.length ? context.images : undefined;
+    const modelFor = (candidate: LLMProvider): string | undefined => {
+      const candidateModel = candidate === provider && model ? model : this.getModel(chatId, candidate);
+      return images ? this.getVisionModel(chatId, candidate, candidateModel) : candidateModel;
+    };
+    // Photos skip the text-only providers in the fallback chain
+    const sequence = this.getFallbackSequence(provider).filter((candidate) => !images || modelFor(candidate));
+    if (images && sequence.length === 0) {
+      throw new LLMNoVisionProviderError();
+    }
+    const systemPrompt = this.getSystemPrompt(chatId);
     let lastError: Error | undefined;
 
     for (const candidate of sequence) {
+      const candidateModel = modelFor(candidate);
+      // Track streamed output so a mid-stream failure doesn't get a second answer appended
+      let streamed = false;
+      const toolHistory: ToolUseEvent[] = [];
+      const trackedCallbacks: ClaudeCodeStreamCallbacks = {
+        ...callbacks,
+        onContent: (chunk: string) => {
+          streamed = true;
+          callbacks.onContent?.(chunk);
+        },
+        onComplete: (result: StreamingResult) => {
+          callbacks.onComplete?.({ ...result, provider: candidate });
+        },
+      };
+
+      const recording = this.replay?.mode === 'record'
+        ? this.replay.startRecording(candidate, candidateModel, message, trackedCallbacks, images)
+        : undefined;
+      const providerCallbacks = recording?.callbacks || trackedCallbacks;
+
       try {
-        return await this.processWithProvider(candidate, chatId, message, callbacks);
+        const result = await this.track(
+          candidate,
+          () => this.replay?.mode === 'replay'
+            ? this.replay.replay(candidate, message, trackedCallbacks, context.signal, images)
+            : this.processWithProvider(candidate, chatId, message, providerCallbacks, {
+              model: candidateModel,
+              systemPrompt,
+              tools: this.createToolSession(candidate, chatId, providerCallbacks, context, toolHistory),
+              toolHistory,
+              signal: context.signal,
+              images,
+            }),
+          context.signal
+        );
+        recording?.finish(result);
+        this.recordUsage(candidate, chatId, context, candidateModel, result.usage);
+        this.recordTurn(candidate, chatId, candidateModel, message, result);
+        return { ...result, provider: candidate };
       } catch (error) {
+        recording?.fail(error);
+        if (error instanceof LLMToolRejectedError || error instanceof LLMCancelledError) {
+          // The user stopped the request; another provider would just ask again
+          throw error;
+        }
         lastError = error instanceof Error ? error : new Error(String(error));
+        if (streamed || toolHistory.length > 0) {
+          // Another provider would repeat the answer or run the tools a second time
+          logger.warn('Provider failed mid-answer, not falling back', {
+            provider: candidate,
+            tools: toolHistory.length,
+            error: lastError.message,
+          });
+          break;
+        }
         logger.warn('Provider failed, trying fallback', { provider: candidate, error: lastError.message });
       }
     }
@@ -198,33 +491,197 @@ export class LLMRouter {
   }
 
   /**
-   * Process developer message for /code using provider-specific dev prompts.
+   * Providers /compare asks by default: every available one except the Claude CLI,
+   * whose tools need an approval that a comparison can't ask for
+   */
+  getCompareProviders(): LLMProvider[] {
+    return this.getProviderStatus()
+      .filter((status) => status.available && status.provider !== 'claude-cli')
+      .map((status) => status.provider);
+  }
+
+  /**
+   * Send one prompt to several providers in parallel (no fallback, no tools).
+   * Each provider answers without the chat history, and the prompt is not stored in it;
+   * use keepAnswer() to add a chosen answer to the history afterwards.
+   * @param providers Defaults to getCompareProviders()
    */
-  async processDeveloperMessage(chatId: string, message: string): Promise<LLMMessageResult> {
+  async compare(
+    chatId: string,
+    prompt: string,
+    providers?: LLMProvider[],
+    context: LLMRequestContext = {}
+  ): Promise<LLMCompareAnswer[]> {
+    const candidates = providers || this.getCompareProviders();
+    const systemPrompt = this.getSystemPrompt(chatId);
+    const runId = `compare:${chatId}:${Date.now().toString(36)}`;
+
+    return Promise.all(candidates.map(async (provider): Promise<LLMCompareAnswer> => {
+      const label = this.getProviderLabel(provider);
+      const model = provider === 'claude-cli' ? undefined : this.getModel(chatId, provider);
+      if (!this.isProviderAvailable(provider)) {
+        return { provider, label, model, error: 'Niet geconfigureerd', durationMs: 0 };
+      }
+
+      const refusal = this.checkCompareQuota(chatId, provider, context);
+      if (refusal) {
+        return { provider, label, model, error: refusal, durationMs: 0 };
+      }
+
+      const startTime = Date.now();
+      try {
+        const result = await this.track(
+          provider,
+          () => this.processWithProvider(provider, runId, prompt, COMPARE_CALLBACKS, {
+            model,
+            systemPrompt,
+            signal: context.signal,
+          }),
+          context.signal
+        );
+        this.recordUsage(provider, chatId, context, model, result.usage);
+        return { provider, label, model, text: result.text, durationMs: Date.now() - startTime, usage: result.usage };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Compare provider failed', { provider, error: message });
+        return { provider, label, model, error: message, durationMs: Date.now() - startTime };
+      } finally {
+        await this.forgetConversation(provider, runId);
+      }
+    }));
+  }
+
+  /**
+   * Add a prompt and answer (e.g. from /compare) to the history of the chat's active provider.
+   * @returns false for the Claude CLI, whose history lives in its own session
+   */
+  keepAnswer(chatId: string, prompt: string, answer: string): boolean {
     const provider = this.getProvider(chatId);
+    switch (provider) {
+      case 'zai':
+        this.services.zai?.addExchange(chatId, prompt, answer);
+        return !!this.services.zai;
+      case 'minimax':
+        this.services.minimax?.addExchange(chatId, prompt, answer);
+        return !!this.services.minimax;
+      case 'mistral':
+        this.services.mistral?.addExchange(chatId, prompt, answer);
+        return !!this.services.mistral;
+      case 'anthropic':
+        this.services.anthropic?.addExchange(chatId, prompt, answer);
+        return !!this.services.anthropic;
+      case 'claude-cli':
+        return false;
+      default: {
+        const compatible = this.openAICompatible.get(provider);
+        compatible?.addExchange(chatId, prompt, answer);
+        return !!compatible;
+      }
+    }
+  }
+
+  /**
+   * Drop the last prompt and answer from a provider's history (regenerate, retry elsewhere).
+   * @returns false for the Claude CLI or when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string, provider: LLMProvider = this.getProvider(chatId)): boolean {
+    switch (provider) {
+      case 'zai':
+        return this.services.zai?.removeLastExchange(chatId) ?? false;
+      case 'minimax':
+        return this.services.minimax?.removeLastExchange(chatId) ?? false;
+      case 'mistral':
+        return this.services.mistral?.removeLastExchange(chatId) ?? false;
+      case 'anthropic':
+        return this.services.anthropic?.removeLastExchange(chatId) ?? false;
+      case 'claude-cli':
+        return false;
+      default:
+        return this.openAICompatible.get(provider)?.removeLastExchange(chatId) ?? false;
+    }
+  }
+
+  /**
+   * Conversation of the chat with its active provider, with the recorded provider, model and tool calls per turn.
+   * For the Claude CLI these are the recorded turns of the active session.
+   */
+  async getTranscript(chatId: string): Promise<LLMTranscript> {
+    const provider = this.getProvider(chatId);
+    const base = {
+      chatId,
+      provider,
+      label: this.getProviderLabel(provider),
+      model: this.getModel(chatId, provider),
+      exportedAt: Date.now(),
+    };
+
+    if (provider === 'claude-cli') {
+      const session = await this.services.claude?.getActiveSession(chatId);
+      const records = session ? this.listTurns(chatId, new Date(session.createdAt).getTime()) : [];
+      return { ...base, turns: recordsToTranscriptTurns(records.filter((record) => record.provider === provider)) };
+    }
+
+    const history = this.getHistory(provider, chatId);
+    return { ...base, ...buildTranscriptTurns(history, this.listTurns(chatId)) };
+  }
+
+  /**
+   * Replace the history of the chat's active provider with imported turns.
+   * @returns the number of turns restored
+   */
+  importTranscript(chatId: string, transcript: { summary?: string; turns: LLMTranscriptTurn[] }): number {
+    const provider = this.getProvider(chatId);
+    const messages = transcript.turns.flatMap((turn): Array<{ role: 'user' | 'assistant'; content: string }> => [
+      { role: 'user', content: turn.prompt },
+      { role: 'assistant', content: turn.answer },
+    ]);
+    const withSummary: LLMHistoryMessage[] = transcript.summary
+      ? [{ role: 'system', content: transcript.summary }, ...messages]
+      : messages;
+
+    switch (provider) {
+      case 'zai':
+        this.requireService(this.services.zai, provider).replaceHistory(chatId, withSummary);
+        break;
+      case 'minimax':
+        this.requireService(this.services.minimax, provider).replaceHistory(chatId, withSummary);
+        break;
+      case 'mistral':
+        this.requireService(this.services.mistral, provider).replaceHistory(chatId, withSummary);
+        break;
+      case 'anthropic':
+        // The Messages API history has no place for a summary
+        this.requireService(this.services.anthropic, provider).replaceHistory(chatId, messages);
+        break;
+      case 'claude-cli':
+        throw new LLMTranscriptError('De Claude CLI bewaart zijn geschiedenis in een eigen sessie; importeren kan alleen bij een API-provider');
+      default:
+        this.requireService(this.openAICompatible.get(provider), provider).replaceHistory(chatId, withSummary);
+    }
+    return transcript.turns.length;
+  }
+
+  /**
+   * Process developer message for /code using provider-specific dev prompts.
+   */
+  async processDeveloperMessage(
+    chatId: string,
+    message: string,
+    context: LLMRequestContext = {}
+  ): Promise<LLMMessageResult> {
+    const { provider, model } = this.applyQuota(chatId, this.getProvider(chatId), context);
     const sequence = this.getDeveloperFallbackSequence(provider);
     let lastError: Error | undefined;
 
     for (const candidate of sequence) {
+      const candidateModel = candidate === provider && model ? model : this.getDeveloperModel(chatId, candidate);
       try {
-        if (candidate === 'zai' && this.services.zai) {
-          const response = await this.services.zai.processDevMessage(chatId, message, {
-            model: this.getDeveloperModel(chatId, candidate),
-          });
-          return { text: response.text, provider: candidate, isFallback: candidate !== provider };
-        }
-        if (candidate === 'minimax' && this.services.minimax) {
-          const response = await this.services.minimax.processDeveloperMessage(chatId, message, {
-            model: this.getDeveloperModel(chatId, candidate),
-          });
-          return { text: response.text, provider: candidate, isFallback: candidate !== provider };
-        }
-        if (candidate === 'mistral' && this.services.mistral) {
-          const response = await this.services.mistral.processDeveloperMessage(chatId, message, {
-            model: this.getDeveloperModel(chatId, candidate),
-          });
-          return { text: response.text, provider: candidate, isFallback: candidate !== provider };
-        }
+        const response = await this.track(
+          candidate,
+          () => this.processDeveloperWithProvider(candidate, chatId, message, candidateModel)
+        );
+        this.recordUsage(candidate, chatId, context, candidateModel, toStreamingUsage(response.usage));
+        return { text: response.text, provider: candidate, isFallback: candidate !== provider };
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         logger.warn('Developer provider failed, trying fallback', { provider: candidate, error: lastError.message });
@@ -234,6 +691,62 @@ export class LLMRouter {
     throw lastError || new Error('No developer-capable provider available');
   }
 
+  /**
+   * Restore stored per-chat choices. Rows for unknown providers are skipped.
+   */
+  private loadPreferences(): void {
+    if (!this.store) return;
+
+    try {
+      for (const { chatId, provider } of this.store.getProviderOverrides()) {
+        if (this.isKnownProvider(provider)) {
+          this.providerOverrides.set(chatId, provider);
+        }
+      }
+
+      for (const { chatId, provider, model } of this.store.getModelOverrides()) {
+        if (this.isKnownProvider(provider)) {
+          const existing = this.modelOverrides.get(chatId) || {};
+          existing[provider] = model;
+          this.modelOverrides.set(chatId, existing);
+        }
+      }
+
+      logger.info('Loaded LLM preferences', {
+        providers: this.providerOverrides.size,
+        models: this.modelOverrides.size,
+      });
+    } catch (error) {
+      logger.error('Failed to load LLM preferences', { error });
+    }
+  }
+
+  private persist(action: string, write: (store: LLMPreferenceStore) => void): void {
+    if (!this.store) return;
+    try {
+      write(this.store);
+    } catch (error) {
+      // Keep the in-memory choice; it just won't survive a restart
+      logger.error(`Failed to persist LLM preference (${action})`, { error });
+    }
+  }
+
+  private isKnownProvider(value: string): value is LLMProvider {
+    return Object.prototype.hasOwnProperty.call(PROVIDER_LABELS, value)
+      || this.openAICompatible.has(value as LLMProvider);
+  }
+
+  private registerAlias(alias: string, provider: LLMProvider): void {
+    const key = alias.trim().toLowerCase();
+    const existing = this.aliases[key];
+    if (existing && existing !== provider) {
+      // Built-in names always win so existing commands keep working
+      logger.warn('Ignoring conflicting provider alias', { alias: key, provider, existing });
+      return;
+    }
+    this.aliases[key] = provider;
+  }
+
   private getFallbackSequence(provider: LLMProvider): LLMProvider[] {
     const sequence = [provider, ...this.fallbackOrder];
     const deduped: LLMProvider[] = [];
@@ -242,7 +755,7 @@ export class LLMRouter {
         deduped.push(item);
       }
     }
-    return deduped;
+    return this.skipOpenCircuits(deduped);
   }
 
   private getDeveloperFallbackSequence(provider: LLMProvider): LLMProvider[] {
@@ -253,44 +766,378 @@ export class LLMRouter {
         deduped.push(item);
       }
     }
-    return deduped;
+    return this.skipOpenCircuits(deduped);
+  }
+
+  /**
+   * Drop providers with an open circuit. If every provider is open, try them all anyway.
+   * Fallbacks over their monthly budget are always dropped.
+   */
+  private skipOpenCircuits(sequence: LLMProvider[]): LLMProvider[] {
+    const withinBudget = sequence.filter((item, index) => index === 0 || !this.quotas?.isProviderCapped(item));
+    const callable = withinBudget.filter((item) => this.health.isCallable(item));
+    return callable.length > 0 ? callable : withinBudget;
+  }
+
+  /**
+   * Check the quotas for a request: refuse it, or switch to the downgrade provider/model.
+   * The request counts for the hourly chat limit once it is answered (recordUsage).
+   */
+  private applyQuota(
+    chatId: string,
+    provider: LLMProvider,
+    context: LLMRequestContext
+  ): { provider: LLMProvider; model?: string } {
+    if (!this.quotas) return { provider };
+
+    const decision = this.quotas.check({ chatId, userId: context.userId, provider });
+    if (decision.type === 'block') {
+      logger.info('Request refused by quota', { chatId, kind: decision.rule.kind, scope: decision.rule.scope });
+      throw new LLMQuotaExceededError(decision.reason);
+    }
+    if (decision.type === 'downgrade' && !this.isProviderAvailable(decision.provider)) {
+      logger.warn('Quota downgrade provider unavailable, refusing request', { provider: decision.provider });
+      throw new LLMQuotaExceededError(decision.reason);
+    }
+
+    if (decision.type === 'allow') return { provider };
+
+    const model = decision.model || this.getModel(chatId, decision.provider);
+    const target = `${this.getProviderLabel(decision.provider)}${model ? ` (${model})` : ''}`;
+    logger.info('Request downgraded by quota', { chatId, provider: decision.provider, model });
+    context.onNotice?.(`${decision.reason} Dit antwoord komt van ${target}.`);
+    return { provider: decision.provider, model: decision.model };
+  }
+
+  /**
+   * Quota check for one /compare provider; a downgrade counts as a refusal,
+   * because another provider's answer would make the comparison meaningless
+   */
+  private checkCompareQuota(chatId: string, provider: LLMProvider, context: LLMRequestContext): string | undefined {
+    if (!this.quotas) return undefined;
+
+    const decision = this.quotas.check({ chatId, userId: context.userId, provider });
+    return decision.type !== 'allow' ? decision.reason : undefined;
+  }
+
+  /**
+   * Drop the history of a throwaway chat id (used by /compare)
+   */
+  private async forgetConversation(provider: LLMProvider, chatId: string): Promise<void> {
+    try {
+      switch (provider) {
+        case 'zai':
+          this.services.zai?.clearConversation(chatId);
+          break;
+        case 'minimax':
+          this.services.minimax?.clearConversation(chatId);
+          break;
+        case 'mistral':
+          this.services.mistral?.clearConversation(chatId);
+          break;
+        case 'anthropic':
+          this.services.anthropic?.deleteConversation(chatId);
+          break;
+        case 'claude-cli': {
+          const session = await this.services.claude?.getActiveSession(chatId);
+          if (session) await this.services.claude?.deleteSession(session.id);
+          break;
+        }
+        default:
+          this.openAICompatible.get(provider)?.clearConversation(chatId);
+      }
+    } catch (error) {
+      logger.warn('Failed to clear compare conversation', { provider, error });
+    }
+  }
+
+  /**
+   * System prompt of the chat persona; a broken persona store falls back to the provider default
+   */
+  private getSystemPrompt(chatId: string): string | undefined {
+    if (!this.personas) return undefined;
+    try {
+      return this.personas.getSystemPrompt(chatId);
+    } catch (error) {
+      logger.error('Failed to load chat persona', { chatId, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Tools for one provider call. Each call is shown via onToolUse (which may ask for approval)
+   * and onToolResult; a rejected approval stops the request with LLMToolRejectedError.
+   */
+  private createToolSession(
+    provider: LLMProvider,
+    chatId: string,
+    callbacks: ClaudeCodeStreamCallbacks,
+    context: LLMRequestContext,
+    toolHistory: ToolUseEvent[]
+  ): LLMToolSession | undefined {
+    const registry = this.tools;
+    if (!registry || registry.size === 0 || !this.supportsTools(provider)) {
+      return undefined;
+    }
+
+    return {
+      definitions: registry.toChatTools(),
+      maxRounds: DEFAULT_MAX_TOOL_ROUNDS,
+      execute: async (call: ChatToolCall) => {
+        const tool = registry.get(call.function.name);
+        if (!tool) {
+          return `Error: unknown function "${call.function.name}"`;
+        }
+
+        let args: Record<string, unknown>;
+        try {
+          const parsed: unknown = JSON.parse(call.function.arguments || '{}');
+          args = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+        } catch {
+          return 'Error: arguments are not valid JSON';
+        }
+
+        const event: ToolUseEvent = {
+          type: 'tool_use',
+          id: call.id,
+          name: tool.name,
+          input: args,
+          timestamp: new Date(),
+          requiresConfirmation: tool.requiresConfirmation,
+        };
+        callbacks.onStatusChange?.(StreamStatus.TOOL_USE);
+        try {
+          await callbacks.onToolUse?.(event);
+        } catch (error) {
+          if (error instanceof LLMToolRejectedError) throw error;
+          logger.warn('Tool display failed', { tool: tool.name, error });
+        }
+        toolHistory.push(event);
+
+        let content: string;
+        let isError = false;
+        try {
+          content = await tool.execute(args, { chatId, userId: context.userId });
+        } catch (error) {
+          isError = true;
+          content = `Error: ${error instanceof Error ? error.message : String(error)}`;
+          logger.warn('Tool failed', { tool: tool.name, error: content });
+        }
+
+        try {
+          await callbacks.onToolResult?.({ type: 'tool_result', toolUseId: call.id, content, isError, timestamp: new Date() });
+        } catch (error) {
+          logger.warn('Tool result display failed', { tool: tool.name, error });
+        }
+        return content;
+      },
+    };
+  }
+
+  private supportsTools(provider: LLMProvider): boolean {
+    if (!this.toolProviders.includes(provider)) return false;
+    return provider === 'zai' || provider === 'mistral' || this.openAICompatible.has(provider);
+  }
+
+  /**
+   * Single /code call against one provider (no fallback)
+   */
+  private async processDeveloperWithProvider(
+    provider: LLMProvider,
+    chatId: string,
+    message: string,
+    model: string | undefined
+  ): Promise<ProviderResponse> {
+    if (provider === 'zai' && this.services.zai) {
+      return this.services.zai.processDevMessage(chatId, message, { model });
+    }
+    if (provider === 'minimax' && this.services.minimax) {
+      return this.services.minimax.processDeveloperMessage(chatId, message, { model });
+    }
+    if (provider === 'mistral' && this.services.mistral) {
+      return this.services.mistral.processDeveloperMessage(chatId, message, { model });
+    }
+    if (provider === 'anthropic' && this.services.anthropic) {
+      return this.services.anthropic.processDeveloperMessage(chatId, message, { model });
+    }
+    const compatible = this.openAICompatible.get(provider);
+    if (compatible) {
+      return compatible.processDeveloperMessage(chatId, message, { model });
+    }
+    throw new Error(`Provider ${provider} is not available`);
+  }
+
+  /**
+   * Stored history of an API provider (empty when it is not configured)
+   */
+  private getHistory(provider: LLMProvider, chatId: string): LLMHistoryMessage[] {
+    switch (provider) {
+      case 'zai':
+        return this.services.zai?.getHistory(chatId) || [];
+      case 'minimax':
+        return this.services.minimax?.getHistory(chatId) || [];
+      case 'mistral':
+        return this.services.mistral?.getHistory(chatId) || [];
+      case 'anthropic':
+        return this.services.anthropic?.getHistory(chatId) || [];
+      case 'claude-cli':
+        return [];
+      default:
+        return this.openAICompatible.get(provider)?.getHistory(chatId) || [];
+    }
+  }
+
+  private requireService<S>(service: S | undefined, provider: LLMProvider): S {
+    if (!service) {
+      throw new LLMTranscriptError(`Provider ${this.getProviderLabel(provider)} is niet geconfigureerd`);
+    }
+    return service;
+  }
+
+  private listTurns(chatId: string, since?: number): LLMTurnRecord[] {
+    if (!this.transcripts) return [];
+    try {
+      return this.transcripts.list(chatId, since);
+    } catch (error) {
+      logger.error('Failed to load recorded turns', { chatId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Record the answered prompt for /export; journal errors never fail the message
+   */
+  private recordTurn(
+    provider: LLMProvider,
+    chatId: string,
+    model: string | undefined,
+    prompt: string,
+    result: StreamingResult
+  ): void {
+    if (!this.transcripts) return;
+    try {
+      this.transcripts.record({
+        chatId,
+        provider,
+        model,
+        prompt,
+        answer: result.text,
+        tools: (result.toolHistory || []).map((tool) => ({ name: tool.name, input: tool.input })),
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      logger.error('Failed to record LLM turn', { provider, error });
+    }
+  }
+
+  /**
+   * Record usage of a successful call; accounting errors never fail the message
+   */
+  private recordUsage(
+    provider: LLMProvider,
+    chatId: string,
+    context: LLMRequestContext,
+    model: string | undefined,
+    usage: StreamingUsage | undefined
+  ): void {
+    try {
+      // Only answered requests count for the hourly chat limit
+      this.quotas?.recordRequest(chatId);
+      this.usage?.recordUsage({
+        chatId,
+        userId: context.userId,
+        provider,
+        model,
+        inputTokens: usage?.inputTokens || 0,
+        outputTokens: usage?.outputTokens || 0,
+        costUSD: usage?.costUSD,
+      });
+    } catch (error) {
+      logger.error('Failed to record LLM usage', { provider, error });
+    }
+  }
+
+  /**
+   * Run a provider call and feed the outcome into the health tracker.
+   * A call that fails because `signal` was aborted throws LLMCancelledError and counts for nothing.
+   */
+  private async track<T>(provider: LLMProvider, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.health.beginAttempt(provider);
+    const startTime = Date.now();
+    try {
+      const result = await call();
+      this.health.recordSuccess(provider, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        this.health.cancelAttempt(provider);
+        throw new LLMCancelledError();
+      }
+      if (error instanceof LLMToolRejectedError) {
+        // The provider answered fine; the user stopped it
+        this.health.recordSuccess(provider, Date.now() - startTime);
+        throw error;
+      }
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.health.recordFailure(provider, Date.now() - startTime, err);
+      if (this.health.getHealth(provider).state === 'open') {
+        logger.warn('Circuit open, skipping provider until probe succeeds', { provider });
+      }
+      throw error;
+    }
   }
 
   private async processWithProvider(
     provider: LLMProvider,
     chatId: string,
     message: string,
-    callbacks: ClaudeCodeStreamCallbacks
+    callbacks: ClaudeCodeStreamCallbacks,
+    request: ProviderRequest
   ): Promise<StreamingResult> {
     if (provider === 'claude-cli' && this.services.claude) {
-      return this.services.claude.processMessageStream(chatId, message, callbacks);
+      return this.services.claude.processMessageStream(chatId, message, callbacks, request.systemPrompt, request.signal);
     }
 
     callbacks.onStatusChange?.(StreamStatus.THINKING);
     const startTime = Date.now();
-    let text = '';
+    let streamedText = '';
+
+    const requestOptions = {
+      model: request.model,
+      systemPrompt: request.systemPrompt,
+      signal: request.signal,
+      images: request.images,
+      onContent: (chunk: string) => {
+        if (!streamedText) {
+          callbacks.onStatusChange?.(StreamStatus.RESPONSE);
+        }
+        streamedText += chunk;
+        callbacks.onContent?.(chunk);
+      },
+    };
 
+    const compatible = this.openAICompatible.get(provider);
+    let response: ProviderResponse;
     if (provider === 'zai' && this.services.zai) {
-      const response = await this.services.zai.processMessage(chatId, message, {
-        model: this.getModel(chatId, provider),
-      });
-      text = response.text;
+      response = await this.services.zai.processMessage(chatId, message, { ...requestOptions, tools: request.tools });
     } else if (provider === 'minimax' && this.services.minimax) {
-      const response = await this.services.minimax.processMessage(chatId, message, {
-        model: this.getModel(chatId, provider),
-      });
-      text = response.text;
+      response = await this.services.minimax.processMessage(chatId, message, requestOptions);
     } else if (provider === 'mistral' && this.services.mistral) {
-      const response = await this.services.mistral.processMessage(chatId, message, {
-        model: this.getModel(chatId, provider),
-      });
-      text = response.text;
+      response = await this.services.mistral.processMessage(chatId, message, { ...requestOptions, tools: request.tools });
+    } else if (provider === 'anthropic' && this.services.anthropic) {
+      response = await this.services.anthropic.processMessage(chatId, message, requestOptions);
+    } else if (compatible) {
+      response = await compatible.processMessage(chatId, message, { ...requestOptions, tools: request.tools });
     } else {
       throw new Error(`Provider ${provider} is not available`);
     }
+    const text = response.text;
 
-    callbacks.onStatusChange?.(StreamStatus.RESPONSE);
-    callbacks.onContent?.(text);
+    // Endpoint answered without streaming deltas: deliver the full text at once
+    if (!streamedText && text) {
+      callbacks.onStatusChange?.(StreamStatus.RESPONSE);
+      callbacks.onContent?.(text);
+    }
 
     const result: StreamingResult = {
       text,
@@ -298,7 +1145,8 @@ export class LLMRouter {
       isNewSession: false,
       durationMs: Date.now() - startTime,
       exitCode: 0,
-      toolHistory: [],
+      toolHistory: request.toolHistory || [],
+      usage: toStreamingUsage(response.usage),
     };
 
     callbacks.onComplete?.(result);
@@ -0,0 +1,198 @@
+/**
+ * LLM Function Calling
+ * Botfuncties als OpenAI-style tools voor de API providers, met een gedeelde tool loop
+ */
+
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger({ prefix: 'LLMTools' });
+
+/** Tool rounds per message before the model has to answer without tools */
+export const DEFAULT_MAX_TOOL_ROUNDS = 5;
+
+export interface LLMToolContext {
+  chatId: string;
+  userId?: string;
+}
+
+/**
+ * Bot capability the model may call
+ */
+export interface LLMTool {
+  /** Function name (a-z, 0-9, _) */
+  name: string;
+  description: string;
+  /** JSON schema of the arguments object */
+  parameters: Record<string, unknown>;
+  /** Ask the user for approval first (tools with side effects) */
+  requiresConfirmation?: boolean;
+  /** Run the tool; the returned text is sent back to the model */
+  execute(args: Record<string, unknown>, context: LLMToolContext): Promise<string>;
+}
+
+/** Tool definition in the chat completions request */
+export interface ChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/** Tool call in an assistant message */
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
+}
+
+/** Streamed fragment of a tool call (`delta.tool_calls`) */
+export interface ChatToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/** Messages that only exist within one tool loop; they are not stored in the history */
+export type ToolLoopMessage =
+  | { role: 'assistant'; content: string; tool_calls: ChatToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string };
+
+/** Minimal chat completions response shape used by the loop */
+export interface ToolLoopResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: ChatToolCall[];
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Tools offered to a single request; created by the router per message
+ */
+export interface LLMToolSession {
+  definitions: ChatTool[];
+  maxRounds: number;
+  /** Run a call and return the result text for the model */
+  execute(call: ChatToolCall): Promise<string>;
+}
+
+export class LLMToolRegistry {
+  private tools = new Map<string, LLMTool>();
+
+  register(tool: LLMTool): void {
+    if (this.tools.has(tool.name)) {
+      logger.warn('Replacing LLM tool', { name: tool.name });
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): LLMTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): LLMTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  toChatTools(): ChatTool[] {
+    return this.list().map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+  }
+}
+
+export function createLLMToolRegistry(tools: LLMTool[] = []): LLMToolRegistry {
+  const registry = new LLMToolRegistry();
+  for (const tool of tools) {
+    registry.register(tool);
+  }
+  return registry;
+}
+
+/**
+ * Assembles tool calls from streamed `delta.tool_calls` fragments
+ */
+export class ToolCallAccumulator {
+  private pending: ChatToolCall[] = [];
+
+  push(deltas: ChatToolCallDelta[] | undefined): void {
+    for (const delta of deltas || []) {
+      let call = this.pending[delta.index];
+      if (!call) {
+        call = { id: '', type: 'function', function: { name: '', arguments: '' } };
+        this.pending[delta.index] = call;
+      }
+      if (delta.id) call.id = delta.id;
+      if (delta.function?.name) call.function.name += delta.function.name;
+      if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+    }
+  }
+
+  calls(): ChatToolCall[] {
+    return this.pending
+      .filter((call) => call && call.function.name)
+      .map((call, index) => ({ ...call, id: call.id || `call_${index}` }));
+  }
+}
+
+/**
+ * Let the model call tools until it answers with text.
+ * Without a session this is a single `complete` call. Usage is summed over all rounds;
+ * the last round is sent without tools so the model has to answer.
+ */
+export async function runToolLoop<M, R extends ToolLoopResponse>(
+  messages: M[],
+  session: LLMToolSession | undefined,
+  complete: (messages: Array<M | ToolLoopMessage>, tools?: ChatTool[]) => Promise<R>
+): Promise<R> {
+  if (!session || session.definitions.length === 0) {
+    return complete(messages);
+  }
+
+  const loopMessages: Array<M | ToolLoopMessage> = [...messages];
+  let usage: ToolLoopResponse['usage'];
+
+  for (let round = 0; ; round++) {
+    const tools = round < session.maxRounds ? session.definitions : undefined;
+    const response = await complete(loopMessages, tools);
+    if (response.usage) {
+      usage = {
+        prompt_tokens: (usage?.prompt_tokens || 0) + response.usage.prompt_tokens,
+        completion_tokens: (usage?.completion_tokens || 0) + response.usage.completion_tokens,
+        total_tokens: (usage?.total_tokens || 0) + response.usage.total_tokens,
+      };
+    }
+
+    const message = response.choices[0]?.message;
+    const calls = tools ? message?.tool_calls || [] : [];
+    if (calls.length === 0) {
+      return { ...response, usage };
+    }
+
+    loopMessages.push({ role: 'assistant', content: message?.content || '', tool_calls: calls });
+    for (const call of calls) {
+      loopMessages.push({ role: 'tool', tool_call_id: call.id, content: await session.execute(call) });
+    }
+  }
+}
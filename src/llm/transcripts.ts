@@ -0,0 +1,116 @@
+/**
+ * LLM Transcripts
+ * Logboek van beantwoorde prompts (provider, model, tool calls) in SQLite, voor /export
+ */
+
+import { getDatabase, type DatabaseClient, type LLMTurnRow } from '../database';
+import { splitSummary } from './context';
+import type {
+  LLMHistoryMessage,
+  LLMProvider,
+  LLMTranscriptStore,
+  LLMTranscriptTurn,
+  LLMTurnRecord,
+} from './types';
+
+export interface TranscriptStoreOptions {
+  /** Turns older than this are deleted (default: 30 days) */
+  ttlMs?: number;
+}
+
+function toTurnRecord(row: LLMTurnRow): LLMTurnRecord {
+  return {
+    chatId: row.chat_id,
+    provider: row.provider as LLMProvider,
+    model: row.model || undefined,
+    prompt: row.prompt,
+    answer: row.answer,
+    tools: row.tools ? JSON.parse(row.tools) : [],
+    createdAt: row.created_at,
+  };
+}
+
+export class DatabaseTranscriptStore implements LLMTranscriptStore {
+  private ttlMs: number;
+
+  constructor(private db: DatabaseClient = getDatabase(), options: TranscriptStoreOptions = {}) {
+    this.ttlMs = options.ttlMs || 30 * 24 * 60 * 60 * 1000;
+  }
+
+  record(turn: LLMTurnRecord): void {
+    this.db.addLLMTurn({
+      chat_id: turn.chatId,
+      provider: turn.provider,
+      model: turn.model || null,
+      prompt: turn.prompt,
+      answer: turn.answer,
+      tools: turn.tools.length > 0 ? JSON.stringify(turn.tools) : null,
+      created_at: turn.createdAt,
+    });
+    this.db.deleteLLMTurnsBefore(turn.createdAt - this.ttlMs);
+  }
+
+  list(chatId: string, since?: number): LLMTurnRecord[] {
+    return this.db.getLLMTurns(chatId, since).map(toTurnRecord);
+  }
+}
+
+export function createLLMTranscriptStore(db?: DatabaseClient, options?: TranscriptStoreOptions): LLMTranscriptStore {
+  return new DatabaseTranscriptStore(db, options);
+}
+
+/**
+ * Pair the history into turns and attach the recorded metadata of each turn.
+ * A turn matches the latest unused record with the same prompt and answer.
+ */
+export function buildTranscriptTurns(
+  history: LLMHistoryMessage[],
+  records: LLMTurnRecord[]
+): { summary?: string; turns: LLMTranscriptTurn[] } {
+  const { summary, turns: messages } = splitSummary(history);
+  const unused = [...records];
+  const turns: LLMTranscriptTurn[] = [];
+
+  for (let i = 0; i < messages.length - 1; i++) {
+    const [user, assistant] = [messages[i], messages[i + 1]];
+    if (user.role !== 'user' || assistant.role !== 'assistant') {
+      continue;
+    }
+    i++;
+
+    let index = -1;
+    for (let j = unused.length - 1; j >= 0; j--) {
+      if (unused[j].prompt === user.content && unused[j].answer === assistant.content) {
+        index = j;
+        break;
+      }
+    }
+    const record = index >= 0 ? unused.splice(index, 1)[0] : undefined;
+    turns.push(record
+      ? {
+        prompt: user.content,
+        answer: assistant.content,
+        at: record.createdAt,
+        provider: record.provider,
+        model: record.model,
+        tools: record.tools.length > 0 ? record.tools : undefined,
+      }
+      : { prompt: user.content, answer: assistant.content });
+  }
+
+  return { summary, turns };
+}
+
+/**
+ * Turn records as export turns (for the Claude CLI, whose history only lives in its session)
+ */
+export function recordsToTranscriptTurns(records: LLMTurnRecord[]): LLMTranscriptTurn[] {
+  return records.map((record) => ({
+    prompt: record.prompt,
+    answer: record.answer,
+    at: record.createdAt,
+    provider: record.provider,
+    model: record.model,
+    tools: record.tools.length > 0 ? record.tools : undefined,
+  }));
+}
@@ -2,12 +2,23 @@
  * LLM Router Types
  */
 
-export type LLMProvider = 'zai' | 'minimax' | 'mistral' | 'claude-cli';
+import type { ProviderHealth } from './health';
+import type { StreamingUsage } from '../streaming/types';
+import type { LLMImage } from './vision';
+
+/** Provider id of a configured OpenAI-compatible instance (e.g. "openai:local") */
+export type OpenAICompatibleProvider = `openai:${string}`;
+
+export type LLMProvider = 'zai' | 'minimax' | 'mistral' | 'anthropic' | 'claude-cli' | OpenAICompatibleProvider;
 
 export interface LLMProviderStatus {
   provider: LLMProvider;
   label: string;
+  /** Configured and circuit not open */
   available: boolean;
+  /** Service/API key present */
+  configured: boolean;
+  health: ProviderHealth;
   reason?: string;
 }
 
@@ -16,3 +27,232 @@ export interface LLMMessageResult {
   provider: LLMProvider;
   isFallback: boolean;
 }
+
+/**
+ * Answer of one provider to a /compare prompt
+ */
+export interface LLMCompareAnswer {
+  provider: LLMProvider;
+  label: string;
+  model?: string;
+  text?: string;
+  /** Set instead of text when the provider failed or was refused by a quota */
+  error?: string;
+  durationMs: number;
+  usage?: StreamingUsage;
+}
+
+/**
+ * Persistent storage for per-chat provider and model choices
+ */
+export interface LLMPreferenceStore {
+  /** Load all stored provider choices */
+  getProviderOverrides(): Array<{ chatId: string; provider: string }>;
+  /** Load all stored model choices */
+  getModelOverrides(): Array<{ chatId: string; provider: string; model: string }>;
+  /** Save provider choice for a chat */
+  setProviderOverride(chatId: string, provider: string): void;
+  /** Remove provider choice for a chat */
+  clearProviderOverride(chatId: string): void;
+  /** Save model choice for a chat + provider */
+  setModelOverride(chatId: string, provider: string, model: string): void;
+  /** Remove model choices for a chat (one provider, or all) */
+  clearModelOverrides(chatId: string, provider?: string): void;
+}
+
+/**
+ * Conversation as kept in durable storage
+ */
+export interface StoredConversation {
+  messages: unknown[];
+  createdAt: number;
+  lastAccessAt: number;
+}
+
+/**
+ * Durable storage for API-provider conversation history
+ */
+export interface LLMConversationStore {
+  load(key: string): StoredConversation | undefined;
+  /** Save messages and mark the conversation as accessed now */
+  save(key: string, messages: unknown[]): void;
+  delete(key: string): void;
+  /** Delete conversations last accessed before `before`, optionally only keys with a prefix */
+  deleteExpired(before: number, keyPrefix?: string): number;
+}
+
+/**
+ * Extra request context passed through the router
+ */
+export interface LLMRequestContext {
+  /** Telegram user who sent the message */
+  userId?: string;
+  /** Called with a user-facing note when a quota downgrades the request */
+  onNotice?: (text: string) => void;
+  /** Aborts the request (/cancel); the router then throws LLMCancelledError */
+  signal?: AbortSignal;
+  /** Photos with the prompt; only providers with a vision model are tried */
+  images?: LLMImage[];
+}
+
+/**
+ * One LLM call, as recorded for usage accounting
+ */
+export interface LLMUsageEntry {
+  chatId: string;
+  userId?: string;
+  provider: LLMProvider;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost reported by the provider; otherwise computed from model prices */
+  costUSD?: number;
+}
+
+/**
+ * Receives usage of every successful LLM call
+ */
+export interface LLMUsageRecorder {
+  recordUsage(entry: LLMUsageEntry): void;
+}
+
+/**
+ * History message in provider-neutral form; a leading system message is the running summary
+ */
+export interface LLMHistoryMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface LLMTranscriptToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * An answered prompt, as recorded for /export
+ */
+export interface LLMTurnRecord {
+  chatId: string;
+  provider: LLMProvider;
+  model?: string;
+  prompt: string;
+  answer: string;
+  tools: LLMTranscriptToolCall[];
+  createdAt: number;
+}
+
+/**
+ * Journal of answered prompts with provider, model and tool calls
+ */
+export interface LLMTranscriptStore {
+  record(turn: LLMTurnRecord): void;
+  /** Turns of a chat, oldest first, optionally only those from `since` */
+  list(chatId: string, since?: number): LLMTurnRecord[];
+}
+
+/**
+ * Prompt and answer in an export. Turns that were never recorded (kept /compare answers, imports) have no metadata.
+ */
+export interface LLMTranscriptTurn {
+  prompt: string;
+  answer: string;
+  at?: number;
+  provider?: string;
+  model?: string;
+  tools?: LLMTranscriptToolCall[];
+}
+
+/**
+ * Conversation of a chat with its active provider, for /export and /import
+ */
+export interface LLMTranscript {
+  chatId: string;
+  provider: LLMProvider;
+  label: string;
+  model?: string;
+  /** Running summary of older turns that are no longer verbatim in the history */
+  summary?: string;
+  turns: LLMTranscriptTurn[];
+  exportedAt: number;
+}
+
+/**
+ * Request refused because a spending quota is reached
+ */
+export class LLMQuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMQuotaExceededError';
+  }
+}
+
+/**
+ * Invalid persona name, unknown persona or persona that may not be changed
+ */
+export class LLMPersonaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMPersonaError';
+  }
+}
+
+/**
+ * The user rejected a tool call; the request stops without trying other providers
+ */
+export class LLMToolRejectedError extends Error {
+  constructor(public toolName: string) {
+    super(`Tool ${toolName} rejected by user`);
+    this.name = 'LLMToolRejectedError';
+  }
+}
+
+/**
+ * The request was aborted via its AbortSignal (/cancel or the Stop button)
+ */
+export class LLMCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'LLMCancelledError';
+  }
+}
+
+/**
+ * Too many messages are already waiting in the chat's request queue
+ */
+export class LLMQueueFullError extends Error {
+  constructor(public maxDepth: number) {
+    super(`Request queue full (${maxDepth} waiting)`);
+    this.name = 'LLMQueueFullError';
+  }
+}
+
+/**
+ * A conversation could not be exported or imported (invalid file, Claude CLI session)
+ */
+export class LLMTranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMTranscriptError';
+  }
+}
+
+/**
+ * An image prompt, but no provider in the fallback chain has a vision model
+ */
+export class LLMNoVisionProviderError extends Error {
+  constructor() {
+    super('Geen provider met beeldherkenning beschikbaar');
+    this.name = 'LLMNoVisionProviderError';
+  }
+}
+
+/**
+ * Replay mode has no (valid) recording for the request
+ */
+export class LLMReplayFixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMReplayFixtureError';
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * LLM Usage Accounting
+ * Slaat tokengebruik en kosten per chat/gebruiker/provider/model/dag op in SQLite
+ */
+
+import { getDatabase, type DatabaseClient, type LLMUsageSummaryRow } from '../database';
+import type { LLMUsageEntry, LLMUsageRecorder } from './types';
+
+/** Price in USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+/**
+ * Built-in list prices, override or extend via LLM_PRICES
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'mistral-small-latest': { input: 0.1, output: 0.3 },
+  'mistral-large-latest': { input: 2, output: 6 },
+  'codestral-latest': { input: 0.3, output: 0.9 },
+};
+
+const PERIOD_DAYS: Record<UsagePeriod, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+/**
+ * UTC day key (YYYY-MM-DD)
+ */
+export function toUsageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class LLMUsageTracker implements LLMUsageRecorder {
+  private prices: Record<string, ModelPrice>;
+
+  constructor(
+    private db: DatabaseClient = getDatabase(),
+    prices: Record<string, ModelPrice> = {}
+  ) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  recordUsage(entry: LLMUsageEntry): void {
+    this.db.addLLMUsage({
+      chat_id: entry.chatId,
+      user_id: entry.userId || '',
+      provider: entry.provider,
+      model: entry.model || '',
+      day: toUsageDay(),
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      cost_usd: entry.costUSD ?? this.calculateCost(entry.model, entry.inputTokens, entry.outputTokens),
+    });
+  }
+
+  /**
+   * Cost in USD for a call; 0 when no price is known for the model
+   */
+  calculateCost(model: string | undefined, inputTokens: number, outputTokens: number): number {
+    const price = this.getPrice(model);
+    if (!price) return 0;
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Exact model match first, then the longest configured prefix (e.g. "claude-sonnet-4-5-20250929")
+   */
+  getPrice(model: string | undefined): ModelPrice | undefined {
+    if (!model) return undefined;
+    if (this.prices[model]) return this.prices[model];
+
+    const prefix = Object.keys(this.prices)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : undefined;
+  }
+
+  /**
+   * Usage totals for the period (day = today, week = 7 days, month = 30 days)
+   */
+  getSummary(period: UsagePeriod, options: { chatId?: string; byChat?: boolean } = {}): LLMUsageSummaryRow[] {
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - (PERIOD_DAYS[period] - 1));
+    return this.db.getLLMUsageSummary(toUsageDay(since), options);
+  }
+}
+
+export function createLLMUsageTracker(
+  options: { db?: DatabaseClient; prices?: Record<string, ModelPrice> } = {}
+): LLMUsageTracker {
+  return new LLMUsageTracker(options.db, options.prices);
+}
@@ -0,0 +1,54 @@
+/**
+ * Vision
+ * Afbeeldingen meesturen naar multimodale modellen (OpenAI-formaat) en herkennen welke modellen dat kunnen
+ */
+
+/** Image attached to a prompt */
+export interface LLMImage {
+  /** e.g. image/jpeg */
+  mimeType: string;
+  /** Base64 encoded bytes */
+  data: string;
+}
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/** User message with image parts, only sent to the API and never stored in the history */
+export interface ChatImageMessage {
+  role: 'user';
+  content: ChatContentPart[];
+}
+
+/** Model names that accept images: Pixtral, GLM-4V, Claude 3+, GPT-4o, LLaVA, Qwen-VL, ... */
+const VISION_MODEL_PATTERN = /pixtral|glm-4(\.\d+)?v|claude|gpt-4o|gpt-4\.1|vision|llava|-vl\b|[-.]vl-|gemma-?3|mistral-(small|medium)-latest/i;
+
+/**
+ * Whether the model name is a known multimodal model
+ */
+export function isVisionModel(model?: string): boolean {
+  return !!model && VISION_MODEL_PATTERN.test(model);
+}
+
+/**
+ * Replace the last user message with text and image parts
+ */
+export function withImages<M extends { role: string; content: string }>(
+  messages: M[],
+  images?: LLMImage[]
+): Array<M | ChatImageMessage> {
+  const index = messages.map((message) => message.role).lastIndexOf('user');
+  if (!images?.length || index === -1) {
+    return messages;
+  }
+
+  const content: ChatContentPart[] = [
+    { type: 'text', text: messages[index].content },
+    ...images.map((image): ChatContentPart => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+    })),
+  ];
+  return [...messages.slice(0, index), { role: 'user', content }, ...messages.slice(index + 1)];
+}
@@ -10,9 +10,14 @@ import type {
   MiniMaxConversation,
   MiniMaxResponse,
   MiniMaxChatResponse,
+  MiniMaxChatStreamChunk,
+  MiniMaxRequestOptions,
 } from './types';
 import { MiniMaxServiceError, MiniMaxRateLimitError, MiniMaxContentFilterError } from './types';
 import { createLogger } from '../utils/logger';
+import { createSSEParser } from '../utils/sse';
+import { ConversationCache } from '../llm/conversations';
+import { withSummary, type ContextManager, type ContextUsage } from '../llm/context';
 
 const logger = createLogger({ prefix: 'MiniMax' });
 
@@ -25,8 +30,9 @@ const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant in Telegram.
 - Be friendly and professional`;
 
 export class MiniMaxService {
-  private options: Required<MiniMaxServiceOptions>;
-  private conversations: Map<string, MiniMaxConversation> = new Map();
+  private options: Required<Omit<MiniMaxServiceOptions, 'conversations' | 'context'>>;
+  private conversations: ConversationCache<MiniMaxMessage>;
+  private context?: ContextManager;
   private useLite = false; // Track if using lite fallback
 
   constructor(options: MiniMaxServiceOptions) {
@@ -38,6 +44,8 @@ export class MiniMaxService {
       systemPrompt: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
       apiEndpoint: options.apiEndpoint || 'https://api.minimax.chat/v1',
     };
+    this.conversations = new ConversationCache('minimax', options.conversations);
+    this.context = options.context;
   }
 
   /**
@@ -46,9 +54,9 @@ export class MiniMaxService {
   async processMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: MiniMaxRequestOptions
   ): Promise<MiniMaxResponse> {
-    return this.processMessageInternal(chatId, userMessage, this.options.systemPrompt, options?.model);
+    return this.processMessageInternal(chatId, userMessage, options?.systemPrompt || this.options.systemPrompt, options);
   }
 
   /**
@@ -57,7 +65,7 @@ export class MiniMaxService {
   async processDeveloperMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: MiniMaxRequestOptions
   ): Promise<MiniMaxResponse> {
     const devPrompt = `You are a senior software engineer helping via Telegram.
 - Default to Dutch if the user writes Dutch, otherwise mirror the user language.
@@ -66,7 +74,8 @@ export class MiniMaxService {
 - Never invent files that don't exist; if context is missing, ask a clarifying question.
 - Maximum ~3500 characters per reply; if longer, summarize and offer to continue.`;
 
-    return this.processMessageInternal(chatId, userMessage, devPrompt, options?.model);
+    // Separate conversation namespace so coding context doesn't mix with chat
+    return this.processMessageInternal(`dev:${chatId}`, userMessage, devPrompt, options);
   }
 
   /**
@@ -76,7 +85,7 @@ export class MiniMaxService {
     chatId: string,
     userMessage: string,
     systemPrompt: string,
-    modelOverride?: string
+    options?: MiniMaxRequestOptions
   ): Promise<MiniMaxResponse> {
     const conversation = this.getConversation(chatId);
 
@@ -89,7 +98,17 @@ export class MiniMaxService {
     const startTime = Date.now();
 
     try {
-      const response = await this.callMiniMaxAPI(conversation.messages, systemPrompt, modelOverride);
+      // Keep the history within the token budget (running summary + recent turns)
+      await this.compactHistory(conversation.messages, systemPrompt, options?.model, options?.signal);
+      const prepared = withSummary(systemPrompt, conversation.messages);
+
+      const response = await this.callMiniMaxAPI(
+        prepared.messages,
+        prepared.systemPrompt,
+        options?.model,
+        options?.onContent,
+        options?.signal
+      );
       const duration = Date.now() - startTime;
 
       // Extract response text
@@ -101,7 +120,7 @@ export class MiniMaxService {
         content: text,
       });
 
-      conversation.lastAccessAt = Date.now();
+      this.conversations.save(chatId);
 
       return {
         text,
@@ -124,24 +143,38 @@ export class MiniMaxService {
   private async callMiniMaxAPI(
     messages: MiniMaxMessage[],
     systemPrompt: string,
-    modelOverride?: string
+    modelOverride?: string,
+    onContent?: (chunk: string) => void,
+    signal?: AbortSignal
   ): Promise<MiniMaxChatResponse> {
     const model = modelOverride || (this.useLite ? 'MiniMax-Lite' : this.options.model);
+    let streamed = false;
+    const call = (target: string) => onContent
+      ? this.callAPIStream(target, messages, systemPrompt, (chunk) => {
+        streamed = true;
+        onContent(chunk);
+      }, signal)
+      : this.callAPI(target, messages, systemPrompt, signal);
 
     try {
-      return await this.callAPI(model, messages, systemPrompt);
+      return await call(model);
     } catch (error) {
+      // Never retry once output reached the user (it would be duplicated) or after /cancel
+      if (streamed || signal?.aborted) {
+        throw error;
+      }
+
       // If override is set, try a one-off lite fallback without changing defaults
       if (modelOverride && modelOverride !== 'MiniMax-Lite' && error instanceof MiniMaxServiceError) {
         logger.warn('Override model failed, trying lite fallback...');
-        return await this.callAPI('MiniMax-Lite', messages, systemPrompt);
+        return await call('MiniMax-Lite');
       }
 
       // If not using lite and we get an error, try lite fallback
       if (!modelOverride && !this.useLite && error instanceof MiniMaxServiceError) {
         logger.warn('Primary model failed, trying lite fallback...');
         this.useLite = true;
-        return await this.callAPI('MiniMax-Lite', messages, systemPrompt);
+        return await call('MiniMax-Lite');
       }
       throw error;
     }
@@ -150,7 +183,12 @@ export class MiniMaxService {
   /**
    * Actual API call implementation
    */
-  private async callAPI(model: string, messages: MiniMaxMessage[], systemPrompt: string): Promise<MiniMaxChatResponse> {
+  private async callAPI(
+    model: string,
+    messages: MiniMaxMessage[],
+    systemPrompt: string,
+    signal?: AbortSignal
+  ): Promise<MiniMaxChatResponse> {
     return new Promise((resolve, reject) => {
       const requestBody = JSON.stringify({
         model,
@@ -172,6 +210,7 @@ export class MiniMaxService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.options.apiKey}`,
         },
+        signal,
       };
 
       const req = https.request(options, (res) => {
@@ -206,6 +245,130 @@ export class MiniMaxService {
     });
   }
 
+  /**
+   * Streaming API call implementation (SSE)
+   */
+  private async callAPIStream(
+    model: string,
+    messages: MiniMaxMessage[],
+    systemPrompt: string,
+    onContent: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<MiniMaxChatResponse> {
+    return new Promise((resolve, reject) => {
+      const requestBody = JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...messages.filter(m => m.role !== 'system'),
+        ],
+        max_tokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        stream: true,
+      });
+
+      const options = {
+        hostname: 'api.minimax.chat',
+        port: 443,
+        path: '/v1/chat/completions',
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${this.options.apiKey}`,
+        },
+        signal,
+      };
+
+      const req = https.request(options, (res) => {
+        res.setEncoding('utf8');
+
+        if (res.statusCode !== 200) {
+          let data = '';
+          res.on('data', (chunk: string) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            try {
+              this.handleAPIError(res.statusCode || 500, JSON.parse(data));
+            } catch (error) {
+              reject(error instanceof MiniMaxServiceError ? error : new MiniMaxServiceError(`API error: ${res.statusCode}`));
+            }
+          });
+          return;
+        }
+
+        let text = '';
+        let finishReason = '';
+        // [DONE] or a finish_reason arrived; a stream that closes before that was cut off
+        let finished = false;
+        let usage: MiniMaxChatResponse['usage'];
+
+        const parser = createSSEParser((data) => {
+          if (data === '[DONE]') {
+            finished = true;
+            return;
+          }
+
+          let chunk: MiniMaxChatStreamChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            // Ignore malformed keep-alive payloads
+            return;
+          }
+
+          const choice = chunk.choices?.[0];
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onContent(delta);
+          }
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+            finished = true;
+          }
+          if (chunk.usage) usage = chunk.usage;
+        });
+
+        res.on('data', (chunk: string) => {
+          parser.push(chunk);
+        });
+
+        res.on('end', () => {
+          parser.end();
+          if (!finished) {
+            reject(new MiniMaxServiceError('Stream ended before the answer was complete'));
+            return;
+          }
+          resolve({
+            id: '',
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model,
+            choices: [{
+              index: 0,
+              message: { role: 'assistant', content: text },
+              finish_reason: finishReason || 'stop',
+            }],
+            usage,
+          });
+        });
+
+        res.on('error', (error) => {
+          reject(new MiniMaxServiceError(`Stream failed: ${error.message}`));
+        });
+      });
+
+      req.on('error', (error) => {
+        reject(new MiniMaxServiceError(`API request failed: ${error.message}`));
+      });
+
+      req.write(requestBody);
+      req.end();
+    });
+  }
+
   /**
    * Handle API errors
    */
@@ -256,22 +419,75 @@ export class MiniMaxService {
   }
 
   /**
-   * Get or create conversation for a chat
+   * Summarise older turns with MiniMax when the history exceeds the token budget
+   */
+  private async compactHistory(
+    messages: MiniMaxMessage[],
+    systemPrompt: string,
+    modelOverride?: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.context) return;
+    await this.context.compact(messages, systemPrompt, modelOverride || this.options.model, async (summaryPrompt, prompt) => {
+      const response = await this.callMiniMaxAPI([{ role: 'user', content: prompt }], summaryPrompt, modelOverride, undefined, signal);
+      return this.extractResponseText(response);
+    }, signal);
+  }
+
+  /**
+   * Token budget usage of the chat conversation (undefined without a context manager)
+   * @param systemPrompt The chat's persona prompt, when it has one
+   */
+  getContextUsage(chatId: string, modelOverride?: string, systemPrompt?: string): ContextUsage | undefined {
+    const messages = this.conversations.peek(chatId)?.messages || [];
+    return this.context?.getUsage(systemPrompt || this.options.systemPrompt, messages, modelOverride || this.options.model);
+  }
+
+  /**
+   * Get or create conversation for a chat (loaded from storage on first access)
    */
   private getConversation(chatId: string): MiniMaxConversation {
-    let conversation = this.conversations.get(chatId);
-
-    if (!conversation) {
-      conversation = {
-        chatId,
-        messages: [],
-        createdAt: Date.now(),
-        lastAccessAt: Date.now(),
-      };
-      this.conversations.set(chatId, conversation);
+    return this.conversations.get(chatId);
+  }
+
+  /**
+   * Append a user/assistant turn without calling the API (e.g. an answer kept from /compare)
+   */
+  addExchange(chatId: string, userMessage: string, assistantMessage: string): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.push({ role: 'user', content: userMessage }, { role: 'assistant', content: assistantMessage });
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Drop the last user/assistant turn, e.g. to regenerate that answer
+   * @returns false when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string): boolean {
+    const conversation = this.getConversation(chatId);
+    const [user, assistant] = conversation.messages.slice(-2);
+    if (user?.role !== 'user' || assistant?.role !== 'assistant') {
+      return false;
     }
+    conversation.messages.splice(-2, 2);
+    this.conversations.save(chatId);
+    return true;
+  }
 
-    return conversation;
+  /**
+   * Copy of the stored history (a leading system message is the running summary)
+   */
+  getHistory(chatId: string): MiniMaxMessage[] {
+    return [...(this.conversations.peek(chatId)?.messages || [])];
+  }
+
+  /**
+   * Replace the history, e.g. with an imported conversation
+   */
+  replaceHistory(chatId: string, messages: MiniMaxMessage[]): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.splice(0, conversation.messages.length, ...messages);
+    this.conversations.save(chatId);
   }
 
   /**
@@ -299,20 +515,13 @@ export class MiniMaxService {
    * Cleanup old conversations (older than 1 hour)
    */
   cleanupOldConversations(): void {
-    const oneHour = 60 * 60 * 1000;
-    const now = Date.now();
-
-    for (const [chatId, conversation] of this.conversations.entries()) {
-      if (now - conversation.lastAccessAt > oneHour) {
-        this.conversations.delete(chatId);
-      }
-    }
+    this.conversations.cleanup(60 * 60 * 1000);
   }
 
   /**
    * Destroy service and cleanup
    */
   destroy(): void {
-    this.conversations.clear();
+    this.conversations.destroy();
   }
 }
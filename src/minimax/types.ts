@@ -3,6 +3,9 @@
  * OpenAI-compatible API for MiniMax
  */
 
+import type { ConversationCacheOptions } from '../llm/conversations';
+import type { ContextManager } from '../llm/context';
+
 export interface MiniMaxServiceOptions {
   /** MiniMax API key */
   apiKey: string;
@@ -16,6 +19,10 @@ export interface MiniMaxServiceOptions {
   systemPrompt?: string;
   /** API endpoint */
   apiEndpoint?: string;
+  /** Durable conversation history and its TTL */
+  conversations?: ConversationCacheOptions;
+  /** Token budget of the history; older turns are summarised when exceeded */
+  context?: ContextManager;
 }
 
 export interface MiniMaxMessage {
@@ -67,6 +74,37 @@ export interface MiniMaxChatResponse {
   };
 }
 
+export interface MiniMaxChatStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface MiniMaxRequestOptions {
+  /** Model override for this request */
+  model?: string;
+  /** System prompt for this request (chat persona); replaces the default */
+  systemPrompt?: string;
+  /** Called with each streamed text delta (enables SSE streaming) */
+  onContent?: (chunk: string) => void;
+  /** Aborts the request (/cancel) */
+  signal?: AbortSignal;
+}
+
 // Custom error classes
 export class MiniMaxServiceError extends Error {
   constructor(message: string, public code?: string) {
@@ -11,12 +11,19 @@ import type {
   MistralResponse,
   MistralChatRequest,
   MistralChatResponse,
+  MistralChatStreamChunk,
+  MistralRequestOptions,
 } from './types';
 import {
   MistralServiceError,
   MistralRateLimitError,
   MistralContentFilterError,
 } from './types';
+import { createSSEParser } from '../utils/sse';
+import { ConversationCache } from '../llm/conversations';
+import { withSummary, type ContextManager, type ContextUsage } from '../llm/context';
+import { runToolLoop, ToolCallAccumulator, type ChatTool, type ToolLoopMessage } from '../llm/tools';
+import { withImages, type ChatImageMessage } from '../llm/vision';
 
 // Default system prompt for the bot
 const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant in Telegram.
@@ -36,8 +43,9 @@ const DEV_SYSTEM_PROMPT = `You are a senior software engineer helping via Telegr
 - Maximum ~3500 characters per reply; if longer, summarize and offer to continue.`;
 
 export class MistralService {
-  private options: Required<MistralServiceOptions>;
-  private conversations: Map<string, MistralConversation> = new Map();
+  private options: Required<Omit<MistralServiceOptions, 'conversations' | 'context'>>;
+  private conversations: ConversationCache<MistralMessage>;
+  private context?: ContextManager;
 
   constructor(options: MistralServiceOptions) {
     this.options = {
@@ -48,6 +56,8 @@ export class MistralService {
       systemPrompt: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
       apiEndpoint: options.apiEndpoint || 'https://api.mistral.ai/v1',
     };
+    this.conversations = new ConversationCache('mistral', options.conversations);
+    this.context = options.context;
   }
 
   /**
@@ -56,9 +66,9 @@ export class MistralService {
   async processMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: MistralRequestOptions
   ): Promise<MistralResponse> {
-    return this.processMessageInternal(chatId, userMessage, this.options.systemPrompt, options?.model);
+    return this.processMessageInternal(chatId, userMessage, options?.systemPrompt || this.options.systemPrompt, options);
   }
 
   /**
@@ -67,10 +77,10 @@ export class MistralService {
   async processDeveloperMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: MistralRequestOptions
   ): Promise<MistralResponse> {
     const scopedChatId = `dev:${chatId}`;
-    return this.processMessageInternal(scopedChatId, userMessage, DEV_SYSTEM_PROMPT, options?.model);
+    return this.processMessageInternal(scopedChatId, userMessage, DEV_SYSTEM_PROMPT, options);
   }
 
   /**
@@ -80,7 +90,7 @@ export class MistralService {
     chatId: string,
     userMessage: string,
     systemPrompt: string,
-    modelOverride?: string,
+    options?: MistralRequestOptions,
   ): Promise<MistralResponse> {
     const conversation = this.getConversation(chatId);
 
@@ -91,18 +101,27 @@ export class MistralService {
     conversation.lastAccessAt = Date.now();
 
     try {
-      const apiMessages: MistralMessage[] = [
-        { role: 'system', content: systemPrompt },
-        ...conversation.messages,
-      ];
-
-      const response = await this.callChatAPI(apiMessages, modelOverride);
+      // Keep the history within the token budget (running summary + recent turns)
+      await this.compactHistory(conversation.messages, systemPrompt, options?.model, options?.signal);
+      const prepared = withSummary(systemPrompt, conversation.messages);
+
+      // Images only go to the API; the history keeps the text
+      const apiMessages = withImages<MistralMessage>([
+        { role: 'system', content: prepared.systemPrompt },
+        ...prepared.messages,
+      ], options?.images);
+
+      // Streaming when a content callback is given, looping over tool calls
+      const response = await runToolLoop(apiMessages, options?.tools, (messages, tools) => options?.onContent
+        ? this.callChatAPIStream(messages, options.onContent, options.model, tools, options.signal)
+        : this.callChatAPI(messages, options?.model, tools, options?.signal));
       const text = response.choices[0]?.message?.content || '';
 
       conversation.messages.push({
         role: 'assistant',
         content: text,
       });
+      this.conversations.save(chatId);
 
       return {
         text,
@@ -122,8 +141,10 @@ export class MistralService {
    * Call Mistral chat completion API
    */
   private async callChatAPI(
-    messages: MistralMessage[],
-    modelOverride?: string
+    messages: Array<MistralMessage | ChatImageMessage | ToolLoopMessage>,
+    modelOverride?: string,
+    tools?: ChatTool[],
+    signal?: AbortSignal
   ): Promise<MistralChatResponse> {
     const requestBody: MistralChatRequest = {
       model: modelOverride || this.options.model,
@@ -131,6 +152,7 @@ export class MistralService {
       max_tokens: this.options.maxTokens,
       temperature: this.options.temperature,
       stream: false,
+      ...(tools ? { tools } : {}),
     };
 
     return new Promise((resolve, reject) => {
@@ -145,6 +167,7 @@ export class MistralService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.options.apiKey}`,
         },
+        signal,
       };
 
       const req = https.request(options, (res) => {
@@ -179,6 +202,136 @@ export class MistralService {
     });
   }
 
+  /**
+   * Call Mistral chat completion API with SSE streaming.
+   * Emits text deltas via `onContent` and resolves with the assembled response.
+   */
+  private async callChatAPIStream(
+    messages: Array<MistralMessage | ChatImageMessage | ToolLoopMessage>,
+    onContent: (chunk: string) => void,
+    modelOverride?: string,
+    tools?: ChatTool[],
+    signal?: AbortSignal
+  ): Promise<MistralChatResponse> {
+    const requestBody: MistralChatRequest = {
+      model: modelOverride || this.options.model,
+      messages,
+      max_tokens: this.options.maxTokens,
+      temperature: this.options.temperature,
+      stream: true,
+      ...(tools ? { tools } : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const url = new URL('/chat/completions', this.options.apiEndpoint);
+
+      const options = {
+        hostname: url.hostname,
+        port: 443,
+        path: url.pathname + url.search,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${this.options.apiKey}`,
+        },
+        signal,
+      };
+
+      const req = https.request(options, (res) => {
+        res.setEncoding('utf8');
+
+        if (res.statusCode !== 200) {
+          let data = '';
+          res.on('data', (chunk: string) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            try {
+              this.handleAPIError(res.statusCode, JSON.parse(data));
+            } catch (error) {
+              reject(error instanceof MistralServiceError ? error : new MistralServiceError(`API error: ${res.statusCode}`));
+            }
+          });
+          return;
+        }
+
+        let text = '';
+        let finishReason = '';
+        // [DONE] or a finish_reason arrived; a stream that closes before that was cut off
+        let finished = false;
+        let model = requestBody.model;
+        let usage: MistralChatResponse['usage'];
+        const toolCalls = new ToolCallAccumulator();
+
+        const parser = createSSEParser((data) => {
+          if (data === '[DONE]') {
+            finished = true;
+            return;
+          }
+
+          let chunk: MistralChatStreamChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            // Ignore malformed keep-alive payloads
+            return;
+          }
+
+          const choice = chunk.choices?.[0];
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onContent(delta);
+          }
+          toolCalls.push(choice?.delta?.tool_calls);
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+            finished = true;
+          }
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+        });
+
+        res.on('data', (chunk: string) => {
+          parser.push(chunk);
+        });
+
+        res.on('end', () => {
+          parser.end();
+          if (!finished) {
+            reject(new MistralServiceError('Stream ended before the answer was complete'));
+            return;
+          }
+          const calls = toolCalls.calls();
+          resolve({
+            id: '',
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model,
+            choices: [{
+              index: 0,
+              message: { role: 'assistant', content: text, ...(calls.length > 0 ? { tool_calls: calls } : {}) },
+              finish_reason: finishReason || 'stop',
+            }],
+            usage,
+          });
+        });
+
+        res.on('error', (error) => {
+          reject(new MistralServiceError(`Stream failed: ${error.message}`));
+        });
+      });
+
+      req.on('error', (error) => {
+        reject(new MistralServiceError(`Request failed: ${error.message}`));
+      });
+
+      req.write(JSON.stringify(requestBody));
+      req.end();
+    });
+  }
+
   getModel(): string {
     return this.options.model;
   }
@@ -208,41 +361,98 @@ export class MistralService {
   }
 
   /**
-   * Get or create conversation for a chat
+   * Summarise older turns with this provider when the history exceeds the token budget
+   */
+  private async compactHistory(
+    messages: MistralMessage[],
+    systemPrompt: string,
+    modelOverride?: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.context) return;
+    await this.context.compact(messages, systemPrompt, modelOverride || this.options.model, async (summaryPrompt, prompt) => {
+      const response = await this.callChatAPI([
+        { role: 'system', content: summaryPrompt },
+        { role: 'user', content: prompt },
+      ], modelOverride, undefined, signal);
+      return response.choices[0]?.message?.content || '';
+    }, signal);
+  }
+
+  /**
+   * Token budget usage of the chat conversation (undefined without a context manager)
+   * @param systemPrompt The chat's persona prompt, when it has one
+   */
+  getContextUsage(chatId: string, modelOverride?: string, systemPrompt?: string): ContextUsage | undefined {
+    const messages = this.conversations.peek(chatId)?.messages || [];
+    return this.context?.getUsage(systemPrompt || this.options.systemPrompt, messages, modelOverride || this.options.model);
+  }
+
+  /**
+   * Get or create conversation for a chat (loaded from storage on first access)
    */
   private getConversation(chatId: string): MistralConversation {
-    let conversation = this.conversations.get(chatId);
-
-    if (!conversation) {
-      conversation = {
-        chatId,
-        messages: [],
-        createdAt: Date.now(),
-        lastAccessAt: Date.now(),
-      };
-      this.conversations.set(chatId, conversation);
+    return this.conversations.get(chatId);
+  }
+
+  /**
+   * Append a user/assistant turn without calling the API (e.g. an answer kept from /compare)
+   */
+  addExchange(chatId: string, userMessage: string, assistantMessage: string): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.push({ role: 'user', content: userMessage }, { role: 'assistant', content: assistantMessage });
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Drop the last user/assistant turn, e.g. to regenerate that answer
+   * @returns false when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string): boolean {
+    const conversation = this.getConversation(chatId);
+    const [user, assistant] = conversation.messages.slice(-2);
+    if (user?.role !== 'user' || assistant?.role !== 'assistant') {
+      return false;
     }
+    conversation.messages.splice(-2, 2);
+    this.conversations.save(chatId);
+    return true;
+  }
 
-    return conversation;
+  /**
+   * Copy of the stored history (a leading system message is the running summary)
+   */
+  getHistory(chatId: string): MistralMessage[] {
+    return [...(this.conversations.peek(chatId)?.messages || [])];
+  }
+
+  /**
+   * Replace the history, e.g. with an imported conversation
+   */
+  replaceHistory(chatId: string, messages: MistralMessage[]): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.splice(0, conversation.messages.length, ...messages);
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Clear conversation history for a chat
+   */
+  clearConversation(chatId: string): void {
+    this.conversations.delete(chatId);
   }
 
   /**
    * Clean up old conversations
    */
   cleanupOldConversations(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
-    const now = Date.now();
-
-    for (const [chatId, conversation] of this.conversations.entries()) {
-      if (now - conversation.lastAccessAt > maxAgeMs) {
-        this.conversations.delete(chatId);
-      }
-    }
+    this.conversations.cleanup(maxAgeMs);
   }
 
   /**
    * Destroy the service and cleanup resources
    */
   destroy(): void {
-    this.conversations.clear();
+    this.conversations.destroy();
   }
 }
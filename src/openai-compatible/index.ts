@@ -0,0 +1,7 @@
+/**
+ * OpenAI-Compatible Provider - Barrel exports
+ */
+
+export * from './types';
+export * from './service';
+export { OpenAICompatibleService as default } from './service';
@@ -0,0 +1,419 @@
+/**
+ * OpenAI-Compatible Provider Service
+ * Chat completions against any OpenAI-style endpoint (self-hosted or cloud)
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import type {
+  OpenAICompatibleServiceOptions,
+  OpenAICompatibleMessage,
+  OpenAICompatibleConversation,
+  OpenAICompatibleResponse,
+  OpenAICompatibleChatRequest,
+  OpenAICompatibleChatResponse,
+  OpenAICompatibleChatStreamChunk,
+  OpenAICompatibleRequestOptions,
+} from './types';
+import { OpenAICompatibleServiceError, OpenAICompatibleRateLimitError } from './types';
+import { createSSEParser } from '../utils/sse';
+import { ConversationCache } from '../llm/conversations';
+import { withSummary, type ContextManager, type ContextUsage } from '../llm/context';
+import { runToolLoop, ToolCallAccumulator, type ChatTool, type ToolLoopMessage } from '../llm/tools';
+import { withImages, type ChatImageMessage } from '../llm/vision';
+
+// Default system prompt for the bot
+const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant in Telegram.
+- Be concise and direct
+- Use markdown for code blocks
+- Respond in user's language when possible
+- Keep responses under 4000 characters
+- Be friendly and professional`;
+
+// Coding-focused system prompt for /code (developer mode)
+const DEV_SYSTEM_PROMPT = `You are a senior software engineer helping via Telegram.
+- Default to Dutch if the user writes Dutch, otherwise mirror the user language.
+- Keep answers compact and actionable. Prefer bullet lists.
+- When providing changes, output unified diffs or apply_patch blocks. If multiple files, separate code blocks per file.
+- Never invent files that don't exist; if context is missing, ask a short clarifying question first.
+- For shell steps, use bash fenced blocks. For code, use the correct language fences.
+- Maximum ~3500 characters per reply; if longer, summarize and offer to continue.`;
+
+export class OpenAICompatibleService {
+  private options: Required<Omit<OpenAICompatibleServiceOptions, 'conversations' | 'context'>>;
+  private conversations: ConversationCache<OpenAICompatibleMessage>;
+  private context?: ContextManager;
+
+  constructor(options: OpenAICompatibleServiceOptions) {
+    this.options = {
+      name: options.name,
+      baseUrl: options.baseUrl.replace(/\/+$/, ''),
+      model: options.model,
+      apiKey: options.apiKey || '',
+      label: options.label || options.name,
+      maxTokens: options.maxTokens || 4096,
+      temperature: options.temperature || 0.7,
+      systemPrompt: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+      timeout: options.timeout || 120000,
+    };
+    this.conversations = new ConversationCache(`openai:${options.name.trim().toLowerCase()}`, options.conversations);
+    this.context = options.context;
+  }
+
+  /**
+   * Process a message from a user and get AI response
+   */
+  async processMessage(
+    chatId: string,
+    userMessage: string,
+    options?: OpenAICompatibleRequestOptions
+  ): Promise<OpenAICompatibleResponse> {
+    return this.processMessageInternal(chatId, userMessage, options?.systemPrompt || this.options.systemPrompt, options);
+  }
+
+  /**
+   * Process a developer-focused message (used by /code)
+   */
+  async processDeveloperMessage(
+    chatId: string,
+    userMessage: string,
+    options?: OpenAICompatibleRequestOptions
+  ): Promise<OpenAICompatibleResponse> {
+    const scopedChatId = `dev:${chatId}`;
+    return this.processMessageInternal(scopedChatId, userMessage, DEV_SYSTEM_PROMPT, options);
+  }
+
+  /**
+   * Shared message processor with custom system prompt
+   */
+  private async processMessageInternal(
+    chatId: string,
+    userMessage: string,
+    systemPrompt: string,
+    options?: OpenAICompatibleRequestOptions,
+  ): Promise<OpenAICompatibleResponse> {
+    const conversation = this.getConversation(chatId);
+
+    conversation.messages.push({
+      role: 'user',
+      content: userMessage,
+    });
+    conversation.lastAccessAt = Date.now();
+
+    try {
+      // Keep the history within the token budget (running summary + recent turns)
+      await this.compactHistory(conversation.messages, systemPrompt, options?.model, options?.signal);
+      const prepared = withSummary(systemPrompt, conversation.messages);
+
+      // Images only go to the API; the history keeps the text
+      const apiMessages = withImages<OpenAICompatibleMessage>([
+        { role: 'system', content: prepared.systemPrompt },
+        ...prepared.messages,
+      ], options?.images);
+
+      const response = await runToolLoop(apiMessages, options?.tools, (messages, tools) =>
+        this.callChatAPI(messages, options?.model, options?.onContent, tools, options?.signal));
+      const text = response.choices[0]?.message?.content || '';
+
+      conversation.messages.push({
+        role: 'assistant',
+        content: text,
+      });
+      this.conversations.save(chatId);
+
+      return {
+        text,
+        usage: response.usage ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        } : undefined,
+      };
+    } catch (error) {
+      conversation.messages.pop();
+      throw error;
+    }
+  }
+
+  /**
+   * Call the chat completions endpoint.
+   * With `onContent` the request is streamed (SSE) and deltas are emitted as they arrive.
+   */
+  private async callChatAPI(
+    messages: Array<OpenAICompatibleMessage | ChatImageMessage | ToolLoopMessage>,
+    modelOverride?: string,
+    onContent?: (chunk: string) => void,
+    tools?: ChatTool[],
+    signal?: AbortSignal
+  ): Promise<OpenAICompatibleChatResponse> {
+    const requestBody: OpenAICompatibleChatRequest = {
+      model: modelOverride || this.options.model,
+      messages,
+      max_tokens: this.options.maxTokens,
+      temperature: this.options.temperature,
+      stream: !!onContent,
+      ...(onContent ? { stream_options: { include_usage: true } } : {}),
+      ...(tools ? { tools } : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const url = new URL(`${this.options.baseUrl}/chat/completions`);
+      const transport = url.protocol === 'http:' ? http : https;
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (onContent) {
+        headers['Accept'] = 'text/event-stream';
+      }
+      if (this.options.apiKey) {
+        headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+      }
+
+      const req = transport.request({
+        hostname: url.hostname,
+        port: url.port || (url.protocol === 'http:' ? 80 : 443),
+        path: url.pathname + url.search,
+        method: 'POST',
+        headers,
+        timeout: this.options.timeout,
+        signal,
+      }, (res) => {
+        res.setEncoding('utf8');
+
+        if (res.statusCode !== 200 || !onContent) {
+          let data = '';
+          res.on('data', (chunk: string) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            try {
+              const parsed: unknown = JSON.parse(data);
+              if (res.statusCode !== 200) {
+                this.handleAPIError(res.statusCode, parsed);
+              }
+              resolve(parsed as OpenAICompatibleChatResponse);
+            } catch (error) {
+              reject(error instanceof OpenAICompatibleServiceError
+                ? error
+                : new OpenAICompatibleServiceError(`Failed to parse response (${res.statusCode}): ${error}`));
+            }
+          });
+          return;
+        }
+
+        let text = '';
+        let finishReason = '';
+        // [DONE] or a finish_reason arrived; a stream that closes before that was cut off
+        let finished = false;
+        let model = requestBody.model;
+        let usage: OpenAICompatibleChatResponse['usage'];
+        const toolCalls = new ToolCallAccumulator();
+
+        const parser = createSSEParser((data) => {
+          if (data === '[DONE]') {
+            finished = true;
+            return;
+          }
+
+          let chunk: OpenAICompatibleChatStreamChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            // Ignore malformed keep-alive payloads
+            return;
+          }
+
+          const choice = chunk.choices?.[0];
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onContent(delta);
+          }
+          toolCalls.push(choice?.delta?.tool_calls);
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+            finished = true;
+          }
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+        });
+
+        res.on('data', (chunk: string) => {
+          parser.push(chunk);
+        });
+
+        res.on('end', () => {
+          parser.end();
+          if (!finished) {
+            reject(new OpenAICompatibleServiceError('Stream ended before the answer was complete'));
+            return;
+          }
+          const calls = toolCalls.calls();
+          resolve({
+            id: '',
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model,
+            choices: [{
+              index: 0,
+              message: { role: 'assistant', content: text, ...(calls.length > 0 ? { tool_calls: calls } : {}) },
+              finish_reason: finishReason || 'stop',
+            }],
+            usage,
+          });
+        });
+
+        res.on('error', (error) => {
+          reject(new OpenAICompatibleServiceError(`Stream failed: ${error.message}`));
+        });
+      });
+
+      req.on('timeout', () => {
+        req.destroy(new Error(`timed out after ${this.options.timeout}ms`));
+      });
+
+      req.on('error', (error) => {
+        reject(new OpenAICompatibleServiceError(`Request to ${this.options.name} failed: ${error.message}`));
+      });
+
+      req.write(JSON.stringify(requestBody));
+      req.end();
+    });
+  }
+
+  /**
+   * Handle API errors and convert to appropriate error types
+   */
+  private handleAPIError(statusCode: number | undefined, errorData: unknown): never {
+    const hasErrorMessage = (data: unknown): data is { error: { message?: string; code?: string } | string } => {
+      return typeof data === 'object' && data !== null && 'error' in data;
+    };
+
+    let message = `API error: ${statusCode}`;
+    let code: string | undefined;
+    if (hasErrorMessage(errorData)) {
+      // Some servers (Ollama) return a plain string error
+      if (typeof errorData.error === 'string') {
+        message = errorData.error;
+      } else {
+        message = errorData.error?.message || message;
+        code = errorData.error?.code;
+      }
+    }
+
+    if (statusCode === 429) {
+      throw new OpenAICompatibleRateLimitError(message);
+    }
+
+    throw new OpenAICompatibleServiceError(message, code);
+  }
+
+  getName(): string {
+    return this.options.name;
+  }
+
+  getLabel(): string {
+    return this.options.label;
+  }
+
+  getModel(): string {
+    return this.options.model;
+  }
+
+  /**
+   * Summarise older turns with this provider when the history exceeds the token budget
+   */
+  private async compactHistory(
+    messages: OpenAICompatibleMessage[],
+    systemPrompt: string,
+    modelOverride?: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.context) return;
+    await this.context.compact(messages, systemPrompt, modelOverride || this.options.model, async (summaryPrompt, prompt) => {
+      const response = await this.callChatAPI([
+        { role: 'system', content: summaryPrompt },
+        { role: 'user', content: prompt },
+      ], modelOverride, undefined, undefined, signal);
+      return response.choices[0]?.message?.content || '';
+    }, signal);
+  }
+
+  /**
+   * Token budget usage of the chat conversation (undefined without a context manager)
+   * @param systemPrompt The chat's persona prompt, when it has one
+   */
+  getContextUsage(chatId: string, modelOverride?: string, systemPrompt?: string): ContextUsage | undefined {
+    const messages = this.conversations.peek(chatId)?.messages || [];
+    return this.context?.getUsage(systemPrompt || this.options.systemPrompt, messages, modelOverride || this.options.model);
+  }
+
+  /**
+   * Get or create conversation for a chat (loaded from storage on first access)
+   */
+  private getConversation(chatId: string): OpenAICompatibleConversation {
+    return this.conversations.get(chatId);
+  }
+
+  /**
+   * Append a user/assistant turn without calling the API (e.g. an answer kept from /compare)
+   */
+  addExchange(chatId: string, userMessage: string, assistantMessage: string): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.push({ role: 'user', content: userMessage }, { role: 'assistant', content: assistantMessage });
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Drop the last user/assistant turn, e.g. to regenerate that answer
+   * @returns false when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string): boolean {
+    const conversation = this.getConversation(chatId);
+    const [user, assistant] = conversation.messages.slice(-2);
+    if (user?.role !== 'user' || assistant?.role !== 'assistant') {
+      return false;
+    }
+    conversation.messages.splice(-2, 2);
+    this.conversations.save(chatId);
+    return true;
+  }
+
+  /**
+   * Copy of the stored history (a leading system message is the running summary)
+   */
+  getHistory(chatId: string): OpenAICompatibleMessage[] {
+    return [...(this.conversations.peek(chatId)?.messages || [])];
+  }
+
+  /**
+   * Replace the history, e.g. with an imported conversation
+   */
+  replaceHistory(chatId: string, messages: OpenAICompatibleMessage[]): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.splice(0, conversation.messages.length, ...messages);
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Clear conversation history for a chat
+   */
+  clearConversation(chatId: string): void {
+    this.conversations.delete(chatId);
+  }
+
+  /**
+   * Clean up old conversations
+   */
+  cleanupOldConversations(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
+    this.conversations.cleanup(maxAgeMs);
+  }
+
+  /**
+   * Destroy the service and cleanup resources
+   */
+  destroy(): void {
+    this.conversations.destroy();
+  }
+}
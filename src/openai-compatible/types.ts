@@ -0,0 +1,139 @@
+/**
+ * OpenAI-Compatible Provider Types
+ * Generic chat completions API (llama.cpp, Ollama, vLLM, LM Studio, ...)
+ */
+
+import type { ConversationCacheOptions } from '../llm/conversations';
+import type { ContextManager } from '../llm/context';
+import type { ChatTool, ChatToolCall, ChatToolCallDelta, LLMToolSession, ToolLoopMessage } from '../llm/tools';
+import type { ChatImageMessage, LLMImage } from '../llm/vision';
+
+export interface OpenAICompatibleServiceOptions {
+  /** Instance name, used as provider id suffix (e.g. "local" -> "openai:local") */
+  name: string;
+  /** Base URL including version path (e.g. http://localhost:11434/v1) */
+  baseUrl: string;
+  /** Default model */
+  model: string;
+  /** API key (optional for most self-hosted servers) */
+  apiKey?: string;
+  /** Display label (default: name) */
+  label?: string;
+  /** Maximum tokens in response */
+  maxTokens?: number;
+  /** Temperature for response generation */
+  temperature?: number;
+  /** System prompt for the bot */
+  systemPrompt?: string;
+  /** Request timeout in ms (default: 120000) */
+  timeout?: number;
+  /** Durable conversation history and its TTL */
+  conversations?: ConversationCacheOptions;
+  /** Token budget of the history; older turns are summarised when exceeded */
+  context?: ContextManager;
+}
+
+export interface OpenAICompatibleMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface OpenAICompatibleConversation {
+  chatId: string;
+  messages: OpenAICompatibleMessage[];
+  createdAt: number;
+  lastAccessAt: number;
+}
+
+export interface OpenAICompatibleResponse {
+  text: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export interface OpenAICompatibleChatRequest {
+  model: string;
+  messages: Array<OpenAICompatibleMessage | ChatImageMessage | ToolLoopMessage>;
+  /** Functions the model may call */
+  tools?: ChatTool[];
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+  /** Ask for a final usage chunk when streaming */
+  stream_options?: { include_usage: boolean };
+}
+
+export interface OpenAICompatibleChatResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+      tool_calls?: ChatToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleChatStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: ChatToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleRequestOptions {
+  /** Model override for this request */
+  model?: string;
+  /** System prompt for this request (chat persona); replaces the default */
+  systemPrompt?: string;
+  /** Called with each streamed text delta (enables SSE streaming) */
+  onContent?: (chunk: string) => void;
+  /** Functions the model may call; runs the tool loop */
+  tools?: LLMToolSession;
+  /** Aborts the request (/cancel) */
+  signal?: AbortSignal;
+  /** Images with the user message (vision models only, not stored in the history) */
+  images?: LLMImage[];
+}
+
+// Custom error classes
+export class OpenAICompatibleServiceError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'OpenAICompatibleServiceError';
+  }
+}
+
+export class OpenAICompatibleRateLimitError extends OpenAICompatibleServiceError {
+  constructor(message: string = 'Rate limit exceeded') {
+    super(message, 'RATE_LIMIT');
+    this.name = 'OpenAICompatibleRateLimitError';
+  }
+}
@@ -57,7 +57,7 @@ export class ConfirmationManager {
    */
   requiresConfirmation(tool: ToolUseEvent): boolean {
     // Check if tool is inherently dangerous
-    if (DANGEROUS_TOOLS.has(tool.name)) {
+    if (tool.requiresConfirmation || DANGEROUS_TOOLS.has(tool.name)) {
       return true;
     }
 
@@ -110,7 +110,8 @@ export class MessageStreamer {
     messageId: number,
     content: string,
     maxLength: number = 4000,
-    parseMode?: 'Markdown' | 'MarkdownV2' | 'HTML'
+    parseMode?: 'Markdown' | 'MarkdownV2' | 'HTML',
+    replyMarkup?: object
   ): Promise<void> {
     const truncated = content.length > maxLength
       ? content.substring(0, maxLength) + '\n\n_...continuing..._'
@@ -122,6 +123,7 @@ export class MessageStreamer {
         message_id: messageId,
         text: truncated,
         parse_mode: parseMode,
+        reply_markup: replyMarkup,
       });
     } catch (error) {
       // Log but don't throw - transient errors are ok
@@ -174,9 +176,11 @@ export class MessageStreamer {
       maxLength?: number;
       parseMode?: 'Markdown' | 'MarkdownV2' | 'HTML';
       throttleMs?: number;
+      /** Inline keyboard to keep on the message (edits without it remove the buttons) */
+      replyMarkup?: object;
     } = {}
   ): Promise<void> {
-    const { maxLength = 4000, parseMode, throttleMs = 500 } = options;
+    const { maxLength = 4000, parseMode, throttleMs = 500, replyMarkup } = options;
     const key = `${chatId}:${messageId}`;
 
     // Store pending update
@@ -193,7 +197,7 @@ export class MessageStreamer {
       const content = this.pendingUpdates.get(key);
       if (!content) return;
 
-      await this.updateMessage(chatId, messageId, content, maxLength, parseMode);
+      await this.updateMessage(chatId, messageId, content, maxLength, parseMode, replyMarkup);
       this.pendingUpdates.delete(key);
       this.updateThrottle.delete(key);
     }, throttleMs);
@@ -27,6 +27,10 @@ export interface ToolUseEvent {
   name: string;
   input: Record<string, unknown>;
   timestamp: Date;
+  /** Set by the LLM tool registry for bot functions with side effects */
+  requiresConfirmation?: boolean;
+  /** The Claude CLI asks onPermissionRequest before running the tool; onToolUse should not ask again */
+  gated?: boolean;
 }
 
 export interface ToolResultEvent {
@@ -68,6 +72,10 @@ export interface ClaudeCodeStreamCallbacks {
   onStatusChange?: (status: StreamStatus) => void;
   onError?: (error: Error) => void;
   onComplete?: (result: StreamingResult) => void;
+  /** Every raw stdout line of the Claude CLI (stream-json), used for recording fixtures */
+  onRawLine?: (line: string) => void;
+  /** Claude CLI: called before a tool runs; resolve to allow it, throw to deny it and stop the request */
+  onPermissionRequest?: (tool: ToolUseEvent) => Promise<void>;
 }
 
 export interface StreamingResult {
@@ -77,6 +85,17 @@ export interface StreamingResult {
   durationMs: number;
   exitCode: number;
   toolHistory: ToolUseEvent[];
+  /** Token usage reported by the provider */
+  usage?: StreamingUsage;
+  /** Provider that produced the answer, set by the LLM router (may be a fallback) */
+  provider?: string;
+}
+
+export interface StreamingUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost as reported by the provider itself (Claude CLI) */
+  costUSD?: number;
 }
 
 // =============================================================================
@@ -10,7 +10,7 @@
 export interface PluginConfig {
   /** Telegram Bot token */
   botToken: string;
-  /** Anthropic API key for Claude integration (deprecated, use zaiApiKey) */
+  /** Anthropic API key for the `anthropic` provider (Claude via the Messages API) */
   anthropicApiKey?: string;
   /** Z.ai API key for GLM-4.7 integration */
   zaiApiKey?: string;
@@ -18,6 +18,12 @@ export interface PluginConfig {
   miniMaxApiKey?: string;
   /** Mistral API key for Mistral integration */
   mistralApiKey?: string;
+  /** OpenAI-compatible endpoints (llama.cpp, Ollama, vLLM, ...) */
+  openAICompatibleProviders?: OpenAICompatibleProviderConfig[];
+  /** Prijzen per model in USD per 1M tokens (aanvulling op de ingebouwde lijst) */
+  llmPrices?: Record<string, { input: number; output: number }>;
+  /** Tokenbudget van de gespreksgeschiedenis per model (exact of prefix) */
+  llmContextBudgets?: Record<string, number>;
   /** Plugin opties */
   options?: PluginOptions;
 }
@@ -37,6 +43,29 @@ export interface PluginOptions {
   claude?: ClaudeOptions;
 }
 
+// =============================================================================
+// OpenAI-Compatible Providers
+// =============================================================================
+
+export interface OpenAICompatibleProviderConfig {
+  /** Instance naam, wordt provider "openai:<name>" */
+  name: string;
+  /** Base URL inclusief versie pad (bijv. http://localhost:11434/v1) */
+  baseUrl: string;
+  /** Default model */
+  model: string;
+  /** API key (optioneel voor de meeste self-hosted servers) */
+  apiKey?: string;
+  /** Weergavenaam in /llm (default: name) */
+  label?: string;
+  /** Model voor /code (default: model) */
+  devModel?: string;
+  /** Model voor foto's (default: model, als dat multimodaal is) */
+  visionModel?: string;
+  /** Extra aliassen voor /llm set */
+  aliases?: string[];
+}
+
 // =============================================================================
 // Claude Options
 // =============================================================================
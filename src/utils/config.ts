@@ -3,7 +3,7 @@
  * Laadt configuratie uit environment variables en config bestanden
  */
 
-import type { PluginConfig, PluginOptions } from '../types/plugin';
+import type { PluginConfig, PluginOptions, OpenAICompatibleProviderConfig } from '../types/plugin';
 import { logger } from './logger';
 import type { SessionOptions } from '../types/session';
 import type { LogLevel, LoggerOptions } from './logger';
@@ -33,18 +33,121 @@ export function validateConfig(config: Partial<PluginConfig>): config is PluginC
 export function loadConfig(): Partial<PluginConfig> {
   const config: Partial<PluginConfig> = {
     botToken: process.env.TELEGRAM_BOT_TOKEN || process.env.BOT_TOKEN,
-    // Prefer Z.ai API key over Anthropic
-    zaiApiKey: process.env.ZAI_API_KEY || process.env.ANTHROPIC_API_KEY,
+    zaiApiKey: process.env.ZAI_API_KEY,
+    // Anthropic API key (Claude via the Messages API, no CLI needed)
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     // MiniMax API key (additional fallback)
     miniMaxApiKey: process.env.MINIMAX_API_KEY,
     // Mistral API key (additional provider)
     mistralApiKey: process.env.MISTRAL_API_KEY,
+    // Self-hosted / OpenAI-compatible endpoints
+    openAICompatibleProviders: loadOpenAICompatibleProviders(),
+    // Per-model prices for /usage, JSON: {"glm-4.7":{"input":0.6,"output":2.2}}
+    llmPrices: loadLLMPrices(),
+    // History token budget per model, JSON: {"glm-4.7":100000}
+    llmContextBudgets: loadContextBudgets(),
     options: loadOptions(),
   };
 
   return config;
 }
 
+/**
+ * Load OpenAI-compatible endpoints from env.
+ * OPENAI_COMPAT_PROVIDERS=local,vllm defines the instances, each configured via
+ * OPENAI_COMPAT_<NAME>_BASE_URL, _MODEL, _API_KEY, _LABEL, _DEV_MODEL, _VISION_MODEL and _ALIASES.
+ */
+export function loadOpenAICompatibleProviders(): OpenAICompatibleProviderConfig[] | undefined {
+  const names = (process.env.OPENAI_COMPAT_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: OpenAICompatibleProviderConfig[] = [];
+  for (const name of names) {
+    const prefix = `OPENAI_COMPAT_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const baseUrl = process.env[`${prefix}BASE_URL`];
+    const model = process.env[`${prefix}MODEL`];
+
+    if (!baseUrl || !model) {
+      logger.warn(`OpenAI-compatible provider "${name}" skipped: ${prefix}BASE_URL and ${prefix}MODEL are required`);
+      continue;
+    }
+
+    providers.push({
+      name,
+      baseUrl,
+      model,
+      apiKey: process.env[`${prefix}API_KEY`],
+      label: process.env[`${prefix}LABEL`],
+      devModel: process.env[`${prefix}DEV_MODEL`],
+      visionModel: process.env[`${prefix}VISION_MODEL`],
+      aliases: process.env[`${prefix}ALIASES`]
+        ?.split(',')
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+    });
+  }
+
+  return providers.length > 0 ? providers : undefined;
+}
+
+/**
+ * Load per-model prices (USD per 1M tokens) from LLM_PRICES
+ */
+export function loadLLMPrices(): PluginConfig['llmPrices'] {
+  const raw = process.env.LLM_PRICES;
+  if (!raw) return undefined;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('expected an object');
+    }
+
+    const prices: NonNullable<PluginConfig['llmPrices']> = {};
+    for (const [model, price] of Object.entries(parsed as Record<string, { input?: unknown; output?: unknown }>)) {
+      if (typeof price?.input === 'number' && typeof price?.output === 'number') {
+        prices[model] = { input: price.input, output: price.output };
+      } else {
+        logger.warn(`LLM_PRICES: invalid price for "${model}" (expected { input, output } numbers)`);
+      }
+    }
+    return prices;
+  } catch (error) {
+    logger.warn(`LLM_PRICES is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Load per-model history token budgets from LLM_CONTEXT_BUDGETS
+ */
+export function loadContextBudgets(): PluginConfig['llmContextBudgets'] {
+  const raw = process.env.LLM_CONTEXT_BUDGETS;
+  if (!raw) return undefined;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('expected an object');
+    }
+
+    const budgets: NonNullable<PluginConfig['llmContextBudgets']> = {};
+    for (const [model, budget] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof budget === 'number' && budget > 0) {
+        budgets[model] = budget;
+      } else {
+        logger.warn(`LLM_CONTEXT_BUDGETS: invalid budget for "${model}" (expected a positive number)`);
+      }
+    }
+    return budgets;
+  } catch (error) {
+    logger.warn(`LLM_CONTEXT_BUDGETS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
 export function loadOptions(): PluginOptions | undefined {
   const options: PluginOptions = {};
   const sessionStorage = parseEnumEnv<NonNullable<SessionOptions['storage']>>(
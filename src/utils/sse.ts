@@ -0,0 +1,65 @@
+/**
+ * Server-Sent Events parser
+ * Splitst een SSE response stream in losse `data:` payloads
+ */
+
+export interface SSEParser {
+  /** Feed a raw chunk from the response stream */
+  push(chunk: string): void;
+  /** Flush any buffered (unterminated) event */
+  end(): void;
+}
+
+/**
+ * Create an incremental SSE parser.
+ * `onData` is called once per event with the joined `data:` lines.
+ */
+export function createSSEParser(onData: (data: string) => void): SSEParser {
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = (): void => {
+    if (dataLines.length === 0) return;
+    const data = dataLines.join('\n');
+    dataLines = [];
+    onData(data);
+  };
+
+  const processLine = (rawLine: string): void => {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+    // Empty line terminates an event
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    // Comment line (keep-alive)
+    if (line.startsWith(':')) return;
+
+    if (line.startsWith('data:')) {
+      const value = line.slice(5);
+      dataLines.push(value.startsWith(' ') ? value.slice(1) : value);
+    }
+    // Other fields (event:, id:, retry:) are not used by chat completion APIs
+  };
+
+  return {
+    push(chunk: string): void {
+      buffer += chunk;
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        processLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    },
+    end(): void {
+      if (buffer) {
+        processLine(buffer);
+        buffer = '';
+      }
+      dispatch();
+    },
+  };
+}
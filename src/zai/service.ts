@@ -4,8 +4,22 @@
  */
 
 import * as https from 'https';
-import type { ZAIServiceOptions, ZAIMessage, ZAIConversation, ZAIResponse, ZAIChatRequest, ZAIChatResponse } from './types';
+import type {
+  ZAIServiceOptions,
+  ZAIMessage,
+  ZAIConversation,
+  ZAIResponse,
+  ZAIChatRequest,
+  ZAIChatResponse,
+  ZAIChatStreamChunk,
+  ZAIRequestOptions,
+} from './types';
 import { ZAIServiceError, ZAIRateLimitError, ZAIContentFilterError } from './types';
+import { createSSEParser } from '../utils/sse';
+import { ConversationCache } from '../llm/conversations';
+import { withSummary, type ContextManager, type ContextUsage } from '../llm/context';
+import { runToolLoop, ToolCallAccumulator, type ChatTool, type ToolLoopMessage } from '../llm/tools';
+import { withImages, type ChatImageMessage } from '../llm/vision';
 
 // Default system prompt for the bot
 const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant in Telegram.
@@ -25,8 +39,9 @@ const DEV_SYSTEM_PROMPT = `You are a senior software engineer helping via Telegr
 - Maximum ~3500 characters per reply; if longer, summarize and offer to continue.`;
 
 export class ZAIService {
-  private options: Required<ZAIServiceOptions>;
-  private conversations: Map<string, ZAIConversation> = new Map();
+  private options: Required<Omit<ZAIServiceOptions, 'conversations' | 'context'>>;
+  private conversations: ConversationCache<ZAIMessage>;
+  private context?: ContextManager;
 
   constructor(options: ZAIServiceOptions) {
     this.options = {
@@ -37,6 +52,8 @@ export class ZAIService {
       systemPrompt: options.systemPrompt || DEFAULT_SYSTEM_PROMPT,
       apiEndpoint: options.apiEndpoint || 'https://api.z.ai/api/coding/paas/v4',
     };
+    this.conversations = new ConversationCache('zai', options.conversations);
+    this.context = options.context;
   }
 
   /**
@@ -45,9 +62,9 @@ export class ZAIService {
   async processMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: ZAIRequestOptions
   ): Promise<ZAIResponse> {
-    return this.processMessageInternal(chatId, userMessage, this.options.systemPrompt, options?.model);
+    return this.processMessageInternal(chatId, userMessage, options?.systemPrompt || this.options.systemPrompt, options);
   }
 
   /**
@@ -56,11 +73,11 @@ export class ZAIService {
   async processDevMessage(
     chatId: string,
     userMessage: string,
-    options?: { model?: string }
+    options?: ZAIRequestOptions
   ): Promise<ZAIResponse> {
     // Use separate conversation namespace to avoid mixing with chat mode
     const scopedChatId = `dev:${chatId}`;
-    return this.processMessageInternal(scopedChatId, userMessage, DEV_SYSTEM_PROMPT, options?.model);
+    return this.processMessageInternal(scopedChatId, userMessage, DEV_SYSTEM_PROMPT, options);
   }
 
   /**
@@ -70,7 +87,7 @@ export class ZAIService {
     chatId: string,
     userMessage: string,
     systemPrompt: string,
-    modelOverride?: string,
+    options?: ZAIRequestOptions,
   ): Promise<ZAIResponse> {
     // Get or create conversation
     const conversation = this.getConversation(chatId);
@@ -83,14 +100,20 @@ export class ZAIService {
     conversation.lastAccessAt = Date.now();
 
     try {
-      // Prepare messages for API (include system prompt)
-      const apiMessages: ZAIMessage[] = [
-        { role: 'system', content: systemPrompt },
-        ...conversation.messages,
-      ];
+      // Keep the history within the token budget (running summary + recent turns)
+      await this.compactHistory(conversation.messages, systemPrompt, options?.model, options?.signal);
+      const prepared = withSummary(systemPrompt, conversation.messages);
+
+      // Prepare messages for API (include system prompt); images only go to the API, the history keeps the text
+      const apiMessages = withImages<ZAIMessage>([
+        { role: 'system', content: prepared.systemPrompt },
+        ...prepared.messages,
+      ], options?.images);
 
-      // Call Z.ai API
-      const response = await this.callChatAPI(apiMessages, modelOverride);
+      // Call Z.ai API (streaming when a content callback is given), looping over tool calls
+      const response = await runToolLoop(apiMessages, options?.tools, (messages, tools) => options?.onContent
+        ? this.callChatAPIStream(messages, options.onContent, options.model, tools, options.signal)
+        : this.callChatAPI(messages, options?.model, tools, options?.signal));
 
       // Extract response text
       const text = response.choices[0]?.message?.content || '';
@@ -100,6 +123,7 @@ export class ZAIService {
         role: 'assistant',
         content: text,
       });
+      this.conversations.save(chatId);
 
       return {
         text,
@@ -120,8 +144,10 @@ export class ZAIService {
    * Call Z.ai chat completion API
    */
   private async callChatAPI(
-    messages: ZAIMessage[],
-    modelOverride?: string
+    messages: Array<ZAIMessage | ChatImageMessage | ToolLoopMessage>,
+    modelOverride?: string,
+    tools?: ChatTool[],
+    signal?: AbortSignal
   ): Promise<ZAIChatResponse> {
     const requestBody: ZAIChatRequest = {
       model: modelOverride || this.options.model,
@@ -129,6 +155,7 @@ export class ZAIService {
       max_tokens: this.options.maxTokens,
       temperature: this.options.temperature,
       stream: false,
+      ...(tools ? { tools } : {}),
     };
 
     return new Promise((resolve, reject) => {
@@ -143,6 +170,7 @@ export class ZAIService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.options.apiKey}`,
         },
+        signal,
       };
 
       const req = https.request(options, (res) => {
@@ -177,6 +205,136 @@ export class ZAIService {
     });
   }
 
+  /**
+   * Call Z.ai chat completion API with SSE streaming.
+   * Emits text deltas via `onContent` and resolves with the assembled response.
+   */
+  private async callChatAPIStream(
+    messages: Array<ZAIMessage | ChatImageMessage | ToolLoopMessage>,
+    onContent: (chunk: string) => void,
+    modelOverride?: string,
+    tools?: ChatTool[],
+    signal?: AbortSignal
+  ): Promise<ZAIChatResponse> {
+    const requestBody: ZAIChatRequest = {
+      model: modelOverride || this.options.model,
+      messages,
+      max_tokens: this.options.maxTokens,
+      temperature: this.options.temperature,
+      stream: true,
+      ...(tools ? { tools } : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const url = new URL('/chat/completions', this.options.apiEndpoint);
+
+      const options = {
+        hostname: url.hostname,
+        port: 443,
+        path: url.pathname + url.search,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${this.options.apiKey}`,
+        },
+        signal,
+      };
+
+      const req = https.request(options, (res) => {
+        res.setEncoding('utf8');
+
+        if (res.statusCode !== 200) {
+          let data = '';
+          res.on('data', (chunk: string) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            try {
+              this.handleAPIError(res.statusCode, JSON.parse(data));
+            } catch (error) {
+              reject(error instanceof ZAIServiceError ? error : new ZAIServiceError(`API error: ${res.statusCode}`));
+            }
+          });
+          return;
+        }
+
+        let text = '';
+        let finishReason = '';
+        // [DONE] or a finish_reason arrived; a stream that closes before that was cut off
+        let finished = false;
+        let model = requestBody.model;
+        let usage: ZAIChatResponse['usage'];
+        const toolCalls = new ToolCallAccumulator();
+
+        const parser = createSSEParser((data) => {
+          if (data === '[DONE]') {
+            finished = true;
+            return;
+          }
+
+          let chunk: ZAIChatStreamChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            // Ignore malformed keep-alive payloads
+            return;
+          }
+
+          const choice = chunk.choices?.[0];
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onContent(delta);
+          }
+          toolCalls.push(choice?.delta?.tool_calls);
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+            finished = true;
+          }
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+        });
+
+        res.on('data', (chunk: string) => {
+          parser.push(chunk);
+        });
+
+        res.on('end', () => {
+          parser.end();
+          if (!finished) {
+            reject(new ZAIServiceError('Stream ended before the answer was complete'));
+            return;
+          }
+          const calls = toolCalls.calls();
+          resolve({
+            id: '',
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model,
+            choices: [{
+              index: 0,
+              message: { role: 'assistant', content: text, ...(calls.length > 0 ? { tool_calls: calls } : {}) },
+              finish_reason: finishReason || 'stop',
+            }],
+            usage,
+          });
+        });
+
+        res.on('error', (error) => {
+          reject(new ZAIServiceError(`Stream failed: ${error.message}`));
+        });
+      });
+
+      req.on('error', (error) => {
+        reject(new ZAIServiceError(`Request failed: ${error.message}`));
+      });
+
+      req.write(JSON.stringify(requestBody));
+      req.end();
+    });
+  }
+
   getModel(): string {
     return this.options.model;
   }
@@ -207,22 +365,78 @@ export class ZAIService {
   }
 
   /**
-   * Get or create conversation for a chat
+   * Summarise older turns with this provider when the history exceeds the token budget
+   */
+  private async compactHistory(
+    messages: ZAIMessage[],
+    systemPrompt: string,
+    modelOverride?: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.context) return;
+    await this.context.compact(messages, systemPrompt, modelOverride || this.options.model, async (summaryPrompt, prompt) => {
+      const response = await this.callChatAPI([
+        { role: 'system', content: summaryPrompt },
+        { role: 'user', content: prompt },
+      ], modelOverride, undefined, signal);
+      return response.choices[0]?.message?.content || '';
+    }, signal);
+  }
+
+  /**
+   * Token budget usage of the chat conversation (undefined without a context manager)
+   * @param systemPrompt The chat's persona prompt, when it has one
+   */
+  getContextUsage(chatId: string, modelOverride?: string, systemPrompt?: string): ContextUsage | undefined {
+    const messages = this.conversations.peek(chatId)?.messages || [];
+    return this.context?.getUsage(systemPrompt || this.options.systemPrompt, messages, modelOverride || this.options.model);
+  }
+
+  /**
+   * Get or create conversation for a chat (loaded from storage on first access)
    */
   private getConversation(chatId: string): ZAIConversation {
-    let conversation = this.conversations.get(chatId);
+    return this.conversations.get(chatId);
+  }
 
-    if (!conversation) {
-      conversation = {
-        chatId,
-        messages: [],
-        createdAt: Date.now(),
-        lastAccessAt: Date.now(),
-      };
-      this.conversations.set(chatId, conversation);
+  /**
+   * Append a user/assistant turn without calling the API (e.g. an answer kept from /compare)
+   */
+  addExchange(chatId: string, userMessage: string, assistantMessage: string): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.push({ role: 'user', content: userMessage }, { role: 'assistant', content: assistantMessage });
+    this.conversations.save(chatId);
+  }
+
+  /**
+   * Drop the last user/assistant turn, e.g. to regenerate that answer
+   * @returns false when the history does not end with an answer
+   */
+  removeLastExchange(chatId: string): boolean {
+    const conversation = this.getConversation(chatId);
+    const [user, assistant] = conversation.messages.slice(-2);
+    if (user?.role !== 'user' || assistant?.role !== 'assistant') {
+      return false;
     }
+    conversation.messages.splice(-2, 2);
+    this.conversations.save(chatId);
+    return true;
+  }
 
-    return conversation;
+  /**
+   * Copy of the stored history (a leading system message is the running summary)
+   */
+  getHistory(chatId: string): ZAIMessage[] {
+    return [...(this.conversations.peek(chatId)?.messages || [])];
+  }
+
+  /**
+   * Replace the history, e.g. with an imported conversation
+   */
+  replaceHistory(chatId: string, messages: ZAIMessage[]): void {
+    const conversation = this.getConversation(chatId);
+    conversation.messages.splice(0, conversation.messages.length, ...messages);
+    this.conversations.save(chatId);
   }
 
   /**
@@ -236,7 +450,7 @@ export class ZAIService {
    * Get conversation info
    */
   getConversationInfo(chatId: string): { messageCount: number; createdAt: number; lastAccessAt: number } | undefined {
-    const conversation = this.conversations.get(chatId);
+    const conversation = this.conversations.peek(chatId);
     if (!conversation) {
       return undefined;
     }
@@ -249,29 +463,23 @@ export class ZAIService {
   }
 
   /**
-   * Get all conversations
+   * Get all conversations currently held in memory
    */
   getAllConversations(): Map<string, ZAIConversation> {
-    return new Map(this.conversations);
+    return new Map(this.conversations.entries());
   }
 
   /**
    * Clean up old conversations
    */
   cleanupOldConversations(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
-    const now = Date.now();
-    
-    for (const [chatId, conversation] of this.conversations.entries()) {
-      if (now - conversation.lastAccessAt > maxAgeMs) {
-        this.conversations.delete(chatId);
-      }
-    }
+    this.conversations.cleanup(maxAgeMs);
   }
 
   /**
    * Destroy the service and cleanup resources
    */
   destroy(): void {
-    this.conversations.clear();
+    this.conversations.destroy();
   }
 }
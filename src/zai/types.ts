@@ -3,6 +3,11 @@
  * OpenAI-compatible API integration
  */
 
+import type { ConversationCacheOptions } from '../llm/conversations';
+import type { ContextManager } from '../llm/context';
+import type { ChatTool, ChatToolCall, ChatToolCallDelta, LLMToolSession, ToolLoopMessage } from '../llm/tools';
+import type { ChatImageMessage, LLMImage } from '../llm/vision';
+
 export interface ZAIServiceOptions {
   /** Z.ai API key */
   apiKey: string;
@@ -16,6 +21,10 @@ export interface ZAIServiceOptions {
   systemPrompt?: string;
   /** API endpoint (default: https://api.z.ai/api/coding/paas/v4) */
   apiEndpoint?: string;
+  /** Durable conversation history and its TTL */
+  conversations?: ConversationCacheOptions;
+  /** Token budget of the history; older turns are summarised when exceeded */
+  context?: ContextManager;
 }
 
 export interface ZAIMessage {
@@ -41,7 +50,9 @@ export interface ZAIResponse {
 
 export interface ZAIChatRequest {
   model: string;
-  messages: ZAIMessage[];
+  messages: Array<ZAIMessage | ChatImageMessage | ToolLoopMessage>;
+  /** Functions the model may call */
+  tools?: ChatTool[];
   max_tokens?: number;
   temperature?: number;
   stream?: boolean;
@@ -57,6 +68,7 @@ export interface ZAIChatResponse {
     message: {
       role: string;
       content: string;
+      tool_calls?: ChatToolCall[];
     };
     finish_reason: string;
   }>;
@@ -67,6 +79,42 @@ export interface ZAIChatResponse {
   };
 }
 
+export interface ZAIChatStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: ChatToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface ZAIRequestOptions {
+  /** Model override for this request */
+  model?: string;
+  /** System prompt for this request (chat persona); replaces the default */
+  systemPrompt?: string;
+  /** Called with each streamed text delta (enables SSE streaming) */
+  onContent?: (chunk: string) => void;
+  /** Functions the model may call; runs the tool loop */
+  tools?: LLMToolSession;
+  /** Aborts the request (/cancel) */
+  signal?: AbortSignal;
+  /** Images with the user message (vision models only, not stored in the history) */
+  images?: LLMImage[];
+}
+
 // Custom error classes
 export class ZAIServiceError extends Error {
   constructor(message: string, public code?: string) {
@@ -92,6 +92,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockApi.sendChatAction).toHaveBeenCalledWith({
         chat_id: 67890,
@@ -118,6 +119,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockRouter.processMessageStream).toHaveBeenCalledWith(
         '67890',
@@ -127,7 +129,8 @@ describe('StreamingMessageHandler Integration', () => {
           onToolUse: expect.any(Function),
           onToolResult: expect.any(Function),
           onComplete: expect.any(Function),
-        })
+        }),
+        expect.objectContaining({ userId: '67890' })
       );
     });
 
@@ -156,6 +159,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockApi.editMessageText).toHaveBeenCalled();
     });
@@ -192,6 +196,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockApi.sendMessage).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -232,6 +237,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockApi.sendMessage).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -257,6 +263,7 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(mockApi.sendMessage).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -282,6 +289,7 @@ describe('StreamingMessageHandler Integration', () => {
         .mockRejectedValueOnce(new Error('Already processing'));
 
       await handler.handle(message1);
+      await handler.whenIdle(67890);
     });
 
     it('should cleanup on completion', async () => {
@@ -297,11 +305,98 @@ describe('StreamingMessageHandler Integration', () => {
       });
 
       await handler.handle(message);
+      await handler.whenIdle(67890);
 
       expect(handler.destroy()).toBeUndefined();
     });
   });
 
+  describe('answer buttons', () => {
+    const answer = (text: string) => async (_chatId: string, _message: string, callbacks: Record<string, (value: unknown) => void>) => {
+      callbacks.onContent?.(text);
+      const result = { text, sessionId: 'zai:67890', isNewSession: false, durationMs: 10, exitCode: 0, toolHistory: [], provider: 'zai' };
+      await callbacks.onComplete?.(result);
+      return result;
+    };
+
+    const press = (data: string) => handler.handleAnswerCallback({
+      id: 'cb-1',
+      from: { id: 67890, is_bot: false, first_name: 'TestUser' },
+      chat_instance: '1',
+      data,
+      message: { message_id: 11111, chat: { id: 67890, type: 'private' }, date: 0 },
+    } as never);
+
+    beforeEach(() => {
+      mockApi.editMessageReplyMarkup = jest.fn().mockResolvedValue(undefined);
+      mockRouter.removeLastExchange = jest.fn().mockReturnValue(true);
+      mockRouter.setProvider = jest.fn();
+      mockRouter.normalizeProvider = jest.fn((name: string) => name);
+      mockRouter.isProviderAvailable = jest.fn().mockReturnValue(true);
+    });
+
+    it('attaches the buttons and regenerates the last answer', async () => {
+      mockRouter.processMessageStream
+        .mockImplementationOnce(answer('Eerste antwoord'))
+        .mockImplementationOnce(answer('Tweede antwoord'));
+
+      await handler.handle(createMockMessage({ text: 'Vraag' }));
+      await handler.whenIdle(67890);
+
+      const edits = mockApi.editMessageText.mock.calls;
+      const final = edits[edits.length - 1][0] as { reply_markup?: { inline_keyboard: Array<Array<{ callback_data: string }>> } };
+      expect(final.reply_markup?.inline_keyboard[0].map((button) => button.callback_data))
+        .toEqual(['ans_regen', 'ans_more', 'ans_switch']);
+
+      await press('ans_regen');
+      await handler.whenIdle(67890);
+
+      expect(mockRouter.removeLastExchange).toHaveBeenCalledWith('67890', 'zai');
+      expect(mockApi.editMessageReplyMarkup).toHaveBeenCalledWith(67890, 11111);
+      expect(mockRouter.processMessageStream.mock.calls[1][1]).toBe('Vraag');
+    });
+
+    it('retries with another provider and ignores buttons of older answers', async () => {
+      mockRouter.processMessageStream.mockImplementation(answer('Antwoord'));
+
+      await press('ans_regen');
+      expect(mockApi.answerCallbackQuery).toHaveBeenCalledWith(expect.objectContaining({
+        text: expect.stringContaining('laatste antwoord'),
+      }));
+
+      await handler.handle(createMockMessage({ text: 'Vraag' }));
+      await handler.whenIdle(67890);
+      await press('ans_use:mistral');
+      await handler.whenIdle(67890);
+
+      expect(mockRouter.setProvider).toHaveBeenCalledWith('67890', 'mistral');
+      expect(mockRouter.removeLastExchange).toHaveBeenCalledWith('67890', 'zai');
+      expect(mockRouter.processMessageStream).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('group mode', () => {
+    it('only answers replies to the bot and mentions in groups', async () => {
+      handler = createStreamingMessageHandler(mockApi as unknown as ApiMethods, mockRouter as unknown as LLMRouter, {
+        groupMode: 'mention',
+      });
+      mockApi.getMe.mockResolvedValue({ id: 12345, is_bot: true, first_name: 'TestBot', username: 'testbot' });
+      mockRouter.processMessageStream.mockResolvedValue({ text: 'Ok', sessionId: 's', isNewSession: false, durationMs: 1, exitCode: 0, toolHistory: [] });
+      const group = { id: -100, type: 'group', title: 'Team' } as Message['chat'];
+
+      await handler.handle(createMockMessage({ chat: group, text: 'Wie haalt de koffie?' }));
+      await handler.handle(createMockMessage({
+        chat: group,
+        text: '@testbot wie haalt de koffie?',
+        entities: [{ type: 'mention', offset: 0, length: 8 }],
+      }));
+      await handler.whenIdle(-100);
+
+      expect(mockRouter.processMessageStream).toHaveBeenCalledTimes(1);
+      expect(mockRouter.processMessageStream.mock.calls[0][1]).toBe('wie haalt de koffie?');
+    });
+  });
+
   describe('createStreamingMessageHandler', () => {
     it('should create handler instance', () => {
       const handler = createStreamingMessageHandler(mockApi as unknown as ApiMethods, mockRouter as unknown as LLMRouter);
@@ -0,0 +1,112 @@
+/**
+ * Reply context tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  withReplyContext,
+  isAddressedToBot,
+  stripBotMention,
+} from '../../../src/bot/handlers/reply-context';
+import { StreamingMessageHandler } from '../../../src/bot/handlers/streaming-message';
+import type { Message } from '../../../src/types/telegram';
+
+const bot = { id: 42, username: 'HulpBot' };
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    message_id: 2,
+    date: 0,
+    chat: { id: -100, type: 'supergroup', title: 'Team' },
+    from: { id: 7, is_bot: false, first_name: 'Sanne' },
+    text: 'Klopt dit?',
+    ...overrides,
+  } as Message;
+}
+
+function reply(from: Message['from'], text: string, extra: Partial<Message> = {}): Message['reply_to_message'] {
+  return { message_id: 1, date: 0, chat: { id: -100, type: 'supergroup', title: 'Team' }, from, text, ...extra } as Message['reply_to_message'];
+}
+
+describe('withReplyContext', () => {
+  it('puts the replied message in front of the prompt', () => {
+    const message = createMessage({
+      reply_to_message: reply({ id: 8, is_bot: false, first_name: 'Joris' }, 'De trein gaat om 8:12\nvanaf spoor 3'),
+    });
+
+    expect(withReplyContext(message, 'Klopt dit?', bot)).toBe(
+      '[Replying to a message from Joris]\n> De trein gaat om 8:12\n> vanaf spoor 3\n\nKlopt dit?'
+    );
+  });
+
+  it('prefers the selected quote and names the bot and forwarded senders', () => {
+    const ownAnswer = createMessage({
+      reply_to_message: reply({ id: 42, is_bot: true, first_name: 'Hulp' }, 'Lang antwoord met stap 1 en stap 2'),
+      quote: { text: 'stap 2', position: 28 },
+    });
+    expect(withReplyContext(ownAnswer, 'Leg uit', bot)).toBe('[Quoted from your earlier message]\n> stap 2\n\nLeg uit');
+
+    const forwarded = createMessage({
+      reply_to_message: reply({ id: 8, is_bot: false, first_name: 'Joris' }, 'Storing op de A13', {
+        forward_origin: { type: 'channel', date: 0, chat: { id: -5, type: 'channel', title: 'Verkeer' }, message_id: 9 },
+      }),
+    });
+    expect(withReplyContext(forwarded, 'Samenvatten', bot)).toContain('[Replying to a forwarded message from Verkeer]');
+  });
+
+  it('ignores the implicit reply to a forum topic and marks blockquotes', () => {
+    const message = createMessage({
+      text: 'Zij schreef\nwat vind jij?',
+      entities: [{ type: 'blockquote', offset: 0, length: 11 }],
+      reply_to_message: reply(undefined, '', { forum_topic_created: { name: 'Algemeen', icon_color: 0 } }),
+    });
+
+    expect(withReplyContext(message, message.text!, bot)).toBe('> Zij schreef\nwat vind jij?');
+  });
+});
+
+describe('group mode', () => {
+  it('detects replies to the bot and mentions', () => {
+    expect(isAddressedToBot(createMessage(), bot)).toBe(false);
+    expect(isAddressedToBot(createMessage({
+      reply_to_message: reply({ id: 42, is_bot: true, first_name: 'Hulp' }, 'Hoi'),
+    }), bot)).toBe(true);
+    expect(isAddressedToBot(createMessage({
+      text: '@hulpbot wat is 2+2?',
+      entities: [{ type: 'mention', offset: 0, length: 8 }],
+    }), bot)).toBe(true);
+    expect(isAddressedToBot(createMessage({
+      text: '@anderebot wat is 2+2?',
+      entities: [{ type: 'mention', offset: 0, length: 10 }],
+    }), bot)).toBe(false);
+  });
+
+  it('reads a mention in the caption of a voice note next to its transcript', () => {
+    const voice = createMessage({
+      text: 'wat is twee plus twee',
+      caption: '@HulpBot',
+      caption_entities: [{ type: 'mention', offset: 0, length: 8 }],
+      voice: { file_id: 'v', file_unique_id: 'v', duration: 3 },
+    });
+
+    expect(isAddressedToBot(voice, bot)).toBe(true);
+    expect(isAddressedToBot({ ...voice, caption: undefined, caption_entities: undefined }, bot)).toBe(false);
+  });
+
+  it('lets the streaming handler decline unaddressed group messages before any work', async () => {
+    const api = { getMe: async () => ({ id: 42, is_bot: true, first_name: 'Hulp', username: 'HulpBot' }) };
+    const handler = new StreamingMessageHandler(api as never, {} as never, { groupMode: 'mention' });
+
+    expect(await handler.accepts(createMessage())).toBe(false);
+    expect(await handler.accepts(createMessage({
+      reply_to_message: reply({ id: 42, is_bot: true, first_name: 'Hulp' }, 'Hoi'),
+    }))).toBe(true);
+    expect(await handler.accepts(createMessage({ chat: { id: 7, type: 'private', first_name: 'Sanne' } }))).toBe(true);
+    handler.destroy();
+  });
+
+  it('strips the mention from the prompt', () => {
+    expect(stripBotMention('@HulpBot wat is 2+2?', bot)).toBe('wat is 2+2?');
+    expect(stripBotMention('Vraag\n\naan @hulpbot  graag', bot)).toBe('Vraag\n\naan graag');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Claude CLI session fork and rename tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeService, SqliteSessionStorage, routeClaudeCommand } from '../../../src/claude-code';
+import { DatabaseClient } from '../../../src/database';
+import type { ApiMethods } from '../../../src/api';
+import type { Message } from '../../../src/types/telegram';
+
+/**
+ * Fake CLI: answers with its session arguments and reports a session id,
+ * a new one unless it resumes without --fork-session
+ */
+const FAKE_CLI = `#!${process.execPath}
+const args = process.argv.slice(2, process.argv.indexOf('--'));
+const resume = args.includes('--resume') ? args[args.indexOf('--resume') + 1] : undefined;
+const fork = args.includes('--fork-session');
+const sessionId = resume && !fork ? resume : 'cli-' + Math.random().toString(36).slice(2, 10);
+const flags = [resume ? 'resume=' + resume : 'nieuw', fork ? 'fork' : ''].filter(Boolean).join(' ');
+process.stdout.write(JSON.stringify({ type: 'result', session_id: sessionId, result: flags }) + '\\n');
+`;
+
+describe('Claude CLI session forks', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let claude: ClaudeCodeService;
+
+  const createService = () => new ClaudeCodeService({
+    cliBinary: path.join(tempDir, 'claude'),
+    workingDir: tempDir,
+    database: db,
+    sessionStoragePath: path.join(tempDir, 'sessions.json'),
+    timeout: 20_000,
+    permissionPrompt: false,
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-fork-'));
+    fs.writeFileSync(path.join(tempDir, 'claude'), FAKE_CLI, { mode: 0o755 });
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    claude = createService();
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('forks from the parent\'s CLI session and leaves the parent as it was', async () => {
+    await expect(claude.forkSession('1')).rejects.toMatchObject({ code: 'SESSION_ERROR' });
+
+    expect((await claude.processMessageStream('1', 'plan A', {})).text).toBe('nieuw');
+    const parent = (await claude.getActiveSession('1'))!;
+    expect(parent.cliSessionId).toMatch(/^cli-/);
+
+    const fork = await claude.forkSession('1', 'Plan B');
+    expect(fork).toMatchObject({ name: 'Plan B', parentId: parent.id, workingDir: parent.workingDir, isActive: true });
+
+    // The fork survives a restart until its first message
+    claude.destroy();
+    claude = createService();
+    expect((await claude.processMessageStream('1', 'plan B', {})).text).toBe(`resume=${parent.cliSessionId} fork`);
+
+    const forked = (await claude.getActiveSession('1'))!;
+    expect(forked.id).toBe(fork.id);
+    expect(forked.cliSessionId).not.toBe(parent.cliSessionId);
+    expect(forked.forkFrom).toBeUndefined();
+    expect((await claude.processMessageStream('1', 'verder', {})).text).toBe(`resume=${forked.cliSessionId}`);
+
+    await claude.switchSession('1', parent.id);
+    expect((await claude.processMessageStream('1', 'terug', {})).text).toBe(`resume=${parent.cliSessionId}`);
+  });
+
+  it('refuses to fork a session whose CLI session id is unknown', async () => {
+    const parent = await claude.startNewSession('1', 'Oud');
+    // Stored before the CLI session id was kept
+    await new SqliteSessionStorage(db).saveSession({ ...parent, messageCount: 4 });
+
+    await expect(claude.forkSession('1')).rejects.toThrow('nog geen sessie-id van de Claude CLI');
+
+    expect((await claude.processMessageStream('1', 'hoi', {})).text).toBe(`resume=${parent.id}`);
+    expect((await claude.forkSession('1')).forkFrom).toBe(parent.id);
+  });
+
+  it('renames the active session and lists forks under their parent', async () => {
+    const sendMessage = jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ message_id: 1 }));
+    const api = { sendMessage } as unknown as ApiMethods;
+    const message = { message_id: 1, chat: { id: 1, type: 'private' }, date: 0, text: '/claude' } as Message;
+    const lastText = () => (sendMessage.mock.calls[sendMessage.mock.calls.length - 1][0] as { text: string }).text;
+
+    await claude.startNewSession('1', 'Main');
+    await claude.processMessageStream('1', 'hoi', {});
+    await claude.startNewSession('1', 'Los');
+    await claude.switchSession('1', (await claude.getSessionsForChat('1')).find((s) => s.name === 'Main')!.id);
+
+    await routeClaudeCommand(api, message, ['fork'], claude);
+    expect(lastText()).toContain('Main (fork)');
+    await routeClaudeCommand(api, message, ['rename', 'Plan', 'B'], claude);
+    expect(lastText()).toContain('Plan B');
+    expect((await claude.getActiveSession('1'))?.name).toBe('Plan B');
+
+    await routeClaudeCommand(api, message, ['sessions'], claude);
+    const list = lastText();
+    expect(list).toContain('↳ 🟢 *Plan B*');
+    expect(list).toContain('Fork van: Main');
+    expect(list).toContain('Forks: 1');
+    expect(list.indexOf('*Main*')).toBeLessThan(list.indexOf('*Plan B*'));
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Claude CLI session storage and /claude history tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeService, SqliteSessionStorage, routeClaudeCommand } from '../../../src/claude-code';
+import { DatabaseClient } from '../../../src/database';
+import type { ApiMethods } from '../../../src/api';
+import type { Message } from '../../../src/types/telegram';
+
+/** Fake CLI: reads a file with a tool call and answers with the prompt */
+const FAKE_CLI = `#!${process.execPath}
+const prompt = process.argv[process.argv.length - 1];
+const print = (value) => process.stdout.write(JSON.stringify(value) + '\\n');
+print({ type: 'assistant', message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'README.md' } }] } });
+print({ type: 'result', result: 'Antwoord op: ' + prompt, usage: { input_tokens: 10, output_tokens: 5 }, total_cost_usd: 0.002 });
+`;
+
+describe('Claude CLI SQLite session storage', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let claude: ClaudeCodeService;
+
+  const createService = () => new ClaudeCodeService({
+    cliBinary: path.join(tempDir, 'claude'),
+    workingDir: tempDir,
+    database: db,
+    sessionStoragePath: path.join(tempDir, 'sessions.json'),
+    timeout: 20_000,
+    permissionPrompt: false,
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-history-'));
+    fs.writeFileSync(path.join(tempDir, 'claude'), FAKE_CLI, { mode: 0o755 });
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    claude = createService();
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps sessions and their transcript across restarts', async () => {
+    const first = await claude.processMessageStream('1', 'wat staat er in de readme?', {});
+    await claude.processMessageStream('1', 'en verder?', {});
+
+    claude.destroy();
+    claude = createService();
+
+    const session = await claude.getActiveSession('1');
+    expect(session).toMatchObject({ id: first.sessionId, messageCount: 2, isActive: true });
+    expect(session?.tokenUsage).toMatchObject({ totalTokens: 30, totalCostUSD: 0.004 });
+
+    const turns = await claude.getTurns(first.sessionId, 10);
+    expect(turns.map((turn) => turn.prompt)).toEqual(['wat staat er in de readme?', 'en verder?']);
+    expect(turns[1]).toMatchObject({
+      text: 'Antwoord op: en verder?',
+      tools: [{ name: 'Read', input: { file_path: 'README.md' } }],
+      usage: { inputTokens: 10, outputTokens: 5, costUSD: 0.002 },
+    });
+    expect(await claude.getTurns(first.sessionId, 1)).toEqual([turns[1]]);
+  });
+
+  it('switches the active session and deletes a session with its turns', async () => {
+    const storage = new SqliteSessionStorage(db);
+    const first = await claude.processMessageStream('1', 'hoi', {});
+    const second = await claude.startNewSession('1', 'Tweede');
+
+    expect((await storage.getSession(first.sessionId))?.isActive).toBe(false);
+    expect((await storage.getActiveSession('1'))?.id).toBe(second.id);
+    expect((await storage.getSessionsForChat('1')).map((session) => session.name)).toContain('Tweede');
+    expect(await storage.getSessionsForChat('2')).toEqual([]);
+
+    expect(await claude.deleteSession(first.sessionId)).toBe(true);
+    expect(await claude.getTurns(first.sessionId, 10)).toEqual([]);
+    expect(await claude.deleteSession(first.sessionId)).toBe(false);
+  });
+
+  it('imports the sessions of the JSON file storage once', async () => {
+    const file = path.join(tempDir, 'legacy.json');
+    const createdAt = new Date('2026-01-02T10:00:00Z').toISOString();
+    fs.writeFileSync(file, JSON.stringify({
+      sessions: [{
+        id: 'oud', chatId: '5', name: 'Oud', workingDir: tempDir, createdAt, lastActivityAt: createdAt,
+        messageCount: 3, isActive: true, cliSessionId: 'cli-oud',
+      }],
+      activeSessions: { 5: 'oud' },
+      toolPolicies: { 5: { allowedTools: [], deniedTools: ['Bash'], preset: 'no-bash' } },
+    }));
+
+    const storage = new SqliteSessionStorage(db, { importFrom: file });
+
+    expect(await storage.getActiveSession('5')).toMatchObject({ id: 'oud', messageCount: 3, cliSessionId: 'cli-oud' });
+    expect((await storage.getActiveSession('5'))?.createdAt.toISOString()).toBe(createdAt);
+    expect(await storage.getChatToolPolicy('5')).toMatchObject({ preset: 'no-bash' });
+    expect(fs.existsSync(file)).toBe(false);
+    expect(fs.existsSync(`${file}.imported`)).toBe(true);
+  });
+
+  it('deletes expired turns at startup instead of on every answer', async () => {
+    const turn = { session_id: 's', chat_id: '1', prompt: 'p', answer: 'a', tools: null, usage: null, duration_ms: 1 };
+    db.addClaudeTurn({ ...turn, created_at: Date.now() - 2 * 60 * 60 * 1000 });
+    const storage = new SqliteSessionStorage(db, { turnTtlMs: 60 * 60 * 1000 });
+    expect(await storage.getTurns('s', 10)).toEqual([]);
+
+    db.addClaudeTurn({ ...turn, created_at: Date.now() - 2 * 60 * 60 * 1000 });
+    await storage.addTurn({ sessionId: 's', chatId: '1', prompt: 'p', text: 'a', tools: [], durationMs: 1, createdAt: new Date() });
+    expect(await storage.getTurns('s', 10)).toHaveLength(2);
+  });
+
+  it('falls back to the JSON file when the database is unavailable', async () => {
+    claude.destroy();
+    db.close();
+    claude = createService();
+
+    const { sessionId } = await claude.processMessageStream('1', 'hoi', {});
+    claude.destroy();
+    const saved = JSON.parse(fs.readFileSync(path.join(tempDir, 'sessions.json'), 'utf-8'));
+    expect(saved.sessions.map((session: { id: string }) => session.id)).toEqual([sessionId]);
+
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    claude = createService();
+  });
+
+  it('shows the last turns with /claude history', async () => {
+    const sendMessage = jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ message_id: 1 }));
+    const api = { sendMessage } as unknown as ApiMethods;
+    const message = { message_id: 1, chat: { id: 1, type: 'private' }, date: 0, text: '/claude history' } as Message;
+    for (const prompt of ['een', 'twee', 'drie']) {
+      await claude.processMessageStream('1', prompt, {});
+    }
+
+    await routeClaudeCommand(api, message, ['history', '2'], claude);
+
+    const text = (sendMessage.mock.calls[0][0] as { text: string }).text;
+    expect(text).toContain('laatste 2 van 3 berichten');
+    expect(text).toContain('#2');
+    expect(text).toContain('👤 drie');
+    expect(text).toContain('🔧 Read');
+    expect(text).toContain('🤖 Antwoord op: drie');
+    expect(text).not.toContain('👤 een');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Claude CLI permission bridge tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeService, allowTools, createToolPolicy } from '../../../src/claude-code';
+import { createPermissionBridge, PERMISSION_PROMPT_TOOL } from '../../../src/claude-code/permissions';
+import type { ToolUseEvent } from '../../../src/streaming/types';
+
+/**
+ * Fake CLI: announces a Write in stream-json, asks the permission tool over MCP
+ * and only writes the file when the answer is "allow". --allowedTools would skip
+ * the permission tool, so the bridge must never pass it.
+ */
+const FAKE_CLI = `#!${process.execPath}
+const args = process.argv.slice(2);
+const config = JSON.parse(args[args.indexOf('--mcp-config') + 1]);
+const url = config.mcpServers.telegram.url;
+const rpc = async (id, method, params) => (await fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+  body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+})).json();
+const print = (value) => process.stdout.write(JSON.stringify(value) + '\\n');
+(async () => {
+  if (args[args.indexOf('--permission-prompt-tool') + 1] !== 'mcp__telegram__approve') process.exit(2);
+  if (args.includes('--allowedTools')) process.exit(3);
+  await rpc(1, 'initialize', { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'fake', version: '0' } });
+  const input = { file_path: 'notes.txt', content: 'melk' };
+  print({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Write', input }] } });
+  const response = await rpc(2, 'tools/call', { name: 'approve', arguments: { tool_name: 'Write', input, tool_use_id: 'toolu_1' } });
+  const decision = JSON.parse(response.result.content[0].text);
+  if (decision.behavior === 'allow') require('fs').writeFileSync(decision.updatedInput.file_path, decision.updatedInput.content);
+  print({ type: 'result', result: decision.behavior === 'allow' ? 'Bestand geschreven.' : 'Niet toegestaan.' });
+})();
+`;
+
+describe('Claude CLI permission bridge', () => {
+  let tempDir: string;
+  let claude: ClaudeCodeService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-permissions-'));
+    const cli = path.join(tempDir, 'claude');
+    fs.writeFileSync(cli, FAKE_CLI, { mode: 0o755 });
+    claude = new ClaudeCodeService({
+      cliBinary: cli,
+      workingDir: tempDir,
+      sessionStorage: 'memory',
+      timeout: 20_000,
+    });
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('runs the tool only after the user approved it', async () => {
+    const asked: ToolUseEvent[] = [];
+    const shown: ToolUseEvent[] = [];
+
+    const result = await claude.processMessageStream('1', 'schrijf notes.txt', {
+      onToolUse: (tool) => { shown.push(tool); },
+      onPermissionRequest: async (tool) => {
+        // The CLI waits: nothing is written while the user decides
+        expect(fs.existsSync(path.join(tempDir, 'notes.txt'))).toBe(false);
+        asked.push(tool);
+      },
+    });
+
+    expect(result.text).toBe('Bestand geschreven.');
+    expect(fs.readFileSync(path.join(tempDir, 'notes.txt'), 'utf-8')).toBe('melk');
+    expect(asked).toEqual([expect.objectContaining({ id: 'toolu_1', name: 'Write', gated: true })]);
+    expect(shown).toEqual([expect.objectContaining({ id: 'toolu_1', gated: true })]);
+  });
+
+  it('denies the tool and stops the request when the user rejects it', async () => {
+    const rejection = new Error('Tool Write rejected by user');
+
+    await expect(claude.processMessageStream('1', 'schrijf notes.txt', {
+      onPermissionRequest: async () => { throw rejection; },
+    })).rejects.toBe(rejection);
+
+    expect(fs.existsSync(path.join(tempDir, 'notes.txt'))).toBe(false);
+  });
+
+  it('still asks for allowed tools and refuses tools outside the allow list', async () => {
+    const asked: string[] = [];
+    const callbacks = { onPermissionRequest: async (tool: ToolUseEvent) => { asked.push(tool.name); } };
+
+    await claude.setToolPolicy('1', 'chat', allowTools(createToolPolicy('full'), ['Read']));
+    expect((await claude.processMessageStream('1', 'schrijf notes.txt', callbacks)).text).toBe('Niet toegestaan.');
+    expect(asked).toEqual([]);
+
+    await claude.setToolPolicy('1', 'chat', allowTools(createToolPolicy('full'), ['Write']));
+    expect((await claude.processMessageStream('1', 'schrijf notes.txt', callbacks)).text).toBe('Bestand geschreven.');
+    expect(asked).toEqual(['Write']);
+  });
+
+  it('only answers the secret URL of a registered run', async () => {
+    const bridge = createPermissionBridge();
+    try {
+      const registration = await bridge.register(async () => ({ behavior: 'deny', message: 'nee' }));
+      const config = JSON.parse(registration.args[registration.args.indexOf('--mcp-config') + 1]);
+      const url: string = config.mcpServers.telegram.url;
+      const post = (target: string, body: unknown) => fetch(target, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      expect(registration.args).toContain(PERMISSION_PROMPT_TOOL);
+      const tools = await (await post(url, { jsonrpc: '2.0', id: 1, method: 'tools/list' })).json() as {
+        result: { tools: Array<{ name: string }> };
+      };
+      expect(tools.result.tools.map((tool) => tool.name)).toEqual(['approve']);
+      expect((await post(url, { jsonrpc: '2.0', method: 'notifications/initialized' })).status).toBe(202);
+      expect((await post(url.replace(/[a-f0-9]+$/, 'deadbeef'), { jsonrpc: '2.0', id: 1, method: 'ping' })).status).toBe(404);
+
+      registration.dispose();
+      expect((await post(url, { jsonrpc: '2.0', id: 2, method: 'ping' })).status).toBe(404);
+    } finally {
+      await bridge.close();
+    }
+  });
+});
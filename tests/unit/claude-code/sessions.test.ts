@@ -0,0 +1,78 @@
+/**
+ * Claude CLI session directory tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeService, type ClaudeProject } from '../../../src/claude-code';
+
+describe('ClaudeCodeService working directories', () => {
+  let tempDir: string;
+  let root: string;
+  let projects: Map<string, ClaudeProject>;
+  let claude: ClaudeCodeService;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-sessions-')));
+    root = path.join(tempDir, 'repos');
+    fs.mkdirSync(path.join(root, 'bot'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'site'));
+    fs.mkdirSync(path.join(tempDir, 'elders'));
+    // The fake CLI answers with the directory it runs in
+    const cli = path.join(tempDir, 'claude');
+    fs.writeFileSync(cli, '#!/bin/sh\npwd\n', { mode: 0o755 });
+    projects = new Map();
+    claude = new ClaudeCodeService({
+      cliBinary: cli,
+      workingDir: root,
+      allowedRoots: [root],
+      sessionStorage: 'memory',
+      timeout: 20_000,
+      permissionPrompt: false,
+      project: (chatId) => projects.get(chatId),
+    });
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('runs new sessions in the chat\'s open project', async () => {
+    projects.set('1', { rootPath: path.join(root, 'bot'), openedAt: Date.now() });
+
+    const first = await claude.processMessageStream('1', 'waar ben ik?', {});
+    const other = await claude.processMessageStream('2', 'waar ben ik?', {});
+
+    expect(first.text).toBe(path.join(root, 'bot'));
+    expect(other.text).toBe(root);
+  });
+
+  it('moves to the project opened after the active session was used', async () => {
+    projects.set('1', { rootPath: path.join(root, 'bot'), openedAt: Date.now() - 1000 });
+    const bot = await claude.processMessageStream('1', 'hoi', {});
+
+    projects.set('1', { rootPath: path.join(root, 'site'), openedAt: Date.now() + 1 });
+    const site = await claude.processMessageStream('1', 'hoi', {});
+    expect(site.text).toBe(path.join(root, 'site'));
+    expect(site.sessionId).not.toBe(bot.sessionId);
+
+    // Back to the first project: its session continues
+    projects.set('1', { rootPath: path.join(root, 'bot'), openedAt: Date.now() + 2 });
+    const again = await claude.processMessageStream('1', 'hoi', {});
+    expect(again.sessionId).toBe(bot.sessionId);
+  });
+
+  it('accepts --dir only inside the allowed roots', async () => {
+    const session = await claude.startNewSession('1', 'Site', path.join(root, 'site'));
+    expect(session.workingDir).toBe(path.join(root, 'site'));
+    expect((await claude.processMessageStream('1', 'hoi', {})).text).toBe(path.join(root, 'site'));
+
+    expect(() => claude.resolveAllowedDir(path.join(tempDir, 'elders'))).toThrow('buiten de toegestane mappen');
+    expect(() => claude.resolveAllowedDir(path.join(root, '..', 'elders'))).toThrow('buiten de toegestane mappen');
+    expect(() => claude.resolveAllowedDir(path.join(root, 'bestaat-niet'))).toThrow('Map bestaat niet');
+    await expect(claude.startNewSession('1', undefined, '/')).rejects.toMatchObject({ code: 'SESSION_ERROR' });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Claude CLI tool policy tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ClaudeCodeService,
+  allowTools,
+  createToolPolicy,
+  denyTools,
+  isToolAllowed,
+  toolPolicyArgs,
+} from '../../../src/claude-code';
+import { DatabaseClient } from '../../../src/database';
+
+describe('Claude CLI tool policy', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let claude: ClaudeCodeService;
+
+  const createService = () => new ClaudeCodeService({
+    cliBinary: path.join(tempDir, 'claude'),
+    workingDir: tempDir,
+    database: db,
+    sessionStoragePath: path.join(tempDir, 'sessions.json'),
+    timeout: 20_000,
+    permissionPrompt: false,
+    deniedTools: ['WebFetch'],
+  });
+
+  /** Tool arguments the fake CLI received */
+  const toolArgs = async (chatId: string) => {
+    const { text } = await claude.processMessageStream(chatId, 'hoi', {});
+    const args = text.split(' ');
+    const found: string[] = [];
+    args.forEach((arg, index) => {
+      if (arg === '--allowedTools' || arg === '--disallowedTools') found.push(arg, args[index + 1]);
+    });
+    return found.join(' ');
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-tools-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    // The fake CLI answers with its arguments
+    fs.writeFileSync(path.join(tempDir, 'claude'), '#!/bin/sh\necho "$@"\n', { mode: 0o755 });
+    claude = createService();
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('passes the chat policy to the CLI without affecting other chats', async () => {
+    await claude.setToolPolicy('1', 'chat', createToolPolicy('no-bash'));
+
+    expect(await toolArgs('1')).toBe('--disallowedTools Bash');
+    expect(await toolArgs('2')).toBe('--disallowedTools WebFetch');
+    expect(await claude.getToolPolicy('2')).toMatchObject({ scope: 'default' });
+  });
+
+  it('lets the session policy override the chat policy and keeps both across restarts', async () => {
+    await claude.setToolPolicy('1', 'chat', createToolPolicy('read-only'));
+    await claude.startNewSession('1', 'Vrij');
+    await claude.setToolPolicy('1', 'session', allowTools(createToolPolicy('full'), ['Bash(git:*)']));
+
+    claude.destroy();
+    claude = createService();
+    expect(await toolArgs('1')).toBe('--allowedTools Bash(git:*)');
+
+    await claude.setToolPolicy('1', 'session', null);
+    expect(await claude.getToolPolicy('1')).toMatchObject({ scope: 'chat', policy: { preset: 'read-only' } });
+    await expect(claude.setToolPolicy('2', 'session', null)).rejects.toMatchObject({ code: 'SESSION_ERROR' });
+  });
+
+  it('leaves the allow list to the permission bridge when tool calls are approved', () => {
+    const policy = allowTools(createToolPolicy('no-bash'), ['Read', 'Bash(git:*)']);
+
+    expect(toolPolicyArgs(policy, true)).toEqual(['--disallowedTools', 'Bash']);
+    expect(toolPolicyArgs(policy)).toContain('--allowedTools');
+    expect(isToolAllowed(policy, 'Bash')).toBe(true);
+    expect(isToolAllowed(policy, 'Write')).toBe(false);
+    expect(isToolAllowed(createToolPolicy('full'), 'Write')).toBe(true);
+  });
+
+  it('moves tools between the allow and deny lists', () => {
+    const policy = denyTools(createToolPolicy('read-only'), ['Read']);
+
+    expect(policy.allowedTools).not.toContain('Read');
+    expect(policy.deniedTools).toEqual(expect.arrayContaining(['Read', 'Bash']));
+    expect(policy.preset).toBeUndefined();
+    expect(allowTools(policy, ['Bash', 'Bash']).deniedTools).not.toContain('Bash');
+  });
+});
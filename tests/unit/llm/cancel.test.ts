@@ -0,0 +1,119 @@
+/**
+ * Request cancellation tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { LLMRouter, LLMCancelledError } from '../../../src/llm';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import { ClaudeCodeService } from '../../../src/claude-code';
+import type { ZAIService } from '../../../src/zai';
+
+describe('LLMRouter cancellation', () => {
+  let server: http.Server;
+  let service: OpenAICompatibleService;
+  const requests: Array<{ messages: Array<{ role: string }> }> = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    // Streams one delta and then hangs, like a runaway answer
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requests.push(JSON.parse(raw));
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'Er was eens' } }] })}\n\n`);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+  });
+
+  afterEach(async () => {
+    service.destroy();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('aborts a streaming request without fallback or a circuit failure', async () => {
+    const zai = { getModel: () => 'glm-4.7', processMessage: jest.fn(async () => ({ text: 'fallback' })) };
+    const router = new LLMRouter(
+      { openAICompatible: [service], zai: zai as unknown as ZAIService },
+      { defaultProvider: 'openai:local', fallbackOrder: ['zai'] }
+    );
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const pending = router.processMessageStream('1', 'vertel een verhaal', {
+      onContent: (chunk) => {
+        chunks.push(chunk);
+        controller.abort();
+      },
+    }, { signal: controller.signal });
+
+    await expect(pending).rejects.toBeInstanceOf(LLMCancelledError);
+    expect(chunks).toEqual(['Er was eens']);
+    expect(zai.processMessage).not.toHaveBeenCalled();
+    expect(router.getProviderHealth('openai:local').failures).toBe(0);
+
+    // The cancelled prompt is not left behind in the history
+    await expect(router.processMessageStream('1', 'nieuw', {}, { signal: AbortSignal.timeout(200) }))
+      .rejects.toBeInstanceOf(LLMCancelledError);
+    expect(requests[1].messages.map((message) => message.role)).toEqual(['system', 'user']);
+  });
+
+  it('does not start a request that is already cancelled', async () => {
+    const router = new LLMRouter({ openAICompatible: [service] }, { defaultProvider: 'openai:local' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(router.processMessageStream('1', 'hoi', {}, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(LLMCancelledError);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('ClaudeCodeService cancellation', () => {
+  let tempDir: string;
+  let claude: ClaudeCodeService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-cancel-'));
+    const cli = path.join(tempDir, 'claude');
+    fs.writeFileSync(cli, '#!/bin/sh\nexec sleep 30\n', { mode: 0o755 });
+    claude = new ClaudeCodeService({
+      cliBinary: cli,
+      workingDir: tempDir,
+      sessionStorage: 'memory',
+      timeout: 20_000,
+    });
+  });
+
+  afterEach(() => {
+    claude.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('kills the CLI process when the signal aborts', async () => {
+    const controller = new AbortController();
+    const onError = jest.fn();
+    const startTime = Date.now();
+
+    const pending = claude.processMessageStream('1', 'hoi', { onError }, undefined, controller.signal);
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(Date.now() - startTime).toBeLessThan(5_000);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * LLM compare tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { LLMRouter } from '../../../src/llm';
+import type { ZAIService } from '../../../src/zai';
+import type { MistralService } from '../../../src/mistral';
+import type { ClaudeCodeService } from '../../../src/claude-code';
+
+type RequestOptions = { model?: string; onContent?: (chunk: string) => void };
+
+function createServices() {
+  const zai = {
+    getModel: () => 'glm-4.7',
+    processMessage: jest.fn(async (_chatId: string, _message: string, _options?: RequestOptions) => ({
+      text: 'antwoord van zai',
+      usage: { promptTokens: 12, completionTokens: 30, totalTokens: 42 },
+    })),
+    clearConversation: jest.fn((_chatId: string) => {}),
+    addExchange: jest.fn((_chatId: string, _user: string, _assistant: string) => {}),
+  };
+  const mistral = {
+    getModel: () => 'mistral-small-latest',
+    processMessage: jest.fn(async (_chatId: string, _message: string, _options?: RequestOptions) => {
+      throw new Error('Mistral API error (503)');
+    }),
+    clearConversation: jest.fn((_chatId: string) => {}),
+    addExchange: jest.fn((_chatId: string, _user: string, _assistant: string) => {}),
+  };
+  const router = new LLMRouter(
+    {
+      zai: zai as unknown as ZAIService,
+      mistral: mistral as unknown as MistralService,
+      claude: {} as ClaudeCodeService,
+    },
+    { defaultProvider: 'zai' }
+  );
+  return { router, zai, mistral };
+}
+
+describe('LLMRouter.compare', () => {
+  it('asks every provider in parallel without touching the chat history', async () => {
+    const { router, zai, mistral } = createServices();
+
+    const answers = await router.compare('1', 'wat is 2+2?', ['zai', 'mistral']);
+
+    expect(answers.map((answer) => answer.provider)).toEqual(['zai', 'mistral']);
+    expect(answers[0]).toMatchObject({ text: 'antwoord van zai', model: 'glm-4.7' });
+    expect(answers[0].usage).toMatchObject({ inputTokens: 12, outputTokens: 30 });
+    expect(answers[1].error).toContain('503');
+    expect(answers[1].text).toBeUndefined();
+
+    // Throwaway history, cleared again afterwards
+    const scopedChatId = zai.processMessage.mock.calls[0][0];
+    expect(scopedChatId).not.toBe('1');
+    expect(zai.clearConversation).toHaveBeenCalledWith(scopedChatId);
+    expect(mistral.clearConversation).toHaveBeenCalledWith(mistral.processMessage.mock.calls[0][0]);
+    expect(router.getProviderHealth('mistral').failures).toBe(1);
+  });
+
+  it('leaves the Claude CLI out by default and passes the cancel signal', async () => {
+    const { router, zai } = createServices();
+    const claude = router.getProviderStatus().find((status) => status.provider === 'claude-cli');
+    const controller = new AbortController();
+
+    expect(claude?.available).toBe(true);
+    expect(router.getCompareProviders()).not.toContain('claude-cli');
+
+    await router.compare('1', 'hoi', ['zai'], { signal: controller.signal });
+    expect(zai.processMessage.mock.calls[0][2]).toMatchObject({ signal: controller.signal });
+  });
+
+  it('keeps a chosen answer in the history of the active provider', () => {
+    const { router, zai, mistral } = createServices();
+
+    expect(router.keepAnswer('1', 'vraag', 'antwoord van mistral')).toBe(true);
+    expect(zai.addExchange).toHaveBeenCalledWith('1', 'vraag', 'antwoord van mistral');
+
+    router.setProvider('1', 'mistral');
+    router.keepAnswer('1', 'vraag', 'antwoord');
+    expect(mistral.addExchange).toHaveBeenCalledTimes(1);
+
+    router.setProvider('1', 'claude-cli');
+    expect(router.keepAnswer('1', 'vraag', 'antwoord')).toBe(false);
+  });
+});
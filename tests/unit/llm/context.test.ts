@@ -0,0 +1,157 @@
+/**
+ * Context budget tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { ContextManager, withSummary, type ContextMessage } from '../../../src/llm';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+
+function turns(count: number, size = 400): ContextMessage[] {
+  const messages: ContextMessage[] = [];
+  for (let index = 1; index <= count; index++) {
+    messages.push({ role: 'user', content: `vraag ${index} `.padEnd(size, '.') });
+    messages.push({ role: 'assistant', content: `antwoord ${index} `.padEnd(size, '.') });
+  }
+  return messages;
+}
+
+describe('ContextManager', () => {
+  it('resolves budgets per model by exact match or prefix', () => {
+    const manager = new ContextManager({ defaultBudget: 1000, budgets: { 'glm-4.7': 5000, 'llama3': 2000 } });
+
+    expect(manager.getBudget('glm-4.7')).toBe(5000);
+    expect(manager.getBudget('llama3.1:8b')).toBe(2000);
+    expect(manager.getBudget('unknown')).toBe(1000);
+    expect(manager.getBudget()).toBe(1000);
+  });
+
+  it('summarises older turns and keeps the last turns verbatim', async () => {
+    const manager = new ContextManager({ defaultBudget: 500, keepTurns: 2 });
+    const messages = turns(5);
+    const summarize = jest.fn(async (_system: string, _prompt: string) => 'samenvatting 1-3');
+
+    expect(await manager.compact(messages, 'system', undefined, summarize)).toBe(true);
+
+    expect(summarize.mock.calls[0][1]).toContain('vraag 3');
+    expect(summarize.mock.calls[0][1]).not.toContain('vraag 4');
+    expect(messages[0]).toEqual({ role: 'system', content: 'samenvatting 1-3' });
+    expect(messages.slice(1).map((message) => message.content.split(' ').slice(0, 2).join(' '))).toEqual([
+      'vraag 4', 'antwoord 4', 'vraag 5', 'antwoord 5',
+    ]);
+
+    const prepared = withSummary('system', messages);
+    expect(prepared.systemPrompt).toContain('samenvatting 1-3');
+    expect(prepared.messages).toHaveLength(4);
+    expect(manager.getUsage('system', messages).summarized).toBe(true);
+  });
+
+  it('updates the running summary and leaves history alone when summarising fails', async () => {
+    const manager = new ContextManager({ defaultBudget: 500, keepTurns: 1 });
+    const messages: ContextMessage[] = [{ role: 'system', content: 'oude samenvatting' }, ...turns(3)];
+    const before = [...messages];
+
+    await expect(manager.compact(messages, 'system', undefined, async () => {
+      throw new Error('provider down');
+    })).resolves.toBe(false);
+    expect(messages).toEqual(before);
+
+    const summarize = jest.fn(async (_system: string, _prompt: string) => 'nieuwe samenvatting');
+    await manager.compact(messages, 'system', undefined, summarize);
+    expect(summarize.mock.calls[0][1]).toContain('oude samenvatting');
+    expect(messages).toHaveLength(3);
+  });
+
+  it('stops instead of sending the full history when the request is cancelled', async () => {
+    const manager = new ContextManager({ defaultBudget: 500, keepTurns: 1 });
+    const controller = new AbortController();
+
+    await expect(manager.compact(turns(3), 'system', undefined, async () => {
+      controller.abort();
+      throw new Error('aborted');
+    }, controller.signal)).rejects.toThrow('aborted');
+  });
+
+  it('does nothing within the budget', async () => {
+    const manager = new ContextManager({ defaultBudget: 10_000 });
+    const summarize = jest.fn(async () => 'x');
+
+    expect(await manager.compact(turns(3), 'system', undefined, summarize)).toBe(false);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+});
+
+describe('API provider compaction', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ messages: ContextMessage[] }> = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push(body);
+        const isSummary = body.messages[0].content.startsWith('You summarise');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content: isSummary ? 'kort verslag' : 'antwoord '.padEnd(400, '.') },
+            finish_reason: 'stop',
+          }],
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('summarises with the provider itself and sends the summary in the system prompt', async () => {
+    const service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl,
+      model: 'llama3',
+      systemPrompt: 'system',
+      conversations: { cleanupIntervalMs: 0 },
+      context: new ContextManager({ defaultBudget: 300, keepTurns: 1 }),
+    });
+
+    for (let index = 1; index <= 3; index++) {
+      await service.processMessage('1', `vraag ${index} `.padEnd(400, '.'));
+    }
+    service.destroy();
+
+    const summaryRequest = requests.find((request) => request.messages[0].content.startsWith('You summarise'));
+    expect(summaryRequest).toBeDefined();
+
+    const last = requests[requests.length - 1];
+    expect(last.messages[0].content).toContain('kort verslag');
+    expect(last.messages.slice(1)).toHaveLength(1);
+    expect(last.messages[1].content).toContain('vraag 3');
+  });
+
+  it('counts the chat persona instead of the default prompt in the usage', () => {
+    const service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl,
+      model: 'llama3',
+      systemPrompt: 'system',
+      conversations: { cleanupIntervalMs: 0 },
+      context: new ContextManager({ defaultBudget: 10_000 }),
+    });
+
+    const plain = service.getContextUsage('1');
+    const persona = service.getContextUsage('1', undefined, 'Je bent een piraat. '.repeat(50));
+    service.destroy();
+
+    expect(persona!.usedTokens).toBeGreaterThan(plain!.usedTokens);
+  });
+});
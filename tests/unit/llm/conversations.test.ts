@@ -0,0 +1,158 @@
+/**
+ * Conversation history storage tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { ConversationCache, createConversationStore } from '../../../src/llm';
+import type { LLMConversationStore } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+
+type Message = { role: 'user' | 'assistant'; content: string };
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ConversationCache', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let store: LLMConversationStore;
+  let now: number;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-conversations-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    store = createConversationStore(db);
+    now = Date.now();
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createCache = (namespace = 'zai') => new ConversationCache<Message>(namespace, {
+    store,
+    ttlMs: 24 * HOUR,
+    idleMs: HOUR,
+    cleanupIntervalMs: 0,
+    now: () => now,
+  });
+
+  it('loads stored history lazily after a restart', () => {
+    const first = createCache();
+    first.get('42').messages.push({ role: 'user', content: 'hoi' }, { role: 'assistant', content: 'hallo' });
+    first.save('42');
+    first.get('dev:42').messages.push({ role: 'user', content: 'fix' });
+    first.save('dev:42');
+
+    const second = createCache();
+    expect(Array.from(second.values())).toHaveLength(0);
+    expect(second.get('42').messages).toEqual([
+      { role: 'user', content: 'hoi' },
+      { role: 'assistant', content: 'hallo' },
+    ]);
+    expect(second.get('dev:42').messages).toEqual([{ role: 'user', content: 'fix' }]);
+    expect(createCache('mistral').get('42').messages).toEqual([]);
+  });
+
+  it('drops idle conversations from memory but keeps them stored', () => {
+    const cache = createCache();
+    cache.get('1').messages.push({ role: 'user', content: 'a' });
+    cache.save('1');
+
+    now += 2 * HOUR;
+    cache.evict();
+
+    expect(Array.from(cache.values())).toHaveLength(0);
+    expect(cache.get('1').messages).toHaveLength(1);
+  });
+
+  it('expires conversations after the TTL', () => {
+    const cache = createCache();
+    cache.get('1').messages.push({ role: 'user', content: 'a' });
+    cache.save('1');
+    const mistral = createCache('mistral');
+    mistral.get('1').messages.push({ role: 'user', content: 'b' });
+    mistral.save('1');
+
+    now += 25 * HOUR;
+    expect(createCache().get('1').messages).toEqual([]);
+    expect(db.getConversation('mistral:1')).toBeDefined();
+
+    expect(mistral.cleanup()).toBe(1);
+    expect(db.getConversation('mistral:1')).toBeUndefined();
+  });
+
+  it('delete removes the stored conversation', () => {
+    const cache = createCache();
+    cache.get('1').messages.push({ role: 'user', content: 'a' });
+    cache.save('1');
+    cache.delete('1');
+
+    expect(db.getConversation('zai:1')).toBeUndefined();
+  });
+});
+
+describe('API provider history across restarts', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ messages: Message[] }> = [];
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-conversations-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requests.push(JSON.parse(raw));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{ index: 0, message: { role: 'assistant', content: `antwoord ${requests.length}` }, finish_reason: 'stop' }],
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createService = () => new OpenAICompatibleService({
+    name: 'local',
+    baseUrl,
+    model: 'llama3',
+    conversations: { store: createConversationStore(db), cleanupIntervalMs: 0 },
+  });
+
+  it('sends the stored context after a restart', async () => {
+    const first = createService();
+    await first.processMessage('1', 'eerste');
+    first.destroy();
+
+    const second = createService();
+    await second.processMessage('1', 'tweede');
+    await second.processDeveloperMessage('1', 'code');
+    second.destroy();
+
+    expect(requests[1].messages.slice(1)).toEqual([
+      { role: 'user', content: 'eerste' },
+      { role: 'assistant', content: 'antwoord 1' },
+      { role: 'user', content: 'tweede' },
+    ]);
+    expect(requests[2].messages.slice(1)).toEqual([{ role: 'user', content: 'code' }]);
+    expect(db.getConversation('openai:local:dev:1')).toBeDefined();
+  });
+});
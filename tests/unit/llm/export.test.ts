@@ -0,0 +1,126 @@
+/**
+ * Conversation export/import tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { LLMRouter, LLMTranscriptError, createLLMTranscriptStore, type LLMTranscript } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import type { ClaudeCodeService } from '../../../src/claude-code';
+import {
+  formatTranscriptHtml,
+  formatTranscriptJson,
+  formatTranscriptMarkdown,
+  parseTranscriptJson,
+} from '../../../src/features/llm';
+
+describe('conversation export', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let server: http.Server;
+  let service: OpenAICompatibleService;
+  let router: LLMRouter;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-export-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'Hallo!' } }] })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+    router = new LLMRouter(
+      { openAICompatible: [service] },
+      { defaultProvider: 'openai:local', transcripts: createLLMTranscriptStore(db) }
+    );
+  });
+
+  afterEach(async () => {
+    service.destroy();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('exports the history with provider and model of the recorded turns', async () => {
+    await router.processMessageStream('1', 'Hoi', {});
+    router.keepAnswer('1', 'Uit /compare', 'Gekozen antwoord');
+
+    const transcript = await router.getTranscript('1');
+
+    expect(transcript.provider).toBe('openai:local');
+    expect(transcript.turns).toHaveLength(2);
+    expect(transcript.turns[0]).toMatchObject({ prompt: 'Hoi', answer: 'Hallo!', provider: 'openai:local', model: 'llama3' });
+    expect(transcript.turns[0].at).toEqual(expect.any(Number));
+    // Kept from /compare: in the history, but never recorded as a turn
+    expect(transcript.turns[1]).toEqual({ prompt: 'Uit /compare', answer: 'Gekozen antwoord' });
+  });
+
+  it('restores a JSON export into the active conversation', async () => {
+    await router.processMessageStream('1', 'Hoi', {});
+    const file = formatTranscriptJson(await router.getTranscript('1'));
+
+    const imported = parseTranscriptJson(file);
+    expect(router.importTranscript('2', imported)).toBe(1);
+    expect(service.getHistory('2')).toEqual([
+      { role: 'user', content: 'Hoi' },
+      { role: 'assistant', content: 'Hallo!' },
+    ]);
+
+    expect(() => parseTranscriptJson('{"turns": []}')).toThrow(LLMTranscriptError);
+    expect(() => parseTranscriptJson('geen json')).toThrow(LLMTranscriptError);
+  });
+
+  it('does not import into a Claude CLI session', () => {
+    const claude = { getActiveSession: async () => null } as unknown as ClaudeCodeService;
+    const cliRouter = new LLMRouter({ claude }, { defaultProvider: 'claude-cli' });
+
+    expect(() => cliRouter.importTranscript('1', { turns: [{ prompt: 'a', answer: 'b' }] })).toThrow(LLMTranscriptError);
+  });
+});
+
+describe('transcript formats', () => {
+  const transcript: LLMTranscript = {
+    chatId: '1',
+    provider: 'zai',
+    label: 'Z.ai',
+    model: 'glm-4.7',
+    exportedAt: Date.UTC(2026, 9, 19, 12, 0),
+    turns: [{
+      prompt: 'Noteer <melk>',
+      answer: 'Genoteerd.',
+      at: Date.UTC(2026, 9, 19, 11, 58),
+      provider: 'zai',
+      model: 'glm-4.7',
+      tools: [{ name: 'add_note', input: { text: 'melk' } }],
+    }],
+  };
+
+  it('lists the time, model and tool calls per turn', () => {
+    const markdown = formatTranscriptMarkdown(transcript);
+    expect(markdown).toContain('# Gesprek met Z.ai (glm-4.7)');
+    expect(markdown).toContain('### 👤 Vraag · 2026-10-19 11:58 UTC');
+    expect(markdown).toContain('### 🤖 zai · glm-4.7');
+    expect(markdown).toContain('> 🔧 `add_note {"text":"melk"}`');
+
+    const html = formatTranscriptHtml(transcript);
+    expect(html).toContain('Noteer &lt;melk&gt;');
+    expect(html).not.toContain('<melk>');
+  });
+});
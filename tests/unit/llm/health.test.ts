@@ -0,0 +1,86 @@
+/**
+ * Provider health tracker tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ProviderHealthTracker } from '../../../src/llm';
+
+function createTracker() {
+  let now = 0;
+  const tracker = new ProviderHealthTracker({
+    failureThreshold: 2,
+    cooldownMs: 1000,
+    probeTimeoutMs: 5000,
+    windowMs: 10_000,
+    now: () => now,
+  });
+  return { tracker, advance: (ms: number) => { now += ms; } };
+}
+
+describe('ProviderHealthTracker', () => {
+  it('keeps rolling stats per provider', () => {
+    const { tracker, advance } = createTracker();
+    tracker.recordSuccess('zai', 100);
+    tracker.recordFailure('zai', 300, new Error('boom'));
+    tracker.recordSuccess('mistral', 50);
+
+    expect(tracker.getHealth('zai')).toMatchObject({
+      state: 'closed',
+      successes: 1,
+      failures: 1,
+      errorRate: 0.5,
+      avgLatencyMs: 200,
+      lastError: 'boom',
+    });
+
+    advance(10_001);
+    expect(tracker.getHealth('zai')).toMatchObject({ successes: 0, failures: 0, avgLatencyMs: undefined });
+  });
+
+  it('opens after repeated failures and allows a single probe after the cooldown', () => {
+    const { tracker, advance } = createTracker();
+    tracker.recordFailure('zai', 10);
+    expect(tracker.isCallable('zai')).toBe(true);
+    tracker.recordFailure('zai', 10);
+
+    expect(tracker.getHealth('zai')).toMatchObject({ state: 'open', retryAt: 1000 });
+    expect(tracker.isCallable('zai')).toBe(false);
+
+    advance(1000);
+    expect(tracker.isCallable('zai')).toBe(true);
+    tracker.beginAttempt('zai');
+    expect(tracker.getHealth('zai').state).toBe('half-open');
+    // Only one probe at a time
+    expect(tracker.isCallable('zai')).toBe(false);
+
+    tracker.recordSuccess('zai', 10);
+    expect(tracker.getHealth('zai')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('re-opens when the probe fails', () => {
+    const { tracker, advance } = createTracker();
+    tracker.recordFailure('zai', 10);
+    tracker.recordFailure('zai', 10);
+    advance(1000);
+    tracker.beginAttempt('zai');
+    tracker.recordFailure('zai', 10);
+
+    expect(tracker.getHealth('zai')).toMatchObject({ state: 'open', retryAt: 2000 });
+    expect(tracker.isCallable('zai')).toBe(false);
+  });
+
+  it('allows a new probe when the previous one hangs', () => {
+    const { tracker, advance } = createTracker();
+    tracker.recordFailure('zai', 10);
+    tracker.recordFailure('zai', 10);
+    advance(1000);
+    tracker.beginAttempt('zai');
+
+    advance(4999);
+    expect(tracker.isCallable('zai')).toBe(false);
+    advance(1);
+    expect(tracker.isCallable('zai')).toBe(true);
+    tracker.beginAttempt('zai');
+    expect(tracker.isCallable('zai')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * LLM persona tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMRouter, LLMPersonaManager, LLMPersonaError } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import type { ZAIService } from '../../../src/zai';
+import type { ClaudeCodeService } from '../../../src/claude-code';
+
+type RequestOptions = { model?: string; systemPrompt?: string };
+
+describe('LLMPersonaManager', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let personas: LLMPersonaManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-personas-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    personas = new LLMPersonaManager(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('shares personas between chats and keeps the selection per chat', () => {
+    expect(personas.save('Piraat', 'Je bent een piraat.', '1')).toBe(true);
+
+    personas.select('2', 'piraat');
+    expect(personas.getSystemPrompt('2')).toBe('Je bent een piraat.');
+    expect(personas.getSystemPrompt('1')).toBeUndefined();
+
+    expect(personas.save('piraat', 'Arr, je bent een piraat.', '1')).toBe(false);
+    expect(new LLMPersonaManager(db).getSystemPrompt('2')).toBe('Arr, je bent een piraat.');
+
+    personas.select('1', 'concise');
+    expect(personas.getActive('1')?.builtIn).toBe(true);
+    personas.clear('1');
+    expect(personas.getActive('1')).toBeUndefined();
+  });
+
+  it('only lets the creating chat edit or delete a persona', () => {
+    personas.save('piraat', 'Je bent een piraat.', '1');
+    personas.select('2', 'piraat');
+
+    expect(() => personas.save('piraat', 'gekaapt', '2')).toThrow(LLMPersonaError);
+    expect(() => personas.remove('piraat', '2')).toThrow(LLMPersonaError);
+    expect(() => personas.save('reviewer', 'anders', '1')).toThrow(LLMPersonaError);
+    expect(() => personas.save('met spatie', 'x', '1')).toThrow(LLMPersonaError);
+    expect(() => personas.select('1', 'onbekend')).toThrow(LLMPersonaError);
+
+    personas.remove('piraat', '1');
+    expect(personas.get('piraat')).toBeUndefined();
+    expect(personas.getActive('2')).toBeUndefined();
+  });
+});
+
+describe('LLMRouter personas', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-personas-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('sends the chat persona to API providers and the Claude CLI', async () => {
+    const zai = {
+      getModel: () => 'glm-4.7',
+      processMessage: jest.fn(async (_chatId: string, _message: string, _options?: RequestOptions) => ({ text: 'ok' })),
+    };
+    const claude = {
+      processMessageStream: jest.fn(async (_chatId: string, _message: string, _callbacks: object, _systemPrompt?: string) => ({
+        text: 'ok',
+        sessionId: 's',
+        isNewSession: false,
+        durationMs: 1,
+        exitCode: 0,
+      })),
+    };
+    const personas = new LLMPersonaManager(db);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, claude: claude as unknown as ClaudeCodeService },
+      { defaultProvider: 'zai', personas }
+    );
+
+    await router.processMessageStream('1', 'hoi', {});
+    expect(zai.processMessage.mock.calls[0][2]?.systemPrompt).toBeUndefined();
+
+    const reviewer = personas.select('1', 'reviewer');
+    await router.processMessageStream('1', 'review dit', {});
+    expect(zai.processMessage.mock.calls[1][2]?.systemPrompt).toBe(reviewer.prompt);
+
+    router.setProvider('1', 'claude-cli');
+    await router.processMessageStream('1', 'review dat', {});
+    expect(claude.processMessageStream.mock.calls[0].slice(0, 2)).toEqual(['1', 'review dat']);
+    expect(claude.processMessageStream.mock.calls[0][3]).toBe(reviewer.prompt);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * LLM request queue tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { LLMRequestQueue, LLMQueueFullError } from '../../../src/llm';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('LLMRequestQueue', () => {
+  it('runs the messages of a chat one after another', async () => {
+    const queue = new LLMRequestQueue({ maxDepth: 2 });
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = queue.enqueue('1', 'a', async (prompt) => { order.push(prompt); await first.promise; });
+    const b = queue.enqueue('1', 'b', async (prompt) => { order.push(prompt); });
+    const other = queue.enqueue('2', 'x', async (prompt) => { order.push(prompt); });
+
+    expect([a.position, b.position, other.position]).toEqual([1, 2, 1]);
+    await other.done;
+    expect(order).toEqual(['a', 'x']);
+
+    first.resolve();
+    await b.done;
+    expect(order).toEqual(['a', 'x', 'b']);
+    expect(queue.getWaiting('1')).toBe(0);
+  });
+
+  it('refuses messages beyond the maximum depth and drops waiting ones on clear', async () => {
+    const queue = new LLMRequestQueue({ maxDepth: 1 });
+    const running = deferred();
+    const ran: string[] = [];
+
+    queue.enqueue('1', 'a', () => running.promise);
+    const waiting = queue.enqueue('1', 'b', async (prompt) => { ran.push(prompt); });
+    expect(() => queue.enqueue('1', 'c', async () => {})).toThrow(LLMQueueFullError);
+
+    expect(queue.clear('1')).toBe(1);
+    await expect(waiting.started).resolves.toBe(false);
+    running.resolve();
+    await waiting.done;
+    expect(ran).toEqual([]);
+  });
+
+  it('merges quick consecutive messages into one prompt', async () => {
+    const queue = new LLMRequestQueue({ mergeWindowMs: 30 });
+    const prompts: string[] = [];
+    const run = async (prompt: string) => { prompts.push(prompt); };
+
+    const first = queue.enqueue('1', 'hoi', run, 'anna');
+    const second = queue.enqueue('1', 'nog een vraag', run, 'anna');
+
+    expect(second).toMatchObject({ merged: true, position: 1 });
+    await Promise.all([first.done, second.done]);
+    expect(prompts).toEqual(['hoi\n\nnog een vraag']);
+  });
+
+  it('applies the maximum depth while the first batch waits for the merge window', async () => {
+    const queue = new LLMRequestQueue({ maxDepth: 1, mergeWindowMs: 30 });
+    const ran: string[] = [];
+    const run = async (prompt: string) => { ran.push(prompt); };
+
+    const first = queue.enqueue('1', 'a', run, 'anna');
+    const second = queue.enqueue('1', 'b', run);
+    expect(() => queue.enqueue('1', 'c', run)).toThrow(LLMQueueFullError);
+    expect(queue.getWaiting('1')).toBe(2);
+
+    await Promise.all([first.done, second.done]);
+    expect(ran).toEqual(['a', 'b']);
+  });
+
+  it('keeps messages of another sender or without a merge key apart', async () => {
+    const queue = new LLMRequestQueue({ mergeWindowMs: 30 });
+    const ran: string[] = [];
+
+    const tickets = [
+      queue.enqueue('1', 'hoi', async (prompt) => { ran.push(`anna: ${prompt}`); }, 'anna'),
+      queue.enqueue('1', 'ik ook', async (prompt) => { ran.push(`bob: ${prompt}`); }, 'bob'),
+      queue.enqueue('1', 'met foto', async (prompt) => { ran.push(`bob: ${prompt}`); }),
+      queue.enqueue('1', 'nog iets', async (prompt) => { ran.push(`bob: ${prompt}`); }, 'bob'),
+    ];
+
+    expect(tickets.map((ticket) => ticket.merged)).toEqual([false, false, false, false]);
+    await Promise.all(tickets.map((ticket) => ticket.done));
+    expect(ran).toEqual(['anna: hoi', 'bob: ik ook', 'bob: met foto', 'bob: nog iets']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * LLM quota tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMRouter, LLMQuotaManager, LLMQuotaExceededError, LLMUsageTracker } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import type { ZAIService } from '../../../src/zai';
+import type { MistralService } from '../../../src/mistral';
+
+type RequestOptions = { model?: string; onContent?: (chunk: string) => void };
+
+function createService(model: string) {
+  return {
+    getModel: () => model,
+    processMessage: jest.fn(async (_chatId: string, _message: string, options?: RequestOptions) => ({
+      text: `antwoord van ${options?.model}`,
+      usage: { promptTokens: 600, completionTokens: 400 },
+    })),
+  };
+}
+
+describe('LLMQuotaManager', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let now: number;
+  let quotas: LLMQuotaManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-quotas-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    now = Date.now();
+    quotas = new LLMQuotaManager(db, () => now);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('limits requests per chat in a sliding hour', () => {
+    quotas.setRule({ kind: 'chat-requests-hour', scope: '*', limit: 2, action: 'block' });
+
+    quotas.recordRequest('1');
+    quotas.recordRequest('1');
+    expect(quotas.check({ chatId: '1', provider: 'zai' }).type).toBe('block');
+    expect(quotas.check({ chatId: '2', provider: 'zai' }).type).toBe('allow');
+
+    // Counted in the database, so a restart keeps the limit
+    expect(new LLMQuotaManager(db, () => now).check({ chatId: '1', provider: 'zai' }).type).toBe('block');
+
+    now += 61 * 60 * 1000;
+    expect(quotas.check({ chatId: '1', provider: 'zai' }).type).toBe('allow');
+  });
+
+  it('prefers a specific rule over the default and downgrades on user tokens', () => {
+    const tracker = new LLMUsageTracker(db);
+    tracker.recordUsage({ chatId: '1', userId: '7', provider: 'zai', inputTokens: 800, outputTokens: 400 });
+    quotas.setRule({ kind: 'user-tokens-day', scope: '*', limit: 1000, action: 'block' });
+    quotas.setRule({
+      kind: 'user-tokens-day',
+      scope: '7',
+      limit: 1000,
+      action: 'downgrade',
+      downgradeProvider: 'mistral',
+      downgradeModel: 'mistral-small-latest',
+    });
+
+    expect(quotas.check({ chatId: '1', userId: '7', provider: 'zai' })).toMatchObject({
+      type: 'downgrade',
+      provider: 'mistral',
+      model: 'mistral-small-latest',
+    });
+    expect(quotas.getUsage().find((entry) => entry.rule.scope === '7')?.used).toBe(1200);
+
+    expect(quotas.removeRule('user-tokens-day', '7')).toBe(true);
+    expect(quotas.check({ chatId: '1', userId: '7', provider: 'zai' }).type).toBe('block');
+  });
+
+  it('refuses a downgrade to a provider over its monthly budget', () => {
+    const tracker = new LLMUsageTracker(db);
+    tracker.recordUsage({ chatId: '1', provider: 'anthropic', inputTokens: 1, outputTokens: 1, costUSD: 30 });
+    tracker.recordUsage({ chatId: '1', provider: 'mistral', inputTokens: 1, outputTokens: 1, costUSD: 6 });
+    quotas.setRule({ kind: 'provider-cost-month', scope: 'anthropic', limit: 25, action: 'downgrade', downgradeProvider: 'mistral' });
+
+    expect(quotas.isProviderCapped('anthropic')).toBe(true);
+    expect(quotas.check({ chatId: '1', provider: 'anthropic' })).toMatchObject({ type: 'downgrade', provider: 'mistral' });
+
+    quotas.setRule({ kind: 'provider-cost-month', scope: 'mistral', limit: 5, action: 'block' });
+    expect(quotas.check({ chatId: '1', provider: 'anthropic' }).type).toBe('block');
+  });
+});
+
+describe('LLMRouter quotas', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-quotas-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('refuses or downgrades requests and tells the user', async () => {
+    const zai = createService('glm-4.7');
+    const mistral = createService('mistral-large-latest');
+    const quotas = new LLMQuotaManager(db);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, mistral: mistral as unknown as MistralService },
+      { defaultProvider: 'zai', usage: new LLMUsageTracker(db), quotas }
+    );
+
+    quotas.setRule({
+      kind: 'user-tokens-day',
+      scope: '*',
+      limit: 1000,
+      action: 'downgrade',
+      downgradeProvider: 'mistral',
+      downgradeModel: 'mistral-small-latest',
+    });
+    quotas.setRule({ kind: 'chat-requests-hour', scope: '*', limit: 2, action: 'block' });
+
+    await router.processMessageStream('1', 'eerste', {}, { userId: '7' });
+    expect(zai.processMessage).toHaveBeenCalledTimes(1);
+
+    const notices: string[] = [];
+    const result = await router.processMessageStream('1', 'tweede', {}, {
+      userId: '7',
+      onNotice: (text) => { notices.push(text); },
+    });
+    expect(result.text).toBe('antwoord van mistral-small-latest');
+    expect(notices[0]).toContain('Mistral (mistral-small-latest)');
+
+    await expect(router.processMessageStream('1', 'derde', {}, { userId: '7' }))
+      .rejects.toBeInstanceOf(LLMQuotaExceededError);
+    expect(zai.processMessage).toHaveBeenCalledTimes(1);
+    expect(mistral.processMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('only counts answered requests towards the hourly chat limit', async () => {
+    const zai = createService('glm-4.7');
+    zai.processMessage.mockRejectedValueOnce(new Error('Z.ai API error (503)'));
+    const quotas = new LLMQuotaManager(db);
+    const router = new LLMRouter({ zai: zai as unknown as ZAIService }, { defaultProvider: 'zai', quotas });
+    quotas.setRule({ kind: 'chat-requests-hour', scope: '*', limit: 1, action: 'block' });
+
+    await expect(router.processMessageStream('1', 'eerste', {})).rejects.toThrow('503');
+    expect(quotas.getChatRequests('1')).toBe(0);
+
+    await router.processMessageStream('1', 'tweede', {});
+    await expect(router.processMessageStream('1', 'derde', {})).rejects.toBeInstanceOf(LLMQuotaExceededError);
+  });
+});
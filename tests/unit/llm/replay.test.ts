@@ -0,0 +1,240 @@
+/**
+ * Record/replay provider tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  LLMRouter,
+  LLMCancelledError,
+  LLMToolRejectedError,
+  createLLMReplayProvider,
+  createLLMToolRegistry,
+  fixtureKey,
+  type LLMProvider,
+  type LLMToolContext,
+  type ReplayEvent,
+} from '../../../src/llm';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import { createStreamingMessageHandler } from '../../../src/bot/handlers/streaming-message';
+import { getConfirmationManager, resetConfirmationManager } from '../../../src/streaming/confirmation';
+import { StreamStatus } from '../../../src/streaming/types';
+import type { ClaudeCodeStreamCallbacks } from '../../../src/streaming/types';
+import type { ApiMethods } from '../../../src/api';
+import type { Message } from '../../../src/types/telegram';
+
+function writeFixture(dir: string, provider: LLMProvider, prompt: string, events: ReplayEvent[], text: string): void {
+  fs.writeFileSync(path.join(dir, `${fixtureKey(provider, prompt)}-1.json`), JSON.stringify({
+    version: 1,
+    provider,
+    prompt,
+    recordedAt: new Date().toISOString(),
+    events,
+    result: { text, durationMs: 20, exitCode: 0 },
+  }));
+}
+
+/** Callbacks that log every event as a short string */
+function collect(log: string[]): ClaudeCodeStreamCallbacks {
+  return {
+    onStatusChange: (status) => { log.push(`status:${status}`); },
+    onContent: (chunk) => { log.push(`content:${chunk}`); },
+    onToolUse: async (tool) => { log.push(`tool:${tool.name}`); },
+    onToolResult: async (result) => { log.push(`result:${result.content}`); },
+  };
+}
+
+describe('LLMReplayProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records a real exchange with a tool call and replays it without the API', async () => {
+    const server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const answered = JSON.parse(raw).messages.some((message: { role: string }) => message.role === 'tool');
+        const delta = answered
+          ? { content: 'Opgeslagen.' }
+          : { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'create_note', arguments: '{"content":"melk"}' } }] };
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+    const execute = jest.fn(async (_args: Record<string, unknown>, _context: LLMToolContext) => 'Note saved (id 1)');
+    const tools = createLLMToolRegistry([{ name: 'create_note', description: 'Save a note', parameters: { type: 'object' }, execute }]);
+
+    const recorded: string[] = [];
+    try {
+      const recorder = new LLMRouter({ openAICompatible: [service] }, {
+        defaultProvider: 'openai:local',
+        toolProviders: ['openai:local'],
+        tools,
+        replay: createLLMReplayProvider({ mode: 'record', dir }),
+      });
+      await recorder.processMessageStream('7', 'onthoud melk', collect(recorded));
+    } finally {
+      service.destroy();
+      await new Promise((resolve) => server.close(resolve));
+    }
+    expect(fs.readdirSync(dir)).toEqual([`${fixtureKey('openai:local', 'onthoud melk')}-1.json`]);
+
+    const replayed: string[] = [];
+    const player = new LLMRouter({}, {
+      defaultProvider: 'openai:local',
+      tools,
+      replay: createLLMReplayProvider({ mode: 'replay', dir, speed: 0 }),
+    });
+    const result = await player.processMessageStream('7', 'onthoud melk', collect(replayed));
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed).toContain('tool:create_note');
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ text: 'Opgeslagen.', provider: 'openai:local' });
+    expect(result.toolHistory.map((tool) => tool.name)).toEqual(['create_note']);
+
+    // Rejecting the replayed tool call stops the request like a live one
+    await expect(player.processMessageStream('7', 'onthoud melk', {
+      onToolUse: async (tool) => { throw new LLMToolRejectedError(tool.name); },
+    })).rejects.toBeInstanceOf(LLMToolRejectedError);
+  });
+
+  it('replays Claude CLI stream-json lines through the CLI parser', async () => {
+    const line = (value: unknown): ReplayEvent => ({ at: 0, type: 'cli_line', line: JSON.stringify(value) });
+    writeFixture(dir, 'claude-cli', 'lees de readme', [
+      line({ type: 'assistant', message: { content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'README.md' } }] } }),
+      line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Het is een Telegram-bot.' }] } }),
+      line({ type: 'result', result: 'Het is een Telegram-bot.', usage: { input_tokens: 12, output_tokens: 6 }, total_cost_usd: 0.01 }),
+    ], 'Het is een Telegram-bot.');
+    const router = new LLMRouter({}, {
+      defaultProvider: 'claude-cli',
+      replay: createLLMReplayProvider({ mode: 'replay', dir, speed: 0 }),
+    });
+    const log: string[] = [];
+
+    const result = await router.processMessageStream('7', 'lees de readme', collect(log));
+
+    expect(log[0]).toBe('tool:Read');
+    expect(result.text).toBe('Het is een Telegram-bot.');
+    expect(result.toolHistory[0]).toMatchObject({ name: 'Read', input: { file_path: 'README.md' } });
+    expect(router.isProviderAvailable('claude-cli')).toBe(true);
+    expect(router.isProviderAvailable('zai')).toBe(false);
+  });
+
+  it('keeps the recorded timing and stops on cancel', async () => {
+    writeFixture(dir, 'zai', 'hoi', [
+      { at: 0, type: 'status', status: StreamStatus.THINKING },
+      { at: 200, type: 'content', chunk: 'Hallo' },
+    ], 'Hallo');
+    const router = new LLMRouter({}, {
+      defaultProvider: 'zai',
+      replay: createLLMReplayProvider({ mode: 'replay', dir, speed: 4 }),
+    });
+
+    const startTime = Date.now();
+    await router.processMessageStream('7', 'hoi', {});
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    await expect(router.processMessageStream('7', 'hoi', {}, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(LLMCancelledError);
+  });
+});
+
+describe('StreamingMessageHandler with a replayed provider', () => {
+  let dir: string;
+  let api: Record<string, jest.Mock<(...args: unknown[]) => Promise<unknown>>>;
+
+  const message = {
+    message_id: 1,
+    chat: { id: 67890, type: 'private' },
+    date: 0,
+    from: { id: 67890, is_bot: false, first_name: 'TestUser' },
+    text: 'onthoud melk',
+  } as Message;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    writeFixture(dir, 'zai', 'onthoud melk', [
+      { at: 0, type: 'status', status: StreamStatus.THINKING },
+      { at: 5, type: 'tool_use', id: 'call_1', name: 'create_note', input: { content: 'melk' }, requiresConfirmation: true },
+      { at: 10, type: 'tool_result', toolUseId: 'call_1', content: 'Note saved (id 1)', isError: false },
+      { at: 15, type: 'status', status: StreamStatus.RESPONSE },
+      { at: 15, type: 'content', chunk: 'Opgeslagen.' },
+    ], 'Opgeslagen.');
+    api = {
+      sendMessage: jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ message_id: 11111 })),
+      editMessageText: jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ message_id: 11111 })),
+      deleteMessage: jest.fn(async (..._args: unknown[]): Promise<unknown> => true),
+      answerCallbackQuery: jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ ok: true })),
+      sendChatAction: jest.fn(async (..._args: unknown[]): Promise<unknown> => true),
+      getMe: jest.fn(async (..._args: unknown[]): Promise<unknown> => ({ id: 12345, is_bot: true, first_name: 'TestBot' })),
+    };
+  });
+
+  afterEach(() => {
+    resetConfirmationManager();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function answerConfirmation(decision: 'approve' | 'reject'): Promise<void> {
+    const confirmationData = () => JSON.stringify(api.sendMessage.mock.calls).match(/"(conf_[^"]+):approve"/)?.[1];
+    for (let i = 0; i < 100 && !confirmationData(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await getConfirmationManager(api as unknown as ApiMethods).handleCallback(`${confirmationData()}:${decision}`, 'query-1');
+  }
+
+  function createHandler() {
+    const router = new LLMRouter({}, {
+      defaultProvider: 'zai',
+      replay: createLLMReplayProvider({ mode: 'replay', dir, speed: 0 }),
+    });
+    return createStreamingMessageHandler(api as unknown as ApiMethods, router);
+  }
+
+  it('shows the tool and the answer after approval', async () => {
+    const handler = createHandler();
+
+    await handler.handle(message);
+    await answerConfirmation('approve');
+    await handler.whenIdle(67890);
+    handler.destroy();
+
+    const output = JSON.stringify([...api.sendMessage.mock.calls, ...api.editMessageText.mock.calls]);
+    expect(output).toContain('create_note');
+    expect(output).toContain('Opgeslagen.');
+  });
+
+  it('cancels the request when the tool is rejected', async () => {
+    const handler = createHandler();
+
+    await handler.handle(message);
+    await answerConfirmation('reject');
+    await handler.whenIdle(67890);
+    handler.destroy();
+
+    expect(api.sendMessage).toHaveBeenCalledWith({ chat_id: 67890, text: '❌ Operation cancelled' });
+    expect(JSON.stringify(api.sendMessage.mock.calls)).not.toContain('Opgeslagen.');
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * LLM router tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { LLMRouter, createLLMPreferenceStore } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import type { ZAIService } from '../../../src/zai';
+import type { MistralService } from '../../../src/mistral';
+import type { ClaudeService } from '../../../src/claude';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import { StreamStatus } from '../../../src/streaming/types';
+
+type StreamOptions = { model?: string; onContent?: (chunk: string) => void };
+
+function createStreamingService(chunks: string[], failAfter?: number) {
+  return {
+    getModel: () => 'test-model',
+    processMessage: jest.fn(async (_chatId: string, _message: string, options?: StreamOptions) => {
+      chunks.forEach((chunk, index) => {
+        if (failAfter !== undefined && index >= failAfter) return;
+        options?.onContent?.(chunk);
+      });
+      if (failAfter !== undefined) {
+        throw new Error('stream broke');
+      }
+      return { text: chunks.join('') };
+    }),
+  };
+}
+
+describe('LLMRouter streaming', () => {
+  it('forwards provider deltas to onContent', async () => {
+    const zai = createStreamingService(['Hal', 'lo ', 'wereld']);
+    const router = new LLMRouter({ zai: zai as unknown as ZAIService }, { defaultProvider: 'zai' });
+
+    const chunks: string[] = [];
+    const statuses: StreamStatus[] = [];
+    const result = await router.processMessageStream('1', 'hoi', {
+      onContent: (chunk) => { chunks.push(chunk); },
+      onStatusChange: (status) => { statuses.push(status); },
+    });
+
+    expect(chunks).toEqual(['Hal', 'lo ', 'wereld']);
+    expect(result.text).toBe('Hallo wereld');
+    expect(statuses).toEqual([StreamStatus.THINKING, StreamStatus.RESPONSE]);
+  });
+
+  it('falls back when a provider fails before streaming', async () => {
+    const zai = createStreamingService(['x'], 0);
+    const mistral = createStreamingService(['fallback']);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, mistral: mistral as unknown as MistralService },
+      { defaultProvider: 'zai' }
+    );
+
+    const chunks: string[] = [];
+    const result = await router.processMessageStream('1', 'hoi', {
+      onContent: (chunk) => { chunks.push(chunk); },
+    });
+
+    expect(result.text).toBe('fallback');
+    expect(chunks).toEqual(['fallback']);
+  });
+
+  it('does not fall back once output was streamed', async () => {
+    const zai = createStreamingService(['half', 'way'], 1);
+    const mistral = createStreamingService(['fallback']);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, mistral: mistral as unknown as MistralService },
+      { defaultProvider: 'zai' }
+    );
+
+    await expect(router.processMessageStream('1', 'hoi', {})).rejects.toThrow('stream broke');
+    expect(mistral.processMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('LLMRouter preferences', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-prefs-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createRouter = () => new LLMRouter(
+    {
+      zai: createStreamingService([]) as unknown as ZAIService,
+      mistral: createStreamingService([]) as unknown as MistralService,
+    },
+    { defaultProvider: 'zai', store: createLLMPreferenceStore(db) }
+  );
+
+  it('restores provider and model choices in a new router', () => {
+    const first = createRouter();
+    first.setProvider('42', 'mistral');
+    first.setModel('42', 'mistral', 'codestral-latest');
+
+    const second = createRouter();
+    expect(second.getProvider('42')).toBe('mistral');
+    expect(second.getModel('42', 'mistral')).toBe('codestral-latest');
+    expect(second.getProvider('7')).toBe('zai');
+  });
+
+  it('resetChat clears the stored rows', () => {
+    const first = createRouter();
+    first.setProvider('42', 'mistral');
+    first.setModel('42', 'mistral', 'codestral-latest');
+    first.resetChat('42');
+
+    expect(db.getLLMProviderOverrides()).toHaveLength(0);
+    expect(db.getLLMModelOverrides()).toHaveLength(0);
+
+    const second = createRouter();
+    expect(second.getProvider('42')).toBe('zai');
+    expect(second.getModelOverride('42', 'mistral')).toBeUndefined();
+  });
+});
+
+describe('LLMRouter OpenAI-compatible providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; body: { model: string; stream?: boolean } }> = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ url: req.url, body });
+        if (!body.stream) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            choices: [{ index: 0, message: { role: 'assistant', content: `lokaal ${body.model}` }, finish_reason: 'stop' }],
+          }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'lokaal ' }, finish_reason: null }] })}\n\n`);
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: body.model }, finish_reason: 'stop' }] })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createRouter(zai?: ReturnType<typeof createStreamingService>) {
+    const local = new OpenAICompatibleService({ name: 'local', baseUrl, model: 'llama3', label: 'Ollama' });
+    return new LLMRouter(
+      { zai: zai as unknown as ZAIService, openAICompatible: [local] },
+      {
+        defaultProvider: 'openai:local',
+        devModels: { 'openai:local': 'coder' },
+        aliases: { ollama: 'openai:local', mistral: 'openai:local' },
+      }
+    );
+  }
+
+  it('registers instances as providers with aliases', () => {
+    const router = createRouter();
+
+    expect(router.normalizeProvider('local')).toBe('openai:local');
+    expect(router.normalizeProvider('OpenAI:Local')).toBe('openai:local');
+    expect(router.normalizeProvider('ollama')).toBe('openai:local');
+    // Built-in aliases cannot be taken over
+    expect(router.normalizeProvider('mistral')).toBe('mistral');
+    expect(router.getProviderLabel('openai:local')).toBe('Ollama');
+    expect(router.getProviderStatus().map((status) => status.provider)).toContain('openai:local');
+    expect(router.isProviderAvailable('openai:local')).toBe(true);
+    expect(router.getModel('1', 'openai:local')).toBe('llama3');
+    expect(router.getDeveloperModel('1', 'openai:local')).toBe('coder');
+  });
+
+  it('streams from the endpoint with the chat model override', async () => {
+    const router = createRouter();
+    router.setModel('1', 'openai:local', 'qwen');
+
+    const chunks: string[] = [];
+    const result = await router.processMessageStream('1', 'hoi', {
+      onContent: (chunk) => { chunks.push(chunk); },
+    });
+
+    expect(chunks).toEqual(['lokaal ', 'qwen']);
+    expect(result.text).toBe('lokaal qwen');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('uses instances as fallback after the built-in providers', async () => {
+    const zai = createStreamingService(['x'], 0);
+    const router = createRouter(zai);
+    router.setProvider('1', 'zai');
+
+    const result = await router.processMessageStream('1', 'hoi', {});
+
+    expect(zai.processMessage).toHaveBeenCalledTimes(1);
+    expect(result.text).toBe('lokaal llama3');
+  });
+
+  it('answers /code with the dev model', async () => {
+    const router = createRouter();
+
+    const result = await router.processDeveloperMessage('1', 'fix');
+
+    expect(result).toEqual({ text: 'lokaal coder', provider: 'openai:local', isFallback: false });
+    expect(requests[0].body.stream).toBe(false);
+  });
+});
+
+describe('LLMRouter anthropic provider', () => {
+  function createAnthropic() {
+    return {
+      ...createStreamingService(['Claude ', 'antwoordt']),
+      processDeveloperMessage: jest.fn(async (_chatId: string, _message: string, _options?: StreamOptions) => ({ text: 'dev antwoord' })),
+    };
+  }
+
+  it('is listed next to claude-cli and resolves its aliases', () => {
+    const router = new LLMRouter(
+      { anthropic: createAnthropic() as unknown as ClaudeService },
+      { defaultProvider: 'anthropic' }
+    );
+
+    expect(router.normalizeProvider('claude-api')).toBe('anthropic');
+    expect(router.normalizeProvider('claude')).toBe('claude-cli');
+    expect(router.getProviderStatus().map((status) => status.provider)).toEqual(
+      ['zai', 'minimax', 'mistral', 'anthropic', 'claude-cli']
+    );
+    expect(router.isProviderAvailable('anthropic')).toBe(true);
+  });
+
+  it('streams and takes part in the fallback', async () => {
+    const anthropic = createAnthropic();
+    const zai = createStreamingService(['x'], 0);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, anthropic: anthropic as unknown as ClaudeService },
+      { defaultProvider: 'zai' }
+    );
+
+    const chunks: string[] = [];
+    const result = await router.processMessageStream('1', 'hoi', {
+      onContent: (chunk) => { chunks.push(chunk); },
+    });
+
+    expect(chunks).toEqual(['Claude ', 'antwoordt']);
+    expect(result.sessionId).toBe('anthropic:1');
+  });
+
+  it('uses the developer prompt for /code', async () => {
+    const anthropic = createAnthropic();
+    const router = new LLMRouter(
+      { anthropic: anthropic as unknown as ClaudeService },
+      { defaultProvider: 'anthropic', devModels: { anthropic: 'claude-opus-4-1' } }
+    );
+
+    const result = await router.processDeveloperMessage('1', 'fix');
+
+    expect(result).toEqual({ text: 'dev antwoord', provider: 'anthropic', isFallback: false });
+    expect(anthropic.processDeveloperMessage).toHaveBeenCalledWith('1', 'fix', { model: 'claude-opus-4-1' });
+  });
+});
+
+describe('LLMRouter circuit breaker', () => {
+  it('skips a provider with an open circuit', async () => {
+    const zai = createStreamingService(['x'], 0);
+    const mistral = createStreamingService(['ok']);
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService, mistral: mistral as unknown as MistralService },
+      { defaultProvider: 'zai', health: { failureThreshold: 2, cooldownMs: 60_000 } }
+    );
+
+    await router.processMessageStream('1', 'a', {});
+    await router.processMessageStream('1', 'b', {});
+    expect(router.getProviderHealth('zai').state).toBe('open');
+
+    const result = await router.processMessageStream('1', 'c', {});
+    expect(result.text).toBe('ok');
+    expect(zai.processMessage).toHaveBeenCalledTimes(2);
+
+    const zaiStatus = router.getProviderStatus().find((status) => status.provider === 'zai');
+    expect(zaiStatus).toMatchObject({ configured: true, available: false });
+    expect(zaiStatus?.health.failures).toBe(2);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * LLM function calling tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  LLMRouter,
+  LLMToolRejectedError,
+  ToolCallAccumulator,
+  createLLMToolRegistry,
+  type LLMTool,
+  type LLMToolContext,
+  type LLMProvider,
+} from '../../../src/llm';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import type { ToolUseEvent } from '../../../src/streaming/types';
+
+interface RecordedRequest {
+  stream?: boolean;
+  messages: Array<{ role: string; content: string; tool_call_id?: string }>;
+  tools?: Array<{ function: { name: string } }>;
+}
+
+describe('ToolCallAccumulator', () => {
+  it('merges streamed fragments per index', () => {
+    const accumulator = new ToolCallAccumulator();
+    accumulator.push([{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_news', arguments: '{"cat' } }]);
+    accumulator.push([
+      { index: 0, function: { arguments: 'egory":"tech"}' } },
+      { index: 1, function: { name: 'search', arguments: '{}' } },
+    ]);
+
+    expect(accumulator.calls()).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'get_news', arguments: '{"category":"tech"}' } },
+      { id: 'call_1', type: 'function', function: { name: 'search', arguments: '{}' } },
+    ]);
+  });
+});
+
+describe('LLMRouter tools', () => {
+  let server: http.Server;
+  let service: OpenAICompatibleService;
+  const requests: RecordedRequest[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw) as RecordedRequest;
+        requests.push(body);
+        const answered = body.messages.some((message) => message.role === 'tool');
+        const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+        // Streamed like the real APIs: the tool call arrives in fragments
+        const deltas = answered || !body.tools
+          ? [{ content: 'Opgeslagen.' }]
+          : [
+            { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'create_note', arguments: '{"content":' } }] },
+            { tool_calls: [{ index: 0, function: { arguments: '"melk kopen"}' } }] },
+          ];
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const delta of deltas) {
+          res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`);
+        }
+        res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+  });
+
+  afterEach(async () => {
+    service.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createRouter(tool: LLMTool, toolProviders: LLMProvider[] = ['openai:local']) {
+    const zai = { getModel: () => 'glm-4.7', processMessage: jest.fn(async () => ({ text: 'fallback' })) };
+    const router = new LLMRouter(
+      { openAICompatible: [service], zai: zai as never },
+      {
+        defaultProvider: 'openai:local',
+        fallbackOrder: ['zai'],
+        tools: createLLMToolRegistry([tool]),
+        toolProviders,
+      }
+    );
+    return { router, zai };
+  }
+
+  it('runs the tool and sends the result back to the model', async () => {
+    const execute = jest.fn(async (_args: Record<string, unknown>, _context: LLMToolContext) => 'Note saved (id 1)');
+    const { router } = createRouter({
+      name: 'create_note',
+      description: 'Save a note',
+      parameters: { type: 'object', properties: { content: { type: 'string' } } },
+      requiresConfirmation: true,
+      execute,
+    });
+    const seen: ToolUseEvent[] = [];
+    const onToolResult = jest.fn(async () => {});
+
+    const result = await router.processMessageStream('7', 'onthoud melk kopen', {
+      onToolUse: async (tool) => { seen.push(tool); },
+      onToolResult,
+    });
+
+    expect(result.text).toBe('Opgeslagen.');
+    expect(execute).toHaveBeenCalledWith({ content: 'melk kopen' }, { chatId: '7', userId: undefined });
+    expect(seen[0]).toMatchObject({ name: 'create_note', requiresConfirmation: true });
+    expect(onToolResult).toHaveBeenCalledTimes(1);
+    expect(result.toolHistory).toHaveLength(1);
+    expect(result.usage?.inputTokens).toBe(20);
+
+    expect(requests[0].tools?.map((tool) => tool.function.name)).toEqual(['create_note']);
+    expect(requests[1].messages.find((message) => message.role === 'tool')).toMatchObject({
+      tool_call_id: 'call_1',
+      content: 'Note saved (id 1)',
+    });
+
+    // Tool messages stay out of the stored history
+    await router.processMessageStream('7', 'en nu?', {});
+    expect(requests[2].messages.map((message) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+  });
+
+  it('stops without fallback when the user rejects the call', async () => {
+    const execute = jest.fn(async () => 'saved');
+    const { router, zai } = createRouter({
+      name: 'create_note',
+      description: 'Save a note',
+      parameters: { type: 'object' },
+      requiresConfirmation: true,
+      execute,
+    });
+
+    await expect(router.processMessageStream('7', 'onthoud melk', {
+      onToolUse: async (tool) => { throw new LLMToolRejectedError(tool.name); },
+    })).rejects.toBeInstanceOf(LLMToolRejectedError);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(zai.processMessage).not.toHaveBeenCalled();
+    expect(router.getProviderHealth('openai:local').state).toBe('closed');
+  });
+
+  it('does not fall back once a tool has run', async () => {
+    const execute = jest.fn(async () => {
+      // The follow-up request with the tool result fails
+      server.closeAllConnections();
+      server.close();
+      return 'saved';
+    });
+    const { router, zai } = createRouter({
+      name: 'create_note',
+      description: 'Save a note',
+      parameters: { type: 'object' },
+      execute,
+    });
+
+    await expect(router.processMessageStream('7', 'onthoud melk', {})).rejects.toThrow();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(zai.processMessage).not.toHaveBeenCalled();
+  });
+
+  it('offers no tools to providers outside toolProviders', async () => {
+    const { router } = createRouter({
+      name: 'create_note',
+      description: 'Save a note',
+      parameters: { type: 'object' },
+      execute: async () => 'saved',
+    }, []);
+
+    await router.processMessageStream('7', 'hoi', {});
+    expect(requests[0].tools).toBeUndefined();
+  });
+});
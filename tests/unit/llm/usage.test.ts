@@ -0,0 +1,73 @@
+/**
+ * LLM usage accounting tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMRouter, LLMUsageTracker } from '../../../src/llm';
+import { DatabaseClient } from '../../../src/database';
+import type { ZAIService } from '../../../src/zai';
+
+describe('LLMUsageTracker', () => {
+  let tempDir: string;
+  let db: DatabaseClient;
+  let tracker: LLMUsageTracker;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tbp-llm-usage-'));
+    db = new DatabaseClient(path.join(tempDir, 'bot.db'));
+    tracker = new LLMUsageTracker(db, { 'glm-4.7': { input: 1, output: 2 } });
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('aggregates calls per chat, provider and model with configured prices', () => {
+    tracker.recordUsage({ chatId: '1', userId: '7', provider: 'zai', model: 'glm-4.7', inputTokens: 1000, outputTokens: 500 });
+    tracker.recordUsage({ chatId: '1', userId: '7', provider: 'zai', model: 'glm-4.7', inputTokens: 1000, outputTokens: 500 });
+    tracker.recordUsage({ chatId: '2', provider: 'claude-cli', inputTokens: 10, outputTokens: 20, costUSD: 0.5 });
+
+    const chatRows = tracker.getSummary('day', { chatId: '1' });
+    expect(chatRows).toHaveLength(1);
+    expect(chatRows[0]).toMatchObject({ provider: 'zai', model: 'glm-4.7', requests: 2, input_tokens: 2000, output_tokens: 1000 });
+    expect(chatRows[0].cost_usd).toBeCloseTo(0.004);
+
+    const perChat = tracker.getSummary('month', { byChat: true });
+    expect(perChat.map((row) => row.chat_id)).toEqual(['2', '1']);
+    expect(perChat[0].cost_usd).toBe(0.5);
+  });
+
+  it('matches prices by model prefix', () => {
+    expect(tracker.getPrice('claude-sonnet-4-5-20250929')).toEqual({ input: 3, output: 15 });
+    expect(tracker.calculateCost('unknown-model', 1000, 1000)).toBe(0);
+  });
+
+  it('is fed by the router for every successful call', async () => {
+    const zai = {
+      getModel: () => 'glm-4.7',
+      processMessage: jest.fn(async () => ({
+        text: 'ok',
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+      })),
+    };
+    const router = new LLMRouter(
+      { zai: zai as unknown as ZAIService },
+      { defaultProvider: 'zai', usage: tracker }
+    );
+
+    const result = await router.processMessageStream('1', 'hoi', {}, { userId: '7' });
+
+    expect(result.usage).toEqual({ inputTokens: 100, outputTokens: 50 });
+    expect(tracker.getSummary('week', { chatId: '1' })[0]).toMatchObject({
+      provider: 'zai',
+      model: 'glm-4.7',
+      requests: 1,
+      input_tokens: 100,
+      output_tokens: 50,
+    });
+  });
+});
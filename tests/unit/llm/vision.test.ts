@@ -0,0 +1,109 @@
+/**
+ * Vision tests
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { LLMRouter, LLMNoVisionProviderError, isVisionModel, withImages } from '../../../src/llm';
+import { OpenAICompatibleService } from '../../../src/openai-compatible';
+import type { ZAIService } from '../../../src/zai';
+
+const image = { mimeType: 'image/jpeg', data: 'aGFsbG8=' };
+
+describe('withImages', () => {
+  it('adds the images to the last user message only', () => {
+    const messages = [
+      { role: 'system', content: 'Wees kort' },
+      { role: 'user', content: 'Eerste vraag' },
+      { role: 'assistant', content: 'Antwoord' },
+      { role: 'user', content: 'Wat staat hierop?' },
+    ];
+
+    const result = withImages(messages, [image]);
+
+    expect(result.slice(0, 3)).toEqual(messages.slice(0, 3));
+    expect(result[3]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Wat staat hierop?' },
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGFsbG8=' } },
+      ],
+    });
+    expect(withImages(messages)).toBe(messages);
+  });
+
+  it('recognises multimodal model names', () => {
+    for (const model of ['pixtral-large-latest', 'glm-4.5v', 'glm-4v-plus', 'claude-sonnet-4-5', 'gpt-4o-mini', 'llava:13b', 'qwen2.5-vl-7b']) {
+      expect(isVisionModel(model)).toBe(true);
+    }
+    for (const model of ['glm-4.7', 'codestral-latest', 'mistral-large-latest', 'llama3.1:8b', undefined]) {
+      expect(isVisionModel(model)).toBe(false);
+    }
+  });
+});
+
+describe('LLMRouter with images', () => {
+  let server: http.Server;
+  let service: OpenAICompatibleService;
+  const requests: Array<{ model: string; messages: Array<{ role: string; content: unknown }> }> = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requests.push(JSON.parse(raw));
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'Een kat' } }] })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3.1:8b',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+  });
+
+  afterEach(async () => {
+    service.destroy();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('skips text-only providers and sends the photo to the vision model', async () => {
+    const zai = { getModel: () => 'glm-4.7', processMessage: jest.fn(async () => ({ text: 'tekst' })) };
+    const router = new LLMRouter(
+      { openAICompatible: [service], zai: zai as unknown as ZAIService },
+      { defaultProvider: 'zai', fallbackOrder: ['openai:local'], visionModels: { 'openai:local': 'llava:13b' } }
+    );
+
+    const result = await router.processMessageStream('1', 'Wat staat hierop?', {}, { images: [image] });
+
+    expect(result.provider).toBe('openai:local');
+    expect(zai.processMessage).not.toHaveBeenCalled();
+    expect(requests[0].model).toBe('llava:13b');
+    expect(requests[0].messages[requests[0].messages.length - 1].content).toEqual([
+      { type: 'text', text: 'Wat staat hierop?' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGFsbG8=' } },
+    ]);
+
+    // Only the text stays in the history
+    router.setProvider('1', 'openai:local');
+    await router.processMessageStream('1', 'En de kleur?', {});
+    expect(requests[1].model).toBe('llama3.1:8b');
+    expect(requests[1].messages.map((message) => message.content)).toContain('Wat staat hierop?');
+  });
+
+  it('refuses a photo when no provider can see it', async () => {
+    const router = new LLMRouter({ openAICompatible: [service] }, { defaultProvider: 'openai:local' });
+
+    await expect(router.processMessageStream('1', 'Wat staat hierop?', {}, { images: [image] }))
+      .rejects.toBeInstanceOf(LLMNoVisionProviderError);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * SSE parser tests
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createSSEParser } from '../../../src/utils/sse';
+import { OpenAICompatibleService, OpenAICompatibleServiceError } from '../../../src/openai-compatible';
+
+describe('sse parser', () => {
+  it('emits one payload per event, across chunk boundaries', () => {
+    const events: string[] = [];
+    const parser = createSSEParser((data) => events.push(data));
+
+    parser.push('data: {"a":');
+    parser.push('1}\n\ndata: [DO');
+    parser.push('NE]\n\n');
+
+    expect(events).toEqual(['{"a":1}', '[DONE]']);
+  });
+
+  it('handles CRLF, comments and multi-line data', () => {
+    const events: string[] = [];
+    const parser = createSSEParser((data) => events.push(data));
+
+    parser.push(': keep-alive\r\n\r\ndata: first\r\ndata: second\r\n\r\n');
+
+    expect(events).toEqual(['first\nsecond']);
+  });
+
+  it('flushes an unterminated event on end', () => {
+    const events: string[] = [];
+    const parser = createSSEParser((data) => events.push(data));
+
+    parser.push('data: tail');
+    expect(events).toEqual([]);
+
+    parser.end();
+    expect(events).toEqual(['tail']);
+  });
+});
+
+describe('streaming chat completion', () => {
+  let server: http.Server | undefined;
+  let service: OpenAICompatibleService | undefined;
+
+  afterEach(async () => {
+    service?.destroy();
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server!.close(resolve));
+    }
+  });
+
+  async function serve(body: string): Promise<OpenAICompatibleService> {
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    service = new OpenAICompatibleService({
+      name: 'local',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      model: 'llama3',
+      conversations: { cleanupIntervalMs: 0 },
+    });
+    return service;
+  }
+
+  const delta = (content: string, finishReason?: string) =>
+    `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content }, finish_reason: finishReason ?? null }] })}\n\n`;
+
+  it('rejects a stream that closes before [DONE] or a finish_reason', async () => {
+    const local = await serve(delta('Een half antw'));
+    const chunks: string[] = [];
+
+    await expect(local.processMessage('1', 'hoi', { onContent: (chunk) => chunks.push(chunk) }))
+      .rejects.toBeInstanceOf(OpenAICompatibleServiceError);
+    expect(chunks).toEqual(['Een half antw']);
+    expect(local.getHistory('1')).toEqual([]);
+  });
+
+  it('accepts a stream that ends with a finish_reason', async () => {
+    const local = await serve(delta('Klaar', 'stop'));
+
+    await expect(local.processMessage('1', 'hoi', { onContent: () => {} })).resolves.toMatchObject({ text: 'Klaar' });
+  });
+});
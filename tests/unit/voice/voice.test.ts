@@ -0,0 +1,116 @@
+/**
+ * Voice transcription tests
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ApiMethods } from '../../../src/api';
+import type { Message } from '../../../src/types/telegram';
+import {
+  createVoiceTranscriber,
+  createWhisperCppProvider,
+  handleVoiceMessage,
+  normalizeLanguage,
+  VoiceTranscriptionError,
+  type SpeechToTextProvider,
+} from '../../../src/features/voice';
+
+function createApi() {
+  return {
+    getFile: jest.fn<(fileId: string) => Promise<{ file_path: string }>>().mockResolvedValue({ file_path: 'voice/file_1.oga' }),
+    downloadFile: jest.fn<(filePath: string) => Promise<Buffer>>().mockResolvedValue(Buffer.from('ogg')),
+    sendChatAction: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+    sendMessage: jest.fn<(request: { text: string }) => Promise<unknown>>().mockResolvedValue({}),
+  };
+}
+
+function voiceMessage(duration: number): Message {
+  return {
+    message_id: 5,
+    date: 0,
+    chat: { id: 42, type: 'private', first_name: 'Sanne' },
+    voice: { file_id: 'voice1', file_unique_id: 'u1', duration, mime_type: 'audio/ogg' },
+  } as Message;
+}
+
+describe('handleVoiceMessage', () => {
+  it('transcribes with the language hint of the chat and echoes the transcript', async () => {
+    const provider: SpeechToTextProvider = {
+      name: 'test',
+      transcribe: jest.fn(async () => ({ text: 'Hoe laat is het?' })),
+    };
+    const transcriber = createVoiceTranscriber({ provider, defaultLanguage: 'en' });
+    transcriber.setLanguage('42', 'nl');
+    const api = createApi();
+
+    const text = await handleVoiceMessage(api as unknown as ApiMethods, voiceMessage(4), transcriber);
+
+    expect(text).toBe('Hoe laat is het?');
+    expect(api.downloadFile).toHaveBeenCalledWith('voice/file_1.oga');
+    expect(provider.transcribe).toHaveBeenCalledWith(Buffer.from('ogg'), expect.objectContaining({ language: 'nl', mimeType: 'audio/ogg' }));
+    expect(api.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ text: '🎙 Hoe laat is het?', reply_to_message_id: 5 }));
+
+    transcriber.setLanguage('42', 'auto');
+    await handleVoiceMessage(api as unknown as ApiMethods, voiceMessage(4), transcriber);
+    expect(provider.transcribe).toHaveBeenLastCalledWith(expect.any(Buffer), expect.objectContaining({ language: undefined }));
+  });
+
+  it('refuses messages over the max duration without downloading them', async () => {
+    const provider: SpeechToTextProvider = { name: 'test', transcribe: jest.fn(async () => ({ text: 'x' })) };
+    const transcriber = createVoiceTranscriber({ provider, maxDurationSec: 60 });
+    const api = createApi();
+
+    const text = await handleVoiceMessage(api as unknown as ApiMethods, voiceMessage(61), transcriber);
+
+    expect(text).toBeUndefined();
+    expect(api.getFile).not.toHaveBeenCalled();
+    expect(api.sendMessage.mock.calls[0][0].text).toContain('te lang');
+  });
+
+  it('accepts language codes and auto only', () => {
+    expect(normalizeLanguage(' NL ')).toBe('nl');
+    expect(normalizeLanguage('auto')).toBe('auto');
+    expect(normalizeLanguage('nederlands')).toBeUndefined();
+  });
+});
+
+describe('WhisperCppProvider', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-test-'));
+    // ffmpeg stand-in: create the output file (last argument)
+    fs.writeFileSync(path.join(dir, 'ffmpeg'), '#!/bin/sh\nfor last; do :; done\ntouch "$last"\n', { mode: 0o755 });
+    fs.writeFileSync(
+      path.join(dir, 'whisper'),
+      `#!/bin/sh\necho "$@" > "${dir}/args"\necho " Hallo"\necho " wereld."\n`,
+      { mode: 0o755 }
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('converts the audio and joins the transcript lines', async () => {
+    const provider = createWhisperCppProvider({
+      binary: path.join(dir, 'whisper'),
+      ffmpegBinary: path.join(dir, 'ffmpeg'),
+      model: '/models/ggml-base.bin',
+    });
+
+    const result = await provider.transcribe(Buffer.from('ogg'), { language: 'nl' });
+
+    expect(result.text).toBe('Hallo wereld.');
+    expect(fs.readFileSync(path.join(dir, 'args'), 'utf-8')).toContain('-m /models/ggml-base.bin');
+    expect(fs.readFileSync(path.join(dir, 'args'), 'utf-8')).toContain('-l nl');
+  });
+
+  it('reports a missing binary', async () => {
+    const provider = createWhisperCppProvider({ binary: path.join(dir, 'missing'), ffmpegBinary: path.join(dir, 'ffmpeg'), model: 'x' });
+
+    await expect(provider.transcribe(Buffer.from('ogg'))).rejects.toBeInstanceOf(VoiceTranscriptionError);
+  });
+});